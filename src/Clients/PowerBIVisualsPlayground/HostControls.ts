@@ -135,8 +135,18 @@ module powerbi.visuals {
                     viewport: this.viewport
                 });
             } else {
+                let dataViews: DataView[] = this.sampleDataViews.getDataViews();
+
+                // Without a backend to re-run the query, sort events are applied to the sample data by the host.
+                (<DefaultVisualHostServices>defaultVisualHostServices).setLocalDataView(dataViews[0], (dataView: DataView) => {
+                    this.visualElement.onDataChanged({
+                        dataViews: [dataView],
+                        suppressAnimations: this.suppressAnimations
+                    });
+                });
+
                 this.visualElement.onDataChanged({
-                    dataViews: this.sampleDataViews.getDataViews(),
+                    dataViews: dataViews,
                     suppressAnimations: this.suppressAnimations
                 });
 
@@ -36,6 +36,7 @@
 /// <reference path="sampleDataViews/SalesByCountryData.ts"/>
 /// <reference path="sampleDataViews/SalesByDayOfWeekData.ts"/>
 /// <reference path="sampleDataViews/ServicesByUsers.ts"/>
+/// <reference path="sampleDataViews/SimpleBulletChartData.ts"/>
 /// <reference path="sampleDataViews/SimpleDotPlotData.ts"/>
 /// <reference path="sampleDataViews/SimpleFunnelData.ts"/>
 /// <reference path="sampleDataViews/SimpleGaugeData.ts"/>
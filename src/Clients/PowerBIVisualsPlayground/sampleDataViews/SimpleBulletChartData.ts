@@ -0,0 +1,113 @@
+/*
+*  Power BI Visualizations
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved. 
+*  MIT License
+*
+*  Permission is hereby granted, free of charge, to any person obtaining a copy
+*  of this software and associated documentation files (the ""Software""), to deal
+*  in the Software without restriction, including without limitation the rights
+*  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+*  copies of the Software, and to permit persons to whom the Software is
+*  furnished to do so, subject to the following conditions:
+*   
+*  The above copyright notice and this permission notice shall be included in 
+*  all copies or substantial portions of the Software.
+*   
+*  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+*  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+*  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+*  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+*  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+*  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+*  THE SOFTWARE.
+*/
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals.sampleDataViews {
+    import DataViewTransform = powerbi.data.DataViewTransform;
+
+    export class SimpleBulletChartData extends SampleDataViews implements ISampleDataViewsMethods {
+
+        public name: string = "SimpleBulletChartData";
+        public displayName: string = "Simple bullet chart data";
+
+        public visuals: string[] = ['bulletChart'];
+
+        private sampleData = [270, 310, 180, 420, 95, 240];
+        private sampleTargets = [250, 300, 250, 400, 150, 260];
+
+        private sampleMin: number = 50;
+        private sampleMax: number = 450;
+
+        public getDataViews(): DataView[] {
+
+            let fieldExpr = powerbi.data.SQExprBuilder.fieldExpr({ column: { schema: 's', entity: "bullet", name: "region" } });
+
+            let categoryValues = ["North", "South", "East", "West", "Central", "Overseas"];
+            let categoryIdentities = categoryValues.map(function (value) {
+                let expr = powerbi.data.SQExprBuilder.equal(fieldExpr, powerbi.data.SQExprBuilder.text(value));
+                return powerbi.data.createDataViewScopeIdentity(expr);
+            });
+
+            let dataViewMetadata: powerbi.DataViewMetadata = {
+                columns: [
+                    {
+                        displayName: 'Region',
+                        queryName: 'Region',
+                        roles: { 'Category': true },
+                        type: powerbi.ValueType.fromDescriptor({ text: true })
+                    },
+                    {
+                        displayName: 'Revenue',
+                        isMeasure: true,
+                        format: "$0",
+                        queryName: 'revenue',
+                        roles: { 'Y': true },
+                        type: powerbi.ValueType.fromDescriptor({ numeric: true }),
+                    },
+                    {
+                        displayName: 'Budget',
+                        isMeasure: true,
+                        format: "$0",
+                        queryName: 'budget',
+                        roles: { 'TargetValue': true },
+                        type: powerbi.ValueType.fromDescriptor({ numeric: true }),
+                    }
+                ]
+            };
+
+            let columns = [
+                {
+                    source: dataViewMetadata.columns[1],
+                    values: this.sampleData,
+                },
+                {
+                    source: dataViewMetadata.columns[2],
+                    values: this.sampleTargets,
+                },
+            ];
+
+            let dataValues: DataViewValueColumns = DataViewTransform.createValueColumns(columns);
+
+            return [{
+                metadata: dataViewMetadata,
+                categorical: {
+                    categories: [{
+                        source: dataViewMetadata.columns[0],
+                        values: categoryValues,
+                        identity: categoryIdentities,
+                    }],
+                    values: dataValues
+                }
+            }];
+        }
+
+        public randomize(): void {
+
+            this.sampleData = this.sampleData.map(() => this.getRandomValue(this.sampleMin, this.sampleMax));
+        }
+    }
+}
@@ -0,0 +1,539 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import BreakdownTree = powerbi.visuals.BreakdownTree;
+    import BreakdownTreeData = powerbi.visuals.BreakdownTreeData;
+    import BreakdownTreeLevel = powerbi.visuals.BreakdownTreeLevel;
+    import BreakdownTreeSlice = powerbi.visuals.BreakdownTreeSlice;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import ValueType = powerbi.ValueType;
+    import PrimitiveType = powerbi.PrimitiveType;
+
+    function createRegionDataView(objects?: powerbi.DataViewObjects, categoryObjects?: powerbi.DataViewObjects, highlights?: number[]): powerbi.DataView {
+        var columns: powerbi.DataViewMetadataColumn[] = [
+            {
+                displayName: "Region",
+                queryName: "region",
+                roles: { "Category": true },
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                objects: categoryObjects,
+            }, {
+                displayName: "Sales",
+                queryName: "sales",
+                roles: { "Y": true },
+                isMeasure: true,
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+            }];
+
+        return {
+            metadata: {
+                columns: columns,
+                objects: objects,
+            },
+            categorical: {
+                categories: [{
+                    source: columns[0],
+                    values: ["North", "South", "East", "West"],
+                    identity: [
+                        mocks.dataViewScopeIdentity("North"),
+                        mocks.dataViewScopeIdentity("South"),
+                        mocks.dataViewScopeIdentity("East"),
+                        mocks.dataViewScopeIdentity("West"),
+                    ],
+                }],
+                values: DataViewTransform.createValueColumns([{
+                    source: columns[1],
+                    values: [40, 30, 20, 10],
+                    highlights: highlights,
+                }]),
+            },
+        };
+    }
+
+    describe("BreakdownTree drill state", () => {
+        function createSlice(label: string, value: number, queryName: string, isSelectedForDrill: boolean): BreakdownTreeSlice {
+            return <BreakdownTreeSlice>{
+                label: label,
+                value: value,
+                formattedValue: "$" + value,
+                isSelectedForDrill: isSelectedForDrill,
+                dimensionAttributeQueryName: queryName,
+                dimensionAttributeFriendlyName: queryName.toUpperCase(),
+            };
+        }
+
+        function createLevel(slices: BreakdownTreeSlice[]): BreakdownTreeLevel {
+            return <BreakdownTreeLevel>{
+                data: {
+                    slices: slices,
+                    categoryLabels: slices.map(d => d.label),
+                    valuesMetadata: [],
+                    hasHighlights: false,
+                    highlightsOverflow: false,
+                    dataLabelsSettings: null,
+                    canShowDataLabels: true,
+                },
+            };
+        }
+
+        function createDrillStateObjects(path: string): powerbi.DataViewObjects {
+            return {
+                drillState: {
+                    path: path,
+                },
+            };
+        }
+
+        it("getDrillState records the selected label of each level", () => {
+            var levels = [
+                createLevel([createSlice("North", 10, "region", false), createSlice("South", 20, "region", true)]),
+                createLevel([createSlice("Bikes", 5, "product", false), createSlice("Cars", 15, "product", false)]),
+            ];
+
+            var drillState = BreakdownTree.getDrillState(levels);
+
+            expect(drillState.length).toBe(2);
+            expect(drillState[0].queryName).toBe("region");
+            expect(drillState[0].displayName).toBe("REGION");
+            expect(drillState[0].selectedLabel).toBe("South");
+            expect(drillState[1].queryName).toBe("product");
+            expect(drillState[1].selectedLabel).toBeNull();
+        });
+
+        it("getDrillState only keeps a snapshot of the ancestor levels", () => {
+            var levels = [
+                createLevel([createSlice("North", 10, "region", true)]),
+                createLevel([createSlice("Bikes", 5, "product", false)]),
+            ];
+
+            var drillState = BreakdownTree.getDrillState(levels);
+
+            expect(drillState[0].slices).toEqual([{ label: "North", value: 10, formattedValue: "$10" }]);
+            expect(drillState[1].slices).toBeUndefined();
+        });
+
+        it("getDrillState stops at the first empty level", () => {
+            var levels = [
+                createLevel([createSlice("North", 10, "region", true)]),
+                createLevel([]),
+                createLevel([createSlice("Bikes", 5, "product", false)]),
+            ];
+
+            expect(BreakdownTree.getDrillState(levels).length).toBe(1);
+        });
+
+        it("parseDrillState reads back a persisted drill state", () => {
+            var levels = [
+                createLevel([createSlice("North", 10, "region", true)]),
+                createLevel([createSlice("Bikes", 5, "product", false)]),
+            ];
+            var drillState = BreakdownTree.getDrillState(levels);
+
+            expect(BreakdownTree.parseDrillState(createDrillStateObjects(JSON.stringify(drillState)))).toEqual(drillState);
+        });
+
+        it("parseDrillState returns an empty path without a persisted drill state", () => {
+            expect(BreakdownTree.parseDrillState(undefined)).toEqual([]);
+            expect(BreakdownTree.parseDrillState(createDrillStateObjects(""))).toEqual([]);
+        });
+
+        it("parseDrillState ignores a path that is not an array", () => {
+            expect(BreakdownTree.parseDrillState(createDrillStateObjects("{\"queryName\":\"region\"}"))).toEqual([]);
+        });
+    });
+
+    describe("BreakdownTree drill state restore", () => {
+        var element: JQuery;
+        var hostServices: powerbi.IVisualHostServices;
+        var visual: BreakdownTree;
+        var countryLevel = {
+            queryName: "country",
+            displayName: "Country",
+            selectedLabel: "USA",
+            slices: [
+                { label: "USA", value: 100, formattedValue: "100" },
+                { label: "Canada", value: 50, formattedValue: "50" },
+            ],
+        };
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("300", "400");
+            hostServices = powerbitests.mocks.createVisualHostServices();
+            visual = new BreakdownTree();
+            visual.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+            });
+        });
+
+        function render(drillPath: any[]): jasmine.Spy {
+            var persistSpy = spyOn(hostServices, "persistProperties");
+            visual.update({
+                dataViews: [createRegionDataView({
+                    drillState: { path: JSON.stringify(drillPath) },
+                    layout: { mode: "HORIZONTAL" },
+                })],
+                viewport: { height: 300, width: 400 },
+                suppressAnimations: true,
+            });
+
+            return persistSpy;
+        }
+
+        function getPersistedPath(persistSpy: jasmine.Spy): any[] {
+            var changes: powerbi.VisualObjectInstancesToPersist = persistSpy.calls.mostRecent().args[0];
+            return JSON.parse((<powerbi.data.SQConstantExpr>changes.merge[0].properties["path"]).value);
+        }
+
+        function getTreeNodes(): BreakdownTreeSlice[] {
+            return element.find(".TreeNode").get().map(node => <BreakdownTreeSlice>d3.select(node).datum());
+        }
+
+        function findTreeNode(key: string): JQuery {
+            return element.find(".TreeNode").filter((index: number, node: Element) => (<BreakdownTreeSlice>d3.select(node).datum()).key === key);
+        }
+
+        it("rebuilds the ancestor levels of the persisted path", () => {
+            var persistSpy = render([countryLevel, { queryName: "region", displayName: "Region", selectedLabel: "South" }]);
+
+            var nodes = getTreeNodes();
+            expect(nodes.map(d => d.label)).toEqual(["USA", "North", "South", "East", "West"]);
+            expect(nodes[0].isRestored).toBe(true);
+            expect(nodes[0].isSelectedForDrill).toBe(true);
+            expect(nodes[0].identity.hasIdentity()).toBe(false);
+            expect(nodes.filter(d => d.isSelectedForDrill).map(d => d.label)).toEqual(["USA", "South"]);
+
+            // The restored path is the persisted one, so there is nothing new to persist
+            expect(persistSpy).not.toHaveBeenCalled();
+        });
+
+        it("leaves the current level unselected when its persisted category is gone", () => {
+            render([countryLevel, { queryName: "region", displayName: "Region", selectedLabel: "Central" }]);
+
+            var nodes = getTreeNodes();
+            expect(nodes.length).toBe(5);
+            expect(nodes.filter(d => d.isSelectedForDrill).map(d => d.label)).toEqual(["USA"]);
+        });
+
+        it("prunes a path that does not lead to the current level", () => {
+            var persistSpy = render([countryLevel, { queryName: "city", displayName: "City", selectedLabel: "Boston" }]);
+
+            expect(getTreeNodes().map(d => d.label)).toEqual(["North", "South", "East", "West"]);
+            expect(getPersistedPath(persistSpy)).toEqual([{ queryName: "region", displayName: "Region", selectedLabel: null }]);
+        });
+
+        it("prunes a path whose ancestor lost its selected category", () => {
+            var brokenCountryLevel = _.clone(countryLevel);
+            brokenCountryLevel.selectedLabel = "Mexico";
+            var persistSpy = render([brokenCountryLevel, { queryName: "region", displayName: "Region", selectedLabel: "South" }]);
+
+            expect(getTreeNodes().map(d => d.label)).toEqual(["North", "South", "East", "West"]);
+            expect(getPersistedPath(persistSpy)).toEqual([{ queryName: "region", displayName: "Region", selectedLabel: null }]);
+        });
+
+        it("does not select the restored slices", () => {
+            render([countryLevel, { queryName: "region", displayName: "Region", selectedLabel: "South" }]);
+            var onSelectSpy = spyOn(hostServices, "onSelect");
+
+            (<any>findTreeNode("country|USA").find(".TreeNodeBox")).d3Click(0, 0);
+            expect(onSelectSpy).not.toHaveBeenCalled();
+
+            (<any>findTreeNode(getTreeNodes()[2].key).find(".TreeNodeBox")).d3Click(0, 0);
+            expect(onSelectSpy).toHaveBeenCalled();
+        });
+    });
+
+    describe("BreakdownTree selection", () => {
+        var element: JQuery;
+        var hostServices: powerbi.IVisualHostServices;
+        var visual: BreakdownTree;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("300", "400");
+            hostServices = powerbitests.mocks.createVisualHostServices();
+            visual = new BreakdownTree();
+            visual.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+            });
+        });
+
+        function render(highlights?: number[]): void {
+            visual.update({
+                dataViews: [createRegionDataView(undefined, undefined, highlights)],
+                viewport: { height: 300, width: 400 },
+                suppressAnimations: true,
+            });
+        }
+
+        function getBarOpacities(): string[] {
+            return element.find(".Box").get().map(bar => bar.style.fillOpacity);
+        }
+
+        function getWidths(selector: string): number[] {
+            return element.find(selector).get().map(bar => Number(bar.getAttribute("width")));
+        }
+
+        it("A click selects a single slice and dims the others", () => {
+            render();
+            var onSelectSpy = spyOn(hostServices, "onSelect");
+
+            (<any>element.find(".BoxClick").eq(1)).d3Click(0, 0);
+            (<any>element.find(".BoxClick").eq(2)).d3Click(0, 0);
+
+            expect(onSelectSpy.calls.mostRecent().args[0].data.length).toBe(1);
+            expect(getBarOpacities()).toEqual(["0.4", "0.4", "1", "0.4"]);
+        });
+
+        it("A Ctrl click adds the slice to the selection", () => {
+            render();
+            var onSelectSpy = spyOn(hostServices, "onSelect");
+
+            (<any>element.find(".BoxClick").eq(1)).d3Click(0, 0);
+            (<any>element.find(".BoxClick").eq(2)).d3Click(0, 0, powerbitests.helpers.ClickEventType.CtrlKey);
+
+            expect(onSelectSpy.calls.mostRecent().args[0].data.length).toBe(2);
+            expect(getBarOpacities()).toEqual(["0.4", "1", "1", "0.4"]);
+        });
+
+        it("A click on the background clears the selection", () => {
+            render();
+            var onSelectSpy = spyOn(hostServices, "onSelect");
+
+            (<any>element.find(".BoxClick").eq(1)).d3Click(0, 0);
+            (<any>element.find(".clearCatcher")).d3Click(0, 0);
+
+            expect(onSelectSpy.calls.mostRecent().args[0].data).toEqual([]);
+            expect(getBarOpacities()).toEqual(["1", "1", "1", "1"]);
+        });
+
+        it("The highlighted part of the percent bars follows the highlights", () => {
+            render([20, 15, 0, 5]);
+
+            // The percent bars are relative to the largest value of the level
+            var barWidths = getWidths(".PercBar");
+            var highlightWidths = getWidths(".PercBarHighlight");
+            expect(highlightWidths.length).toBe(4);
+            [0.5, 0.375, 0, 0.125].forEach((ratio: number, i: number) => {
+                expect(highlightWidths[i]).toBeCloseTo(ratio * barWidths[i], 6);
+            });
+        });
+
+        it("The percent bars are dimmed behind the highlights", () => {
+            render([20, 15, 0, 5]);
+
+            expect(element.find(".PercBarBar").get().map(bar => bar.style.fillOpacity)).toEqual(["0.4", "0.4", "0.4", "0.4"]);
+        });
+
+        it("No highlight bars are drawn without highlights", () => {
+            render();
+
+            expect(element.find(".PercBarHighlight").length).toBe(0);
+        });
+    });
+
+    describe("BreakdownTree tree layout", () => {
+        it("getTreeLinkPath bends a horizontal link halfway between the levels", () => {
+            var path = BreakdownTree.getTreeLinkPath({ x: 0, y: 10 }, { x: 100, y: 50 }, false);
+
+            expect(path).toBe("M0,10C50,10 50,50 100,50");
+        });
+
+        it("getTreeLinkPath bends a vertical link halfway between the levels", () => {
+            var path = BreakdownTree.getTreeLinkPath({ x: 10, y: 0 }, { x: 50, y: 80 }, true);
+
+            expect(path).toBe("M10,0C10,40 50,40 50,80");
+        });
+
+        it("getTreeLinkPath collapses to a point when source and target match", () => {
+            var point = { x: 20, y: 30 };
+
+            expect(BreakdownTree.getTreeLinkPath(point, point, false)).toBe("M20,30C20,30 20,30 20,30");
+            expect(BreakdownTree.getTreeLinkPath(point, point, true)).toBe("M20,30C20,30 20,30 20,30");
+        });
+    });
+
+    describe("BreakdownTree Top N", () => {
+        function createLevelData(values: number[], hasHighlights: boolean = false): BreakdownTreeData {
+            var slices = values.map((value, i) => {
+                var slice = <BreakdownTreeSlice>{
+                    label: "Member " + i,
+                    value: value,
+                    color: "#ff0000",
+                    currentLevelIndex: 1,
+                    dimensionAttributeQueryName: "region",
+                    dimensionAttributeFriendlyName: "Region",
+                };
+                if (hasHighlights)
+                    slice.highlightValue = value / 2;
+                return slice;
+            });
+
+            return {
+                slices: slices,
+                categoryLabels: slices.map(d => d.label),
+                valuesMetadata: [{ displayName: "Sales" }],
+                hasHighlights: hasHighlights,
+                highlightsOverflow: false,
+                dataLabelsSettings: null,
+                canShowDataLabels: true,
+            };
+        }
+
+        function formatValue(value: number): string {
+            return "$" + value;
+        }
+
+        it("applyTopN aggregates the slices after the Top N ones into an Others slice", () => {
+            var levelData = createLevelData([50, 40, 30, 20, 10]);
+            BreakdownTree.applyTopN(levelData, 2, formatValue, "Others", "Collapsed members");
+
+            expect(levelData.slices.map(d => d.label)).toEqual(["Member 0", "Member 1", "Others"]);
+            expect(levelData.categoryLabels).toEqual(["Member 0", "Member 1", "Others"]);
+            expect(levelData.topNCount).toBe(2);
+
+            var othersSlice = levelData.slices[2];
+            expect(othersSlice.isOthers).toBe(true);
+            expect(othersSlice.value).toBe(60);
+            expect(othersSlice.formattedValue).toBe("$60");
+            expect(othersSlice.highlightValue).toBeUndefined();
+            expect(othersSlice.othersSlices.map(d => d.label)).toEqual(["Member 2", "Member 3", "Member 4"]);
+            expect(othersSlice.currentLevelIndex).toBe(1);
+            expect(othersSlice.tooltipInfo).toEqual([
+                { displayName: "Region", value: "Others" },
+                { displayName: "Sales", value: "$60" },
+                { displayName: "Collapsed members", value: "3" },
+            ]);
+        });
+
+        it("applyTopN sums the highlights of the aggregated slices", () => {
+            var levelData = createLevelData([50, 40, 30, 20], true);
+            BreakdownTree.applyTopN(levelData, 2, formatValue, "Others", "Collapsed members");
+
+            expect(levelData.slices[2].highlightValue).toBe(25);
+        });
+
+        it("applyTopN keeps a level that an Others slice would not shorten", () => {
+            var levelData = createLevelData([50, 40, 30]);
+            BreakdownTree.applyTopN(levelData, 2, formatValue, "Others", "Collapsed members");
+
+            expect(levelData.slices.length).toBe(3);
+            expect(levelData.slices.some(d => d.isOthers)).toBe(false);
+            expect(levelData.topNCount).toBeUndefined();
+        });
+
+        it("expandOthers replaces the Others slice with the slices it aggregates", () => {
+            var levelData = createLevelData([50, 40, 30, 20, 10]);
+            var hiddenSlices = levelData.slices.slice(2);
+            BreakdownTree.applyTopN(levelData, 2, formatValue, "Others", "Collapsed members");
+
+            hiddenSlices.forEach(d => d.currentLevelIndex = 0);
+            BreakdownTree.expandOthers(levelData, levelData.slices[2]);
+
+            expect(levelData.slices.map(d => d.label)).toEqual(["Member 0", "Member 1", "Member 2", "Member 3", "Member 4"]);
+            expect(levelData.categoryLabels).toEqual(levelData.slices.map(d => d.label));
+            expect(levelData.topNCount).toBeUndefined();
+            expect(hiddenSlices.every(d => d.currentLevelIndex === 1)).toBe(true);
+        });
+
+        it("expandOthers ignores a slice that is not on the level", () => {
+            var levelData = createLevelData([50, 40, 30, 20, 10]);
+            BreakdownTree.applyTopN(levelData, 2, formatValue, "Others", "Collapsed members");
+            var otherLevelData = createLevelData([5, 4, 3, 2]);
+            BreakdownTree.applyTopN(otherLevelData, 1, formatValue, "Others", "Collapsed members");
+
+            BreakdownTree.expandOthers(levelData, otherLevelData.slices[1]);
+
+            expect(levelData.slices.length).toBe(3);
+            expect(levelData.topNCount).toBe(2);
+        });
+
+        it("getTopNSettings reads the settings of a level", () => {
+            expect(BreakdownTree.getTopNSettings(null)).toEqual({ show: false, count: BreakdownTree.DefaultTopNCount });
+            expect(BreakdownTree.getTopNSettings({ topN: { show: true, count: 3.7 } })).toEqual({ show: true, count: 3 });
+            expect(BreakdownTree.getTopNSettings({ topN: { show: true, count: 0 } })).toEqual({ show: true, count: 1 });
+        });
+
+        describe("enumeration", () => {
+            var visual: BreakdownTree;
+
+            beforeEach(() => {
+                var element = powerbitests.helpers.testDom("300", "400");
+                visual = new BreakdownTree();
+                visual.init({
+                    element: element,
+                    host: powerbitests.mocks.createVisualHostServices(),
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width()
+                    },
+                });
+            });
+
+            it("enumerates the Top N settings of the level with its column selector", () => {
+                visual.update({
+                    dataViews: [createRegionDataView(undefined, { topN: { show: true, count: 2 } })],
+                    viewport: { height: 300, width: 400 },
+                });
+
+                expect(visual.enumerateObjectInstances({ objectName: "topN" })).toEqual([{
+                    objectName: "topN",
+                    displayName: "Region",
+                    selector: { metadata: "region" },
+                    properties: {
+                        show: true,
+                        count: 2,
+                    },
+                }]);
+            });
+
+            it("ignores Top N settings that are not on the column of the level", () => {
+                visual.update({
+                    dataViews: [createRegionDataView({ topN: { show: true, count: 2 } })],
+                    viewport: { height: 300, width: 400 },
+                });
+
+                var instances = visual.enumerateObjectInstances({ objectName: "topN" });
+                expect(instances.length).toBe(1);
+                expect(instances[0].properties).toEqual({ show: false, count: BreakdownTree.DefaultTopNCount });
+            });
+        });
+    });
+}
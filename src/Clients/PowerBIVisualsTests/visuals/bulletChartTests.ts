@@ -0,0 +1,239 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import BulletChart = powerbi.visuals.BulletChart;
+    import bulletChartCapabilities = powerbi.visuals.bulletChartCapabilities;
+    import bulletChartProps = powerbi.visuals.bulletChartProps;
+    import DataViewObjectDescriptors = powerbi.data.DataViewObjectDescriptors;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import ValueType = powerbi.ValueType;
+    import PrimitiveType = powerbi.PrimitiveType;
+
+    powerbitests.mocks.setLocale();
+
+    describe("BulletChart", () => {
+        it("BulletChart registered capabilities", () => {
+            expect(powerbi.visuals.visualPluginFactory.create().getPlugin("bulletChart").capabilities).toBe(bulletChartCapabilities);
+        });
+
+        it("Capabilities should include dataViewMappings", () => {
+            expect(bulletChartCapabilities.dataViewMappings).toBeDefined();
+        });
+
+        it("Capabilities should include dataRoles", () => {
+            expect(bulletChartCapabilities.dataRoles).toBeDefined();
+        });
+
+        it("FormatString property should match calculated", () => {
+            expect(DataViewObjectDescriptors.findFormatString(bulletChartCapabilities.objects)).toEqual(bulletChartProps.general.formatString);
+        });
+    });
+
+    describe("BulletChart data and rendering", () => {
+        var categoryColumnRef = SQExprBuilder.fieldDef({ schema: "s", entity: "e", column: "region" });
+        var colors = powerbi.visuals.visualStyles.create().colorPalette.dataColors;
+        var dataViewMetadata: powerbi.DataViewMetadata;
+
+        beforeEach(() => {
+            dataViewMetadata = {
+                columns: [
+                    {
+                        displayName: "Region",
+                        queryName: "region",
+                        roles: { "Category": true },
+                        type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                    }, {
+                        displayName: "Sales",
+                        queryName: "sales",
+                        roles: { "Y": true },
+                        isMeasure: true,
+                        objects: { general: { formatString: "$0" } },
+                    }, {
+                        displayName: "Budget",
+                        queryName: "budget",
+                        roles: { "TargetValue": true },
+                        isMeasure: true,
+                        objects: { general: { formatString: "$0" } },
+                    }],
+            };
+        });
+
+        function buildDataView(values: number[][], extraColumns: powerbi.DataViewMetadataColumn[] = []): powerbi.DataView {
+            dataViewMetadata.columns = dataViewMetadata.columns.concat(extraColumns);
+
+            return {
+                metadata: dataViewMetadata,
+                categorical: {
+                    categories: [{
+                        source: dataViewMetadata.columns[0],
+                        values: ["North", "South"],
+                        identity: [mocks.dataViewScopeIdentity("North"), mocks.dataViewScopeIdentity("South")],
+                        identityFields: [categoryColumnRef],
+                    }],
+                    values: DataViewTransform.createValueColumns(values.map((columnValues, i) => {
+                        return {
+                            source: dataViewMetadata.columns[i + 1],
+                            values: columnValues,
+                        };
+                    })),
+                },
+            };
+        }
+
+        it("Converter fills the gauge defaults for each category", () => {
+            var data = BulletChart.converter(buildDataView([[60, 150], [80, 100]]), colors);
+
+            expect(data.dataPoints.length).toBe(2);
+            expect(data.orientation).toBe("Horizontal");
+
+            var north = data.dataPoints[0];
+            expect(north.category).toBe("North");
+            expect(north.total).toBe(60);
+            expect(north.target).toBe(80);
+            expect(north.min).toBe(0);
+            expect(north.max).toBe(80);
+            expect(north.bands).toEqual([40, 60, 80]);
+            expect(north.tooltipInfo).toEqual([
+                { displayName: "Region", value: "North" },
+                { displayName: "Sales", value: "$60" },
+                { displayName: "Budget", value: "$80" },
+            ]);
+
+            // The range covers the value when it is past the target
+            expect(data.dataPoints[1].max).toBe(150);
+        });
+
+        it("Converter uses the bound range and bands", () => {
+            var dataView = buildDataView([[60, 150], [80, 100], [200, 200], [50, 120], [100, 250]], [
+                {
+                    displayName: "Max",
+                    queryName: "max",
+                    roles: { "MaxValue": true },
+                    isMeasure: true,
+                }, {
+                    displayName: "Poor",
+                    queryName: "poor",
+                    roles: { "Bands": true },
+                    isMeasure: true,
+                }, {
+                    displayName: "Ok",
+                    queryName: "ok",
+                    roles: { "Bands": true },
+                    isMeasure: true,
+                }]);
+            dataView.metadata.objects = { axis: { max: 1000, target: 10 } };
+
+            var data = BulletChart.converter(dataView, colors);
+
+            // The bound measures win over the formatting pane
+            expect(data.dataPoints[0].max).toBe(200);
+            expect(data.dataPoints[0].target).toBe(80);
+            expect(data.dataPoints[0].bands).toEqual([50, 100]);
+
+            // Bands are clipped to the range
+            expect(data.dataPoints[1].bands).toEqual([120, 200]);
+        });
+
+        it("Converter applies the axis properties to unbound roles", () => {
+            var dataView = buildDataView([[60, 150], [80, 100]]);
+            dataView.metadata.objects = { axis: { min: 10, max: 300, target: 10 } };
+
+            var data = BulletChart.converter(dataView, colors);
+
+            expect(data.dataPoints[0].min).toBe(10);
+            expect(data.dataPoints[0].max).toBe(300);
+            expect(data.dataPoints[0].target).toBe(80);
+        });
+
+        describe("DOM", () => {
+            var element: JQuery;
+            var visual: powerbi.IVisual;
+
+            beforeEach(() => {
+                element = powerbitests.helpers.testDom("300", "400");
+                visual = powerbi.visuals.visualPluginFactory.create().getPlugin("bulletChart").create();
+                visual.init({
+                    element: element,
+                    host: powerbitests.mocks.createVisualHostServices(),
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width()
+                    },
+                });
+            });
+
+            it("Renders a bullet per category", () => {
+                visual.update({
+                    dataViews: [buildDataView([[60, 150], [80, 100]])],
+                    viewport: { height: 300, width: 400 },
+                });
+
+                var bullets = element.find(".bullet");
+                expect(bullets.length).toBe(2);
+                expect(bullets.first().find(".band").length).toBe(3);
+                expect(bullets.first().find(".valueBar").length).toBe(1);
+                expect(bullets.first().find(".target").css("display")).not.toBe("none");
+                expect(bullets.first().find(".categoryLabel").text()).toBe("North");
+                expect(bullets.first().find(".axis .tick").length).toBeGreaterThan(1);
+            });
+
+            it("Renders the bullets side by side when vertical", () => {
+                var dataView = buildDataView([[60, 150], [80, 100]]);
+                dataView.metadata.objects = { general: { orientation: "Vertical" } };
+
+                visual.update({
+                    dataViews: [dataView],
+                    viewport: { height: 300, width: 400 },
+                });
+
+                var valueBars = element.find(".valueBar");
+                expect(+valueBars.first().attr("height")).toBeGreaterThan(+valueBars.first().attr("width"));
+                expect(+element.find("svg").attr("height")).toBe(300);
+            });
+
+            it("Dims the other bullets on selection", (done) => {
+                visual.update({
+                    dataViews: [buildDataView([[60, 150], [80, 100]])],
+                    viewport: { height: 300, width: 400 },
+                });
+
+                (<any>element.find(".bullet").first()).d3Click(0, 0);
+
+                setTimeout(() => {
+                    var bullets = element.find(".bullet");
+                    expect(bullets.first().css("opacity")).toBe("1");
+                    expect(+bullets.last().css("opacity")).toBeLessThan(1);
+                    done();
+                }, DefaultWaitForRender);
+            });
+        });
+    });
+}
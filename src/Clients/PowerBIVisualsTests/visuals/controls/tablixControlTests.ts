@@ -187,6 +187,145 @@ module powerbitests {
 
             expect(spy).toHaveBeenCalled();
         });
+
+        it("container exposes the grid role", () => {
+            expect(tablixControl.container.getAttribute("role")).toBe("grid");
+            expect(tablixControl.focusManager).toBeDefined();
+        });
+
+        it("frozen columns precede the scrolled columns", () => {
+            var columnDimension = tablixControl.columnDimension;
+            columnDimension.model = [1];
+            spyOn(columnDimension, "getItemsCount").and.returnValue(5);
+            tablixControl.frozenColumnCount = 2;
+            columnDimension.scrollOffset = 1.5;
+
+            expect(columnDimension.getFrozenCount()).toBe(2);
+            expect(tablixControl.rowDimension.getFrozenCount()).toBe(0);
+            expect(layoutManager.columnLayoutManager.getPinnedItemsCount()).toBe(2);
+
+            expect(columnDimension.getLeafIndex(0)).toBe(0);
+            expect(columnDimension.getLeafIndex(1)).toBe(1);
+            expect(columnDimension.getLeafIndex(2)).toBe(3);
+
+            // Only the columns after the frozen ones can be scrolled
+            expect(columnDimension.getValidScrollOffset(10)).toBeCloseTo(2.9, 5);
+
+            tablixControl.frozenColumnCount = 10;
+            expect(columnDimension.getFrozenCount()).toBe(5);
+        });
+    });
+
+    describe("TablixCellPresenter", () => {
+
+        it("cell type sets the ARIA role", () => {
+            var presenter = new InternalControls.TablixCellPresenter(false, Controls.TablixLayoutKind.Canvas);
+            var tableCell = <HTMLTableCellElement>document.createElement("td");
+            presenter.registerTableCell(tableCell);
+            var cell = new InternalControls.TablixCell(presenter, presenter, null);
+
+            cell.type = Controls.TablixCellType.BodyCell;
+            tableCell.tabIndex = 0;
+            expect(tableCell.getAttribute("role")).toBe("gridcell");
+
+            cell.type = Controls.TablixCellType.RowHeader;
+            expect(tableCell.getAttribute("role")).toBe("rowheader");
+            expect(tableCell.hasAttribute("tabindex")).toBe(false);
+
+            cell.type = Controls.TablixCellType.ColumnHeader;
+            expect(tableCell.getAttribute("role")).toBe("columnheader");
+
+            cell.type = Controls.TablixCellType.CornerCell;
+            expect(tableCell.getAttribute("role")).toBe("columnheader");
+
+            cell.type = null;
+            expect(tableCell.hasAttribute("role")).toBe(false);
+        });
+    });
+
+    describe("TablixFocusManager", () => {
+        var DOMConstants = jsCommon.DOMConstants;
+        var tablixControl: Controls.TablixControl;
+        var focusManager: Controls.TablixFocusManager;
+        var tableCells: HTMLTableCellElement[][];
+
+        beforeEach(() => {
+            tablixControl = createTablixControl();
+            focusManager = tablixControl.focusManager;
+            spyOn(tablixControl.rowDimension, "getItemsCount").and.returnValue(3);
+            spyOn(tablixControl.columnDimension, "getItemsCount").and.returnValue(2);
+            tablixControl.rowDimension.scrollbar.show(false);
+            tablixControl.columnDimension.scrollbar.show(false);
+
+            // Realizes 3 rows of 2 body cells.
+            tableCells = [];
+            focusManager.onStartRenderingIteration();
+            for (var row = 0; row < 3; row++) {
+                tableCells.push([]);
+                for (var column = 0; column < 2; column++) {
+                    var tableCell = <HTMLTableCellElement>document.createElement("td");
+                    tableCells[row].push(tableCell);
+                    focusManager.onBodyCellRealized(<Controls.ITablixCell>{ extension: { tableCell: tableCell } }, { row: row, column: column });
+                }
+            }
+            focusManager.onEndRenderingSession();
+        });
+
+        it("first realized cell is the tab stop", () => {
+            expect(tableCells[0][0].tabIndex).toBe(0);
+            expect(tableCells[0][1].tabIndex).toBe(-1);
+            expect(tableCells[1][0].getAttribute("aria-rowindex")).toBe("2");
+            expect(tableCells[1][0].getAttribute("aria-colindex")).toBe("1");
+        });
+
+        it("arrow keys move the tab stop", () => {
+            focusManager.focusCell({ row: 0, column: 0 });
+            tablixControl.contentHost.dispatchEvent(createKeyboardEvent(DOMConstants.downArrowKeyCode));
+            tablixControl.contentHost.dispatchEvent(createKeyboardEvent(DOMConstants.rightArrowKeyCode));
+
+            expect(focusManager.focusedCell).toEqual({ row: 1, column: 1 });
+            expect(tableCells[1][1].tabIndex).toBe(0);
+            expect(tableCells[0][0].tabIndex).toBe(-1);
+        });
+
+        it("Home, End and Ctrl+End stay within the grid", () => {
+            focusManager.focusCell({ row: 1, column: 1 });
+
+            tablixControl.contentHost.dispatchEvent(createKeyboardEvent(DOMConstants.homeKeyCode));
+            expect(focusManager.focusedCell).toEqual({ row: 1, column: 0 });
+
+            tablixControl.contentHost.dispatchEvent(createKeyboardEvent(DOMConstants.endKeyCode, /*ctrlKey*/true));
+            expect(focusManager.focusedCell).toEqual({ row: 2, column: 1 });
+
+            tablixControl.contentHost.dispatchEvent(createKeyboardEvent(DOMConstants.downArrowKeyCode));
+            expect(focusManager.focusedCell).toEqual({ row: 2, column: 1 });
+        });
+
+        it("PageDown scrolls the focused row into view", () => {
+            var scrollbar = tablixControl.rowDimension.scrollbar;
+            scrollbar.show(true);
+            scrollbar.viewMin = 0;
+            scrollbar.viewSize = 2;
+            var scrollSpy = spyOn(scrollbar, "scrollBy");
+            scrollSpy.and.stub();
+
+            focusManager.focusCell({ row: 0, column: 0 });
+            tablixControl.contentHost.dispatchEvent(createKeyboardEvent(DOMConstants.pageDownKeyCode));
+
+            expect(focusManager.focusedCell).toEqual({ row: 2, column: 0 });
+            expect(scrollSpy).toHaveBeenCalledWith(1);
+        });
+
+        it("focused cell is described by its headers", () => {
+            tablixControl.rowDimension.model = [1];
+            tablixControl.columnDimension.model = [1];
+
+            focusManager.focusCell({ row: 0, column: 0 });
+
+            var contextId = tableCells[0][0].getAttribute("aria-describedby");
+            expect(contextId).toBeTruthy();
+            expect($(tablixControl.container).find("#" + contextId).text()).toBe("label, label");
+        });
     });
 
     describe("Scrollbar", () => {
@@ -299,6 +438,15 @@ module powerbitests {
         return mouseEvt;
     }
 
+    function createKeyboardEvent(keyCode: number, ctrlKey?: boolean): Event {
+        var evt = document.createEvent("Event");
+        evt.initEvent("keydown", true, true);
+        evt["keyCode"] = keyCode;
+        evt["ctrlKey"] = !!ctrlKey;
+
+        return evt;
+    }
+
     function mockColumnWidthsCallback(): number[] {
         return colWidthCallback;
     }
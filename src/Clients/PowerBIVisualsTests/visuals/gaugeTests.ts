@@ -466,6 +466,35 @@ module powerbitests {
 
             }, DefaultWaitForRender);
         });
+
+        it("Check Gauge bands and target markers DOM", (done) => {
+            gaugeDataBuilder.dataViewMetadata.columns.push({
+                displayName: "Stretch",
+                roles: { "TargetValue": true },
+                isMeasure: true,
+            });
+            gaugeDataBuilder.dataViewMetadata.objects = {
+                bands: {
+                    poorMax: 100,
+                    okMax: 250,
+                }
+            };
+            gaugeDataBuilder.values = [[10], [0], [300], [200], [280]];
+
+            gaugeDataBuilder.onDataChanged();
+
+            setTimeout(() => {
+                var bands = $(".gaugeBand");
+                expect(bands.length).toBe(3);
+                expect(bands.first().attr("d")).toBeDefined();
+
+                expect($(".targetMarker").length).toBe(1);
+                expect($(".targetMarkerText").text()).toEqual("Stretch");
+                expect($(".targetText").length).toBe(1);
+                done();
+
+            }, DefaultWaitForRender);
+        });
     });
 
     describe("Gauge Data Tests", () => {
@@ -549,6 +578,8 @@ module powerbitests {
                     target: 200
                 },
                 tooltipInfo: [{ displayName: "col1", value: "$10" }, { displayName: "col4", value: "$200" }],
+                bands: [],
+                targetMarkers: [],
             };
             expect(data).toEqual(expectedValues);
         });
@@ -566,7 +597,9 @@ module powerbitests {
                 total: 0,
                 metadataColumn: gaugeDataBuilder.dataViewMetadata.columns[0],
                 targetSettings: { min: 0, max: 0, target: 0 },
-                tooltipInfo: []
+                tooltipInfo: [],
+                bands: [],
+                targetMarkers: [],
             };
             expect(data).toEqual(expectedValues);
         });
@@ -589,7 +622,9 @@ module powerbitests {
                     objects: { general: { formatString: "$0" } },
                 },
                 targetSettings: { min: 100, max: 300, target: 200 },
-                tooltipInfo: [{ displayName: "col1", value: "$200" }, { displayName: "col4", value: "$200" }]
+                tooltipInfo: [{ displayName: "col1", value: "$200" }, { displayName: "col4", value: "$200" }],
+                bands: [],
+                targetMarkers: [],
             };
 
             expect(data).toEqual(expectedValues);
@@ -746,6 +781,106 @@ module powerbitests {
             expect(data.targetSettings.target).toEqual(100);
         });
 
+        it("Gauge_bands_from_measures", () => {
+            gaugeDataBuilder.dataViewMetadata = {
+                columns: [
+                    {
+                        displayName: "col1",
+                        roles: { "Y": true },
+                        isMeasure: true,
+                        objects: { general: { formatString: "$0" } },
+                    }, {
+                        displayName: "col3",
+                        roles: { "MaxValue": true },
+                        isMeasure: true
+                    }, {
+                        displayName: "Good",
+                        queryName: "good",
+                        roles: { "Bands": true },
+                        isMeasure: true,
+                        objects: { bands: { fill: { solid: { color: "#00FF00" } } } },
+                    }, {
+                        displayName: "Poor",
+                        queryName: "poor",
+                        roles: { "Bands": true },
+                        isMeasure: true
+                    }],
+                groups: [],
+                measures: [0],
+            };
+            gaugeDataBuilder.values = [[50], [100], [120], [40]];
+            gaugeDataBuilder.buildDataView();
+
+            var bands = GaugeVisual.converter(gaugeDataBuilder.dataView).bands;
+            expect(bands.length).toBe(2);
+
+            // Bands are sorted by their upper bound and clipped to the axis range
+            expect(bands[0].name).toBe("Poor");
+            expect(bands[0].start).toBe(0);
+            expect(bands[0].end).toBe(40);
+            expect(bands[1].name).toBe("Good");
+            expect(bands[1].start).toBe(40);
+            expect(bands[1].end).toBe(100);
+            expect(bands[1].color).toBe("#00FF00");
+            expect(bands[1].identity).toEqual(powerbi.visuals.SelectionId.createWithMeasure("good"));
+            expect(bands[0].tooltipInfo).toEqual([{ displayName: "Poor", value: "$0 - $40" }]);
+        });
+
+        it("Gauge_bands_from_constants", () => {
+            gaugeDataBuilder.dataViewMetadata.objects = {
+                bands: {
+                    poorMax: 100,
+                    okMax: 250,
+                    goodFill: { solid: { color: "#00FF00" } },
+                }
+            };
+            gaugeDataBuilder.values = [[10], [0], [300], [200]];
+            gaugeDataBuilder.buildDataView();
+
+            var data = GaugeVisual.converter(gaugeDataBuilder.dataView);
+            expect(data.bands.map((band) => band.name)).toEqual(["Poor", "OK", "Good"]);
+            expect(data.bands.map((band) => band.end)).toEqual([100, 250, 300]);
+            expect(data.bands[2].color).toBe("#00FF00");
+            expect(data.bands[0].identity).toBeNull();
+            expect(data.tooltipInfo).toEqual([
+                { displayName: "col1", value: "$10" },
+                { displayName: "col4", value: "$200" },
+                { displayName: "Poor", value: "$0 - $100" },
+                { displayName: "OK", value: "$100 - $250" },
+                { displayName: "Good", value: "$250 - $300" },
+            ]);
+
+            gaugeDataBuilder.dataViewMetadata.objects = {
+                bands: {
+                    show: false,
+                    poorMax: 100,
+                }
+            };
+            gaugeDataBuilder.buildDataView();
+
+            expect(GaugeVisual.converter(gaugeDataBuilder.dataView).bands).toEqual([]);
+        });
+
+        it("Gauge_multiple_targets", () => {
+            gaugeDataBuilder.dataViewMetadata.columns.push({
+                displayName: "Last year",
+                roles: { "TargetValue": true },
+                isMeasure: true,
+                objects: { general: { formatString: "$0" } },
+            });
+            gaugeDataBuilder.values = [[10], [0], [300], [200], [150]];
+            gaugeDataBuilder.buildDataView();
+
+            var data = GaugeVisual.converter(gaugeDataBuilder.dataView);
+            expect(data.targetSettings.target).toBe(200);
+            expect(data.targetMarkers).toEqual([{ name: "Last year", value: 150 }]);
+            expect(data.tooltipInfo).toEqual([
+                { displayName: "col1", value: "$10" },
+                { displayName: "col4", value: "$200" },
+                { displayName: "Last year", value: "$150" },
+            ]);
+        });
+
         describe("Gauge Rendering Tests", () => {
             var gaugeVisualDataBuilder: GaugeVisualDataBuilder;
 
@@ -939,7 +1074,9 @@ module powerbitests {
                         max: 1,
                         target: undefined
                     },
-                    tooltipInfo: undefined
+                    tooltipInfo: undefined,
+                    bands: [],
+                    targetMarkers: [],
                 };
 
                 expect(GaugeVisual.converter(dataView)).toEqual(expectedValues);
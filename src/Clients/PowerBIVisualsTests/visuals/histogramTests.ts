@@ -0,0 +1,366 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import Histogram = powerbi.visuals.Histogram;
+    import HistogramDataView = powerbi.visuals.HistogramDataView;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SQBetweenExpr = powerbi.data.SQBetweenExpr;
+    import SQConstantExpr = powerbi.data.SQConstantExpr;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
+    import ValueType = powerbi.ValueType;
+    import PrimitiveType = powerbi.PrimitiveType;
+
+    describe("Histogram", () => {
+        var valueColumnRef = SQExprBuilder.fieldDef({ schema: "s", entity: "e", column: "price" });
+        // Mean 3.6, sample standard deviation sqrt(44.4 / 9), interquartile range 1.75
+        var values = [1, 2, 2, 3, 3, 3, 4, 4, 5, 9];
+        var standardDeviation = Math.sqrt(44.4 / 9);
+        var element: JQuery;
+        var hostServices: powerbi.IVisualHostServices;
+        var visual: Histogram;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("300", "400");
+            hostServices = powerbitests.mocks.createVisualHostServices();
+            visual = new Histogram();
+            visual.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+            });
+        });
+
+        function createDataView(rows: any[][], objects?: powerbi.DataViewObjects): powerbi.DataView {
+            var columns: powerbi.DataViewMetadataColumn[] = [
+                {
+                    displayName: "Price",
+                    queryName: "price",
+                    roles: { "Y": true },
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+                }, {
+                    displayName: "Store",
+                    queryName: "store",
+                    roles: { "Series": true },
+                    type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+                }];
+            var hasSeries = rows.length > 0 && rows[0].length > 1;
+            if (!hasSeries)
+                columns = columns.slice(0, 1);
+
+            return {
+                metadata: {
+                    columns: columns,
+                    objects: objects,
+                },
+                categorical: {
+                    categories: [{
+                        source: columns[0],
+                        values: _.uniq(rows.map(row => row[0])),
+                        identityFields: [valueColumnRef],
+                    }],
+                },
+                table: {
+                    columns: columns,
+                    rows: rows,
+                },
+            };
+        }
+
+        function convert(rows: any[][], objects?: powerbi.DataViewObjects): HistogramDataView {
+            var dataView = createDataView(rows, objects);
+            visual.update({
+                dataViews: [dataView],
+                viewport: { height: 300, width: 400 },
+            });
+
+            return visual.converter(dataView);
+        }
+
+        function convertValues(objects?: powerbi.DataViewObjects): HistogramDataView {
+            return convert(values.map(value => [value]), objects);
+        }
+
+        function getNormalDensity(x: number, mean: number, standardDeviation: number): number {
+            var z = (x - mean) / standardDeviation;
+
+            return Math.exp(-0.5 * z * z) / (standardDeviation * Math.sqrt(2 * Math.PI));
+        }
+
+        describe("binning", () => {
+            it("uses the bin count of the layout by default", () => {
+                var histogramDataView = convertValues({ general: { bins: 4 } });
+
+                expect(histogramDataView.data.length).toBe(4);
+                expect(histogramDataView.data.map(bin => bin.y)).toEqual([3, 5, 1, 1]);
+            });
+
+            it("Sturges' rule bins the values by their count", () => {
+                var histogramDataView = convertValues({ general: { binningRule: "sturges" } });
+
+                // ceil(log2(10) + 1)
+                expect(histogramDataView.data.length).toBe(5);
+                expect(histogramDataView.data[0].dx).toBeCloseTo(1.6, 6);
+            });
+
+            it("Scott's rule bins the values by their standard deviation", () => {
+                var histogramDataView = convertValues({ general: { binningRule: "scott" } });
+
+                // The width 3.49 * 2.22 / cbrt(10) = 3.6 splits the extent of 8 in 3 bins
+                expect(histogramDataView.data.length).toBe(3);
+            });
+
+            it("The Freedman-Diaconis rule bins the values by their interquartile range", () => {
+                var histogramDataView = convertValues({ general: { binningRule: "freedmanDiaconis" } });
+
+                // The width 2 * 1.75 / cbrt(10) = 1.62 splits the extent of 8 in 5 bins
+                expect(histogramDataView.data.length).toBe(5);
+            });
+
+            it("The Freedman-Diaconis rule falls back to Sturges' rule without spread", () => {
+                var histogramDataView = convert([[1], [5], [5], [5], [5], [9]], { general: { binningRule: "freedmanDiaconis" } });
+
+                // ceil(log2(6) + 1)
+                expect(histogramDataView.data.length).toBe(4);
+            });
+
+            it("Fixed width bins start at the minimum and cover the maximum", () => {
+                var histogramDataView = convertValues({ general: { binningRule: "fixedWidth", binWidth: 2 } });
+
+                expect(histogramDataView.data.map(bin => bin.x)).toEqual([1, 3, 5, 7]);
+                expect(histogramDataView.data.map(bin => bin.dx)).toEqual([2, 2, 2, 2]);
+                expect(histogramDataView.data.map(bin => bin.y)).toEqual([3, 5, 1, 1]);
+                expect(histogramDataView.data[3].range).toEqual([7, 9]);
+                expect(histogramDataView.xScale.domain()).toEqual([1, 9]);
+            });
+        });
+
+        describe("overlays", () => {
+            it("The density estimate uses Silverman's bandwidth by default", () => {
+                var histogramDataView = convertValues({ overlays: { showKde: true } });
+                var bandwidth = 0.9 * Math.min(standardDeviation, 1.75 / 1.34) * Math.pow(10, -0.2);
+                // Frequencies scale the density by the count and the bin width
+                var scale = 10 * histogramDataView.data[0].dx;
+
+                expect(histogramDataView.curves.length).toBe(1);
+
+                var curve = histogramDataView.curves[0];
+                expect(curve.name).toBe("kde");
+                expect(curve.points.length).toBe(101);
+                curve.points.forEach(point => {
+                    var density = d3.mean(values, (value: number) => getNormalDensity(point[0], value, bandwidth));
+                    expect(point[1]).toBeCloseTo(scale * density, 6);
+                });
+            });
+
+            it("The density estimate uses the bandwidth of the format pane", () => {
+                var histogramDataView = convertValues({ general: { frequency: false }, overlays: { showKde: true, kdeBandwidth: 2 } });
+                var scale = histogramDataView.data[0].dx;
+
+                var curve = histogramDataView.curves[0];
+                curve.points.forEach(point => {
+                    var density = d3.mean(values, (value: number) => getNormalDensity(point[0], value, 2));
+                    expect(point[1]).toBeCloseTo(scale * density, 6);
+                });
+            });
+
+            it("The normal curve follows the mean and standard deviation of the values", () => {
+                var histogramDataView = convertValues({ overlays: { showNormal: true } });
+                var scale = 10 * histogramDataView.data[0].dx;
+
+                expect(histogramDataView.curves.length).toBe(1);
+
+                var curve = histogramDataView.curves[0];
+                expect(curve.name).toBe("normal");
+                expect(curve.points[0][0]).toBe(1);
+                expect(curve.points[100][0]).toBeCloseTo(9, 6);
+                curve.points.forEach(point => {
+                    expect(point[1]).toBeCloseTo(scale * getNormalDensity(point[0], 3.6, standardDeviation), 6);
+                });
+            });
+
+            it("The normal curve is left out without spread", () => {
+                var histogramDataView = convert([[5], [5], [5]], { overlays: { showNormal: true } });
+
+                expect(histogramDataView.curves.length).toBe(0);
+            });
+
+            it("Markers show the mean and the median", () => {
+                var histogramDataView = convertValues({ overlays: { showMean: true, showMedian: true } });
+
+                expect(histogramDataView.markers.map(marker => marker.value)).toEqual([3.6, 3]);
+            });
+        });
+
+        describe("brush", () => {
+            var fixedWidthObjects: powerbi.DataViewObjects = { general: { binningRule: "fixedWidth", binWidth: 2 } };
+
+            function triggerMouseEvent(target: Element, type: string, ctrlKey: boolean = false): void {
+                var evt: any = document.createEvent("MouseEvents");
+                evt.initMouseEvent(type, true, true, window, 0, 0, 0, 0, 0, ctrlKey, false, false, false, 0, null);
+                target.dispatchEvent(evt);
+            }
+
+            function getPersistedFilter(persistSpy: jasmine.Spy): SemanticFilter {
+                var changes: powerbi.VisualObjectInstancesToPersist = persistSpy.calls.mostRecent().args[0];
+                return <SemanticFilter>changes.merge[0].properties["filter"];
+            }
+
+            function getFilterRanges(expr: SQExpr): number[][] {
+                if (expr instanceof powerbi.data.SQOrExpr)
+                    return getFilterRanges(expr.left).concat(getFilterRanges(expr.right));
+
+                expect(expr instanceof SQBetweenExpr).toBe(true);
+                var between = <SQBetweenExpr>expr;
+
+                return [[(<SQConstantExpr>between.lower).value, (<SQConstantExpr>between.upper).value]];
+            }
+
+            function getSelectedBins(objects: powerbi.DataViewObjects): boolean[] {
+                return convertValues(objects).data.map(bin => bin.selected);
+            }
+
+            it("Dragging across bins persists a between filter over their range", () => {
+                convertValues(fixedWidthObjects);
+                var persistSpy = spyOn(hostServices, "persistProperties");
+                var columns = element.find(".column");
+
+                triggerMouseEvent(columns[0], "mousedown");
+                triggerMouseEvent(columns[1], "mouseover");
+                triggerMouseEvent(columns[1], "mouseup");
+
+                expect(persistSpy).toHaveBeenCalled();
+                expect(getFilterRanges(getPersistedFilter(persistSpy).conditions()[0])).toEqual([[1, 5]]);
+            });
+
+            it("A Ctrl click adds a separate range to the filter", () => {
+                convertValues(fixedWidthObjects);
+                var persistSpy = spyOn(hostServices, "persistProperties");
+                var columns = element.find(".column");
+
+                triggerMouseEvent(columns[0], "mousedown");
+                triggerMouseEvent(columns[0], "mouseup");
+                triggerMouseEvent(columns[3], "mousedown", true);
+                triggerMouseEvent(columns[3], "mouseup");
+
+                expect(getFilterRanges(getPersistedFilter(persistSpy).conditions()[0])).toEqual([[1, 3], [7, 9]]);
+            });
+
+            it("The persisted filter selects its bins again", () => {
+                var filter = SemanticFilter.fromSQExpr(SQExprBuilder.or(
+                    SQExprBuilder.between(valueColumnRef, SQExprBuilder.double(1), SQExprBuilder.double(3)),
+                    SQExprBuilder.between(valueColumnRef, SQExprBuilder.double(5), SQExprBuilder.double(9))));
+
+                expect(getSelectedBins({ general: { binningRule: "fixedWidth", binWidth: 2, filter: filter } })).toEqual([true, false, true, true]);
+            });
+
+            it("A click on the background clears the filter", () => {
+                var filter = SemanticFilter.fromSQExpr(SQExprBuilder.between(valueColumnRef, SQExprBuilder.double(1), SQExprBuilder.double(5)));
+                convertValues({ general: { binningRule: "fixedWidth", binWidth: 2, filter: filter } });
+                var persistSpy = spyOn(hostServices, "persistProperties");
+
+                (<any>element.find("svg.histogram")).d3Click(0, 0);
+
+                expect(persistSpy).toHaveBeenCalled();
+                expect(getPersistedFilter(persistSpy)).toBeUndefined();
+            });
+
+            it("A click on the background without a selection persists nothing", () => {
+                convertValues(fixedWidthObjects);
+                var persistSpy = spyOn(hostServices, "persistProperties");
+
+                (<any>element.find("svg.histogram")).d3Click(0, 0);
+
+                expect(persistSpy).not.toHaveBeenCalled();
+            });
+        });
+
+        describe("series", () => {
+            var rows = [[1, "A"], [2, "A"], [3, "A"], [3, "B"], [4, "B"], [9, "B"]];
+
+            function convertSeries(seriesLayout: string): HistogramDataView {
+                return convert(rows, { general: { binningRule: "fixedWidth", binWidth: 2, seriesLayout: seriesLayout } });
+            }
+
+            function getColumnWidths(): number[] {
+                return element.find(".column").map((index: number, column: Element) => Number(column.getAttribute("width"))).get();
+            }
+
+            it("Every series is binned on the edges of the overall histogram", () => {
+                var histogramDataView = convertSeries("overlaid");
+
+                expect(histogramDataView.data.map(bin => bin.y)).toEqual([2, 3, 0, 1]);
+                expect(histogramDataView.series.map(series => series.name)).toEqual(["A", "B"]);
+                expect(histogramDataView.series[0].data.map(bin => bin.y)).toEqual([2, 1, 0, 0]);
+                expect(histogramDataView.series[1].data.map(bin => bin.y)).toEqual([0, 2, 0, 1]);
+                expect(histogramDataView.series[1].data.map(bin => bin.range)).toEqual(histogramDataView.data.map(bin => bin.range));
+                expect(histogramDataView.series[1].data.map(bin => bin.seriesIndex)).toEqual([1, 1, 1, 1]);
+            });
+
+            it("Without a Series role the overall bins are the only series", () => {
+                var histogramDataView = convert(rows.map(row => [row[0]]), { general: { binningRule: "fixedWidth", binWidth: 2 } });
+
+                expect(histogramDataView.series.length).toBe(1);
+                expect(histogramDataView.series[0].data).toBe(histogramDataView.data);
+            });
+
+            it("Overlaid series all start from zero", () => {
+                var histogramDataView = convertSeries("overlaid");
+
+                expect(histogramDataView.series[1].data.map(bin => bin.y0)).toEqual([0, 0, 0, 0]);
+                expect(histogramDataView.yScale.domain()).toEqual([0, 2]);
+            });
+
+            it("Stacked series start on top of the series below", () => {
+                var histogramDataView = convertSeries("stacked");
+
+                expect(histogramDataView.series[0].data.map(bin => bin.y0)).toEqual([0, 0, 0, 0]);
+                expect(histogramDataView.series[1].data.map(bin => bin.y0)).toEqual([2, 1, 0, 0]);
+                expect(histogramDataView.yScale.domain()).toEqual([0, 3]);
+            });
+
+            it("Side by side series split the width of the bins", () => {
+                convertSeries("overlaid");
+                var overlaidWidths = getColumnWidths();
+
+                convertSeries("sideBySide");
+                var sideBySideWidths = getColumnWidths();
+
+                expect(sideBySideWidths.length).toBe(8);
+                sideBySideWidths.forEach((width: number, index: number) => {
+                    expect(width).toBeCloseTo(overlaidWidths[index] / 2, 6);
+                });
+            });
+        });
+    });
+}
@@ -0,0 +1,305 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import KPIStatusWithHistory = powerbi.visuals.KPIStatusWithHistory;
+    import KPIStatusWithHistoryForecast = powerbi.visuals.KPIStatusWithHistoryForecast;
+    import KPIStatusBand = powerbi.visuals.KPIStatusBand;
+    import KPIStatusBands = powerbi.visuals.KPIStatusBands;
+    import KPIStatusWithHistoryGroup = powerbi.visuals.KPIStatusWithHistoryGroup;
+    import KPIStatusWithHistoryTileData = powerbi.visuals.KPIStatusWithHistoryTileData;
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import SelectionId = powerbi.visuals.SelectionId;
+    import ValueType = powerbi.ValueType;
+    import PrimitiveType = powerbi.PrimitiveType;
+
+    describe("KPIStatusWithHistory forecast", () => {
+        function expectForecast(forecast: KPIStatusWithHistoryForecast[], expected: number[][]): void {
+            expect(forecast.length).toBe(expected.length);
+            for (var i = 0; i < expected.length; i++) {
+                expect(forecast[i].value).toBeCloseTo(expected[i][0], 6);
+                expect(forecast[i].lower).toBeCloseTo(expected[i][1], 6);
+                expect(forecast[i].upper).toBeCloseTo(expected[i][2], 6);
+            }
+        }
+
+        it("Linear forecast extends an exact trend without uncertainty", () => {
+            var forecast = KPIStatusWithHistory.getForecast([1, 2, 3, 4], "LINEAR", 2, 12);
+
+            expectForecast(forecast, [[5, 5, 5], [6, 6, 6]]);
+        });
+
+        it("Linear forecast widens the interval with the regression error", () => {
+            // Slope 0.8 and intercept 1.3, the residuals give a standard error of sqrt(0.9)
+            var forecast = KPIStatusWithHistory.getForecast([1, 3, 2, 4], "LINEAR", 1, 12);
+
+            expectForecast(forecast, [[4.5, 1.56, 7.44]]);
+        });
+
+        it("Linear forecast needs at least three points", () => {
+            expect(KPIStatusWithHistory.getForecast([1, 2], "LINEAR", 3, 12)).toEqual([]);
+        });
+
+        it("Seasonal forecast repeats the last season", () => {
+            // The season over season differences are all 2, so the standard error is 2
+            var forecast = KPIStatusWithHistory.getForecast([10, 20, 30, 12, 22, 32], "SEASONAL", 4, 3);
+
+            expectForecast(forecast, [
+                [12, 8.08, 15.92],
+                [22, 18.08, 25.92],
+                [32, 28.08, 35.92],
+                [12, 12 - 3.92 * Math.SQRT2, 12 + 3.92 * Math.SQRT2],
+            ]);
+        });
+
+        it("Seasonal forecast needs more than one season of history", () => {
+            expect(KPIStatusWithHistory.getForecast([10, 20, 30], "SEASONAL", 2, 3)).toEqual([]);
+        });
+
+        it("No forecast without a forecast type", () => {
+            expect(KPIStatusWithHistory.getForecast([1, 2, 3, 4], "NONE", 2, 12)).toEqual([]);
+        });
+    });
+
+    describe("KPIStatusWithHistory status bands", () => {
+        function createBand(threshold: number, color: string, compareType: string = "REL"): KPIStatusBand {
+            return { threshold: threshold, color: color, icon: "", compareType: compareType };
+        }
+
+        var bands: KPIStatusBand[] = [
+            createBand(-10, "red"),
+            createBand(0, "yellow"),
+            createBand(10, "green"),
+        ];
+
+        it("Bands are sorted by threshold whatever order they are entered in", () => {
+            var sorted = KPIStatusBands.sortByThreshold([bands[2], bands[0], bands[1]]);
+
+            expect(sorted.map((band) => band.color)).toEqual(["red", "yellow", "green"]);
+        });
+
+        it("Bands with the same threshold keep their order", () => {
+            var sorted = KPIStatusBands.sortByThreshold([createBand(5, "first"), createBand(-5, "low"), createBand(5, "second")]);
+
+            expect(sorted.map((band) => band.color)).toEqual(["low", "first", "second"]);
+        });
+
+        it("The last band whose threshold the deviation reaches applies", () => {
+            expect(KPIStatusBands.getStatusBand(95, 100, bands).color).toBe("yellow");
+            expect(KPIStatusBands.getStatusBand(100, 100, bands).color).toBe("yellow");
+            expect(KPIStatusBands.getStatusBand(110, 100, bands).color).toBe("green");
+            expect(KPIStatusBands.getStatusBand(150, 100, bands).color).toBe("green");
+        });
+
+        it("Values below every threshold fall in the first band", () => {
+            expect(KPIStatusBands.getStatusBand(50, 100, bands).color).toBe("red");
+            expect(KPIStatusBands.getStatusBand(50, 100, [createBand(0, "only")]).color).toBe("only");
+        });
+
+        it("Each band compares with its own compare type", () => {
+            // 105 against 100 is 5 absolute but also 5% relative, 210 against 200 is 10 absolute and 5% relative
+            var mixedBands = [
+                createBand(-10, "red"),
+                createBand(0, "yellow"),
+                createBand(10, "green", "ABS"),
+            ];
+
+            expect(KPIStatusBands.getStatusBand(105, 100, mixedBands).color).toBe("yellow");
+            expect(KPIStatusBands.getStatusBand(210, 200, mixedBands).color).toBe("green");
+            expect(KPIStatusBands.getStatusBand(210, 200, bands).color).toBe("yellow");
+        });
+
+        it("Relative bands compare the absolute deviation from a zero target", () => {
+            expect(KPIStatusBands.getStatusBand(-5, 0, bands).color).toBe("yellow");
+            expect(KPIStatusBands.getStatusBand(-15, 0, bands).color).toBe("red");
+            expect(KPIStatusBands.getStatusBand(15, 0, bands).color).toBe("green");
+        });
+    });
+
+    describe("KPIStatusWithHistory split", () => {
+        // Against a target of 100: North -20%, East -2%, South +20% and West +10%
+        var splitValues: { [name: string]: number[] } = {
+            North: [90, 80],
+            East: [95, 98],
+            South: [110, 120],
+            West: [100, 110],
+        };
+        var splitNames = ["North", "East", "South", "West"];
+        var element: JQuery;
+        var hostServices: powerbi.IVisualHostServices;
+        var visual: KPIStatusWithHistory;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("400", "600");
+            hostServices = powerbitests.mocks.createVisualHostServices();
+            visual = new KPIStatusWithHistory();
+            visual.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+            });
+        });
+
+        function createValueColumns(): powerbi.DataViewValueColumns {
+            var splitColumn: powerbi.DataViewMetadataColumn = {
+                displayName: "Region",
+                queryName: "region",
+                roles: { "SplitBy": true },
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+            };
+            var columns: powerbi.DataViewValueColumn[] = [];
+            splitNames.forEach(name => {
+                var identity = mocks.dataViewScopeIdentity(name);
+                columns.push({
+                    source: { displayName: "Actual", queryName: "actual", groupName: name, roles: { "Values": true }, isMeasure: true },
+                    values: splitValues[name],
+                    identity: identity,
+                }, {
+                    source: { displayName: "Target", queryName: "target", groupName: name, roles: { "Targets": true }, isMeasure: true },
+                    values: [100, 100],
+                    identity: identity,
+                });
+            });
+
+            return DataViewTransform.createValueColumns(columns, undefined, splitColumn);
+        }
+
+        function createDataView(kpiObject?: powerbi.DataViewObject): powerbi.DataView {
+            var monthColumn: powerbi.DataViewMetadataColumn = {
+                displayName: "Month",
+                queryName: "month",
+                roles: { "Category": true },
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+            };
+
+            return {
+                metadata: {
+                    columns: [monthColumn],
+                    objects: kpiObject ? { kpi: kpiObject } : undefined,
+                },
+                categorical: {
+                    categories: [{
+                        source: monthColumn,
+                        values: ["Jan", "Feb"],
+                        identity: [mocks.dataViewScopeIdentity("Jan"), mocks.dataViewScopeIdentity("Feb")],
+                    }],
+                    values: createValueColumns(),
+                },
+            };
+        }
+
+        function render(kpiObject?: powerbi.DataViewObject): void {
+            visual.update({
+                dataViews: [createDataView(kpiObject)],
+                viewport: { height: 400, width: 600 },
+            });
+        }
+
+        function getTiles(): Element[] {
+            return element.find("svg > g").get();
+        }
+
+        function getTileNames(): string[] {
+            return getTiles().map(tile => (<KPIStatusWithHistoryTileData>d3.select(tile).datum()).name);
+        }
+
+        it("getGridLayout picks the columns that give the largest tiles", () => {
+            expect(KPIStatusWithHistory.getGridLayout(4, { width: 600, height: 400 })).toEqual({ columns: 2, width: 300, height: 200 });
+            expect(KPIStatusWithHistory.getGridLayout(3, { width: 900, height: 200 })).toEqual({ columns: 3, width: 300, height: 200 });
+            expect(KPIStatusWithHistory.getGridLayout(1, { width: 600, height: 400 })).toEqual({ columns: 1, width: 600, height: 400 });
+        });
+
+        it("getSharedYDomain spans the actuals of every tile", () => {
+            var dataView = createDataView();
+            visual.update({ dataViews: [dataView], viewport: { height: 400, width: 600 } });
+            var groups: KPIStatusWithHistoryGroup[] = dataView.categorical.values.grouped().map(group => {
+                return { name: <string>group.name, values: group.values, selectionId: null };
+            });
+
+            expect(KPIStatusWithHistory.getSharedYDomain(dataView, { width: 300, height: 200 }, groups, visual)).toEqual([80, 120]);
+        });
+
+        it("renders one tile per split value", () => {
+            render();
+
+            expect(getTiles().length).toBe(4);
+        });
+
+        it("Status sort puts the worst status first and then the worst deviation", () => {
+            render({ pSplitSort: "STATUS" });
+
+            expect(getTileNames()).toEqual(["North", "East", "West", "South"]);
+        });
+
+        it("Status sort follows the banding type", () => {
+            render({ pSplitSort: "STATUS", pBandingType: "DIB" });
+
+            expect(getTileNames()).toEqual(["South", "West", "East", "North"]);
+        });
+
+        it("Deviation sort puts the lowest deviation first when increasing is better", () => {
+            render({ pSplitSort: "DEVIATION", pBandingType: "IIB" });
+
+            expect(getTileNames()).toEqual(["North", "East", "West", "South"]);
+        });
+
+        it("Deviation sort puts the highest deviation first when decreasing is better", () => {
+            render({ pSplitSort: "DEVIATION", pBandingType: "DIB" });
+
+            expect(getTileNames()).toEqual(["South", "West", "East", "North"]);
+        });
+
+        it("Deviation sort puts the largest distance first when closer is better", () => {
+            render({ pSplitSort: "DEVIATION", pBandingType: "CIB" });
+
+            expect(getTileNames()).toEqual(["North", "South", "West", "East"]);
+        });
+
+        it("Alphabetical sort orders the tiles by name", () => {
+            render({ pSplitSort: "ALPHA" });
+
+            expect(getTileNames()).toEqual(["East", "North", "South", "West"]);
+        });
+
+        it("A click on a tile selects its split value and dims the other tiles", () => {
+            render({ pSplitSort: "ALPHA" });
+            var onSelectSpy = spyOn(hostServices, "onSelect");
+
+            (<any>$(getTiles()[1])).d3Click(0, 0);
+
+            expect(onSelectSpy).toHaveBeenCalled();
+            var selectArgs: powerbi.SelectEventArgs = onSelectSpy.calls.argsFor(0)[0];
+            expect(selectArgs.data).toEqual([SelectionId.createWithId(mocks.dataViewScopeIdentity("North")).getSelector()]);
+            expect(getTiles().map(tile => (<HTMLElement>tile).style.opacity)).toEqual(["0.4", "1", "0.4", "0.4"]);
+        });
+    });
+}
@@ -5777,4 +5777,43 @@ module powerbitests {
                 });
         });
     });
+
+    describe("Matrix data export", () => {
+        var v: Matrix;
+
+        beforeEach(() => {
+            v = <Matrix>powerbi.visuals.visualPluginFactory.create().getPlugin("matrix").create();
+            var element = powerbitests.helpers.testDom("500", "500");
+            element["visible"] = () => { return true; };
+            v.init({
+                element: element,
+                host: mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: 500,
+                    width: 500
+                },
+                animation: { transitionImmediate: true },
+                interactivity: {
+                    selection: true
+                }
+            });
+        });
+
+        it("exportData repeats the row group values on every line", () => {
+            v.onDataChanged({ dataViews: [matrixTwoRowGroupsTwoColumnGroupsTwoMeasuresDataView] });
+
+            var lines = v.exportData(/*useRawValues*/true).split("\r\n");
+
+            expect(lines.length).toBe(7);
+            expect(lines[0].indexOf("RowGroup1,RowGroup2,")).toBe(0);
+            expect(lines[1]).toBe("Asia,South Korea,0,1,2,3,4,5,6,7,8,9,10,11");
+            expect(lines[2]).toBe("Asia,Unified Team,12,13,14,15,16,17,18,19,20,21,22,");
+            expect(lines[3]).toBe("Europe,France,24,25,26,27,28,29,30,31,32,33,34,35");
+        });
+
+        it("exportData writes an empty string without data", () => {
+            expect(v.exportData()).toBe("");
+        });
+    });
 }
\ No newline at end of file
@@ -0,0 +1,196 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import OwlGauge = powerbi.visuals.OwlGauge;
+    import OwlHappiness = powerbi.visuals.OwlHappiness;
+
+    powerbitests.mocks.setLocale();
+
+    describe("OwlGauge", () => {
+        it("OwlGauge registered capabilities", () => {
+            expect(powerbi.visuals.visualPluginFactory.create().getPlugin("owlGauge").capabilities).toBe(OwlGauge.capabilities);
+        });
+
+        it("Capabilities should include dataViewMappings", () => {
+            expect(OwlGauge.capabilities.dataViewMappings).toBeDefined();
+        });
+
+        it("Capabilities should include dataRoles", () => {
+            expect(OwlGauge.capabilities.dataRoles).toBeDefined();
+        });
+    });
+
+    describe("OwlGauge Data Tests", () => {
+        var allColumns: powerbi.DataViewMetadataColumn[] = [
+            {
+                displayName: "col1",
+                roles: { "Y": true },
+                isMeasure: true,
+                objects: { general: { formatString: "$0" } },
+            }, {
+                displayName: "col2",
+                roles: { "MinValue": true },
+                isMeasure: true
+            }, {
+                displayName: "col3",
+                roles: { "MaxValue": true },
+                isMeasure: true
+            }, {
+                displayName: "col4",
+                roles: { "TargetValue": true },
+                isMeasure: true
+            }];
+
+        function buildDataView(values: number[][], objects?: powerbi.DataViewObjects): powerbi.DataView {
+            var columns = allColumns.slice(0, values.length);
+
+            return {
+                metadata: {
+                    columns: columns,
+                    objects: objects,
+                },
+                categorical: {
+                    values: DataViewTransform.createValueColumns(values.map((columnValues, i) => {
+                        return {
+                            source: columns[i],
+                            values: columnValues,
+                        };
+                    })),
+                },
+            };
+        }
+
+        it("OwlGauge_betweenMinMax", () => {
+            var data = OwlGauge.converter(buildDataView([[50], [0], [200], [100]]));
+
+            expect(data.percent).toBe(0.25);
+            expect(data.total).toBe(50);
+            expect(data.targetSettings).toEqual({
+                min: 0,
+                max: 200,
+                target: 100,
+            });
+            expect(data.happiness).toBe(OwlHappiness.Meh);
+            expect(data.label).toBe("$50");
+        });
+
+        it("OwlGauge_greaterThanMax", () => {
+            var data = OwlGauge.converter(buildDataView([[500], [0], [300], [200]]));
+
+            expect(data.percent).toBe(1);
+            expect(data.happiness).toBe(OwlHappiness.Happy);
+        });
+
+        it("OwlGauge_smallerThanMin", () => {
+            var data = OwlGauge.converter(buildDataView([[-3], [0], [300]]));
+
+            expect(data.percent).toBe(0);
+            expect(data.happiness).toBe(OwlHappiness.Sad);
+        });
+
+        it("OwlGauge_formatting_min_max_target", () => {
+            var objects: powerbi.DataViewObjects = {
+                axis: {
+                    min: 10,
+                    max: 50,
+                    target: 40,
+                },
+            };
+
+            var data = OwlGauge.converter(buildDataView([[30]], objects));
+
+            expect(data.targetSettings).toEqual({
+                min: 10,
+                max: 50,
+                target: 40,
+            });
+            expect(data.percent).toBe(0.5);
+        });
+
+        it("OwlGauge_default_settings", () => {
+            var settings = OwlGauge.converter(buildDataView([[30]])).settings;
+
+            expect(settings.sadColor).toBeUndefined();
+            expect(settings.mehColor).toBeUndefined();
+            expect(settings.happyColor).toBeUndefined();
+            expect(settings.showTail).toBe(true);
+            expect(settings.showLabel).toBe(true);
+            expect(settings.labelColor).toBe("#333333");
+        });
+
+        it("OwlGauge_formatting_colors", () => {
+            var objects: powerbi.DataViewObjects = {
+                dataPoint: {
+                    happyColor: { solid: { color: "#00FF00" } },
+                },
+                tail: {
+                    show: false,
+                },
+            };
+
+            var settings = OwlGauge.converter(buildDataView([[30]], objects)).settings;
+
+            expect(settings.happyColor).toBe("#00FF00");
+            expect(settings.showTail).toBe(false);
+        });
+
+        it("OwlGauge_tooltip_work", () => {
+            var data = OwlGauge.converter(buildDataView([[50], [0], [200], [100]]));
+
+            expect(data.tooltipInfo).toEqual([
+                { displayName: "col1", value: "$50" },
+                { displayName: "col4", value: "100" },
+            ]);
+        });
+
+        it("getHappiness uses the thirds of the gauge without a target", () => {
+            expect(OwlGauge.getHappiness(10)).toBe(OwlHappiness.Sad);
+            expect(OwlGauge.getHappiness(33)).toBe(OwlHappiness.Meh);
+            expect(OwlGauge.getHappiness(65)).toBe(OwlHappiness.Meh);
+            expect(OwlGauge.getHappiness(66)).toBe(OwlHappiness.Happy);
+        });
+
+        it("getHappiness compares the value with the target", () => {
+            var targetData = (total: number): powerbi.visuals.GaugeTargetData => {
+                return { min: 0, max: 100, target: 80, total: total, tooltipItems: [] };
+            };
+
+            expect(OwlGauge.getHappiness(80, targetData(80))).toBe(OwlHappiness.Happy);
+            expect(OwlGauge.getHappiness(40, targetData(40))).toBe(OwlHappiness.Meh);
+            expect(OwlGauge.getHappiness(39, targetData(39))).toBe(OwlHappiness.Sad);
+        });
+
+        it("getHappiness ignores a target that is not above the minimum", () => {
+            var targetData: powerbi.visuals.GaugeTargetData = { min: 50, max: 100, target: 50, total: 90, tooltipItems: [] };
+
+            expect(OwlGauge.getHappiness(80, targetData)).toBe(OwlHappiness.Happy);
+        });
+    });
+}
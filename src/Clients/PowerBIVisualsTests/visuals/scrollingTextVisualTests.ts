@@ -0,0 +1,345 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbitests {
+    import DataViewTransform = powerbi.data.DataViewTransform;
+    import ScrollingTextVisual = powerbi.visuals.ScrollingTextVisual;
+    import TextCategory = powerbi.visuals.TextCategory;
+    import TextLane = powerbi.visuals.TextLane;
+    import ValueType = powerbi.ValueType;
+    import PrimitiveType = powerbi.PrimitiveType;
+
+    powerbitests.mocks.setLocale();
+
+    function createTickerDataView(scroller?: powerbi.DataViewObject): powerbi.DataView {
+        var columns: powerbi.DataViewMetadataColumn[] = [
+            {
+                displayName: "Stock",
+                queryName: "stock",
+                roles: { "Category": true },
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Text),
+            }, {
+                displayName: "Price",
+                queryName: "price",
+                roles: { "Measure Absolute": true },
+                isMeasure: true,
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+            }, {
+                displayName: "Change",
+                queryName: "change",
+                roles: { "Measure Deviation": true },
+                isMeasure: true,
+                type: ValueType.fromPrimitiveTypeAndCategory(PrimitiveType.Double),
+            }];
+
+        return {
+            metadata: {
+                columns: columns,
+                objects: scroller ? { scroller: scroller } : undefined,
+            },
+            categorical: {
+                categories: [{
+                    source: columns[0],
+                    values: ["Alpha", "Beta", "Gamma", "Delta"],
+                    identity: [
+                        mocks.dataViewScopeIdentity("Alpha"),
+                        mocks.dataViewScopeIdentity("Beta"),
+                        mocks.dataViewScopeIdentity("Gamma"),
+                        mocks.dataViewScopeIdentity("Delta"),
+                    ],
+                }],
+                values: DataViewTransform.createValueColumns([
+                    {
+                        source: columns[1],
+                        values: [100, 200, 300, 400],
+                    }, {
+                        source: columns[2],
+                        values: [0.1, -0.1, 0, 0.2],
+                    }]),
+            },
+        };
+    }
+
+    describe("ScrollingTextVisual", () => {
+        var glyphs = ["▼", "►", "▲"];
+        var bands: powerbi.Stepped = {
+            stops: [
+                { color: "#ff0000" },
+                { color: "#ffff00", value: -0.05 },
+                { color: "#00ff00", value: 0.05 },
+            ]
+        };
+
+        it("ScrollingTextVisual registered capabilities", () => {
+            expect(powerbi.visuals.visualPluginFactory.create().getPlugin("_ScrollingTextVisual").capabilities).toBe(ScrollingTextVisual.capabilities);
+        });
+
+        it("getDeviationStatus without a rule", () => {
+            expect(ScrollingTextVisual.getDeviationStatus(0, null, glyphs)).toEqual({ color: "#96C401", glyph: "▲" });
+            expect(ScrollingTextVisual.getDeviationStatus(-0.01, null, glyphs)).toEqual({ color: "#DC0002", glyph: "▼" });
+        });
+
+        it("getDeviationStatus picks the glyph and the color of the same band", () => {
+            expect(ScrollingTextVisual.getDeviationStatus(-0.2, bands, glyphs)).toEqual({ color: "#ff0000", glyph: "▼" });
+            expect(ScrollingTextVisual.getDeviationStatus(-0.05, bands, glyphs)).toEqual({ color: "#ffff00", glyph: "►" });
+            expect(ScrollingTextVisual.getDeviationStatus(0.04, bands, glyphs)).toEqual({ color: "#ffff00", glyph: "►" });
+            expect(ScrollingTextVisual.getDeviationStatus(0.05, bands, glyphs)).toEqual({ color: "#00ff00", glyph: "▲" });
+        });
+
+        it("getDeviationStatus tells bands with the same color apart", () => {
+            var rule: powerbi.Stepped = {
+                stops: [
+                    { color: "#00ff00", value: 0 },
+                    { color: "#ff0000" },
+                    { color: "#00ff00", value: 10 },
+                ]
+            };
+
+            expect(ScrollingTextVisual.getDeviationStatus(-1, rule, glyphs)).toEqual({ color: "#ff0000", glyph: "▼" });
+            expect(ScrollingTextVisual.getDeviationStatus(5, rule, glyphs)).toEqual({ color: "#00ff00", glyph: "►" });
+            expect(ScrollingTextVisual.getDeviationStatus(20, rule, glyphs)).toEqual({ color: "#00ff00", glyph: "▲" });
+        });
+    });
+
+    describe("ScrollingTextVisual ticker", () => {
+        var element: JQuery,
+            hostServices: powerbi.IVisualHostServices,
+            visual: ScrollingTextVisual;
+
+        beforeEach(() => {
+            // Keeps the animation loop from running, the tests move the text themselves
+            spyOn(<any>window, "requestAnimFrame");
+
+            element = powerbitests.helpers.testDom("100", "500");
+            hostServices = powerbitests.mocks.createVisualHostServices();
+            visual = new ScrollingTextVisual();
+            visual.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+            });
+        });
+
+        function render(scroller?: powerbi.DataViewObject): void {
+            visual.update({
+                dataViews: [createTickerDataView(scroller)],
+                viewport: { height: 100, width: 500 },
+            });
+        }
+
+        function getLanes(): TextLane[] {
+            return (<any>visual).lanes;
+        }
+
+        function getLabels(lane: TextLane): string[] {
+            return lane.categories.map((s: TextCategory) => s.txtCategory);
+        }
+
+        function findCategory(label: string): TextCategory {
+            var lanes = getLanes();
+            for (var l = 0; l < lanes.length; l++) {
+                var items = lanes[l].categories;
+                for (var i = 0; i < items.length; i++) {
+                    if (items[i].txtCategory === label)
+                        return items[i];
+                }
+            }
+        }
+
+        function pressKey(keyCode: number): JQueryEventObject {
+            var keydown = $.Event("keydown", { which: keyCode });
+            element.trigger(keydown);
+            return keydown;
+        }
+
+        function triggerPointer(type: string, fallbackType: string): void {
+            // d3 listens to the fallback event in browsers without native mouseenter and mouseleave support
+            var svg = element.find("svg").get(0);
+            [type, fallbackType].forEach((eventType: string) => {
+                var evt: any = document.createEvent("MouseEvents");
+                evt.initMouseEvent(eventType, true, true, window, 0, 0, 0, 0, 0, false, false, false, false, 0, null);
+                svg.dispatchEvent(evt);
+            });
+        }
+
+        function getTargetSpeed(): number {
+            return (<any>visual).activeTargetSpeed;
+        }
+
+        it("deals the categories out across the lanes", () => {
+            render({ pLaneCount: 2 });
+
+            var lanes = getLanes();
+            expect(lanes.length).toBe(2);
+            expect(getLabels(lanes[0])).toEqual(["Alpha", "Gamma"]);
+            expect(getLabels(lanes[1])).toEqual(["Beta", "Delta"]);
+            expect(lanes.map((lane: TextLane) => lane.speedFactor)).toEqual([1, 0.75]);
+
+            var containers = element.find(".lane");
+            expect(containers.length).toBe(2);
+            expect(containers.get().map((lane: Element) => lane.getAttribute("y"))).toEqual(["0", "50"]);
+            expect(containers.get().map((lane: Element) => lane.getAttribute("height"))).toEqual(["50", "50"]);
+            expect(containers.eq(1).attr("width")).toBe("500");
+        });
+
+        it("caps the lane count at the number of categories", () => {
+            render({ pLaneCount: 10 });
+            expect(getLanes().length).toBe(4);
+
+            render({ pLaneCount: 10, pCustomText: "Closed for the holidays" });
+            expect(getLanes().length).toBe(1);
+            expect(element.find(".lane").length).toBe(1);
+        });
+
+        it("scrollLane renders the categories at the end of the lane and recycles those that leave it", () => {
+            render();
+
+            var lane = getLanes()[0];
+            var alpha = findCategory("Alpha");
+            expect(alpha.pos).toBe(500);
+            expect(alpha.svgSel).toBeNull();
+
+            (<any>visual).scrollLane(lane, 100);
+            (<any>visual).scrollLane(lane, 0);
+
+            var width = alpha.actualWidth;
+            expect(alpha.svgSel).not.toBeNull();
+            expect(width).toBeGreaterThan(0);
+            expect(alpha.pos).toBe(500);
+            expect(findCategory("Beta").pos).toBe(500 + width);
+
+            (<any>visual).scrollLane(lane, 501 + width);
+
+            expect(getLabels(lane)).toEqual(["Beta", "Gamma", "Delta", "Alpha"]);
+            expect(alpha.svgSel).toBeNull();
+            expect(alpha.pos).toBe(500);
+        });
+
+        it("the arrow keys step to the next and previous category", () => {
+            render();
+
+            var lane = getLanes()[0];
+            var keydown = pressKey(jsCommon.DOMConstants.rightArrowKeyCode);
+
+            expect(keydown.isDefaultPrevented()).toBe(true);
+            var alpha = findCategory("Alpha");
+            expect(alpha.pos).toBe(0);
+            expect(findCategory("Beta").pos).toBe(alpha.actualWidth);
+
+            pressKey(jsCommon.DOMConstants.downArrowKeyCode);
+
+            expect(getLabels(lane)).toEqual(["Beta", "Gamma", "Delta", "Alpha"]);
+            expect(findCategory("Beta").pos).toBe(0);
+            expect(alpha.svgSel).toBeNull();
+
+            pressKey(jsCommon.DOMConstants.leftArrowKeyCode);
+
+            expect(getLabels(lane)).toEqual(["Alpha", "Beta", "Gamma", "Delta"]);
+            expect(alpha.pos).toBe(0);
+            expect(alpha.svgSel).not.toBeNull();
+            expect(findCategory("Beta").pos).toBe(alpha.actualWidth);
+        });
+
+        it("other keys are left to the browser", () => {
+            render();
+
+            var keydown = pressKey(jsCommon.DOMConstants.enterKeyCode);
+
+            expect(keydown.isDefaultPrevented()).toBe(false);
+            expect(findCategory("Alpha").pos).toBe(500);
+        });
+
+        it("pauses while hovered or focused", () => {
+            render();
+            expect(getTargetSpeed()).toBe(1.2);
+
+            triggerPointer("mouseenter", "mouseover");
+            expect(getTargetSpeed()).toBe(0);
+
+            element.triggerHandler("focus");
+            triggerPointer("mouseleave", "mouseout");
+            expect(getTargetSpeed()).toBe(0);
+
+            element.triggerHandler("blur");
+            expect(getTargetSpeed()).toBe(1.2);
+        });
+
+        it("vertical mode places the lanes side by side and stacks the categories", () => {
+            render({ pMode: "vertical", pLaneCount: 2 });
+
+            var containers = element.find(".lane");
+            expect(containers.get().map((lane: Element) => lane.getAttribute("x"))).toEqual(["0", "250"]);
+            expect(containers.eq(0).attr("width")).toBe("250");
+            expect(containers.eq(0).attr("height")).toBe("100");
+            expect(findCategory("Alpha").pos).toBe(100);
+
+            pressKey(jsCommon.DOMConstants.downArrowKeyCode);
+
+            // The default 20px font gives 30px lines
+            var alpha = findCategory("Alpha");
+            expect(alpha.pos).toBe(0);
+            expect(findCategory("Gamma").pos).toBe(30);
+            expect(alpha.svgSel.attr("x")).toBe("5");
+            expect(Number(alpha.svgSel.attr("y"))).toBeCloseTo(21, 5);
+
+            pressKey(jsCommon.DOMConstants.downArrowKeyCode);
+
+            expect(getLabels(getLanes()[0])).toEqual(["Gamma", "Alpha"]);
+            expect(getLabels(getLanes()[1])).toEqual(["Delta", "Beta"]);
+        });
+
+        it("a click selects a category and dims the others", () => {
+            // A small font keeps the first categories inside the lane
+            render({ pFontSize: 8 });
+            pressKey(jsCommon.DOMConstants.rightArrowKeyCode);
+            var onSelectSpy = spyOn(hostServices, "onSelect");
+
+            var getOpacity = (label: string) => (<HTMLElement>findCategory(label).svgSel.node()).style.opacity;
+            var click = (label: string, eventType?: powerbitests.helpers.ClickEventType) => (<any>$(findCategory(label).svgSel.node())).d3Click(0, 0, eventType);
+
+            click("Alpha");
+            expect(onSelectSpy.calls.mostRecent().args[0].data.length).toBe(1);
+            expect(getOpacity("Alpha")).toBe("1");
+            expect(getOpacity("Beta")).toBe("0.4");
+
+            click("Beta", powerbitests.helpers.ClickEventType.CtrlKey);
+            expect(onSelectSpy.calls.mostRecent().args[0].data.length).toBe(2);
+            expect(getOpacity("Beta")).toBe("1");
+            expect(getOpacity("Gamma")).toBe("0.4");
+
+            (<any>element.find("rect")).d3Click(0, 0);
+            expect(onSelectSpy.calls.mostRecent().args[0].data).toEqual([]);
+            expect(getOpacity("Alpha")).toBe("1");
+            expect(getOpacity("Gamma")).toBe("1");
+        });
+    });
+}
@@ -124,4 +124,35 @@ module powerbitests {
             expect(colorer.color(2000)).toBe("#0000ff");
         });
     });
+
+    describe("ColorAllocatorFactory - stepped", () => {
+        var colorer: powerbi.IColorAllocator;
+
+        beforeEach(() => {
+            colorer = visuals.createColorAllocatorFactory().stepped({
+                stops: [
+                    { value: 0.05, color: "#00ff00" },
+                    { color: "#ff0000" },
+                    { value: -0.05, color: "#ffff00" },
+                ]
+            });
+        });
+
+        it("Stepped: below the lowest threshold", () => {
+            expect(colorer.color(-0.5)).toBe("#ff0000");
+        });
+
+        it("Stepped: between thresholds", () => {
+            expect(colorer.color(0)).toBe("#ffff00");
+        });
+
+        it("Stepped: above the highest threshold", () => {
+            expect(colorer.color(0.5)).toBe("#00ff00");
+        });
+
+        it("Stepped: threshold values belong to the band they start", () => {
+            expect(colorer.color(-0.05)).toBe("#ffff00");
+            expect(colorer.color(0.05)).toBe("#00ff00");
+        });
+    });
 }
\ No newline at end of file
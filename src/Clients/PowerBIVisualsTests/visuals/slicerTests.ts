@@ -79,14 +79,13 @@ module powerbitests {
             expect(powerbi.visuals.slicerCapabilities.dataViewMappings.length).toBe(1);
         });
 
-        it("Capabilities should have condition", () => {
-            expect(powerbi.visuals.slicerCapabilities.dataViewMappings[0].conditions.length).toBe(1);
-            expect(powerbi.visuals.slicerCapabilities.dataViewMappings[0].conditions[0][powerbi.visuals.slicerCapabilities.dataRoles[0].name].max).toBe(1);
+        it("Capabilities should allow several fields for hierarchies", () => {
+            expect(powerbi.visuals.slicerCapabilities.dataViewMappings[0].conditions).toBeUndefined();
         });
 
         it("Capabilities should include dataRoles", () => {
             expect(powerbi.visuals.slicerCapabilities.dataRoles).toBeDefined();
-            expect(powerbi.visuals.slicerCapabilities.dataRoles.length).toBe(1);
+            expect(powerbi.visuals.slicerCapabilities.dataRoles.length).toBe(2);
         });
 
         it("Capabilities should suppressDefaultTitle", () => {
@@ -97,12 +96,419 @@ module powerbitests {
             expect(powerbi.data.DataViewObjectDescriptors.findFilterOutput(powerbi.visuals.slicerCapabilities.objects)).toEqual(powerbi.visuals.slicerProps.filterPropertyIdentifier);
         });
 
+        it("Self filter property should match calculated", () => {
+            expect(powerbi.data.DataViewObjectDescriptors.findSelfFilter(powerbi.visuals.slicerCapabilities.objects)).toEqual(powerbi.visuals.slicerProps.selfFilterPropertyIdentifier);
+        });
+
         it("Sort should be default so the sort UI shows", () => {
             expect(powerbi.visuals.slicerCapabilities.sorting.custom).not.toBeDefined();
             expect(powerbi.visuals.slicerCapabilities.sorting.default).toBeDefined();
         });
     });
 
+    describe("Slicer search", () => {
+        var fieldExpr = powerbi.data.SQExprBuilder.fieldDef({ schema: "s", entity: "Fruits", column: "Fruit" });
+
+        it("getSearchFilter contains", () => {
+            var filter = Slicer.getSearchFilter([fieldExpr], "an", powerbi.visuals.slicerSearchMode.contains);
+            var condition = filter.conditions()[0];
+
+            expect(condition instanceof powerbi.data.SQContainsExpr).toBe(true);
+            expect((<powerbi.data.SQConstantExpr>(<powerbi.data.SQContainsExpr>condition).right).value).toBe("an");
+        });
+
+        it("getSearchFilter startsWith", () => {
+            var filter = Slicer.getSearchFilter([fieldExpr], "Ap", powerbi.visuals.slicerSearchMode.startsWith);
+
+            expect(filter.conditions()[0] instanceof powerbi.data.SQStartsWithExpr).toBe(true);
+        });
+
+        it("getSearchFilter without search text", () => {
+            expect(Slicer.getSearchFilter([fieldExpr], "", powerbi.visuals.slicerSearchMode.contains)).toBeUndefined();
+            expect(Slicer.getSearchFilter(undefined, "an", powerbi.visuals.slicerSearchMode.contains)).toBeUndefined();
+        });
+
+        it("getSearchText round trip", () => {
+            var filter = Slicer.getSearchFilter([fieldExpr], "an", powerbi.visuals.slicerSearchMode.contains);
+
+            expect(Slicer.getSearchText(filter)).toBe("an");
+            expect(Slicer.getSearchText(undefined)).toBeUndefined();
+        });
+
+        it("filterDataPoints", () => {
+            var slicerData = Slicer.converter(dataView, SelectAllTextKey, null);
+            var contains = Slicer.filterDataPoints(slicerData.slicerDataPoints, "AN", powerbi.visuals.slicerSearchMode.contains, undefined);
+            var startsWith = Slicer.filterDataPoints(slicerData.slicerDataPoints, "an", powerbi.visuals.slicerSearchMode.startsWith, undefined);
+
+            expect(contains.map(d => d.value)).toEqual(["Orange", "Banana"]);
+            expect(startsWith.map(d => d.value)).toEqual([]);
+            expect(Slicer.filterDataPoints(slicerData.slicerDataPoints, "", powerbi.visuals.slicerSearchMode.contains, undefined)).toBe(slicerData.slicerDataPoints);
+        });
+
+        it("converter restores search text from the self filter", () => {
+            var filteredDataView: powerbi.DataView = {
+                metadata: {
+                    columns: dataViewMetadata.columns,
+                    objects: { general: { selfFilter: Slicer.getSearchFilter([fieldExpr], "an", powerbi.visuals.slicerSearchMode.contains) } }
+                },
+                categorical: dataViewCategorical
+            };
+
+            expect(Slicer.converter(filteredDataView, SelectAllTextKey, null).searchText).toBe("an");
+        });
+    });
+
+    describe("Slicer range", () => {
+        var priceMetadata: powerbi.DataViewMetadataColumn = { displayName: "Price", queryName: "Price", type: ValueType.fromDescriptor({ numeric: true }) };
+        var dateMetadata: powerbi.DataViewMetadataColumn = { displayName: "Date", queryName: "Date", type: ValueType.fromDescriptor({ dateTime: true }), format: "d" };
+        var priceExpr = powerbi.data.SQExprBuilder.fieldDef({ schema: "s", entity: "Products", column: "Price" });
+
+        function createCategories(source: powerbi.DataViewMetadataColumn, values: any[]): powerbi.DataViewCategoryColumn {
+            return {
+                source: source,
+                values: values,
+                identity: values.map(value => mocks.dataViewScopeIdentity(value)),
+                identityFields: [priceExpr]
+            };
+        }
+
+        function createRangeDataView(source: powerbi.DataViewMetadataColumn, values: any[], filter?: powerbi.data.SemanticFilter): powerbi.DataView {
+            return {
+                metadata: {
+                    columns: [source],
+                    objects: { data: { mode: "Range" }, general: { filter: filter } }
+                },
+                categorical: {
+                    categories: [createCategories(source, values)]
+                }
+            };
+        }
+
+        it("getRange numeric", () => {
+            var range = Slicer.getRange(createCategories(priceMetadata, [30, 10, null, 20, 10]), undefined);
+
+            expect(range.values).toEqual([10, 20, 30]);
+            expect(range.min).toBe(10);
+            expect(range.max).toBe(30);
+            expect(range.start).toBe(10);
+            expect(range.end).toBe(30);
+            expect(range.isDate).toBe(false);
+        });
+
+        it("getRange dates", () => {
+            var dates = [new Date(2015, 0, 1), new Date(2015, 5, 1)];
+            var range = Slicer.getRange(createCategories(dateMetadata, dates), { lower: dates[1].getTime() });
+
+            expect(range.isDate).toBe(true);
+            expect(range.min).toBe(dates[0].getTime());
+            expect(range.start).toBe(dates[1].getTime());
+            expect(range.end).toBe(dates[1].getTime());
+        });
+
+        it("getRange text column", () => {
+            expect(Slicer.getRange(dataViewCategorical.categories[0], undefined)).toBeUndefined();
+        });
+
+        it("getRangeFilter between", () => {
+            var range = Slicer.getRange(createCategories(priceMetadata, [10, 20, 30, 40]), { lower: 20, upper: 30 });
+            var filter = Slicer.getRangeFilter([priceExpr], range);
+
+            expect(filter.conditions()[0] instanceof powerbi.data.SQBetweenExpr).toBe(true);
+            expect(Slicer.getRangeBounds(filter)).toEqual({ lower: 20, upper: 30 });
+        });
+
+        it("getRangeFilter open ended", () => {
+            var range = Slicer.getRange(createCategories(priceMetadata, [10, 20, 30, 40]), { lower: 20 });
+            var filter = Slicer.getRangeFilter([priceExpr], range);
+            var condition = <powerbi.data.SQCompareExpr>filter.conditions()[0];
+
+            expect(condition instanceof powerbi.data.SQCompareExpr).toBe(true);
+            expect(condition.kind).toBe(powerbi.data.QueryComparisonKind.GreaterThanOrEqual);
+            expect(Slicer.getRangeBounds(filter)).toEqual({ lower: 20 });
+        });
+
+        it("getRangeFilter full range", () => {
+            var range = Slicer.getRange(createCategories(priceMetadata, [10, 20, 30, 40]), undefined);
+
+            expect(Slicer.getRangeFilter([priceExpr], range)).toBeUndefined();
+        });
+
+        it("snapToRange", () => {
+            var range = Slicer.getRange(createCategories(priceMetadata, [10, 20, 40]), undefined);
+
+            expect(Slicer.snapToRange(0, range)).toBe(10);
+            expect(Slicer.snapToRange(14, range)).toBe(10);
+            expect(Slicer.snapToRange(31, range)).toBe(40);
+            expect(Slicer.snapToRange(100, range)).toBe(40);
+        });
+
+        it("parseRangeInput", () => {
+            expect(Slicer.parseRangeInput("$1,234.50", false, "\\$#,0.00", "en-US")).toBe(1234.5);
+            expect(Slicer.parseRangeInput("-1,234", false, "#,0", "en-US")).toBe(-1234);
+            expect(Slicer.parseRangeInput("25%", false, "0%", "en-US")).toBe(0.25);
+            expect(Slicer.parseRangeInput("abc", false, undefined, "en-US")).toBeNaN();
+            expect(Slicer.parseRangeInput("1.2.3", false, undefined, "en-US")).toBeNaN();
+            expect(Slicer.parseRangeInput("1/2/2015", true, "d", "en-US")).toBe(new Date(2015, 0, 2).getTime());
+            expect(Slicer.parseRangeInput("abc", true, "d", "en-US")).toBeNaN();
+        });
+
+        it("getRange partial", () => {
+            expect(Slicer.getRange(createCategories(priceMetadata, [10, 20]), undefined).isPartial).toBe(false);
+            expect(Slicer.getRange(createCategories(priceMetadata, [10, 20]), undefined, true).isPartial).toBe(true);
+        });
+
+        it("converter ignores range mode for text columns", () => {
+            var textDataView: powerbi.DataView = {
+                metadata: { columns: dataViewMetadata.columns, objects: { data: { mode: "Range" } } },
+                categorical: dataViewCategorical
+            };
+
+            expect(Slicer.converter(textDataView, SelectAllTextKey, null).range).toBeUndefined();
+        });
+
+        describe("DOM", () => {
+            var v: Slicer;
+            var element: JQuery;
+            var hostServices: powerbi.IVisualHostServices;
+
+            beforeEach(() => {
+                element = powerbitests.helpers.testDom("200", "300");
+                hostServices = mocks.createVisualHostServices();
+                v = <Slicer> powerbi.visuals.visualPluginFactory.create().getPlugin("slicer").create();
+                v.init({
+                    element: element,
+                    host: hostServices,
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width()
+                    }
+                });
+            });
+
+            it("renders the range slider", () => {
+                var filter = Slicer.getRangeFilter([priceExpr], Slicer.getRange(createCategories(priceMetadata, [10, 20, 30, 40]), { lower: 20, upper: 30 }));
+                v.onDataChanged({ dataViews: [createRangeDataView(priceMetadata, [10, 20, 30, 40], filter)] });
+
+                expect($(".slicerRange").css("display")).toBe("block");
+                expect($(".slicerBody").css("display")).toBe("none");
+                expect($(".rangeHandle").length).toBe(2);
+                expect($(".rangeInput").map((i, e) => (<HTMLInputElement>e).value).get()).toEqual(["20", "30"]);
+                expect($(".rangeLabel").map((i, e) => $(e).text()).get()).toEqual(["10", "40"]);
+            });
+
+            it("persists the range typed into the inputs", () => {
+                v.onDataChanged({ dataViews: [createRangeDataView(priceMetadata, [10, 20, 30, 40])] });
+
+                var persistSpy = spyOn(hostServices, "persistProperties");
+                var endInput = <HTMLInputElement>$(".rangeInput")[1];
+                endInput.value = "25";
+                var changeEvent = document.createEvent("Event");
+                changeEvent.initEvent("change", true, true);
+                endInput.dispatchEvent(changeEvent);
+
+                expect(persistSpy).toHaveBeenCalled();
+                var filter = <powerbi.data.SemanticFilter>persistSpy.calls.mostRecent().args[0].merge[0].properties["filter"];
+                expect(Slicer.getRangeBounds(filter)).toEqual({ upper: 25 });
+            });
+
+            it("disables the range until all rows are loaded", () => {
+                var partialDataView = createRangeDataView(priceMetadata, [10, 20, 30, 40]);
+                partialDataView.metadata.segment = {};
+                var loadMoreSpy = spyOn(hostServices, "loadMoreData");
+
+                v.onDataChanged({ dataViews: [partialDataView] });
+
+                expect(loadMoreSpy).toHaveBeenCalled();
+                expect($(".rangeInput").map((i, e) => (<HTMLInputElement>e).disabled).get()).toEqual([true, true]);
+                expect($(".rangeLabel").map((i, e) => $(e).text()).get()).toEqual(["10...", "40..."]);
+
+                v.onDataChanged({ dataViews: [createRangeDataView(priceMetadata, [10, 20, 30, 40, 50])] });
+
+                expect($(".rangeInput").map((i, e) => (<HTMLInputElement>e).disabled).get()).toEqual([false, false]);
+                expect($(".rangeLabel").map((i, e) => $(e).text()).get()).toEqual(["10", "50"]);
+            });
+
+            it("doesn't persist a handle released without moving", () => {
+                v.onDataChanged({ dataViews: [createRangeDataView(priceMetadata, [10, 20, 30, 40])] });
+
+                var persistSpy = spyOn(hostServices, "persistProperties");
+                dispatchMouseEvent($(".rangeHandle")[0], "mousedown");
+                dispatchMouseEvent(window, "mouseup");
+
+                expect(persistSpy).not.toHaveBeenCalled();
+            });
+
+            function dispatchMouseEvent(target: EventTarget, type: string): void {
+                var mouseEvent = document.createEvent("MouseEvents");
+                mouseEvent.initMouseEvent(type, true, true, window, 0, 0, 0, 0, 0, false, false, false, false, 0, null);
+                target.dispatchEvent(mouseEvent);
+            }
+        });
+    });
+
+    describe("Slicer tree", () => {
+        var yearMetadata: powerbi.DataViewMetadataColumn = { displayName: "Year", queryName: "Year", type: ValueType.fromDescriptor({ integer: true }) };
+        var quarterMetadata: powerbi.DataViewMetadataColumn = { displayName: "Quarter", queryName: "Quarter", type: ValueType.fromDescriptor({ text: true }) };
+        var yearExpr = powerbi.data.SQExprBuilder.fieldDef({ schema: "s", entity: "Date", column: "Year" });
+        var quarterExpr = powerbi.data.SQExprBuilder.fieldDef({ schema: "s", entity: "Date", column: "Quarter" });
+
+        function createTreeDataView(selectedRows: number[] = []): powerbi.DataView {
+            var years = [2014, 2014, 2015, 2015];
+            var quarters = ["Q1", "Q2", "Q1", "Q2"];
+            var objects: powerbi.DataViewObjects[] = years.map((year, i) => selectedRows.indexOf(i) >= 0 ? <powerbi.DataViewObjects>{ general: { selected: true } } : undefined);
+
+            return {
+                metadata: { columns: [yearMetadata, quarterMetadata] },
+                categorical: {
+                    categories: [{
+                        source: yearMetadata,
+                        values: years,
+                        identity: years.map(year => mocks.dataViewScopeIdentityWithEquality(yearExpr, year)),
+                        identityFields: [yearExpr]
+                    }, {
+                        source: quarterMetadata,
+                        values: quarters,
+                        identity: quarters.map(quarter => mocks.dataViewScopeIdentityWithEquality(quarterExpr, quarter)),
+                        identityFields: [quarterExpr],
+                        objects: objects
+                    }]
+                }
+            };
+        }
+
+        it("getTreeNodes", () => {
+            var nodes = Slicer.getTreeNodes(createTreeDataView([0]).categorical.categories);
+
+            expect(nodes.map(n => n.value)).toEqual([2014, 2015]);
+            expect(nodes[0].children.map(n => n.value)).toEqual(["Q1", "Q2"]);
+            expect(nodes[0].children[0].level).toBe(1);
+            expect(nodes[0].children[0].selected).toBe(true);
+            expect(nodes[0].selected).toBe(false);
+            expect(nodes[0].partiallySelected).toBe(true);
+            expect(nodes[1].partiallySelected).toBe(false);
+            expect(nodes[0].children[0].identity.expr instanceof powerbi.data.SQAndExpr).toBe(true);
+        });
+
+        it("setTreeNodeSelected selects the descendants", () => {
+            var nodes = Slicer.getTreeNodes(createTreeDataView().categorical.categories);
+
+            Slicer.setTreeNodeSelected(nodes[1], true);
+            Slicer.updateTreeSelection(nodes);
+
+            expect(nodes[1].children.every(n => n.selected)).toBe(true);
+            expect(nodes[1].selected).toBe(true);
+            expect(nodes[0].selected).toBe(false);
+        });
+
+        it("getTreeFilter", () => {
+            var nodes = Slicer.getTreeNodes(createTreeDataView([0, 2, 3]).categorical.categories);
+            var condition = Slicer.getTreeFilter(nodes).conditions()[0];
+
+            // 2014 Q1 is filtered by its path, 2015 by the year alone
+            expect(condition instanceof powerbi.data.SQOrExpr).toBe(true);
+            expect((<powerbi.data.SQOrExpr>condition).left instanceof powerbi.data.SQAndExpr).toBe(true);
+            expect((<powerbi.data.SQOrExpr>condition).right instanceof powerbi.data.SQCompareExpr).toBe(true);
+        });
+
+        it("getTreeFilter without selection", () => {
+            var nodes = Slicer.getTreeNodes(createTreeDataView().categorical.categories);
+
+            expect(Slicer.getTreeFilter(nodes)).toBeUndefined();
+        });
+
+        it("getTreeLeaves", () => {
+            var nodes = Slicer.getTreeNodes(createTreeDataView().categorical.categories);
+
+            expect(Slicer.getTreeLeaves(nodes).map(n => n.value)).toEqual(["Q1", "Q2", "Q1", "Q2"]);
+        });
+
+        it("getVisibleTreeNodes", () => {
+            var nodes = Slicer.getTreeNodes(createTreeDataView().categorical.categories);
+            var expanded: { [key: string]: boolean } = {};
+
+            expect(Slicer.getVisibleTreeNodes(nodes, expanded).length).toBe(2);
+
+            expanded[nodes[1].identity.key] = true;
+            expect(Slicer.getVisibleTreeNodes(nodes, expanded).map(n => n.value)).toEqual([2014, 2015, "Q1", "Q2"]);
+        });
+
+        describe("DOM", () => {
+            var v: Slicer;
+            var element: JQuery;
+            var hostServices: powerbi.IVisualHostServices;
+
+            beforeEach(() => {
+                element = powerbitests.helpers.testDom("200", "300");
+                hostServices = mocks.createVisualHostServices();
+                v = <Slicer> powerbi.visuals.visualPluginFactory.create().getPlugin("slicer").create();
+                v.init({
+                    element: element,
+                    host: hostServices,
+                    style: powerbi.visuals.visualStyles.create(),
+                    viewport: {
+                        height: element.height(),
+                        width: element.width()
+                    }
+                });
+                v.onDataChanged({ dataViews: [createTreeDataView([0])] });
+            });
+
+            it("renders the collapsed tree", () => {
+                expect($(".slicerTree").css("display")).toBe("block");
+                expect($(".slicerTreeItem").length).toBe(2);
+                expect($(".headerText").text()).toBe("Year > Quarter");
+                expect($(".slicerTreeItem input").first().hasClass("partiallySelected")).toBe(true);
+            });
+
+            it("expands a node", () => {
+                (<any>$(".slicerTreeItem .expander").last()).d3Click(0, 0);
+
+                expect($(".slicerTreeItem .slicerText").map((i, e) => $(e).text()).get()).toEqual(["2014", "2015", "Q1", "Q2"]);
+            });
+
+            it("selecting a parent persists its identity", () => {
+                var persistSpy = spyOn(hostServices, "persistProperties");
+                (<any>$(".slicerTreeItem .slicerText").last()).d3Click(0, 0);
+
+                expect(persistSpy).toHaveBeenCalled();
+                var filter = <powerbi.data.SemanticFilter>persistSpy.calls.mostRecent().args[0].merge[0].properties["filter"];
+                expect(filter.conditions()[0] instanceof powerbi.data.SQOrExpr).toBe(true);
+                expect($(".slicerTreeItem input").last().prop("checked")).toBe(true);
+            });
+
+            it("keeps the selection once the host sends the persisted objects back", () => {
+                var persistSpy = spyOn(hostServices, "persistProperties");
+                (<any>$(".slicerTreeItem .slicerText").last()).d3Click(0, 0);
+
+                // The host applies the persisted selected property to the rows whose identity matches the selector
+                var instances: powerbi.VisualObjectInstance[] = persistSpy.calls.mostRecent().args[0].merge;
+                var categories = createTreeDataView().categorical.categories;
+                var selectedRows = [0, 1, 2, 3].filter(row => {
+                    var key = powerbi.data.createDataViewScopeIdentity(
+                        powerbi.data.SQExprBuilder.and(categories[0].identity[row].expr, categories[1].identity[row].expr)).key;
+                    return instances.some(instance =>
+                        instance.selector && instance.selector.data[0].key === key && instance.properties["selected"] === true);
+                });
+                expect(selectedRows).toEqual([0, 2, 3]);
+
+                v.onDataChanged({ dataViews: [createTreeDataView(selectedRows)] });
+
+                expect($(".slicerTreeItem input").map((i, e) => (<HTMLInputElement>e).checked).get()).toEqual([false, true]);
+                expect($(".slicerTreeItem input").first().hasClass("partiallySelected")).toBe(true);
+            });
+
+            it("clearing the selection persists the leaves as deselected", () => {
+                var persistSpy = spyOn(hostServices, "persistProperties");
+                (<any>$(".clear")).d3Click(0, 0);
+
+                var instances: powerbi.VisualObjectInstance[] = persistSpy.calls.mostRecent().args[0].merge;
+                expect(instances[0].properties["filter"]).toBeUndefined();
+                expect(instances.slice(1).map(instance => instance.properties["selected"])).toEqual([false, false, false, false]);
+            });
+        });
+    });
+
     describe("Slicer DOM tests", () => {
         var v: Slicer;
         var element: JQuery;
@@ -249,7 +655,12 @@ module powerbitests {
             var slicerSettings = {
                 general: {
                     outlineColor: '#808080',
-                    outlineWeight: 1
+                    outlineWeight: 1,
+                    layout: 'Vertical',
+                    singleSelect: false,
+                },
+                data: {
+                    mode: 'List',
                 },
                 header: {
                     borderBottomWidth: 1,
@@ -258,6 +669,8 @@ module powerbitests {
                     fontColor: '#000000',
                     background: '#ffffff',
                     textSize: 10,
+                    search: false,
+                    searchMode: 'Contains',
                 },
                 slicerText: {
                     color: '#666666',
@@ -279,6 +692,48 @@ module powerbitests {
             expect(slicerData).toEqual(expectedSlicerData);
         });
 
+        it("Validate converter single select", () => {
+            var singleSelectDataView: powerbi.DataView = {
+                metadata: { columns: dataViewMetadata.columns, objects: { general: { singleSelect: true } } },
+                categorical: dataViewCategorical
+            };
+            var slicerData = Slicer.converter(singleSelectDataView, SelectAllTextKey, null);
+
+            expect(slicerData.slicerDataPoints.length).toBe(5);
+            expect(slicerData.slicerDataPoints.some(d => d.isSelectAllDataPoint)).toBe(false);
+        });
+
+        it("Validate converter images", () => {
+            var imageMetadata: powerbi.DataViewMetadataColumn = { displayName: "Picture", isMeasure: true, roles: { "Image": true } };
+            var imageDataView: powerbi.DataView = {
+                metadata: { columns: [dataViewMetadata.columns[0], imageMetadata] },
+                categorical: {
+                    categories: dataViewCategorical.categories,
+                    values: DataViewTransform.createValueColumns([{
+                        source: imageMetadata,
+                        values: ["http://images/apple.png", "not a url", null, "http://images/grapes.png", undefined]
+                    }])
+                }
+            };
+            var slicerData = Slicer.converter(imageDataView, SelectAllTextKey, null);
+
+            expect(slicerData.slicerDataPoints.map(d => d.imageUrl)).toEqual([undefined, "http://images/apple.png", undefined, undefined, "http://images/grapes.png", undefined]);
+        });
+
+        it("Tiles layout", () => {
+            var tilesDataView: powerbi.DataView = {
+                metadata: { columns: dataViewMetadata.columns, objects: { general: { layout: "Tiles" } } },
+                categorical: dataViewCategorical
+            };
+            v.onDataChanged({ dataViews: [tilesDataView] });
+
+            expect($(".slicerTiles").css("display")).toBe("block");
+            expect($(".slicerBody").css("display")).toBe("none");
+            expect($(".slicerTile").length).toBe(6);
+            expect($(".slicerTile .slicerText").last().text()).toBe("Banana");
+            expect($(".slicerTileImage").first().css("display")).toBe("none");
+        });
+
         it("Null dataView test", () => {
             v.onDataChanged({ dataViews: [] });
             jasmine.clock().tick(0);
@@ -562,6 +1017,28 @@ module powerbitests {
             expect(slicerText[1].style.color).toBe("rgb(33, 33, 33)");
         });
 
+        it("slicer single select tiles", () => {
+            var tilesDataView: powerbi.DataView = {
+                metadata: { columns: dataViewMetadata.columns, objects: { general: { layout: "Tiles", singleSelect: true } } },
+                categorical: dataViewCategorical
+            };
+            v.onDataChanged({ dataViews: [tilesDataView] });
+
+            var tiles = $(".slicerTile");
+            expect(tiles.length).toBe(5);
+
+            (<any>tiles.eq(0)).d3Click(0, 0);
+            (<any>tiles.eq(1)).d3Click(0, 0);
+
+            expect(tiles.eq(0).hasClass("selected")).toBe(false);
+            expect(tiles.eq(1).hasClass("selected")).toBe(true);
+            expect(tiles.eq(0).find(".slicerText")[0].style.color).toBe("rgb(102, 102, 102)");
+            expect(tiles.eq(1).find(".slicerText")[0].style.color).toBe("rgb(33, 33, 33)");
+            expect(hostServices.onSelect).toHaveBeenCalledWith({
+                data: [{ data: [dataViewCategorical.categories[0].identity[1]] }]
+            });
+        });
+
         it("slicer loadMoreData noSegment", () => {
             var listViewOptions: powerbi.visuals.ListViewOptions = <powerbi.visuals.ListViewOptions>v["listView"]["options"];
             var loadMoreSpy = spyOn(hostServices, "loadMoreData");
@@ -604,6 +1081,110 @@ module powerbitests {
             expect(loadMoreSpy.calls.all().length).toBe(1);
         });
 
+        it("slicer search narrows the list and pushes a self filter into the query", () => {
+            var metadata: powerbi.DataViewMetadata = {
+                columns: dataViewMetadata.columns,
+                objects: { header: { search: true } },
+                segment: {}
+            };
+            var categorical = {
+                categories: [{
+                    source: dataViewMetadata.columns[0],
+                    values: dataViewCategorical.categories[0].values,
+                    identity: dataViewCategorical.categories[0].identity,
+                    identityFields: [powerbi.data.SQExprBuilder.fieldDef({ schema: "s", entity: "Fruits", column: "Fruit" })]
+                }],
+                values: dataViewCategorical.values
+            };
+
+            v.onDataChanged({ dataViews: [{ metadata: metadata, categorical: categorical }] });
+            jasmine.clock().tick(0);
+
+            var persistSpy = spyOn(hostServices, "persistProperties");
+            var searchInput = <HTMLInputElement>$(".searchInput")[0];
+            expect($(".searchHeader").css("display")).toBe("block");
+
+            searchInput.value = "an";
+            var inputEvent = document.createEvent("Event");
+            inputEvent.initEvent("input", true, true);
+            searchInput.dispatchEvent(inputEvent);
+
+            var slicerDataPoints: powerbi.visuals.SlicerDataPoint[] = v["slicerData"].slicerDataPoints;
+            expect(slicerDataPoints.map(d => d.value)).toEqual(["Orange", "Banana"]);
+            expect(persistSpy).not.toHaveBeenCalled();
+
+            jasmine.clock().tick(300);
+
+            expect(persistSpy).toHaveBeenCalled();
+            var selfFilter = <powerbi.data.SemanticFilter>persistSpy.calls.mostRecent().args[0].merge[0].properties["selfFilter"];
+            expect(Slicer.getSearchText(selfFilter)).toBe("an");
+        });
+
+        it("slicer search stays on the client when all rows are loaded", () => {
+            var metadata: powerbi.DataViewMetadata = {
+                columns: dataViewMetadata.columns,
+                objects: { header: { search: true } }
+            };
+
+            v.onDataChanged({ dataViews: [{ metadata: metadata, categorical: dataViewCategorical }] });
+            jasmine.clock().tick(0);
+
+            var persistSpy = spyOn(hostServices, "persistProperties");
+            var searchInput = <HTMLInputElement>$(".searchInput")[0];
+            searchInput.value = "kiwi";
+            var inputEvent = document.createEvent("Event");
+            inputEvent.initEvent("input", true, true);
+            searchInput.dispatchEvent(inputEvent);
+            jasmine.clock().tick(300);
+
+            var slicerDataPoints: powerbi.visuals.SlicerDataPoint[] = v["slicerData"].slicerDataPoints;
+            expect(slicerDataPoints.map(d => d.value)).toEqual(["Kiwi"]);
+            expect(persistSpy).not.toHaveBeenCalled();
+        });
+
+        it("slicer clears the self filter once the search is turned off", () => {
+            var identityFields = [powerbi.data.SQExprBuilder.fieldDef({ schema: "s", entity: "Fruits", column: "Fruit" })];
+            var selfFilter = Slicer.getSearchFilter(identityFields, "an", powerbi.visuals.slicerSearchMode.contains);
+            var categorical = {
+                categories: [{
+                    source: dataViewMetadata.columns[0],
+                    values: dataViewCategorical.categories[0].values,
+                    identity: dataViewCategorical.categories[0].identity,
+                    identityFields: identityFields
+                }],
+                values: dataViewCategorical.values
+            };
+            var getDataView = (search: boolean): powerbi.DataView => {
+                return {
+                    metadata: {
+                        columns: dataViewMetadata.columns,
+                        objects: { general: { selfFilter: selfFilter }, header: { search: search } }
+                    },
+                    categorical: categorical
+                };
+            };
+
+            v.onDataChanged({ dataViews: [getDataView(true)] });
+            jasmine.clock().tick(0);
+
+            var persistSpy = spyOn(hostServices, "persistProperties");
+            expect((<HTMLInputElement>$(".searchInput")[0]).value).toBe("an");
+
+            v.onDataChanged({ dataViews: [getDataView(false)] });
+            jasmine.clock().tick(0);
+
+            expect(persistSpy.calls.count()).toBe(1);
+            var properties = persistSpy.calls.mostRecent().args[0].merge[0].properties;
+            expect(properties.hasOwnProperty("selfFilter")).toBe(true);
+            expect(properties["selfFilter"]).toBeUndefined();
+
+            // The host has not applied the change yet, the filter must not be persisted again
+            v.onDataChanged({ dataViews: [getDataView(false)] });
+            jasmine.clock().tick(0);
+
+            expect(persistSpy.calls.count()).toBe(1);
+        });
+
         it("Validate scroll position on onDataChanged", () => {
             var interactiveDataViewOptionsWithLoadMore: powerbi.VisualDataChangedOptions = {
                 dataViews: [{ metadata: dataViewMetadata, categorical: dataViewCategorical }],
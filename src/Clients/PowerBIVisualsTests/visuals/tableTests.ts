@@ -306,6 +306,45 @@ module powerbitests {
         }
     };
 
+    var measureSourceFormatted: DataViewMetadataColumn = {
+        displayName: "measureFormatted",
+        queryName: "measureFormatted",
+        type: dataTypeNumber,
+        isMeasure: true,
+        index: 1,
+        objects: {
+            colorScale: {
+                background: <powerbi.FillRule>{
+                    linearGradient2: {
+                        min: { color: "#000000" },
+                        max: { color: "#ffffff" },
+                    }
+                },
+            },
+            dataBars: {
+                show: true,
+                positiveColor: { solid: { color: "#00ff00" } },
+                negativeColor: { solid: { color: "#ff0000" } },
+            },
+            iconSet: {
+                show: true,
+            },
+        },
+    };
+
+    var tableConditionalFormatting: DataView = {
+        metadata: { columns: [groupSource1, measureSourceFormatted] },
+        table: {
+            columns: [groupSource1, measureSourceFormatted],
+            rows: [
+                ["A", -50],
+                ["B", 0],
+                ["C", 50],
+                ["D", 100]
+            ]
+        }
+    };
+
     describe("Table", () => {
         it("Table registered capabilities", () => {
             expect(webPluginService.getPlugin("table").capabilities).toEqual(tableCapabilities);
@@ -692,6 +731,48 @@ module powerbitests {
                 expect(fillResult<string>(navigator, rows, columns, "domContent")).toEqual(expectedValues);
             });
 
+            it("returns conditional formatting for measure columns", () => {
+                var visualTable = powerbi.visuals.Table.converter(tableConditionalFormatting.table);
+                var rows = visualTable.visualRows;
+                var columns = tableConditionalFormatting.table.columns;
+                var navigator = new TableHierarchyNavigator(visualTable, valueFormatter.formatRaw);
+
+                expect(fillResult<string>(navigator, rows, columns, "backgroundColor")).toEqual([
+                    [undefined, "#000000"],
+                    [undefined, "#555555"],
+                    [undefined, "#aaaaaa"],
+                    [undefined, "#ffffff"],
+                ]);
+
+                var firstBar = navigator.getIntersection(rows[0], columns[1]).dataBar;
+                expect(firstBar.color).toBe("#ff0000");
+                expect(firstBar.offset).toBe(0);
+                expect(firstBar.width).toBeCloseTo(100 / 3, 5);
+
+                var lastBar = navigator.getIntersection(rows[3], columns[1]).dataBar;
+                expect(lastBar.color).toBe("#00ff00");
+                expect(lastBar.offset).toBeCloseTo(100 / 3, 5);
+                expect(lastBar.width).toBeCloseTo(200 / 3, 5);
+
+                expect(fillResult<string>(navigator, rows, columns, "iconContent")).toEqual([
+                    [undefined, '<div class="kpiTrafficLightSingle0" style="display: inline-block; vertical-align: sub;"></div>'],
+                    [undefined, '<div class="kpiTrafficLightSingle1" style="display: inline-block; vertical-align: sub;"></div>'],
+                    [undefined, '<div class="kpiTrafficLightSingle1" style="display: inline-block; vertical-align: sub;"></div>'],
+                    [undefined, '<div class="kpiTrafficLightSingle2" style="display: inline-block; vertical-align: sub;"></div>'],
+                ]);
+            });
+
+            it("does not format total cells", () => {
+                var visualTable = powerbi.visuals.Table.converter(tableConditionalFormatting.table);
+                var navigator = new TableHierarchyNavigator(visualTable, valueFormatter.formatRaw);
+
+                var cell = navigator.getIntersection({ totalCells: ["Total", 200] }, tableConditionalFormatting.table.columns[1]);
+
+                expect(cell.backgroundColor).toBeUndefined();
+                expect(cell.dataBar).toBeUndefined();
+                expect(cell.iconContent).toBeUndefined();
+            });
+
             function fillResult<T>(
                 navigator: TableHierarchyNavigator,
                 rows: powerbi.visuals.DataViewVisualTableRow[],
@@ -930,6 +1011,7 @@ module powerbitests {
                 properties: {
                     totals: true,
                     autoSizeColumnWidth: true,
+                    frozenColumns: 0,
                 }
             }]);
         });
@@ -943,6 +1025,7 @@ module powerbitests {
                 properties: {
                     totals: false,
                     autoSizeColumnWidth: true,
+                    frozenColumns: 0,
                 }
             }]);
         });
@@ -969,11 +1052,63 @@ module powerbitests {
                 objectName: "general",
                 properties: {
                     totals: true,
-                    autoSizeColumnWidth: true
+                    autoSizeColumnWidth: true,
+                    frozenColumns: 0
+                }
+            }]);
+        });
+
+        it("enumerateObjectInstances dataBars per measure column", () => {
+            v.onDataChanged({ dataViews: [tableConditionalFormatting] });
+
+            expect(v.enumerateObjectInstances({ objectName: "dataBars" })).toEqual([{
+                selector: { metadata: "measureFormatted" },
+                displayName: "measureFormatted",
+                objectName: "dataBars",
+                properties: {
+                    show: true,
+                    positiveColor: "#00ff00",
+                    negativeColor: "#ff0000",
                 }
             }]);
         });
 
+        it("bindBodyCell renders conditional formatting", () => {
+            var binder = new powerbi.visuals.TableBinder({});
+            var tableCell = document.createElement("td");
+            var contentHost = document.createElement("div");
+            var cell: powerbi.visuals.controls.ITablixCell = {
+                type: null, item: null, colSpan: 0, rowSpan: 0, textAlign: "",
+                extension: {
+                    tableCell: tableCell,
+                    contentHost: contentHost,
+                    setContainerStyle: () => { },
+                    clearContainerStyle: () => { },
+                }
+            };
+
+            binder.bindBodyCell({
+                textContent: "50",
+                isMeasure: true,
+                isTotal: false,
+                isBottomMost: false,
+                showUrl: false,
+                fontColor: "#ff0000",
+                dataBar: { offset: 25, width: 50, color: "#00ff00" },
+                iconContent: $("<div class='kpiTrafficLightSingle2'></div>"),
+            }, cell);
+
+            expect(contentHost.style.color).not.toBe("");
+            expect(tableCell.style.backgroundImage).toContain("linear-gradient");
+            expect($(contentHost).children(".bi-table-cell-icon").length).toBe(1);
+            expect($(contentHost).text()).toBe("50");
+
+            binder.unbindBodyCell(null, cell);
+
+            expect(contentHost.style.color).toBe("");
+            expect(tableCell.style.backgroundImage).toBe("");
+        });
+
         it("enumerateObjectInstances some other object", () => {
             v.onDataChanged({ dataViews: [tableOneMeasureOneGroup] });
 
@@ -989,7 +1124,8 @@ module powerbitests {
                 objectName: "general",
                 properties: {
                     totals: true,
-                    autoSizeColumnWidth: false
+                    autoSizeColumnWidth: false,
+                    frozenColumns: 0
                 }
             }]);
         });
@@ -1002,7 +1138,8 @@ module powerbitests {
                 objectName: "general",
                 properties: {
                     totals: true,
-                    autoSizeColumnWidth: true
+                    autoSizeColumnWidth: true,
+                    frozenColumns: 0
                 }
             }]);
         });
@@ -1893,6 +2030,29 @@ module powerbitests {
             return transformedDataView;
         }
 
+        it("table exposes ARIA grid roles and a focusable body cell", (done) => {
+            v.onDataChanged({ dataViews: [tableTwoGroupsThreeMeasures] });
+
+            setTimeout(() => {
+                var rows = $(".bi-tablix tr");
+                expect($(".bi-tablix").attr("role")).toBe("grid");
+                expect(rows.eq(0).attr("role")).toBe("row");
+                expect(rows.eq(0).find("td").eq(1).attr("role")).toBe("columnheader");
+
+                var firstBodyCell = rows.eq(1).find("td").eq(1);
+                expect(firstBodyCell.attr("role")).toBe("gridcell");
+                expect(firstBodyCell.attr("tabindex")).toBe("0");
+                expect(rows.eq(2).find("td").eq(1).attr("tabindex")).toBe("-1");
+
+                var tableVisual = <Table>v;
+                tableVisual["tablixControl"].focusManager.focusCell({ row: 1, column: 2 });
+                var focusedCell = rows.eq(2).find("td").eq(3);
+                expect(focusedCell.attr("tabindex")).toBe("0");
+                expect($("#" + focusedCell.attr("aria-describedby")).text()).toBe("measure1");
+
+                done();
+            }, DefaultWaitForRender);
+        });
     });
 
     function formatter(value: any, source: DataViewMetadataColumn): string {
@@ -2351,4 +2511,404 @@ module powerbitests {
             tablixHelper.runTablixSortTest(element, done, "table", data, expectedColumnHeaders, clicks, expectedSorts);
         });
     });
+
+    describe("Table multi-column sort", () => {
+        var QuerySortDirection = powerbi.data.QuerySortDirection;
+        var sortedGroupSource1: DataViewMetadataColumn = { displayName: "group1", queryName: "group1", type: dataTypeString, index: 0, sort: QuerySortDirection.Ascending, sortOrder: 0 };
+        var sortedMeasureSource1: DataViewMetadataColumn = { displayName: "measure1", queryName: "measure1", type: dataTypeNumber, isMeasure: true, index: 1, sort: QuerySortDirection.Descending, sortOrder: 1 };
+
+        var tableMultiSorted: DataView = {
+            metadata: { columns: [sortedGroupSource1, sortedMeasureSource1, groupSource2] },
+            table: {
+                columns: [sortedGroupSource1, sortedMeasureSource1, groupSource2],
+                rows: [
+                    ["A", 3, "a3"],
+                    ["A", 1, "a1"],
+                    ["B", 2, "b2"]
+                ]
+            }
+        };
+
+        var tableUnsorted: DataView = {
+            metadata: { columns: [groupSource1, measureSource1] },
+            table: {
+                columns: [groupSource1, measureSource1],
+                rows: [
+                    ["B", 2],
+                    ["A", 1],
+                    [null, 4],
+                    ["A", 3]
+                ]
+            }
+        };
+
+        it("getMultiSortDescriptors appends a column to the current sort", () => {
+            expect(Table.getMultiSortDescriptors(tableMultiSorted.table.columns, "group2")).toEqual([
+                { queryName: "group1", sortDirection: QuerySortDirection.Ascending },
+                { queryName: "measure1", sortDirection: QuerySortDirection.Descending },
+                { queryName: "group2", sortDirection: QuerySortDirection.Ascending }
+            ]);
+        });
+
+        it("getMultiSortDescriptors reverses a sorted column and keeps its priority", () => {
+            expect(Table.getMultiSortDescriptors(tableMultiSorted.table.columns, "group1")).toEqual([
+                { queryName: "group1", sortDirection: QuerySortDirection.Descending },
+                { queryName: "measure1", sortDirection: QuerySortDirection.Descending }
+            ]);
+        });
+
+        it("Shift+click sends the full ordering in one sort event", () => {
+            var element = powerbitests.helpers.testDom("500", "500");
+            element["visible"] = () => { return true; };
+            var hostServices = powerbitests.mocks.createVisualHostServices();
+            var v = webPluginService.getPlugin("table").create();
+            v.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: { height: element.height(), width: element.width() },
+                interactivity: { selection: true }
+            });
+            v.onDataChanged({ dataViews: [tableMultiSorted] });
+
+            var sortSpy = spyOn(hostServices, "onCustomSort");
+            v["onColumnHeaderClick"]("group2", true);
+            v["onColumnHeaderClick"]("group2", false);
+
+            expect(sortSpy.calls.count()).toBe(2);
+            expect(sortSpy.calls.argsFor(0)[0].sortDescriptors.length).toBe(3);
+            expect(sortSpy.calls.argsFor(1)[0].sortDescriptors).toEqual([{ queryName: "group2" }]);
+        });
+
+        it("headers show sort direction and priority", (done) => {
+            var element = powerbitests.helpers.testDom("800", "800");
+            element["visible"] = () => { return true; };
+
+            tablixHelper.renderNewTablix(element, { visualType: "table", data: tableMultiSorted }).then(() => {
+                expect($(".bi-table-sort-indicator.ascending").length).toBe(1);
+                expect($(".bi-table-sort-indicator.descending").length).toBe(1);
+
+                var priorities = $(".bi-table-sort-priority");
+                expect(priorities.length).toBe(2);
+                expect(priorities.eq(0).text()).toBe("1");
+                expect(priorities.eq(1).text()).toBe("2");
+                done();
+            });
+        });
+
+        it("DefaultVisualHostServices sorts the local table by each column in turn", () => {
+            var sorted = powerbi.visuals.DefaultVisualHostServices.sortDataView(tableUnsorted, [
+                { queryName: "group1", sortDirection: QuerySortDirection.Ascending },
+                { queryName: "measure1", sortDirection: QuerySortDirection.Descending }
+            ]);
+
+            expect(sorted.table.rows).toEqual([
+                [null, 4],
+                ["A", 3],
+                ["A", 1],
+                ["B", 2]
+            ]);
+            expect(sorted.table.columns[0].sort).toBe(QuerySortDirection.Ascending);
+            expect(sorted.table.columns[0].sortOrder).toBe(0);
+            expect(sorted.table.columns[1].sort).toBe(QuerySortDirection.Descending);
+            expect(sorted.table.columns[1].sortOrder).toBe(1);
+            expect(sorted.metadata.columns[1]).toBe(sorted.table.columns[1]);
+
+            // The original data view is left untouched.
+            expect(tableUnsorted.table.rows[0]).toEqual(["B", 2]);
+            expect(tableUnsorted.table.columns[0].sort).toBeUndefined();
+        });
+
+        it("DefaultVisualHostServices toggles the direction of a sort without one", () => {
+            var hostServices = new powerbi.visuals.DefaultVisualHostServices();
+            var sortedDataViews: DataView[] = [];
+            hostServices.setLocalDataView(tableUnsorted, (dataView: DataView) => sortedDataViews.push(dataView));
+
+            hostServices.onCustomSort({ sortDescriptors: [{ queryName: "measure1" }] });
+            hostServices.onCustomSort({ sortDescriptors: [{ queryName: "measure1" }] });
+
+            expect(sortedDataViews.length).toBe(2);
+            expect(sortedDataViews[0].table.columns[1].sort).toBe(QuerySortDirection.Ascending);
+            expect(sortedDataViews[1].table.columns[1].sort).toBe(QuerySortDirection.Descending);
+            expect(sortedDataViews[1].table.rows[0]).toEqual([null, 4]);
+        });
+    });
+
+    describe("Table data export", () => {
+        var v: Table,
+            element: JQuery;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("500", "500");
+            element["visible"] = () => { return true; };
+            v = <Table>webPluginService.getPlugin("table").create();
+            v.init({
+                element: element,
+                host: powerbitests.mocks.createVisualHostServices(),
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+                interactivity: {
+                    selection: true
+                }
+            });
+        });
+
+        it("toCsv quotes cells with delimiters, quotes and line breaks", () => {
+            var csv = powerbi.visuals.controls.TablixDataExport.toCsv([
+                ["a", "b,c"],
+                ["say \"hi\"", "line\nbreak"]
+            ]);
+
+            expect(csv).toBe('a,"b,c"\r\n"say ""hi""","line\nbreak"');
+        });
+
+        it("toCsv prefixes cells that would be evaluated as formulas", () => {
+            var csv = powerbi.visuals.controls.TablixDataExport.toCsv([
+                ["=SUM(A1:A2)", "+1+2", "@cmd", "-2+3,4"],
+                ["-5", "+1.5", "a=b", ""]
+            ]);
+
+            expect(csv).toBe("'=SUM(A1:A2),'+1+2,'@cmd,\"'-2+3,4\"\r\n-5,+1.5,a=b,");
+        });
+
+        it("toTsv flattens tabs and line breaks", () => {
+            var tsv = powerbi.visuals.controls.TablixDataExport.toTsv([
+                ["a\tb", "c"],
+                ["d\r\ne", ""]
+            ]);
+
+            expect(tsv).toBe("a b\tc\r\nd e\t");
+        });
+
+        it("toCsv and toTsv prefix cells starting with a tab or carriage return", () => {
+            var rows = [["\t=cmd", "\r5", "\t"]];
+
+            expect(powerbi.visuals.controls.TablixDataExport.toCsv(rows)).toBe("'\t=cmd,\"'\r5\",'\t");
+            expect(powerbi.visuals.controls.TablixDataExport.toTsv(rows)).toBe("' =cmd\t' 5\t' ");
+        });
+
+        it("toTsv prefixes cells that would be evaluated as formulas", () => {
+            var tsv = powerbi.visuals.controls.TablixDataExport.toTsv([
+                ["=SUM(A1:A2)", "@cmd", "-5"]
+            ]);
+
+            expect(tsv).toBe("'=SUM(A1:A2)\t'@cmd\t-5");
+        });
+
+        it("clears the toolbar once the focus leaves the table", () => {
+            var hostServices = powerbitests.mocks.createVisualHostServices();
+            var setToolbarSpy = spyOn(hostServices, "setToolbar");
+            var container = document.createElement("div");
+            var inner = document.createElement("span");
+            container.appendChild(inner);
+            var toolbar = powerbi.visuals.controls.TablixDataExport.createToolbar((stringId: string) => stringId, () => { });
+            powerbi.visuals.controls.TablixDataExport.bindToolbar(container, toolbar, hostServices);
+
+            $(container).trigger("focusin");
+            expect(setToolbarSpy.calls.mostRecent().args[0]).toBe(toolbar);
+
+            $(container).trigger($.Event("focusout", { relatedTarget: inner }));
+            expect(setToolbarSpy.calls.count()).toBe(1);
+
+            $(container).trigger($.Event("focusout", { relatedTarget: document.body }));
+            expect(setToolbarSpy.calls.count()).toBe(2);
+            expect(setToolbarSpy.calls.mostRecent().args[0]).toBeNull();
+        });
+
+        it("exportData writes the formatted rows and totals", () => {
+            v.onDataChanged({ dataViews: [tableTwoGroupsThreeMeasures] });
+
+            var lines = v.exportData().split("\r\n");
+
+            expect(lines.length).toBe(9);
+            expect(lines[0]).toBe("group1,group2,measure1,measure2,measure3");
+            expect(lines[1]).toBe("A,a1,100.0,101.00,102");
+            expect(lines[8]).toBe("Total,,763.0,770.00,777");
+        });
+
+        it("exportData writes raw values", () => {
+            v.onDataChanged({ dataViews: [tableTwoGroupsThreeMeasures] });
+
+            var lines = v.exportData(/*useRawValues*/true).split("\r\n");
+
+            expect(lines[1]).toBe("A,a1,100,101,102");
+            expect(lines[8]).toBe("Total,,763,770,777");
+        });
+
+        it("copies the selected range as TSV", () => {
+            v.onDataChanged({ dataViews: [tableTwoGroupsThreeMeasures] });
+
+            var rangeSelection: powerbi.visuals.controls.TablixCellRangeSelection = v["rangeSelection"];
+            rangeSelection.select({ row: 1, column: 3 }, { row: 0, column: 2 });
+
+            expect(rangeSelection.getSelectedRange()).toEqual({ top: 0, left: 2, bottom: 1, right: 3 });
+            expect(rangeSelection.getSelectedText()).toBe("100.0\t101.00\r\n103.0\t104.00");
+        });
+
+        it("Ctrl+C copies the selection", () => {
+            var rangeSelection = new powerbi.visuals.controls.TablixCellRangeSelection(element[0], (row: number, column: number) => row + "," + column);
+            var copySpy = spyOn(document, "execCommand");
+
+            rangeSelection.select({ row: 0, column: 0 });
+            element.trigger($.Event("keydown", { which: 67, ctrlKey: true }));
+
+            expect(copySpy).toHaveBeenCalledWith("copy");
+        });
+
+        it("Ctrl+C on a focused cell copies the selection and keeps the focus on the cell", () => {
+            var rangeSelection = new powerbi.visuals.controls.TablixCellRangeSelection(element[0], (row: number, column: number) => row + "," + column);
+            var td = $("<td>").attr("tabindex", -1).appendTo($("<tr>").appendTo($("<table>").appendTo(element)));
+            var copySpy = spyOn(document, "execCommand");
+
+            expect(element.attr("tabindex")).toBe("-1");
+
+            rangeSelection.select({ row: 0, column: 0 });
+            td.focus();
+            td.trigger($.Event("keydown", { which: 67, ctrlKey: true }));
+
+            expect(copySpy).toHaveBeenCalledWith("copy");
+            expect(document.activeElement).toBe(td[0]);
+        });
+
+        it("bound cells reflect the selection", () => {
+            var rangeSelection = new powerbi.visuals.controls.TablixCellRangeSelection(element[0], (row: number, column: number) => "");
+            var td = $("<td>").appendTo($("<tr>").appendTo($("<table>").appendTo(element)));
+            var cell = <powerbi.visuals.controls.ITablixCell>{ extension: { tableCell: td[0] } };
+
+            rangeSelection.bindCell(cell, { row: 2, column: 1 });
+            expect(td.hasClass(powerbi.visuals.controls.TablixCellRangeSelection.selectedCellClassName)).toBe(false);
+
+            rangeSelection.select({ row: 0, column: 0 }, { row: 3, column: 1 });
+            expect(td.hasClass(powerbi.visuals.controls.TablixCellRangeSelection.selectedCellClassName)).toBe(true);
+
+            rangeSelection.clear();
+            expect(td.hasClass(powerbi.visuals.controls.TablixCellRangeSelection.selectedCellClassName)).toBe(false);
+        });
+    });
+
+    describe("Table column order", () => {
+        var tableReordered: DataView = {
+            metadata: {
+                columns: [groupSource1, groupSource2, measureSource1, measureSource2, measureSource3],
+                objects: { general: { totals: true, columnOrder: '["measure1","group1"]' } }
+            },
+            table: tableTwoGroupsThreeMeasures.table
+        };
+
+        var v: Table,
+            element: JQuery,
+            hostServices: powerbi.IVisualHostServices;
+
+        beforeEach(() => {
+            element = powerbitests.helpers.testDom("500", "500");
+            element["visible"] = () => { return true; };
+            hostServices = powerbitests.mocks.createVisualHostServices();
+            v = <Table>webPluginService.getPlugin("table").create();
+            v.init({
+                element: element,
+                host: hostServices,
+                style: powerbi.visuals.visualStyles.create(),
+                viewport: {
+                    height: element.height(),
+                    width: element.width()
+                },
+                animation: { transitionImmediate: true },
+                interactivity: {
+                    selection: true
+                }
+            });
+        });
+
+        it("getOrderedColumns puts unlisted columns after the listed ones", () => {
+            var columns = TableHierarchyNavigator.getOrderedColumns([groupSource1, groupSource2, measureSource1], ["measure1", "group1", "unknown"]);
+
+            expect(columns).toEqual([measureSource1, groupSource1, groupSource2]);
+        });
+
+        it("getColumnOrder ignores values that are not a list", () => {
+            expect(Table.getColumnOrder({ general: { columnOrder: '["b","a"]' } })).toEqual(["b", "a"]);
+            expect(Table.getColumnOrder({ general: { columnOrder: "b,a" } })).toBeUndefined();
+            expect(Table.getColumnOrder({ general: { columnOrder: '{"b":0}' } })).toBeUndefined();
+            expect(Table.getColumnOrder(undefined)).toBeUndefined();
+        });
+
+        it("moveColumn moves a column to the position of the target", () => {
+            expect(Table.moveColumn(["a", "b", "c"], "a", "c")).toEqual(["b", "c", "a"]);
+            expect(Table.moveColumn(["a", "b", "c"], "c", "a")).toEqual(["c", "a", "b"]);
+            expect(Table.moveColumn(["a", "b", "c"], "a", "d")).toEqual(["a", "b", "c"]);
+        });
+
+        it("navigator indexes columns by display order", () => {
+            var visualTable = Table.converter(tableTwoGroupsThreeMeasures.table, ["measure1", "group1"]);
+            var navigator = new TableHierarchyNavigator(visualTable, valueFormatter.formatRaw);
+
+            expect(navigator.getColumns()[0]).toBe(measureSource1);
+            expect(navigator.getIndex(measureSource1)).toBe(0);
+            expect(navigator.getIndex(groupSource2)).toBe(2);
+
+            var cell = navigator.getIntersection(visualTable.visualRows[0], measureSource1);
+            expect(cell.textContent).toBe("100.0");
+            expect(cell.columnIndex).toBe(0);
+        });
+
+        it("exportData follows the persisted column order", () => {
+            v.onDataChanged({ dataViews: [tableReordered] });
+
+            var lines = v.exportData().split("\r\n");
+
+            expect(lines[0]).toBe("measure1,group1,group2,measure2,measure3");
+            expect(lines[1]).toBe("100.0,A,a1,101.00,102");
+            expect(lines[8]).toBe("763.0,Total,,770.00,777");
+        });
+
+        it("dropping a column header reorders the columns and persists the order", () => {
+            v.onDataChanged({ dataViews: [tableTwoGroupsThreeMeasures] });
+            var persistSpy = spyOn(hostServices, "persistProperties");
+
+            v["onColumnHeaderDrop"]("measure2", "group2");
+
+            expect(v.exportData().split("\r\n")[0]).toBe("group1,measure2,group2,measure1,measure3");
+            expect(persistSpy).toHaveBeenCalled();
+
+            var objectInstance: powerbi.VisualObjectInstance = persistSpy.calls.argsFor(0)[0].merge[0];
+            expect(objectInstance.objectName).toBe("general");
+            expect(objectInstance.properties["columnOrder"]).toEqual(
+                powerbi.data.SQExprBuilder.text('["group1","measure2","group2","measure1","measure3"]'));
+        });
+
+        it("dragging a column header onto another one notifies the drop", () => {
+            var dropSpy = jasmine.createSpy("onColumnHeaderDrop");
+            var binder = new powerbi.visuals.TableBinder({ onColumnHeaderDrop: dropSpy });
+            var createHeaderCell = (dragHandlers: powerbi.visuals.controls.internal.TablixCellDragHandlers[]) => <powerbi.visuals.controls.ITablixCell>{
+                type: null, item: null, colSpan: 0, rowSpan: 0, textAlign: "",
+                extension: {
+                    tableCell: document.createElement("td"),
+                    contentHost: document.createElement("div"),
+                    setContainerStyle: () => { },
+                    disableDragResize: () => { },
+                    registerDragHandlers: (handlers: powerbi.visuals.controls.internal.TablixCellDragHandlers) => dragHandlers.push(handlers),
+                }
+            };
+            var dragEvent = <any>{
+                dataTransfer: { setData: () => { } },
+                preventDefault: () => { },
+            };
+
+            var dragHandlers: powerbi.visuals.controls.internal.TablixCellDragHandlers[] = [];
+            binder.bindColumnHeader(groupSource1, createHeaderCell(dragHandlers));
+            binder.bindColumnHeader(measureSource1, createHeaderCell(dragHandlers));
+
+            dragHandlers[0].dragStart(dragEvent);
+            dragHandlers[0].drop(dragEvent);
+            expect(dropSpy).not.toHaveBeenCalled();
+
+            dragHandlers[0].dragStart(dragEvent);
+            dragHandlers[1].drop(dragEvent);
+            expect(dropSpy).toHaveBeenCalledWith("group1", "measure1");
+        });
+    });
 }
\ No newline at end of file
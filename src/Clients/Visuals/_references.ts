@@ -47,6 +47,7 @@
 /// <reference path="capabilities/filledMap.capabilities.ts"/>
 /// <reference path="capabilities/funnelChart.capabilities.ts"/>
 /// <reference path="capabilities/gauge.capabilities.ts"/>
+/// <reference path="capabilities/bulletChart.capabilities.ts"/>
 /// <reference path="capabilities/imageVisual.capabilities.ts"/>
 /// <reference path="capabilities/samples/consoleWriter.capabilities.ts"/>
 /// <reference path="visuals/samples/consoleWriter.ts"/>
@@ -124,8 +125,11 @@
 /// <reference path="controls/tablix/iTablixHierarchyNavigator.ts"/>
 /// <reference path="controls/tablix/iTablixBinder.ts"/>
 /// <reference path="controls/tablix/iTablixLayoutManager.ts"/>
+/// <reference path="controls/tablix/tablixCellRangeSelection.ts"/>
 /// <reference path="controls/tablix/tablixControl.ts"/>
+/// <reference path="controls/tablix/tablixDataExport.ts"/>
 /// <reference path="controls/tablix/tablixDimension.ts"/>
+/// <reference path="controls/tablix/tablixFocusManager.ts"/>
 /// <reference path="controls/tablix/tablixTouchDelegate.ts"/>
 /// <reference path="controls/tablix/touchRegionAbstraction.ts"/>
 
@@ -149,6 +153,7 @@
 /// <reference path="cartesian/dataDotChart.ts"/>
 /// <reference path="visuals/funnelChart.ts"/>
 /// <reference path="visuals/gauge.ts"/>
+/// <reference path="visuals/bulletChart.ts"/>
 /// <reference path="visuals/imageVisual.ts"/>
 /// <reference path="iVisualStyle.ts"/>
 
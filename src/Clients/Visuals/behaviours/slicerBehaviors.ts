@@ -38,6 +38,7 @@ module powerbi.visuals {
     }
 
     export class SlicerWebBehavior implements IInteractiveBehavior {
+        private slicerItemContainers: D3.Selection;
         private slicerItemLabels: D3.Selection;
         private slicerItemInputs: D3.Selection;
         private dataPoints: SlicerDataPoint[];
@@ -49,6 +50,7 @@ module powerbi.visuals {
             let slicers = options.slicerItemContainers;
             let slicerClear = options.slicerClear;
 
+            this.slicerItemContainers = options.slicerItemContainers;
             this.slicerItemLabels = options.slicerItemLabels;
             this.slicerItemInputs = options.slicerItemInputs;
             this.dataPoints = options.dataPoints;
@@ -72,6 +74,9 @@ module powerbi.visuals {
                 if (d.isSelectAllDataPoint) {
                     selectionHandler.toggleSelectionModeInversion();
                 }
+                else if (this.slicerSettings.general.singleSelect) {
+                    selectionHandler.handleSelection(d, false /* isMultiSelect */);
+                }
                 else {
                     selectionHandler.handleSelection(d, true /* isMultiSelect */);
                 }
@@ -85,22 +90,20 @@ module powerbi.visuals {
         }
 
         public renderSelection(hasSelection: boolean): void {
-            if (!hasSelection && !this.interactivityService.isSelectionModeInverted()) {
+            let isSelectionVisible = hasSelection || this.interactivityService.isSelectionModeInverted();
+            let isSelected = (d: SlicerDataPoint) => isSelectionVisible && !!d.selected;
+
+            // The tiles show their selection with both the container and the label
+            this.slicerItemContainers.classed('selected', isSelected);
+            this.slicerItemLabels.style('color', (d: SlicerDataPoint) => isSelected(d) ? this.slicerSettings.slicerText.selectionColor : this.slicerSettings.slicerText.color);
+
+            if (!isSelectionVisible) {
                 this.slicerItemInputs.selectAll('.partiallySelected').classed('partiallySelected', false);
                 this.slicerItemInputs.selectAll('input').property('checked', false);
-                this.slicerItemLabels.style('color', this.slicerSettings.slicerText.color);
             }
             else {
                 SlicerWebBehavior.styleSlicerInputs(this.slicerItemInputs, hasSelection);
-                this.slicerItemLabels.style({
-                    'color': (d: SlicerDataPoint) => {
-                        if (d.selected)
-                            return this.slicerSettings.slicerText.selectionColor;
-                        else
-                            return this.slicerSettings.slicerText.color;
-                }
-            });
-        }
+            }
         }
 
         private renderMouseover(): void {
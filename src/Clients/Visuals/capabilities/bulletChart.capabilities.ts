@@ -0,0 +1,162 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    export var bulletChartRoleNames = {
+        category: 'Category',
+        y: gaugeRoleNames.y,
+        minValue: gaugeRoleNames.minValue,
+        maxValue: gaugeRoleNames.maxValue,
+        targetValue: gaugeRoleNames.targetValue,
+        bands: gaugeRoleNames.bands,
+    };
+
+    export module bulletChartOrientation {
+        export var horizontal: string = 'Horizontal';
+        export var vertical: string = 'Vertical';
+
+        export var type: IEnumType = createEnumType([
+            { value: horizontal, displayName: resources => resources.get('Visual_BulletChart_Orientation_Horizontal') },
+            { value: vertical, displayName: resources => resources.get('Visual_BulletChart_Orientation_Vertical') },
+        ]);
+    }
+
+    export var bulletChartCapabilities: VisualCapabilities = {
+        dataRoles: [
+            {
+                name: bulletChartRoleNames.category,
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Group'),
+            }, {
+                name: bulletChartRoleNames.y,
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Value'),
+            }, {
+                name: bulletChartRoleNames.minValue,
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_MinValue'),
+            }, {
+                name: bulletChartRoleNames.maxValue,
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_MaxValue'),
+            }, {
+                name: bulletChartRoleNames.targetValue,
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_TargetValue'),
+            }, {
+                name: bulletChartRoleNames.bands,
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Bands'),
+            }
+        ],
+        objects: {
+            general: {
+                displayName: data.createDisplayNameGetter('Visual_General'),
+                properties: {
+                    formatString: {
+                        type: { formatting: { formatString: true } },
+                    },
+                    orientation: {
+                        displayName: data.createDisplayNameGetter('Visual_BulletChart_Orientation'),
+                        type: { enumeration: bulletChartOrientation.type }
+                    },
+                },
+            },
+            axis: {
+                displayName: data.createDisplayNameGetter('Visual_Gauge_Axis'),
+                properties: {
+                    min: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Axis_Min'),
+                        type: { numeric: true }
+                    },
+                    max: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Axis_Max'),
+                        type: { numeric: true }
+                    },
+                    target: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Axis_Target'),
+                        type: { numeric: true }
+                    },
+                },
+            },
+            dataPoint: {
+                displayName: data.createDisplayNameGetter('Visual_DataPoint'),
+                properties: {
+                    fill: {
+                        displayName: data.createDisplayNameGetter('Visual_Fill'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    targetFill: {
+                        displayName: data.createDisplayNameGetter('Visual_BulletChart_TargetFill'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                },
+            },
+        },
+        dataViewMappings: [{
+            conditions: [
+                { 'Category': { max: 1 }, 'Y': { max: 1 }, 'MinValue': { max: 1 }, 'MaxValue': { max: 1 }, 'TargetValue': { max: 1 } },
+            ],
+            categorical: {
+                categories: {
+                    for: { in: 'Category' },
+                    dataReductionAlgorithm: { top: {} }
+                },
+                values: {
+                    select: [
+                        { bind: { to: 'Y' } },
+                        { bind: { to: 'MinValue' } },
+                        { bind: { to: 'MaxValue' } },
+                        { bind: { to: 'TargetValue' } },
+                        { bind: { to: 'Bands' } },
+                    ]
+                },
+                rowCount: { preferred: { min: 1 } }
+            },
+        }],
+        sorting: {
+            default: {},
+        },
+    };
+
+    export var bulletChartProps = {
+        general: {
+            formatString: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'formatString' },
+            orientation: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'orientation' },
+        },
+        axis: {
+            min: <DataViewObjectPropertyIdentifier>{ objectName: 'axis', propertyName: 'min' },
+            max: <DataViewObjectPropertyIdentifier>{ objectName: 'axis', propertyName: 'max' },
+            target: <DataViewObjectPropertyIdentifier>{ objectName: 'axis', propertyName: 'target' },
+        },
+        dataPoint: {
+            fill: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'fill' },
+            targetFill: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'targetFill' },
+        },
+    };
+}
@@ -31,7 +31,8 @@ module powerbi.visuals {
         y: 'Y',
         minValue: 'MinValue',
         maxValue: 'MaxValue',
-        targetValue: 'TargetValue'
+        targetValue: 'TargetValue',
+        bands: 'Bands'
     };
 
     export var gaugeCapabilities: VisualCapabilities = {
@@ -52,6 +53,10 @@ module powerbi.visuals {
                 name: gaugeRoleNames.targetValue,
                 kind: VisualDataRoleKind.Measure,
                 displayName: data.createDisplayNameGetter('Role_DisplayName_TargetValue'),
+            }, {
+                name: gaugeRoleNames.bands,
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Bands'),
             }
         ],
         objects: {
@@ -78,11 +83,44 @@ module powerbi.visuals {
                         type: { numeric: true }
                     },
                 },
-            }
+            },
+            bands: {
+                displayName: data.createDisplayNameGetter('Visual_Gauge_Bands'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    poorMax: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Bands_PoorMax'),
+                        type: { numeric: true }
+                    },
+                    okMax: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Bands_OKMax'),
+                        type: { numeric: true }
+                    },
+                    poorFill: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Bands_Poor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    okFill: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Bands_OK'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    goodFill: {
+                        displayName: data.createDisplayNameGetter('Visual_Gauge_Bands_Good'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    fill: {
+                        displayName: data.createDisplayNameGetter('Visual_Fill'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                },
+            },
         },
         dataViewMappings: [{
             conditions: [
-                { 'Y': { max: 1 }, 'MinValue': { max: 1 }, 'MaxValue': { max: 1 }, 'TargetValue': { max: 1 } },
+                { 'Y': { max: 1 }, 'MinValue': { max: 1 }, 'MaxValue': { max: 1 } },
             ],
             categorical: {
                 values: {
@@ -91,6 +129,7 @@ module powerbi.visuals {
                         { bind: { to: 'MinValue' } },
                         { bind: { to: 'MaxValue' } },
                         { bind: { to: 'TargetValue' } },
+                        { bind: { to: 'Bands' } },
                     ]
                 },
             },
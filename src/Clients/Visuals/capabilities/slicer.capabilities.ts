@@ -27,12 +27,46 @@
 /// <reference path="../_references.ts"/>
 
 module powerbi.visuals {
+    export module slicerSearchMode {
+        export var contains: string = 'Contains';
+        export var startsWith: string = 'StartsWith';
+
+        export var type: IEnumType = createEnumType([
+            { value: contains, displayName: resources => resources.get('Visual_Slicer_SearchMode_Contains') },
+            { value: startsWith, displayName: resources => resources.get('Visual_Slicer_SearchMode_StartsWith') },
+        ]);
+    }
+
+    export module slicerMode {
+        export var list: string = 'List';
+        export var range: string = 'Range';
+
+        export var type: IEnumType = createEnumType([
+            { value: list, displayName: resources => resources.get('Visual_Slicer_Mode_List') },
+            { value: range, displayName: resources => resources.get('Visual_Slicer_Mode_Range') },
+        ]);
+    }
+
+    export module slicerLayout {
+        export var vertical: string = 'Vertical';
+        export var tiles: string = 'Tiles';
+
+        export var type: IEnumType = createEnumType([
+            { value: vertical, displayName: resources => resources.get('Visual_Slicer_Layout_Vertical') },
+            { value: tiles, displayName: resources => resources.get('Visual_Slicer_Layout_Tiles') },
+        ]);
+    }
+
     export var slicerCapabilities: VisualCapabilities = {
         dataRoles: [
             {
                 name: 'Values',
                 kind: VisualDataRoleKind.Grouping,
                 displayName: powerbi.data.createDisplayNameGetter('Role_DisplayName_Field'),
+            }, {
+                name: 'Image',
+                kind: VisualDataRoleKind.Measure,
+                displayName: data.createDisplayNameGetter('Role_DisplayName_Image'),
             }
         ],
         objects: {
@@ -51,6 +85,9 @@ module powerbi.visuals {
                             }
                         }
                     },
+                    selfFilter: {
+                        type: { filter: { selfFilter: true } },
+                    },
                     formatString: {
                         type: { formatting: { formatString: true } },
                     },
@@ -61,7 +98,15 @@ module powerbi.visuals {
                     outlineWeight: {
                         displayName: data.createDisplayNameGetter('Visual_outlineWeight'),
                         type: { numeric: true }
-                    }
+                    },
+                    layout: {
+                        displayName: data.createDisplayNameGetter('Visual_Slicer_Layout'),
+                        type: { enumeration: slicerLayout.type }
+                    },
+                    singleSelect: {
+                        displayName: data.createDisplayNameGetter('Visual_Slicer_SingleSelect'),
+                        type: { bool: true }
+                    },
                 },
             },
             header: {
@@ -87,6 +132,23 @@ module powerbi.visuals {
                         displayName: data.createDisplayNameGetter('Visual_TextSize'),
                         type: { numeric: true }
                     },
+                    search: {
+                        displayName: data.createDisplayNameGetter('Visual_Slicer_Search'),
+                        type: { bool: true }
+                    },
+                    searchMode: {
+                        displayName: data.createDisplayNameGetter('Visual_Slicer_SearchMode'),
+                        type: { enumeration: slicerSearchMode.type }
+                    },
+                }
+            },
+            data: {
+                displayName: data.createDisplayNameGetter('Visual_Slicer_Data'),
+                properties: {
+                    mode: {
+                        displayName: data.createDisplayNameGetter('Visual_Slicer_Mode'),
+                        type: { enumeration: slicerMode.type }
+                    },
                 }
             },
             Rows: {
@@ -112,12 +174,14 @@ module powerbi.visuals {
             }
         },
         dataViewMappings: [{
-            conditions: [{ 'Values': { max: 1 } }],
             categorical: {
                 categories: {
                     for: { in: 'Values' },
                     dataReductionAlgorithm: { window: {} }
                 },
+                values: {
+                    select: [{ bind: { to: 'Image' } }]
+                },
                 includeEmptyGroups: true,
             }
         }],
@@ -132,7 +196,9 @@ module powerbi.visuals {
     export var slicerProps = {
         general: {
             outlineColor: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'outlineColor' },
-            outlineWeight: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'outlineWeight' }
+            outlineWeight: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'outlineWeight' },
+            layout: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'layout' },
+            singleSelect: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'singleSelect' },
         },
         header: {
             show: <DataViewObjectPropertyIdentifier>{ objectName: 'header', propertyName: 'show' },
@@ -140,6 +206,11 @@ module powerbi.visuals {
             background: <DataViewObjectPropertyIdentifier>{ objectName: 'header', propertyName: 'background' },
             outline: <DataViewObjectPropertyIdentifier>{ objectName: 'header', propertyName: 'outline' },
             textSize: <DataViewObjectPropertyIdentifier>{ objectName: 'header', propertyName: 'textSize' },
+            search: <DataViewObjectPropertyIdentifier>{ objectName: 'header', propertyName: 'search' },
+            searchMode: <DataViewObjectPropertyIdentifier>{ objectName: 'header', propertyName: 'searchMode' },
+        },
+        data: {
+            mode: <DataViewObjectPropertyIdentifier>{ objectName: 'data', propertyName: 'mode' },
         },
         Rows: {
             fontColor: <DataViewObjectPropertyIdentifier>{ objectName: 'Rows', propertyName: 'fontColor' },
@@ -149,6 +220,7 @@ module powerbi.visuals {
         },
         selectedPropertyIdentifier: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'selected' },
         filterPropertyIdentifier: <DataViewObjectPropertyIdentifier> { objectName: 'general', propertyName: 'filter' },
+        selfFilterPropertyIdentifier: <DataViewObjectPropertyIdentifier> { objectName: 'general', propertyName: 'selfFilter' },
         formatString: <DataViewObjectPropertyIdentifier> { objectName: 'general', propertyName: 'formatString' },
 
     };
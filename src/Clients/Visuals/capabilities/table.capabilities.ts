@@ -27,6 +27,20 @@
 /// <reference path="../_references.ts"/>
 
 module powerbi.visuals {
+    export module tableIconSet {
+        export var trafficLights: string = 'Traffic Light - Single';
+        export var flags: string = 'Three Flags Colored';
+        export var stars: string = 'Three Stars Colored';
+        export var symbols: string = 'Three Symbols UnCircled Colored';
+
+        export var type: IEnumType = createEnumType([
+            { value: trafficLights, displayName: resources => resources.get('Visual_Table_IconSet_TrafficLights') },
+            { value: flags, displayName: resources => resources.get('Visual_Table_IconSet_Flags') },
+            { value: stars, displayName: resources => resources.get('Visual_Table_IconSet_Stars') },
+            { value: symbols, displayName: resources => resources.get('Visual_Table_IconSet_Symbols') },
+        ]);
+    }
+
     export var tableCapabilities: VisualCapabilities = {
         dataRoles: [{
             name: 'Values',
@@ -49,6 +63,64 @@ module powerbi.visuals {
                     },
                     columnWidth: {
                         type: { numeric: true }
+                    },
+                    frozenColumns: {
+                        type: { numeric: true },
+                        displayName: data.createDisplayNameGetter('Visual_Table_FrozenColumns')
+                    },
+                    columnOrder: {
+                        type: { text: true }
+                    }
+                },
+            },
+            colorScale: {
+                displayName: data.createDisplayNameGetter('Visual_Table_ColorScales'),
+                properties: {
+                    background: {
+                        displayName: data.createDisplayNameGetter('Visual_Background'),
+                        type: { fillRule: {} }
+                    },
+                    fontColor: {
+                        displayName: data.createDisplayNameGetter('Visual_FontColor'),
+                        type: { fillRule: {} }
+                    }
+                },
+            },
+            dataBars: {
+                displayName: data.createDisplayNameGetter('Visual_Table_DataBars'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    positiveColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Table_DataBars_PositiveColor'),
+                        type: { fill: { solid: { color: true } } }
+                    },
+                    negativeColor: {
+                        displayName: data.createDisplayNameGetter('Visual_Table_DataBars_NegativeColor'),
+                        type: { fill: { solid: { color: true } } }
+                    }
+                },
+            },
+            iconSet: {
+                displayName: data.createDisplayNameGetter('Visual_Table_IconSet'),
+                properties: {
+                    show: {
+                        displayName: data.createDisplayNameGetter('Visual_Show'),
+                        type: { bool: true }
+                    },
+                    style: {
+                        displayName: data.createDisplayNameGetter('Visual_Table_IconSet_Style'),
+                        type: { enumeration: tableIconSet.type }
+                    },
+                    lowerThreshold: {
+                        displayName: data.createDisplayNameGetter('Visual_Table_IconSet_LowerThreshold'),
+                        type: { numeric: true }
+                    },
+                    upperThreshold: {
+                        displayName: data.createDisplayNameGetter('Visual_Table_IconSet_UpperThreshold'),
+                        type: { numeric: true }
                     }
                 },
             }
@@ -73,11 +73,11 @@ module powerbi.visuals.controls.internal {
         private _contentWidth: number;
         private _contentHeight: number;
         private _scrollable = false;
+        private _type: TablixCellType;
 
         public _column: TablixColumn; // internal
         public _row: TablixRow; // internal
 
-        public type: TablixCellType;
         public item: any;
 
         public _presenter: TablixCellPresenter; // internal
@@ -89,7 +89,7 @@ module powerbi.visuals.controls.internal {
             this._presenter.initialize(this);
             this._row = row;
             this.item = null;
-            this.type = null;
+            this._type = null;
             this._horizontalOffset = 0;
             this._verticalOffset = 0;
             this._colSpan = 1;
@@ -98,6 +98,17 @@ module powerbi.visuals.controls.internal {
             this._contentHeight = -1;
         }
 
+        public get type(): TablixCellType {
+            return this._type;
+        }
+
+        public set type(value: TablixCellType) {
+            if (this._type !== value) {
+                this._presenter.onTypeChanged(value);
+                this._type = value;
+            }
+        }
+
         public get colSpan(): number {
             return this._colSpan;
         }
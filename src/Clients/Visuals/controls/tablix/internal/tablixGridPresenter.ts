@@ -31,6 +31,14 @@ module powerbi.visuals.controls.internal {
     var UNSELECTABLE_CLASS_NAME = "unselectable";
 
     /** This class is responsible for tablix header resizing */
+    export interface TablixCellDragHandlers {
+        dragStart: (e: DragEvent) => any;
+        dragOver: (e: DragEvent) => any;
+        dragLeave: (e: DragEvent) => any;
+        drop: (e: DragEvent) => any;
+        dragEnd: (e: DragEvent) => any;
+    }
+
     export class TablixResizer {
         private _element: HTMLElement;
         private _handler: ITablixResizeHandler;
@@ -131,6 +139,11 @@ module powerbi.visuals.controls.internal {
             }
 
             event.cancelBubble = true;
+
+            // Keeps a draggable cell from starting a drag instead of the resize
+            if (event.preventDefault)
+                event.preventDefault();
+
             this._startMousePosition = position;
             this._documentMouseMoveWrapper = e => this.onDocumentMouseMove(e);
             TablixResizer.addDocumentMouseMoveEvent(this._documentMouseMoveWrapper);
@@ -308,6 +321,26 @@ module powerbi.visuals.controls.internal {
             this._contentElement.onclick = null;
         }
 
+        public registerDragHandlers(handlers: TablixCellDragHandlers): void {
+            let contentElement = this._contentElement;
+            contentElement.draggable = true;
+            contentElement.ondragstart = handlers.dragStart;
+            contentElement.ondragover = handlers.dragOver;
+            contentElement.ondragleave = handlers.dragLeave;
+            contentElement.ondrop = handlers.drop;
+            contentElement.ondragend = handlers.dragEnd;
+        }
+
+        public unregisterDragHandlers(): void {
+            let contentElement = this._contentElement;
+            contentElement.draggable = false;
+            contentElement.ondragstart = null;
+            contentElement.ondragover = null;
+            contentElement.ondragleave = null;
+            contentElement.ondrop = null;
+            contentElement.ondragend = null;
+        }
+
         public onContentWidthChanged(value: number): void {
             HTMLElementUtils.setElementWidth(this._contentElement, value);
         }
@@ -328,6 +361,39 @@ module powerbi.visuals.controls.internal {
             this._tableCell.style.textAlign = value;
         }
 
+        public onTypeChanged(value: TablixCellType): void {
+            if (!this._tableCell)
+                return;
+
+            let role = TablixCellPresenter.getRole(value);
+            if (role)
+                this._tableCell.setAttribute("role", role);
+            else
+                this._tableCell.removeAttribute("role");
+
+            // The focus manager sets the navigation attributes again once the cell is realized as a body cell.
+            if (value !== TablixCellType.BodyCell) {
+                this._tableCell.removeAttribute("tabindex");
+                this._tableCell.removeAttribute("aria-rowindex");
+                this._tableCell.removeAttribute("aria-colindex");
+                this._tableCell.removeAttribute("aria-describedby");
+            }
+        }
+
+        private static getRole(type: TablixCellType): string {
+            switch (type) {
+                case TablixCellType.CornerCell:
+                case TablixCellType.ColumnHeader:
+                    return "columnheader";
+                case TablixCellType.RowHeader:
+                    return "rowheader";
+                case TablixCellType.BodyCell:
+                    return "gridcell";
+            }
+
+            return null;
+        }
+
         public onClear(): void {
             this._contentHost.className = "";
             this._contentHostStyle = "";
@@ -424,6 +490,7 @@ module powerbi.visuals.controls.internal {
 
         public registerRow(tableRow: HTMLTableRowElement) {
             this._tableRow = tableRow;
+            this._tableRow.setAttribute("role", "row");
         }
 
         public onAppendCell(cell: TablixCell): void {
@@ -600,6 +667,10 @@ module powerbi.visuals.controls.internal {
             // Footer Table
             this._footerTable = TablixUtils.createTable();
             this._footerTable.className = UNSELECTABLE_CLASS_NAME;
+
+            // The rows belong to the grid of the tablix control; both tables only lay them out.
+            this._table.setAttribute("role", "presentation");
+            this._footerTable.setAttribute("role", "presentation");
         }
 
         public initialize(owner: TablixGrid, gridHost: HTMLElement, footerHost: HTMLElement, control: TablixControl) {
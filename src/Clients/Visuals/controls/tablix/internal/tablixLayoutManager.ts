@@ -223,14 +223,22 @@ module powerbi.visuals.controls.internal {
         }
 
         public getOtherHierarchyContextualHeight(): number {
-            let otherDimension = this.dimension.otherDimension;
-            let count = otherDimension.getDepth();
+            return this.getLeadingItemsContextualWidth(this.dimension.otherDimension.getDepth());
+        }
+
+        /**
+         * Returns the number of leading realized items that do not scroll, i.e. the other hierarchy followed by the frozen items.
+         */
+        public getPinnedItemsCount(): number {
+            return this.dimension.otherDimension.getDepth() + this.dimension.getFrozenCount();
+        }
 
+        private getLeadingItemsContextualWidth(count: number): number {
             let contextualHeight = 0;
             let items = this._getRealizedItems();
 
             if (items.length > 0) {
-                for (let i = 0; i < count; i++) {
+                for (let i = 0, itemCount = Math.min(count, items.length); i < itemCount; i++) {
                     contextualHeight += items[i].getContextualWidth();
                 }
             }
@@ -332,7 +340,7 @@ module powerbi.visuals.controls.internal {
         private getScrollDeltaWithinPage(): number {
             if (this._lastScrollOffset !== null) {
                 let delta = this.dimension.getIntegerScrollOffset() - Math.floor(this._lastScrollOffset);
-                if (Math.abs(delta) < this.getRealizedItemsCount() - this.dimension.otherDimension.getDepth()) {
+                if (Math.abs(delta) < this.getRealizedItemsCount() - this.getPinnedItemsCount()) {
                     return delta;
                 }
             }
@@ -342,14 +350,14 @@ module powerbi.visuals.controls.internal {
         private swapElements() {
             let delta = this.getScrollDeltaWithinPage();
             if (delta !== null) {
-                let otherHierarchyDepth = this.dimension.otherDimension.getDepth();
+                let pinnedItemsCount = this.getPinnedItemsCount();
 
-                if (Math.abs(delta) < this.getRealizedItemsCount() - otherHierarchyDepth) {
+                if (Math.abs(delta) < this.getRealizedItemsCount() - pinnedItemsCount) {
                     if (delta > 0) {
-                        this._moveElementsToBottom(otherHierarchyDepth, delta);
+                        this._moveElementsToBottom(pinnedItemsCount, delta);
                     }
                     else if (delta < 0) {
-                        this._moveElementsToTop(otherHierarchyDepth, -delta);
+                        this._moveElementsToTop(pinnedItemsCount, -delta);
                     }
                 }
             }
@@ -387,7 +395,7 @@ module powerbi.visuals.controls.internal {
             let scrollbar = this.dimension.scrollbar;
             scrollbar.viewMin = this.dimension.scrollOffset;
             scrollbar.min = 0;
-            scrollbar.max = this.dimension.getItemsCount();
+            scrollbar.max = this.dimension.getItemsCount() - this.dimension.getFrozenCount();
             scrollbar.viewSize = this.getViewSize(gridContextualWidth);
             this.dimension.scrollbar.show(this.canScroll(gridContextualWidth));
         }
@@ -397,12 +405,12 @@ module powerbi.visuals.controls.internal {
             if (count === 0)
                 return 0;
 
-            let startIndex = this._gridOffset;
+            let startIndex = this.getPinnedItemsCount();
             let sizeInItems = 0;
             let sizeInPixels = 0;
 
             let widthToFill: number = this._contextualWidthToFill;
-            let scrollableArea = widthToFill - this.getOtherHierarchyContextualHeight();
+            let scrollableArea = widthToFill - this.getLeadingItemsContextualWidth(startIndex);
 
             let error = this.getMeaurementError(gridContextualWidth);
 
@@ -429,7 +437,7 @@ module powerbi.visuals.controls.internal {
         }
 
         public isScrollableHeader(item: any, items: any, index: number): boolean {
-            if (index !== 0 || this.dimension.getFractionScrollOffset() === 0) {
+            if (index !== this.dimension.getFrozenCount() || this.dimension.getFractionScrollOffset() === 0) {
                 return false;
             }
 
@@ -491,7 +499,7 @@ module powerbi.visuals.controls.internal {
         public getSizeWithScrolling(size: number, index: number): number {
             let ratio;
 
-            if (this._gridOffset === index) {
+            if (this.getPinnedItemsCount() === index) {
                 ratio = this.getVisibleSizeRatio();
             }
             else {
@@ -520,7 +528,7 @@ module powerbi.visuals.controls.internal {
                 let withinThreshold = Double.equalWithPrecision(gridContextualWidth, this._contextualWidthToFill, DimensionLayoutManager._pixelPrecision);
                 if (!withinThreshold) { // if it is within the threshold we consider it aligned, skip aliging algorithm
                     let count: number = this.getRealizedItemsCount();
-                    let startIndex = this._gridOffset;
+                    let startIndex = this.getPinnedItemsCount();
                     let widthToScroll = gridContextualWidth - this._contextualWidthToFill;
 
                     let error = this.getMeaurementError(gridContextualWidth);
@@ -754,7 +762,7 @@ module powerbi.visuals.controls.internal {
         }
 
         private getFirstVisibleColumn(): TablixColumn {
-            return this._grid.realizedColumns[this._gridOffset];
+            return this._grid.realizedColumns[this.getPinnedItemsCount()];
         }
 
         public _isAutoSized(): boolean {
@@ -241,29 +241,31 @@ module powerbi.visuals.controls.internal {
                 return;
             }
 
-            let binder: ITablixBinder = this.binder;
-            let hierarchyNavigator: ITablixHierarchyNavigator = this._owner.owner.owner.hierarchyNavigator;
-
-            let startColumnIndex: number = this._owner.dimension.getIntegerScrollOffset();
+            let frozenCount: number = this._owner.dimension.getFrozenCount();
+            let startColumnIndex: number = this._owner.dimension.getIntegerScrollOffset() + frozenCount;
             let endColumnIndex: number = this._owner.dimension.getItemsCount();
             this.itemsEstimatedContextualWidth = 0;
 
             let startRowIndex: number = this._owner.otherLayoutManager.dimension.getIntegerScrollOffset();
             let endRowIndex = Math.min(startRowIndex + this.rowRealizationManager.itemsToRealizeCount, this._owner.otherLayoutManager.dimension.getItemsCount() - 1);
-            let columnCount = endColumnIndex - startColumnIndex;
+            let columnCount = endColumnIndex - startColumnIndex + frozenCount;
 
             if (this._owner.alignToEnd) {
                 this.itemsToRealizeCount = columnCount;
                 return;
             }
 
+            // Frozen columns are always realized, so they take their share of the width first
+            for (let i = 0; i < frozenCount; i++) {
+                this.itemsEstimatedContextualWidth += this.getEstimatedColumnWidth(i, startRowIndex, endRowIndex) * this.adjustmentFactor;
+            }
+
             for (let i = startColumnIndex; i < endColumnIndex; i++) {
                 if (Double.greaterOrEqualWithPrecision(this.itemsEstimatedContextualWidth, widthToFill, DimensionLayoutManager._pixelPrecision)) {
-                    this.itemsToRealizeCount = i - startColumnIndex;
+                    this.itemsToRealizeCount = i - startColumnIndex + frozenCount;
                     return;
                 }
 
-                let maxWidth = 0;
                 let visibleSizeRatio;
 
                 if (i === startColumnIndex) {
@@ -273,20 +275,27 @@ module powerbi.visuals.controls.internal {
                     visibleSizeRatio = 1;
                 }
 
-                let columnMember: any = hierarchyNavigator.getLeafAt(this._owner.dimension.model, i);
-                let label = binder.getHeaderLabel(columnMember);
-                maxWidth = Math.max(maxWidth, this._owner.getEstimatedHeaderWidth(label, i));
+                this.itemsEstimatedContextualWidth += this.getEstimatedColumnWidth(i, startRowIndex, endRowIndex) * visibleSizeRatio * this.adjustmentFactor;
+            }
 
-                for (let j = startRowIndex; j < endRowIndex; j++) {
-                    let intersection = hierarchyNavigator.getIntersection(hierarchyNavigator.getLeafAt(this._owner.otherLayoutManager.dimension.model, j), columnMember);
-                    label = binder.getCellContent(intersection);
-                    maxWidth = Math.max(maxWidth, this._owner.getEstimatedBodyCellWidth(label));
-                }
+            this.itemsToRealizeCount = columnCount;
+        }
 
-                this.itemsEstimatedContextualWidth += maxWidth * visibleSizeRatio * this.adjustmentFactor;
+        private getEstimatedColumnWidth(columnIndex: number, startRowIndex: number, endRowIndex: number): number {
+            let binder: ITablixBinder = this.binder;
+            let hierarchyNavigator: ITablixHierarchyNavigator = this._owner.owner.owner.hierarchyNavigator;
+
+            let columnMember: any = hierarchyNavigator.getLeafAt(this._owner.dimension.model, columnIndex);
+            let label = binder.getHeaderLabel(columnMember);
+            let maxWidth = this._owner.getEstimatedHeaderWidth(label, columnIndex);
+
+            for (let j = startRowIndex; j < endRowIndex; j++) {
+                let intersection = hierarchyNavigator.getIntersection(hierarchyNavigator.getLeafAt(this._owner.otherLayoutManager.dimension.model, j), columnMember);
+                label = binder.getCellContent(intersection);
+                maxWidth = Math.max(maxWidth, this._owner.getEstimatedBodyCellWidth(label));
             }
 
-            this.itemsToRealizeCount = columnCount;
+            return maxWidth;
         }
 
         public _getSizeAdjustment(gridContextualWidth: number): number {
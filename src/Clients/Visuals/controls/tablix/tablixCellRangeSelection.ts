@@ -0,0 +1,211 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbi.visuals.controls {
+    export interface TablixCellCoordinate {
+        row: number;
+        column: number;
+    }
+
+    export interface TablixCellRange {
+        top: number;
+        left: number;
+        bottom: number;
+        right: number;
+    }
+
+    /**
+     * Returns the displayed text of a body cell. Used to copy cells that are scrolled out of view and therefore not realized.
+     */
+    export interface TablixCellTextGetter {
+        (row: number, column: number): string;
+    }
+
+    /**
+     * Tracks a rectangular selection of body cells made by dragging or Shift+clicking, and copies it to the clipboard on Ctrl+C.
+     */
+    export class TablixCellRangeSelection {
+        public static selectedCellClassName = 'bi-tablix-cell-selected';
+        private static coordinateDataKey = 'tablixCellCoordinate';
+
+        private container: JQuery;
+        private getCellText: TablixCellTextGetter;
+        private anchor: TablixCellCoordinate;
+        private focus: TablixCellCoordinate;
+        private isDragging: boolean;
+
+        constructor(container: HTMLElement, getCellText: TablixCellTextGetter) {
+            debug.assertValue(container, 'container');
+            debug.assertValue(getCellText, 'getCellText');
+
+            this.container = $(container);
+            this.getCellText = getCellText;
+            this.isDragging = false;
+
+            // The copy shortcut bubbles up from the focused cell, which is the tab stop of the grid, so the container is only
+            // made focusable for a click outside of the cells and kept out of the tab order.
+            this.container
+                .attr('tabindex', -1)
+                .on('mousedown', 'td', (e: JQueryEventObject) => this.onMouseDown(e))
+                .on('mouseover', 'td', (e: JQueryEventObject) => this.onMouseOver(e))
+                .on('mouseup mouseleave', () => { this.isDragging = false; })
+                .on('keydown', (e: JQueryEventObject) => this.onKeyDown(e));
+        }
+
+        public bindCell(cell: ITablixCell, coordinate: TablixCellCoordinate): void {
+            $(cell.extension.tableCell)
+                .data(TablixCellRangeSelection.coordinateDataKey, coordinate)
+                .toggleClass(TablixCellRangeSelection.selectedCellClassName, this.isSelected(coordinate));
+        }
+
+        public unbindCell(cell: ITablixCell): void {
+            $(cell.extension.tableCell)
+                .removeData(TablixCellRangeSelection.coordinateDataKey)
+                .removeClass(TablixCellRangeSelection.selectedCellClassName);
+        }
+
+        public getSelectedRange(): TablixCellRange {
+            if (!this.anchor || !this.focus)
+                return;
+
+            return {
+                top: Math.min(this.anchor.row, this.focus.row),
+                left: Math.min(this.anchor.column, this.focus.column),
+                bottom: Math.max(this.anchor.row, this.focus.row),
+                right: Math.max(this.anchor.column, this.focus.column),
+            };
+        }
+
+        public select(anchor: TablixCellCoordinate, focus?: TablixCellCoordinate): void {
+            this.anchor = anchor;
+            this.focus = focus || anchor;
+            this.updateSelectedCells();
+        }
+
+        public clear(): void {
+            this.anchor = this.focus = undefined;
+            this.isDragging = false;
+            this.updateSelectedCells();
+        }
+
+        /**
+         * Returns the selected cells as tab separated values.
+         */
+        public getSelectedText(): string {
+            let range = this.getSelectedRange();
+            if (!range)
+                return '';
+
+            let rows: string[][] = [];
+            for (let row = range.top; row <= range.bottom; row++) {
+                let cells: string[] = [];
+                for (let column = range.left; column <= range.right; column++)
+                    cells.push(this.getCellText(row, column) || '');
+                rows.push(cells);
+            }
+
+            return TablixDataExport.toTsv(rows);
+        }
+
+        public copy(): void {
+            let text = this.getSelectedText();
+            if (!text)
+                return;
+
+            let focusedElement = <HTMLElement>document.activeElement;
+
+            // The clipboard can only be written from a selection, so the text is selected in an off-screen text area.
+            let textArea = $('<textarea>')
+                .css({ position: 'fixed', left: '-10000px', top: '0px' })
+                .val(text)
+                .appendTo(document.body);
+            (<HTMLTextAreaElement>textArea[0]).select();
+
+            try {
+                document.execCommand('copy');
+            }
+            finally {
+                textArea.remove();
+                if (focusedElement && this.container[0].contains(focusedElement))
+                    focusedElement.focus();
+                else
+                    this.container.focus();
+            }
+        }
+
+        private isSelected(coordinate: TablixCellCoordinate): boolean {
+            let range = this.getSelectedRange();
+            return !!range &&
+                coordinate.row >= range.top && coordinate.row <= range.bottom &&
+                coordinate.column >= range.left && coordinate.column <= range.right;
+        }
+
+        private updateSelectedCells(): void {
+            this.container.find('td').each((index: number, element: Element) => {
+                let coordinate: TablixCellCoordinate = $(element).data(TablixCellRangeSelection.coordinateDataKey);
+                if (coordinate)
+                    $(element).toggleClass(TablixCellRangeSelection.selectedCellClassName, this.isSelected(coordinate));
+            });
+        }
+
+        private onMouseDown(e: JQueryEventObject): void {
+            // Only the primary button starts a selection.
+            if (e.which !== 1)
+                return;
+
+            let coordinate: TablixCellCoordinate = $(e.currentTarget).data(TablixCellRangeSelection.coordinateDataKey);
+            if (!coordinate) {
+                this.clear();
+                return;
+            }
+
+            if (e.shiftKey && this.anchor)
+                this.select(this.anchor, coordinate);
+            else
+                this.select(coordinate);
+
+            this.isDragging = true;
+        }
+
+        private onMouseOver(e: JQueryEventObject): void {
+            if (!this.isDragging)
+                return;
+
+            let coordinate: TablixCellCoordinate = $(e.currentTarget).data(TablixCellRangeSelection.coordinateDataKey);
+            if (coordinate)
+                this.select(this.anchor, coordinate);
+        }
+
+        private onKeyDown(e: JQueryEventObject): void {
+            if ((e.ctrlKey || e.metaKey) && e.which === jsCommon.DOMConstants.cKeyCode && this.getSelectedRange()) {
+                this.copy();
+                e.preventDefault();
+            }
+        }
+    }
+}
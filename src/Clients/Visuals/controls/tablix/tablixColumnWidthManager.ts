@@ -45,6 +45,8 @@ module powerbi.visuals.controls {
         private dataView: DataView;
         private visualObjectInstancesToPersist: VisualObjectInstance[];
         private matrixLeafNodes: MatrixVisualNode[];
+        /** Columns of a table in display order, which can differ from the query order once columns are reordered. */
+        private tableColumns: DataViewMetadataColumn[];
         // TODO: Can we remove isMatrix and suppresNotification flag?
         private isMatrix: boolean;
         private suppressNotification: boolean;
@@ -52,12 +54,13 @@ module powerbi.visuals.controls {
         private callHostPersistProperties: boolean;
         private dataViewUpdated: boolean;
 
-        constructor(dataView: DataView, isMatrix: boolean, matrixLeafNodes?: MatrixVisualNode[]) {
+        constructor(dataView: DataView, isMatrix: boolean, matrixLeafNodes?: MatrixVisualNode[], tableColumns?: DataViewMetadataColumn[]) {
             this.columnWidths = [];
             this.tablixColumnWidthsObject = [];
             this.tablixQueryNames = [];
             this.dataView = dataView;
             this.matrixLeafNodes = matrixLeafNodes;
+            this.tableColumns = tableColumns;
             this.isMatrix = isMatrix;
             this.suppressNotification = false;
             this.currentPersistedWidths = [];
@@ -74,9 +77,10 @@ module powerbi.visuals.controls {
             return this.tablixColumnWidthsObject;
         }
 
-        public updateDataView(dataView: DataView, matrixLeafNodes?: MatrixVisualNode[]): void {
+        public updateDataView(dataView: DataView, matrixLeafNodes?: MatrixVisualNode[], tableColumns?: DataViewMetadataColumn[]): void {
             this.dataView = dataView;
             this.matrixLeafNodes = matrixLeafNodes;
+            this.tableColumns = tableColumns;
             this.dataViewUpdated = true;
         }
 
@@ -287,7 +291,7 @@ module powerbi.visuals.controls {
 
         private getTableQueryNames(): void {
             this.tablixQueryNames.length = 0;
-            let columnMetaData = this.dataView.table.columns;
+            let columnMetaData = this.tableColumns || this.dataView.table.columns;
             for (let column of columnMetaData) {
                 this.tablixQueryNames.push(column.queryName);
             }
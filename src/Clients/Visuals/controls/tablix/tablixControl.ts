@@ -89,6 +89,8 @@ module powerbi.visuals.controls {
         private _touchInterpreter: TouchUtils.TouchEventInterpreter;
         private _footerTouchInterpreter: TouchUtils.TouchEventInterpreter;
 
+        private _focusManager: TablixFocusManager;
+
         private _gridDimensions: GridDimensions;
         private _lastRenderingArgs: TablixRenderArgs;
 
@@ -99,6 +101,7 @@ module powerbi.visuals.controls {
         private _maxHeight: number;
         private _minWidth: number;
         private _minHeight: number;
+        private _frozenColumnCount: number = 0;
 
         private _options: TablixOptions;
         private _isTouchEnabled: boolean;
@@ -136,6 +139,8 @@ module powerbi.visuals.controls {
             this._gridDimensions = {};
 
             this._container = internal.TablixUtils.createDiv();
+            this._container.setAttribute("role", "grid");
+            this._container.setAttribute("aria-readonly", "true");
             this.className = layoutManager.getTablixClassName();
             this.autoSizeWidth = false;
             this.autoSizeHeight = false;
@@ -166,6 +171,9 @@ module powerbi.visuals.controls {
             if (!isInteractive) {
                 this.scrollbarWidth = 0;
             }
+            else {
+                this._focusManager = new TablixFocusManager(this);
+            }
 
             this.updateHorizontalPosition();
             this.updateVerticalPosition();
@@ -233,6 +241,10 @@ module powerbi.visuals.controls {
             return this._footerDiv;
         }
 
+        public get focusManager(): TablixFocusManager {
+            return this._focusManager;
+        }
+
         public set className(value: string) {
             this._container.className = value;
         }
@@ -326,6 +338,17 @@ module powerbi.visuals.controls {
             this._container.style.minHeight = this._minHeight + TablixControl.UnitOfMeasurement;
         }
 
+        /**
+         * The number of leading body columns that stay in view while scrolling horizontally.
+         */
+        public get frozenColumnCount(): number {
+            return this._frozenColumnCount;
+        }
+
+        public set frozenColumnCount(value: number) {
+            this._frozenColumnCount = Math.max(value || 0, 0);
+        }
+
         public set scrollbarWidth(value: number) {
             this._scrollbarWidth = value;
             this._rowDimension.scrollbar.width = this._scrollbarWidth + TablixControl.UnitOfMeasurement;
@@ -537,6 +560,8 @@ module powerbi.visuals.controls {
                 this._columnDimension._onStartRenderingIteration();
                 this._rowDimension._onStartRenderingIteration();
                 this._layoutManager.onStartRenderingIteration(clear);                     
+                if (this._focusManager)
+                    this._focusManager.onStartRenderingIteration();
 
                 // These calls add cells to the table.
                 // Column needs to be rendered before rows as the row call will pair up with columns to produce the body cells.
@@ -586,6 +611,21 @@ module powerbi.visuals.controls {
                 this._columnDimension.scrollbar.refresh();
                 this._rowDimension.scrollbar.refresh();
             }
+
+            this.updateGridSize();
+            if (this._focusManager)
+                this._focusManager.onEndRenderingSession();
+        }
+
+        /**
+         * Only the visible cells are rendered, so assistive technologies are told the size of the whole grid.
+         */
+        private updateGridSize(): void {
+            let rowCount = this._columnDimension.getDepth() + this._rowDimension.getItemsCount() + (this._rowDimension.hasFooter() ? 1 : 0);
+            let columnCount = this._rowDimension.getDepth() + this._columnDimension.getItemsCount();
+
+            this._container.setAttribute("aria-rowcount", rowCount.toString());
+            this._container.setAttribute("aria-colcount", columnCount.toString());
         }
 
         private updateContainerDimensions(): void {
@@ -637,6 +677,11 @@ module powerbi.visuals.controls {
             }
         }
 
+        public _onBodyCellRealized(cell: ITablixCell, rowIndex: number, columnIndex: number): void { // The intent is to be internal
+            if (this._focusManager)
+                this._focusManager.onBodyCellRealized(cell, { row: rowIndex, column: columnIndex });
+        }
+
         public _unbindCell(cell: ITablixCell): void { // The intent is to be internal
             switch (cell.type) {
                 case TablixCellType.BodyCell:
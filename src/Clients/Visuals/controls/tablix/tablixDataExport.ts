@@ -0,0 +1,155 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbi.visuals.controls {
+    export module TablixDataExport {
+        const CsvDelimiter = ',';
+        const TsvDelimiter = '\t';
+        const LineSeparator = '\r\n';
+
+        // Lets spreadsheet applications detect that the exported file is UTF-8 encoded.
+        const ByteOrderMark = '\ufeff';
+
+        /**
+         * Serializes rows of cell text as comma separated values, quoting the cells that contain delimiters, quotes or line breaks.
+         */
+        export function toCsv(rows: string[][]): string {
+            return _.map(rows, (row: string[]) => _.map(row, escapeCsvCell).join(CsvDelimiter)).join(LineSeparator);
+        }
+
+        /**
+         * Serializes rows of cell text as tab separated values, the format spreadsheets expect on the clipboard.
+         */
+        export function toTsv(rows: string[][]): string {
+            return _.map(rows, (row: string[]) => _.map(row, escapeTsvCell).join(TsvDelimiter)).join(LineSeparator);
+        }
+
+        /**
+         * Returns the unformatted text of a value, using the ISO format for dates so that it can be parsed again.
+         */
+        export function getRawText(value: any): string {
+            if (value == null)
+                return '';
+
+            if (value instanceof Date)
+                return (<Date>value).toISOString();
+
+            return value.toString();
+        }
+
+        /**
+         * Saves the text as a CSV file through the browser.
+         */
+        export function downloadCsv(fileName: string, csv: string): void {
+            let blob = new Blob([ByteOrderMark + csv], { type: 'text/csv;charset=utf-8' });
+
+            if (navigator.msSaveBlob) {
+                navigator.msSaveBlob(blob, fileName);
+                return;
+            }
+
+            let url = URL.createObjectURL(blob);
+            let link = document.createElement('a');
+            link.href = url;
+            link.setAttribute('download', fileName);
+            link.style.display = 'none';
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+
+            // Some browsers start the download asynchronously, revoking the URL right away could cancel it.
+            setTimeout(() => URL.revokeObjectURL(url));
+        }
+
+        /**
+         * Creates the toolbar with the export actions that the visual hands to the host.
+         */
+        export function createToolbar(getLocalizedString: (stringId: string) => string, onExport: (useRawValues: boolean) => void): JQuery {
+            let toolbar = $('<div>').addClass('tablixToolbar');
+
+            $('<button>')
+                .addClass('exportData')
+                .text(getLocalizedString('Tablix_ExportData'))
+                .on('click', () => onExport(false))
+                .appendTo(toolbar);
+
+            $('<button>')
+                .addClass('exportRawData')
+                .text(getLocalizedString('Tablix_ExportRawData'))
+                .on('click', () => onExport(true))
+                .appendTo(toolbar);
+
+            // Keeps the focus in the tablix while a button is pressed, so the toolbar is not cleared before the click.
+            toolbar.on('mousedown', (event: JQueryEventObject) => event.preventDefault());
+
+            return toolbar;
+        }
+
+        /**
+         * Shows the toolbar through the host while the focus is inside the container and clears it once the focus leaves.
+         */
+        export function bindToolbar(container: HTMLElement, toolbar: JQuery, hostServices: IVisualHostServices): void {
+            $(container)
+                .on('focusin', () => hostServices.setToolbar(toolbar))
+                .on('focusout', (event: JQueryEventObject) => {
+                    let target = <Element>event.relatedTarget;
+                    if (!target || !$.contains(container, target))
+                        hostServices.setToolbar(null);
+                });
+        }
+
+        function escapeCsvCell(text: string): string {
+            if (text == null)
+                return '';
+
+            text = escapeFormula(text);
+
+            if (/[",\r\n]/.test(text))
+                return '"' + text.replace(/"/g, '""') + '"';
+
+            return text;
+        }
+
+        function escapeTsvCell(text: string): string {
+            if (text == null)
+                return '';
+
+            // Tabs and line breaks would split the cell, so they are flattened to spaces.
+            return escapeFormula(text).replace(/[\t\r\n]+/g, ' ');
+        }
+
+        function escapeFormula(text: string): string {
+            // Spreadsheets evaluate cells starting with these characters as formulas, numbers such as -5 are left as they are.
+            // A leading tab or carriage return is always prefixed, since some applications skip it and evaluate the rest.
+            if (/^[\t\r]/.test(text) || (/^[=+\-@]/.test(text) && !isFinite(Number(text))))
+                return "'" + text;
+
+            return text;
+        }
+    }
+}
@@ -62,7 +62,7 @@ module powerbi.visuals.controls {
         }
 
         public getValidScrollOffset(scrollOffset: number): number {
-            return Math.min(Math.max(scrollOffset, 0), Math.max(this.getItemsCount() - this._scrollStep, 0));
+            return Math.min(Math.max(scrollOffset, 0), Math.max(this.getItemsCount() - this.getFrozenCount() - this._scrollStep, 0));
         }
 
         public makeScrollOffsetValid(): void {
@@ -119,6 +119,22 @@ module powerbi.visuals.controls {
             return this.model ? this._hierarchyNavigator.getDepth(this.model) : 0;
         }
 
+        /**
+         * Returns the number of leading leaves that stay realized regardless of the scroll offset.
+         * The scroll offset only spans the leaves that follow them.
+         */
+        public getFrozenCount(): number {
+            return 0;
+        }
+
+        /**
+         * Maps the index of a realized leaf to its index in the model.
+         */
+        public getLeafIndex(realizedIndex: number): number {
+            let frozenCount = this.getFrozenCount();
+            return realizedIndex < frozenCount ? realizedIndex : this.getIntegerScrollOffset() + realizedIndex;
+        }
+
         private onScroll() {
             this.scrollOffset = this._scrollbar.viewMin;
             this._owner._onScrollAsync(this);
@@ -145,7 +161,7 @@ module powerbi.visuals.controls {
                 return;
             }
 
-            let firstVisibleScrollIndex: number = this.getIntegerScrollOffset();
+            let firstVisibleScrollIndex: number = this.getIntegerScrollOffset() + this.getFrozenCount();
             let firstVisible: any = this._hierarchyNavigator.getLeafAt(this.model, firstVisibleScrollIndex);
             if (!firstVisible) {
                 return;
@@ -277,7 +293,7 @@ module powerbi.visuals.controls {
         }
 
         private addBodyCells(item: any, items: any, rowIndex: number) {
-            let firstVisibleColumnIndex: number = this._otherDimension.getIntegerScrollOffset();
+            let firstVisibleRowIndex: number = this.getIntegerScrollOffset();
             let columnCount: number = this._otherDimension._layoutManager.getRealizedItemsCount() - this.getDepth();
             let hierarchyNavigator = this._hierarchyNavigator;
             let otherModel = this._otherDimension.model;
@@ -285,10 +301,12 @@ module powerbi.visuals.controls {
 
             for (let i = 0; i < columnCount; i++) {
                 //get column header "item" by index to pair up with row header to find corelating body cell
-                let cellItem: any = hierarchyNavigator.getIntersection(item, hierarchyNavigator.getLeafAt(otherModel, firstVisibleColumnIndex + i));
+                let columnIndex: number = this._otherDimension.getLeafIndex(i);
+                let cellItem: any = hierarchyNavigator.getIntersection(item, hierarchyNavigator.getLeafAt(otherModel, columnIndex));
                 let cell: ITablixCell = layoutManager.getOrCreateBodyCell(cellItem, item, items, rowIndex, i);
                 this.bindBodyCell(cellItem, cell);
                 layoutManager.onBodyCellRealized(cellItem, cell);
+                this._owner._onBodyCellRealized(cell, firstVisibleRowIndex + rowIndex, columnIndex);
             }
         }
 
@@ -317,13 +335,12 @@ module powerbi.visuals.controls {
         }
 
         private addFooterBodyCells(rowItem: any) {
-            let firstVisibleColumnIndex: number = this._otherDimension.getIntegerScrollOffset();
             let columnCount: number = this._otherDimension.layoutManager.getRealizedItemsCount() - this.getDepth();
             let layoutManager = this._tablixLayoutManager;
 
             for (let i = 0; i < columnCount; i++) {
                 //get column header "item" by index to pair up with row header to find corelating body cell
-                let columnItem: any = this._hierarchyNavigator.getLeafAt(this._otherDimension.model, firstVisibleColumnIndex + i);
+                let columnItem: any = this._hierarchyNavigator.getLeafAt(this._otherDimension.model, this._otherDimension.getLeafIndex(i));
                 //get corelating body cell and bind it
                 let item: any = this._hierarchyNavigator.getIntersection(rowItem, columnItem);
                 let cell: ITablixCell = layoutManager.getOrCreateFooterBodyCell(item, i);
@@ -346,12 +363,27 @@ module powerbi.visuals.controls {
 
         public _render(): void { // The intent to be internal
             let firstVisibleColumnItem: any = this.getFirstVisibleItem(0);
+            let frozenCount = this.getFrozenCount();
+
+            for (let i = 0; i < frozenCount; i++) {
+                this.addNode(this._hierarchyNavigator.getAt(this.model, i), this.model, i, this.getDepth());
+            }
 
             if (firstVisibleColumnItem !== undefined) {
-                this.addNodes(this.model, 0, this.getDepth(), this._hierarchyNavigator.getIndex(firstVisibleColumnItem));
+                this.addNodes(this.model, frozenCount, this.getDepth(), this._hierarchyNavigator.getIndex(firstVisibleColumnItem));
             }
         }
 
+        /**
+         * Only flat column hierarchies can freeze columns, as a frozen group would have to keep all of its children realized.
+         */
+        public getFrozenCount(): number {
+            if (!this.model || this.getDepth() !== 1)
+                return 0;
+
+            return Math.min(this._owner.frozenColumnCount, this.getItemsCount());
+        }
+
         public _createScrollbar(parentElement: HTMLElement): Scrollbar {
             let scrollbar: HorizontalScrollbar = new HorizontalScrollbar(parentElement);
 
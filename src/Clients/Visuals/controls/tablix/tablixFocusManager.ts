@@ -0,0 +1,287 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../../_references.ts"/>
+
+module powerbi.visuals.controls {
+    import DOMConstants = jsCommon.DOMConstants;
+
+    interface TablixFocusableCell {
+        element: HTMLTableCellElement;
+        coordinate: TablixCellCoordinate;
+    }
+
+    /**
+     * Keeps a single body cell of the tablix control in the tab order (roving tab index) and moves it with the arrow,
+     * Home/End and PageUp/PageDown keys, scrolling the control when the cell is outside of the viewport.
+     */
+    export class TablixFocusManager {
+        public static focusContextClassName = 'bi-tablix-focus-context';
+        private static focusContextCount = 0;
+
+        private owner: TablixControl;
+        private focusContext: HTMLElement;
+        private realizedCells: TablixFocusableCell[];
+        private focusedCoordinate: TablixCellCoordinate;
+        private tabStop: HTMLTableCellElement;
+        private describedCell: HTMLTableCellElement;
+        private focusPending: boolean;
+
+        constructor(owner: TablixControl) {
+            debug.assertValue(owner, 'owner');
+
+            this.owner = owner;
+            this.realizedCells = [];
+            this.focusPending = false;
+
+            // Screen readers announce the headers of the focused cell as its description.
+            this.focusContext = internal.TablixUtils.createDiv();
+            this.focusContext.id = TablixFocusManager.focusContextClassName + '-' + (++TablixFocusManager.focusContextCount);
+            this.focusContext.className = TablixFocusManager.focusContextClassName;
+            owner.container.appendChild(this.focusContext);
+
+            // Focus events do not bubble, so they are captured on their way to the cell.
+            owner.contentHost.addEventListener('focus', (e) => this.onFocus(e), true);
+            owner.contentHost.addEventListener('keydown', (e) => this.onKeyDown(<KeyboardEvent>e));
+        }
+
+        public get focusedCell(): TablixCellCoordinate {
+            return this.focusedCoordinate;
+        }
+
+        public onStartRenderingIteration(): void {
+            this.realizedCells = [];
+        }
+
+        public onBodyCellRealized(cell: ITablixCell, coordinate: TablixCellCoordinate): void {
+            let element: HTMLTableCellElement = cell.extension.tableCell;
+            element.tabIndex = -1;
+
+            // Only the visible cells are rendered, so their position within the whole grid is set explicitly.
+            element.setAttribute('aria-rowindex', (this.owner.columnDimension.getDepth() + coordinate.row + 1).toString());
+            element.setAttribute('aria-colindex', (this.owner.rowDimension.getDepth() + coordinate.column + 1).toString());
+
+            this.realizedCells.push({ element: element, coordinate: coordinate });
+        }
+
+        public onEndRenderingSession(): void {
+            let focusedCoordinate = this.focusedCoordinate;
+            if (focusedCoordinate) {
+                // The data may have changed since the cell was focused.
+                let rowCount = this.owner.rowDimension.getItemsCount();
+                let columnCount = this.owner.columnDimension.getItemsCount();
+                this.focusedCoordinate = rowCount > 0 && columnCount > 0
+                    ? { row: Math.min(focusedCoordinate.row, rowCount - 1), column: Math.min(focusedCoordinate.column, columnCount - 1) }
+                    : undefined;
+            }
+
+            this.updateFocus();
+        }
+
+        /**
+         * Moves the focus to the body cell at the specified position, scrolling the control to realize it if needed.
+         */
+        public focusCell(coordinate: TablixCellCoordinate): void {
+            this.focusedCoordinate = coordinate;
+            this.focusPending = true;
+
+            let rowScrolled = this.scrollIntoView(this.owner.rowDimension, coordinate.row);
+            let columnScrolled = this.scrollIntoView(this.owner.columnDimension, coordinate.column);
+
+            // Scrolling renders the control asynchronously, which updates the focus once the cell is realized.
+            if (!rowScrolled && !columnScrolled)
+                this.updateFocus();
+        }
+
+        private updateFocus(): void {
+            let focused = this.getRealizedCell(this.focusedCoordinate);
+
+            // Keeps the grid reachable with the Tab key while the focused cell is scrolled out of view.
+            let tabStop = focused || this.realizedCells[0];
+            this.setTabStop(tabStop ? tabStop.element : null);
+
+            if (focused && (this.focusPending || this.hasFocus()) && document.activeElement !== focused.element) {
+                focused.element.focus();
+                this.describeCell(focused);
+            }
+
+            if (focused)
+                this.focusPending = false;
+        }
+
+        private onFocus(e: Event): void {
+            let focused = this.findRealizedCell(<HTMLElement>e.target);
+            if (!focused)
+                return;
+
+            this.focusedCoordinate = focused.coordinate;
+            this.setTabStop(focused.element);
+            this.describeCell(focused);
+        }
+
+        private onKeyDown(e: KeyboardEvent): void {
+            let coordinate = this.focusedCoordinate;
+            if (!coordinate)
+                return;
+
+            let rowDimension = this.owner.rowDimension;
+            let columnDimension = this.owner.columnDimension;
+            let row = coordinate.row;
+            let column = coordinate.column;
+
+            switch (e.keyCode) {
+                case DOMConstants.upArrowKeyCode:
+                    row--;
+                    break;
+                case DOMConstants.downArrowKeyCode:
+                    row++;
+                    break;
+                case DOMConstants.leftArrowKeyCode:
+                    column--;
+                    break;
+                case DOMConstants.rightArrowKeyCode:
+                    column++;
+                    break;
+                case DOMConstants.homeKeyCode:
+                    column = 0;
+                    if (e.ctrlKey)
+                        row = 0;
+                    break;
+                case DOMConstants.endKeyCode:
+                    column = columnDimension.getItemsCount() - 1;
+                    if (e.ctrlKey)
+                        row = rowDimension.getItemsCount() - 1;
+                    break;
+                case DOMConstants.pageUpKeyCode:
+                    row -= TablixFocusManager.getPageSize(rowDimension);
+                    break;
+                case DOMConstants.pageDownKeyCode:
+                    row += TablixFocusManager.getPageSize(rowDimension);
+                    break;
+                default:
+                    return;
+            }
+
+            // Keeps the keys from scrolling the page.
+            e.preventDefault();
+
+            this.focusCell({
+                row: Math.max(0, Math.min(row, rowDimension.getItemsCount() - 1)),
+                column: Math.max(0, Math.min(column, columnDimension.getItemsCount() - 1)),
+            });
+        }
+
+        private scrollIntoView(dimension: TablixDimension, index: number): boolean {
+            let scrollbar = dimension.scrollbar;
+            if (!scrollbar.visible || index < dimension.getFrozenCount())
+                return false;
+
+            // The scrollbar only spans the items that follow the frozen ones.
+            index -= dimension.getFrozenCount();
+
+            // The last realized item is usually cut off, so only whole items count as visible.
+            let firstVisible = scrollbar.viewMin;
+            let visibleCount = Math.max(Math.floor(scrollbar.viewSize), 1);
+
+            let delta = 0;
+            if (index < firstVisible)
+                delta = index - firstVisible;
+            else if (index + 1 > firstVisible + visibleCount)
+                delta = index + 1 - firstVisible - visibleCount;
+
+            if (delta === 0)
+                return false;
+
+            scrollbar.scrollBy(delta);
+
+            // The scrollbar ignores the scroll when it is already at its limit.
+            return scrollbar.viewMin !== firstVisible;
+        }
+
+        private setTabStop(element: HTMLTableCellElement): void {
+            if (this.tabStop && this.tabStop !== element && this.tabStop.hasAttribute('tabindex'))
+                this.tabStop.tabIndex = -1;
+
+            this.tabStop = element;
+            if (element)
+                element.tabIndex = 0;
+        }
+
+        private describeCell(cell: TablixFocusableCell): void {
+            if (this.describedCell && this.describedCell !== cell.element)
+                this.describedCell.removeAttribute('aria-describedby');
+
+            this.focusContext.textContent = this.getHeaderLabels(cell.coordinate).join(', ');
+            cell.element.setAttribute('aria-describedby', this.focusContext.id);
+            this.describedCell = cell.element;
+        }
+
+        private getHeaderLabels(coordinate: TablixCellCoordinate): string[] {
+            let rowDimension = this.owner.rowDimension;
+            let columnDimension = this.owner.columnDimension;
+            let navigator = this.owner.hierarchyNavigator;
+
+            let rowLabels = rowDimension.model ? this.getPathLabels(navigator.getLeafAt(rowDimension.model, coordinate.row)) : [];
+            let columnLabels = columnDimension.model ? this.getPathLabels(navigator.getLeafAt(columnDimension.model, coordinate.column)) : [];
+
+            return rowLabels.concat(columnLabels);
+        }
+
+        private getPathLabels(leaf: any): string[] {
+            let navigator = this.owner.hierarchyNavigator;
+            let binder = this.owner.binder;
+            let labels: string[] = [];
+
+            for (let item = leaf; item != null; item = navigator.getParent(item)) {
+                let label = binder.getHeaderLabel(item);
+                if (label)
+                    labels.unshift(label);
+            }
+
+            return labels;
+        }
+
+        private getRealizedCell(coordinate: TablixCellCoordinate): TablixFocusableCell {
+            if (!coordinate)
+                return;
+
+            return _.find(this.realizedCells, (cell: TablixFocusableCell) => cell.coordinate.row === coordinate.row && cell.coordinate.column === coordinate.column);
+        }
+
+        private findRealizedCell(target: HTMLElement): TablixFocusableCell {
+            return _.find(this.realizedCells, (cell: TablixFocusableCell) => cell.element === target || cell.element.contains(target));
+        }
+
+        private hasFocus(): boolean {
+            return this.owner.contentHost.contains(<HTMLElement>document.activeElement);
+        }
+
+        private static getPageSize(dimension: TablixDimension): number {
+            let scrollbar = dimension.scrollbar;
+            return scrollbar.visible ? Math.max(Math.floor(scrollbar.viewSize), 1) : dimension.getItemsCount();
+        }
+    }
+}
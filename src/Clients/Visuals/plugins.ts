@@ -53,6 +53,13 @@ module powerbi.visuals.plugins {
         getSortableRoles: (visualSortableOptions?: VisualSortableOptions) => ColumnChart.getSortableRoles(visualSortableOptions),
     };
 
+    export var bulletChart: IVisualPlugin = {
+        name: 'bulletChart',
+        watermarkKey: 'gauge',
+        capabilities: capabilities.bulletChart,
+        create: () => new BulletChart()
+    };
+
     export var basicShape: IVisualPlugin = {
         name: 'basicShape',
         capabilities: basicShapeCapabilities,
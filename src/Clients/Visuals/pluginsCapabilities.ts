@@ -36,6 +36,8 @@ module powerbi.visuals.capabilities {
 
     export var barChart = powerbi.visuals.getColumnChartCapabilities(true);
 
+    export var bulletChart = powerbi.visuals.bulletChartCapabilities;
+
     export var card = powerbi.visuals.cardCapabilities;
 
     export var multiRowCard = powerbi.visuals.multiRowCardCapabilities;
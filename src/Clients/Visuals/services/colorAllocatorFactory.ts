@@ -41,6 +41,10 @@ module powerbi.visuals {
                 return new LinearGradient3AllocatorWithSplittedScales(options);
             return new LinearGradient3Allocator(options);
         }
+
+        public stepped(options: Stepped): IColorAllocator {
+            return new SteppedAllocator(options);
+        }
     }
 
     class LinearGradient2Allocator implements IColorAllocator {
@@ -152,4 +156,26 @@ module powerbi.visuals {
             return <any>this.scale2(value);
         }
     }
+
+    class SteppedAllocator implements IColorAllocator {
+        private stops: RuleColorStop[];
+
+        constructor(options: Stepped) {
+            debug.assertValue(options, 'options');
+            debug.assert(!_.isEmpty(options.stops), 'options.stops');
+
+            // A stop without a value applies from negative infinity, so it sorts first
+            this.stops = _.sortBy(options.stops, (stop: RuleColorStop) => stop.value != null ? stop.value : -Infinity);
+        }
+
+        public color(value: number): string {
+            let stops = this.stops;
+            let color = stops[0].color;
+            for (let i = 1, len = stops.length; i < len; i++) {
+                if (value >= stops[i].value)
+                    color = stops[i].color;
+            }
+            return color;
+        }
+    }
 }
\ No newline at end of file
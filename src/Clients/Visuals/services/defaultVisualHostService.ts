@@ -97,9 +97,20 @@ module powerbi.visuals {
         'Waterfall_DecreaseLabel': 'Decrease',
         'Waterfall_TotalLabel': 'Total',
         'Slicer_SelectAll': 'Select All',
+        'Slicer_Search': 'Search',
+        'Visual_Gauge_Bands_Poor': 'Poor',
+        'Visual_Gauge_Bands_OK': 'OK',
+        'Visual_Gauge_Bands_Good': 'Good',
+        'BreakdownTree_Others': 'Others',
+        'BreakdownTree_CollapsedMembers': 'Collapsed members',
+        'Tablix_ExportData': 'Export data',
+        'Tablix_ExportRawData': 'Export raw data',
     };
 
     export class DefaultVisualHostServices implements IVisualHostServices {
+        private localDataView: DataView;
+        private onLocalDataViewSorted: (dataView: DataView) => void;
+
         // TODO: Add locale-awareness to this host service. Currently default/english functionality only.
         public static initialize(): void {
             visuals.valueFormatter.setLocaleOptions(DefaultVisualHostServices.createLocaleOptions());
@@ -143,12 +154,116 @@ module powerbi.visuals {
         public onSelect(): void { }
         public loadMoreData(): void { }
         public persistProperties(changes: VisualObjectInstance[] | VisualObjectInstancesToPersist): void { }
-        public onCustomSort(args: CustomSortEventArgs) { }
+        public onCustomSort(args: CustomSortEventArgs) {
+            if (!this.localDataView || !this.localDataView.table)
+                return;
+
+            this.localDataView = DefaultVisualHostServices.sortDataView(this.localDataView, args.sortDescriptors);
+            if (this.onLocalDataViewSorted)
+                this.onLocalDataViewSorted(this.localDataView);
+        }
         public getViewMode(): powerbi.ViewMode { return ViewMode.View; }
         public setWarnings(warnings: IVisualWarning[]): void { }
         public setToolbar($toolbar: JQuery): void { }
         public shouldRetainSelection(): boolean { return false; }
 
+        /**
+         * Registers a data view whose table is sorted locally when a visual raises onCustomSort, since there is no query to re-run.
+         * The sorted data view is handed back through onSorted so that it can be passed to the visual.
+         */
+        public setLocalDataView(dataView: DataView, onSorted?: (dataView: DataView) => void): void {
+            this.localDataView = dataView;
+            this.onLocalDataViewSorted = onSorted;
+        }
+
+        /**
+         * Returns a copy of the data view with the table rows ordered by the sort descriptors and the sort state recorded on the columns.
+         * Columns are matched by query name, or by display name when they have none.
+         */
+        public static sortDataView(dataView: DataView, sortDescriptors: SortableFieldDescriptor[]): DataView {
+            let table = dataView.table;
+            let columns = _.map(table.columns, (column: DataViewMetadataColumn) => DefaultVisualHostServices.getSortedColumn(column, sortDescriptors));
+
+            let sortPositions: number[] = [];
+            let sortDirections: data.QuerySortDirection[] = [];
+            for (let i = 0, len = sortDescriptors.length; i < len; i++) {
+                let position = DefaultVisualHostServices.getColumnPosition(columns, sortDescriptors[i].queryName);
+                if (position >= 0) {
+                    sortPositions.push(position);
+                    sortDirections.push(columns[position].sort);
+                }
+            }
+
+            // Sort the row positions rather than the rows so that equal rows keep their original order.
+            let rowPositions = _.range(table.rows.length);
+            rowPositions.sort((a, b) => {
+                for (let i = 0, len = sortPositions.length; i < len; i++) {
+                    let result = DefaultVisualHostServices.compareValues(table.rows[a][sortPositions[i]], table.rows[b][sortPositions[i]]);
+                    if (result !== 0)
+                        return sortDirections[i] === data.QuerySortDirection.Descending ? -result : result;
+                }
+                return a - b;
+            });
+
+            let sortedTable = Prototype.inherit(table);
+            sortedTable.columns = columns;
+            sortedTable.rows = _.map(rowPositions, (position: number) => table.rows[position]);
+
+            let sortedDataView = Prototype.inherit(dataView);
+            sortedDataView.table = sortedTable;
+            if (dataView.metadata) {
+                sortedDataView.metadata = Prototype.inherit(dataView.metadata);
+                sortedDataView.metadata.columns = _.map(dataView.metadata.columns, (column: DataViewMetadataColumn) => {
+                    let position = _.indexOf(table.columns, column);
+                    return position >= 0 ? columns[position] : DefaultVisualHostServices.getSortedColumn(column, sortDescriptors);
+                });
+            }
+
+            return sortedDataView;
+        }
+
+        private static getSortedColumn(column: DataViewMetadataColumn, sortDescriptors: SortableFieldDescriptor[]): DataViewMetadataColumn {
+            let sortedColumn = Prototype.inherit(column);
+            let sortOrder = _.findIndex(sortDescriptors, (descriptor: SortableFieldDescriptor) => descriptor.queryName === DefaultVisualHostServices.getSortName(column));
+            if (sortOrder >= 0) {
+                // Like a query, a column sorted without an explicit direction toggles the direction it was sorted in before.
+                let sortDirection = sortDescriptors[sortOrder].sortDirection;
+                if (!sortDirection)
+                    sortDirection = column.sort === data.QuerySortDirection.Ascending ? data.QuerySortDirection.Descending : data.QuerySortDirection.Ascending;
+
+                sortedColumn.sort = sortDirection;
+                sortedColumn.sortOrder = sortOrder;
+            }
+            else {
+                sortedColumn.sort = undefined;
+                sortedColumn.sortOrder = undefined;
+            }
+
+            return sortedColumn;
+        }
+
+        private static getColumnPosition(columns: DataViewMetadataColumn[], queryName: string): number {
+            return _.findIndex(columns, (column: DataViewMetadataColumn) => DefaultVisualHostServices.getSortName(column) === queryName);
+        }
+
+        private static getSortName(column: DataViewMetadataColumn): string {
+            return column.queryName ? column.queryName : column.displayName;
+        }
+
+        private static compareValues(value1: any, value2: any): number {
+            // Blank values sort first, as they do in a query.
+            if (value1 == null)
+                return value2 == null ? 0 : -1;
+            if (value2 == null)
+                return 1;
+
+            if (value1 < value2)
+                return -1;
+            if (value1 > value2)
+                return 1;
+            return 0;
+        }
+
         private static beautify(format: string): string {
             let key = BeautifiedFormat[format];
             if (key)
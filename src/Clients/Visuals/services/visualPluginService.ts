@@ -329,6 +329,7 @@ module powerbi.visuals {
                     powerbi.visuals.plugins.filledMap,
                     powerbi.visuals.plugins.funnel,
                     powerbi.visuals.plugins.gauge,
+                    powerbi.visuals.plugins.bulletChart,
                     powerbi.visuals.plugins.multiRowCard,
                     powerbi.visuals.plugins.card,
                     powerbi.visuals.plugins.slicer,
@@ -35,6 +35,15 @@ module powerbi.visuals {
     import DataRoleHelper = powerbi.data.DataRoleHelper;
 
 
+    module ScrollerMode {
+        export var HORIZONTAL: string = 'horizontal';
+        export var VERTICAL: string = 'vertical';
+        export var type: IEnumType = createEnumType([
+            { value: HORIZONTAL, displayName: "Horizontal ticker" },
+            { value: VERTICAL, displayName: "Vertical rolling list" },
+        ]);
+    }
+
     window["requestAnimFrame"] = (function () {
         return window.requestAnimationFrame ||
             window["webkitRequestAnimationFrame"] ||
@@ -57,6 +66,12 @@ module powerbi.visuals {
         value: string;
         identity: string;
         color: string;
+        selectionId: SelectionId;
+    }
+
+    export interface DeviationStatus {
+        color: string;
+        glyph: string;
     }
 
     export interface TextCategory {
@@ -67,7 +82,8 @@ module powerbi.visuals {
         txtSeparator: string;
         colText: string;
         colStatus: string;
-        posX: number;
+        /** Start of the category along the scroll direction, relative to its lane */
+        pos: number;
         svgSel: D3.Selection;
         sCategory: D3.Selection;
         sDataAbsoluteFormatted: D3.Selection;
@@ -75,6 +91,15 @@ module powerbi.visuals {
         sSplitChar: D3.Selection;
         sSeparator: D3.Selection;
         actualWidth: number;
+        selectionId: SelectionId;
+    }
+
+    export interface TextLane {
+        categories: TextCategory[];
+        container: D3.Selection;
+        width: number;
+        height: number;
+        speedFactor: number;
     }
 
     export interface ValueViewModel {
@@ -164,6 +189,18 @@ module powerbi.visuals {
                             displayName: "Scroll speed",
                             type: { numeric: true }
                         },
+                        pMode: {
+                            displayName: "Mode",
+                            type: { enumeration: ScrollerMode.type }
+                        },
+                        pLaneCount: {
+                            displayName: "Lanes",
+                            type: { numeric: true }
+                        },
+                        pLaneSpeedRatio: {
+                            displayName: "Lane speed ratio",
+                            type: { numeric: true }
+                        },
                         pForeColor: {
                             displayName: "Text color",
                             type: { fill: { solid: { color: true } } }
@@ -191,6 +228,62 @@ module powerbi.visuals {
                         },
                     }
 
+                },
+                deviation: {
+                    displayName: "Deviation rules",
+                    properties: {
+                        pShowRules: {
+                            displayName: "Rule-based coloring",
+                            type: { bool: true }
+                        },
+                        pLowerThreshold: {
+                            displayName: "Lower threshold",
+                            type: { numeric: true }
+                        },
+                        pUpperThreshold: {
+                            displayName: "Upper threshold",
+                            type: { numeric: true }
+                        },
+                        pBelowColor: {
+                            displayName: "Below color",
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        pBetweenColor: {
+                            displayName: "Between color",
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        pAboveColor: {
+                            displayName: "Above color",
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        pBelowGlyph: {
+                            displayName: "Below glyph",
+                            type: { text: true }
+                        },
+                        pBetweenGlyph: {
+                            displayName: "Between glyph",
+                            type: { text: true }
+                        },
+                        pAboveGlyph: {
+                            displayName: "Above glyph",
+                            type: { text: true }
+                        },
+                        pStatusFill: {
+                            displayName: "Status color",
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        pStatusFillRule: {
+                            displayName: "Status color rule",
+                            type: { fillRule: {} },
+                            rule: {
+                                inputRole: 'Measure Deviation',
+                                output: {
+                                    property: 'pStatusFill',
+                                    selector: ['Category'],
+                                },
+                            },
+                        },
+                    },
                 }
             }
         };
@@ -250,7 +343,10 @@ module powerbi.visuals {
                             viewModel.categories.push({
                                 color: colors.getColorByIndex(1).value, // i
                                 value: categories[0].values[i],
-                                identity: ''
+                                identity: '',
+                                selectionId: categories[0].identity
+                                    ? SelectionId.createWithId(categories[0].identity[i])
+                                    : SelectionId.createNull()
                             });
 
                             for (var k = 0, seriesLength = series.length; k < seriesLength; k++) {
@@ -274,6 +370,13 @@ module powerbi.visuals {
         private dataView: DataView;
         private rect: D3.Selection;
         private sText: D3.Selection;
+        private selectionManager: utility.SelectionManager;
+
+        private static DimmedTextOpacity = 0.4;
+        private static MaxLaneCount = 10;
+        private static LanePadding = 5;
+        private static VerticalLineSpacing = 1.5;
+        private static VerticalAutoSizeRows = 5;
 
         private static properties = {
             pShouldAutoSizeFont: { objectName: 'scroller', propertyName: 'pShouldAutoSizeFont' },
@@ -282,10 +385,24 @@ module powerbi.visuals {
             pShouldUseTextColoring: { objectName: 'scroller', propertyName: 'pShouldUseTextColoring' },
             pFontSize: { objectName: 'scroller', propertyName: 'pFontSize' },
             pSpeed: { objectName: 'scroller', propertyName: 'pSpeed' },
+            pMode: { objectName: 'scroller', propertyName: 'pMode' },
+            pLaneCount: { objectName: 'scroller', propertyName: 'pLaneCount' },
+            pLaneSpeedRatio: { objectName: 'scroller', propertyName: 'pLaneSpeedRatio' },
             pCustomText: { objectName: 'scroller', propertyName: 'pCustomText' },
             pForeColor: { objectName: 'scroller', propertyName: 'pForeColor' },
             pBgColor: { objectName: 'scroller', propertyName: 'pBgColor' },
             pInterval: { objectName: 'scroller', propertyName: 'pInterval' },
+            pShowRules: { objectName: 'deviation', propertyName: 'pShowRules' },
+            pLowerThreshold: { objectName: 'deviation', propertyName: 'pLowerThreshold' },
+            pUpperThreshold: { objectName: 'deviation', propertyName: 'pUpperThreshold' },
+            pBelowColor: { objectName: 'deviation', propertyName: 'pBelowColor' },
+            pBetweenColor: { objectName: 'deviation', propertyName: 'pBetweenColor' },
+            pAboveColor: { objectName: 'deviation', propertyName: 'pAboveColor' },
+            pBelowGlyph: { objectName: 'deviation', propertyName: 'pBelowGlyph' },
+            pBetweenGlyph: { objectName: 'deviation', propertyName: 'pBetweenGlyph' },
+            pAboveGlyph: { objectName: 'deviation', propertyName: 'pAboveGlyph' },
+            pStatusFill: { objectName: 'deviation', propertyName: 'pStatusFill' },
+            pStatusFillRule: { objectName: 'deviation', propertyName: 'pStatusFillRule' },
         };
         private pShouldAutoSizeFont_get(dataView: DataView): boolean { return dataView == null ? false : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pShouldAutoSizeFont, false); }
         private pShouldIndicatePosNeg_get(dataView: DataView): boolean { return dataView == null ? true : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pShouldIndicatePosNeg, true); }
@@ -293,10 +410,23 @@ module powerbi.visuals {
         private pShouldUseTextColoring_get(dataView: DataView): boolean { return dataView == null ? false : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pShouldUseTextColoring, false); }
         private pFontSize_get(dataView: DataView): number { return dataView == null ? 20 : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pFontSize, 20); }
         private pSpeed_get(dataView: DataView): number { return dataView == null ? 1.2 : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pSpeed, 1.2); }
+        private pMode_get(dataView: DataView): string { return dataView == null ? ScrollerMode.HORIZONTAL : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pMode, ScrollerMode.HORIZONTAL); }
+        private pLaneCount_get(dataView: DataView): number { return dataView == null ? 1 : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pLaneCount, 1); }
+        private pLaneSpeedRatio_get(dataView: DataView): number { return dataView == null ? 0.75 : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pLaneSpeedRatio, 0.75); }
         private pCustomText_get(dataView: DataView): string { return dataView == null ? "" : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pCustomText, ""); }
         private pForeColor_get(dataView: DataView): Fill { return dataView == null ? { solid: { color: '#ffffff' } } : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pForeColor, { solid: { color: '#ffffff' } }); }
         private pBgColor_get(dataView: DataView): Fill { return dataView == null ? { solid: { color: '#000000' } } : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pBgColor, { solid: { color: '#000000' } }); }
         private pInterval_get(dataView: DataView): number { return dataView == null ? 50 : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pInterval, 50); }
+        private pShowRules_get(dataView: DataView): boolean { return dataView == null ? false : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pShowRules, false); }
+        private pLowerThreshold_get(dataView: DataView): number { return dataView == null ? -0.05 : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pLowerThreshold, -0.05); }
+        private pUpperThreshold_get(dataView: DataView): number { return dataView == null ? 0.05 : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pUpperThreshold, 0.05); }
+        private pBelowColor_get(dataView: DataView): Fill { return dataView == null ? { solid: { color: '#DC0002' } } : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pBelowColor, { solid: { color: '#DC0002' } }); }
+        private pBetweenColor_get(dataView: DataView): Fill { return dataView == null ? { solid: { color: '#F2C80F' } } : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pBetweenColor, { solid: { color: '#F2C80F' } }); }
+        private pAboveColor_get(dataView: DataView): Fill { return dataView == null ? { solid: { color: '#96C401' } } : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pAboveColor, { solid: { color: '#96C401' } }); }
+        private pBelowGlyph_get(dataView: DataView): string { return dataView == null ? "▼" : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pBelowGlyph, "▼"); }
+        private pBetweenGlyph_get(dataView: DataView): string { return dataView == null ? "►" : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pBetweenGlyph, "►"); }
+        private pAboveGlyph_get(dataView: DataView): string { return dataView == null ? "▲" : DataViewObjects.getValue(dataView.metadata.objects, ScrollingTextVisual.properties.pAboveGlyph, "▲"); }
+        private pStatusFillRule_get(dataView: DataView): FillRule { return dataView == null ? undefined : DataViewObjects.getValue<FillRule>(dataView.metadata.objects, ScrollingTextVisual.properties.pStatusFillRule); }
 
         private activeSpeed: number = 0;
         private activeFontSize: number = 0;
@@ -309,7 +439,12 @@ module powerbi.visuals {
         private measure0FormatString = "";
         private measure1FormatString = "";
         //        private intervalFunc: any = null;
-        private gPosX: number = 0;
+        private gPos: number = 0;
+        private isVertical: boolean = false;
+        private laneCount: number = 1;
+        private lineHeight: number = 0;
+        private isPointerOver: boolean = false;
+        private isFocused: boolean = false;
  
         /** This is called once when the visual is initialially created */
         public init(options: VisualInitOptions): void {
@@ -319,21 +454,240 @@ module powerbi.visuals {
 
             options.element.empty();
 
-            this.svg = d3.select(options.element.get(0)).append("svg");
+            this.selectionManager = new utility.SelectionManager({ hostServices: options.host });
 
             var that = this;
 
-            this.rect = this.svg.append("rect")
-                .on("mouseover", function () {
-                    that.activeTargetSpeed = 0;
+            // The ticker pauses while hovered or focused, and can then be stepped with the arrow keys
+            options.element
+                .attr("tabindex", 0)
+                .on("focus", function () {
+                    that.isFocused = true;
+                    that.updateTargetSpeed();
+                })
+                .on("blur", function () {
+                    that.isFocused = false;
+                    that.updateTargetSpeed();
+                })
+                .on("keydown", function (e: JQueryEventObject) {
+                    that.onKeyDown(e);
+                });
+
+            this.svg = d3.select(options.element.get(0)).append("svg")
+                .on("mouseenter", function () {
+                    that.isPointerOver = true;
+                    that.updateTargetSpeed();
                 })
-                .on("mouseout", function () {
-                    that.activeTargetSpeed = that.pSpeed_get(that.dataView);
+                .on("mouseleave", function () {
+                    that.isPointerOver = false;
+                    that.updateTargetSpeed();
+                });
+
+            this.rect = this.svg.append("rect")
+                .on("click", function () {
+                    that.clearSelection();
                 });
 
             this.sText = this.svg.append("text");
         }
 
+        private updateTargetSpeed(): void {
+            this.activeTargetSpeed = (this.isPointerOver || this.isFocused) ? 0 : this.pSpeed_get(this.dataView);
+        }
+
+        private onKeyDown(e: JQueryEventObject): void {
+            switch (e.which) {
+                case jsCommon.DOMConstants.rightArrowKeyCode:
+                case jsCommon.DOMConstants.downArrowKeyCode:
+                    this.stepCategory(1);
+                    break;
+                case jsCommon.DOMConstants.leftArrowKeyCode:
+                case jsCommon.DOMConstants.upArrowKeyCode:
+                    this.stepCategory(-1);
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+        }
+
+        /** Moves every lane so that its next (direction > 0) or previous (direction < 0) category starts at the lane edge */
+        private stepCategory(direction: number): void {
+            for (var l = 0; l < this.lanes.length; l++) {
+                this.stepLane(this.lanes[l], direction);
+            }
+        }
+
+        private stepLane(lane: TextLane, direction: number): void {
+            var items = lane.categories;
+            if (items.length === 0) {
+                return;
+            }
+
+            var first: TextCategory = items[0];
+            if (first.svgSel == null) {
+                this.renderTextCategory(first, lane);
+            }
+
+            var shift: number;
+            if (direction > 0) {
+                shift = (first.pos > 0 || items.length === 1) ? -first.pos : -(first.pos + this.getExtent(first));
+            }
+            else if (first.pos < 0 || items.length === 1) {
+                shift = -first.pos;
+            }
+            else {
+                // Bring the last category round to the front of the lane
+                var last: TextCategory = items.pop();
+                if (last.svgSel != null) {
+                    last.svgSel.remove();
+                    last.svgSel = null;
+                }
+                this.renderTextCategory(last, lane);
+                last.pos = first.pos - this.getExtent(last);
+                items.unshift(last);
+                shift = -last.pos;
+            }
+
+            for (var i = 0; i < items.length; i++) {
+                items[i].pos += shift;
+            }
+
+            // Categories that have fully left the lane go to the back of the queue
+            while (items.length > 1 && items[0].pos + this.getExtent(items[0]) <= 0) {
+                var r: TextCategory = items.shift();
+                if (r.svgSel != null) {
+                    r.svgSel.remove();
+                    r.svgSel = null;
+                }
+                r.actualWidth = 0;
+                items.push(r);
+            }
+
+            var laneLength = this.getLaneLength(lane);
+            for (var i = 0; i < items.length; i++) {
+                var s: TextCategory = items[i];
+                if (s.svgSel == null && i > 0) {
+                    var sPrev: TextCategory = items[i - 1];
+                    s.pos = sPrev.pos + this.getExtent(sPrev);
+                }
+                if (s.svgSel == null && s.pos < laneLength) {
+                    this.renderTextCategory(s, lane);
+                }
+                if (s.svgSel != null) {
+                    this.positionTextCategory(s, lane);
+                }
+            }
+        }
+
+        /** Size of a category along the scroll direction */
+        private getExtent(s: TextCategory): number {
+            return this.isVertical ? this.lineHeight : s.actualWidth;
+        }
+
+        private getLaneLength(lane: TextLane): number {
+            return this.isVertical ? lane.height : lane.width;
+        }
+
+        private selectTextCategory(s: TextCategory, multiSelect: boolean): void {
+            if (!s.selectionId || !s.selectionId.hasIdentity()) {
+                return;
+            }
+
+            this.selectionManager.select(s.selectionId, multiSelect).then((ids: SelectionId[]) => {
+                this.renderSelection(ids);
+            });
+        }
+
+        private clearSelection(): void {
+            this.selectionManager.clear().then(() => {
+                this.renderSelection([]);
+            });
+        }
+
+        private renderSelection(ids: SelectionId[]): void {
+            for (var l = 0; l < this.lanes.length; l++) {
+                var items = this.lanes[l].categories;
+                for (var i = 0; i < items.length; i++) {
+                    var s: TextCategory = items[i];
+                    if (s.svgSel != null) {
+                        s.svgSel.style("opacity", this.getTextCategoryOpacity(s, ids));
+                    }
+                }
+            }
+        }
+
+        private getTextCategoryOpacity(s: TextCategory, ids: SelectionId[]): number {
+            if (ids.length === 0 || (s.selectionId && utility.SelectionManager.containsSelection(ids, s.selectionId))) {
+                return 1;
+            }
+            return ScrollingTextVisual.DimmedTextOpacity;
+        }
+
+        /** Creates the svg text for a category at its current position and measures its width */
+        private renderTextCategory(s: TextCategory, lane: TextLane): void {
+            var bShouldRenderAbsolute = this.measure0Index >= 0 ? true : false;
+            var bShouldRenderRelative = this.measure1Index >= 0 ? true : false;
+
+            s.svgSel = lane.container.append("text");
+            this.positionTextCategory(s, lane);
+            s.svgSel.attr("font-family", "Lucida Console").attr("font-size", this.activeFontSize + "px");
+            s.svgSel.style("opacity", this.getTextCategoryOpacity(s, this.selectionManager.getSelectionIds()));
+
+            var that = this;
+            s.svgSel
+                .on("click", function () {
+                    that.selectTextCategory(s, d3.event.ctrlKey);
+                    d3.event.stopPropagation();
+                });
+
+            s.sCategory = s.svgSel.append("tspan")
+                .text(s.txtCategory + " ")
+                .style("fill", s.colText)
+            ;
+
+            if (bShouldRenderAbsolute) {
+                s.sDataAbsoluteFormatted = s.svgSel.append("tspan")
+                    .text(s.txtDataAbsoluteFormatted)
+                    .style("fill", s.colText)
+                ;
+
+                s.sSplitChar = s.svgSel.append("tspan")
+                    .text(s.txtSplitChar)
+                    .style("fill", s.colStatus)
+                ;
+            }
+            if (bShouldRenderRelative) {
+                s.sSplitChar = s.svgSel.append("tspan")
+                    .text(s.txtDataRelativeFormatted)
+                    .style("fill", s.colText)
+                ;
+            }
+
+            s.sSplitChar = s.svgSel.append("tspan")
+                .text(s.txtSeparator)
+                .style("fill", this.pBgColor_get(this.dataView).solid.color)
+            ;
+
+            s.svgSel.each(function () {
+                s.actualWidth = this.getBBox().width;
+            });
+        }
+
+        private positionTextCategory(s: TextCategory, lane: TextLane): void {
+            var baselineOffset = this.activeFontSize * 0.30;
+            if (this.isVertical) {
+                s.svgSel
+                    .attr("x", ScrollingTextVisual.LanePadding)
+                    .attr("y", s.pos + this.lineHeight * 0.5 + baselineOffset);
+            }
+            else {
+                s.svgSel
+                    .attr("x", s.pos)
+                    .attr("y", lane.height * 0.5 + baselineOffset);
+            }
+        }
+
         private shouldRestartAnimFrame: boolean = false;
         private animationFrameLoopStarted: boolean = false;
         private animationLastTime: any = null;
@@ -343,133 +697,94 @@ module powerbi.visuals {
             this.animationLastTime = now;
 
             var pIntervalStatic = dt * 1.2; // this.pInterval_get(this.dataView)
-                       
-            for (var i = 0; i < this.arrTextCategories.length; i++) {
-                var s: TextCategory = this.arrTextCategories[i];
-                if (s.svgSel == null) {
-                    // Create element (it's within the viewport) 
-                    if (s.posX < this.viewportWidth) {
-                        var bShouldRenderAbsolute = this.measure0Index >= 0 ? true : false;
-                        var bShouldRenderRelative = this.measure1Index >= 0 ? true : false;
-
-                        var y = this.viewportHeight * 0.5 + this.activeFontSize * 0.30;
-
-                        s.svgSel = this.svg.append("text").attr("x", s.posX);
-                        s.svgSel.attr("font-family", "Lucida Console").attr("font-size", this.activeFontSize + "px");
-
-                        var that = this;
-                        s.svgSel
-                            .on("mouseover", function () {
-                                that.activeTargetSpeed = 0;
-                            })
-                            .on("mouseout", function () {
-                                that.activeTargetSpeed = that.pSpeed_get(that.dataView);
-                            });
 
-                        s.sCategory = s.svgSel.append("tspan")
-                            .text(s.txtCategory + " ")
-                            .attr("y", y)
-                            .style("fill", s.colText)
-                        ;
-
-                        if (bShouldRenderAbsolute) {
-                            s.sDataAbsoluteFormatted = s.svgSel.append("tspan")
-                                .text(s.txtDataAbsoluteFormatted)
-                                .attr("y", y)
-                                .style("fill", s.colText)
-                            ;
-
-                            s.sSplitChar = s.svgSel.append("tspan")
-                                .text(s.txtSplitChar)
-                                .attr("y", y)
-                                .style("fill", s.colStatus)
-                            ;
-                        }
-                        if (bShouldRenderRelative) {
-                            s.sSplitChar = s.svgSel.append("tspan")
-                                .text(s.txtDataRelativeFormatted)
-                                .attr("y", y)
-                                .style("fill", s.colText)
-                            ;
-                        }
+            this.activeSpeed += (this.activeTargetSpeed - this.activeSpeed) * 0.5;
+            if (this.activeSpeed < 0) {
+                this.activeSpeed = 0;
+            }
+            if (this.activeSpeed > 100) {
+                this.activeSpeed = 100;
+            }
+
+            var delta = this.activeSpeed * 8 * pIntervalStatic / 100;
+
+            this.gPos -= delta;
+            if (this.gPos < -5000) {
+                this.gPos = 0;
+            }
 
-                        s.sSplitChar = s.svgSel.append("tspan")
-                            .text(s.txtSeparator)
-                            .attr("y", y)
-                            .style("fill", this.pBgColor_get(this.dataView).solid.color)
-                        ;
+            for (var l = 0; l < this.lanes.length; l++) {
+                var lane = this.lanes[l];
+                this.scrollLane(lane, delta * lane.speedFactor);
+            }
+        }
+
+        private scrollLane(lane: TextLane, delta: number) {
+            var items = lane.categories;
+            var laneLength = this.getLaneLength(lane);
 
-                        s.svgSel.each(function () {
-                            s.actualWidth = this.getBBox().width;
-                        });
+            for (var i = 0; i < items.length; i++) {
+                var s: TextCategory = items[i];
+                if (s.svgSel == null) {
+                    // Create element (it's within the lane) 
+                    if (s.pos < laneLength) {
+                        this.renderTextCategory(s, lane);
 
                         if (i > 0) {
-                            var sPrev: TextCategory = this.arrTextCategories[i - 1];
-                            s.posX = sPrev.posX + sPrev.actualWidth;
+                            var sPrev: TextCategory = items[i - 1];
+                            s.pos = sPrev.pos + this.getExtent(sPrev);
                         }
                         
                         // Nedanstående är till för att hantera om vi har mindre texter än hela utrymmet - då vill vi inte lägga in textern i mitten...
-                        if (s.posX < this.viewportWidth) {
-                            s.posX = this.viewportWidth;
+                        if (s.pos < laneLength) {
+                            s.pos = laneLength;
                         }
                         
                         // Uppdatera alla efterliggande med den nyligen tillagdas position och bredd.
-                        if (i < this.arrTextCategories.length - 1) {
-                            for (var t = i + 1; t < this.arrTextCategories.length; t++) {
-                                var sNext: TextCategory = this.arrTextCategories[t];
-                                sNext.posX = s.posX + s.actualWidth;
+                        if (i < items.length - 1) {
+                            for (var t = i + 1; t < items.length; t++) {
+                                var sNext: TextCategory = items[t];
+                                sNext.pos = s.pos + this.getExtent(s);
                             }
                         }
                     }
                 }
             }
-            this.activeSpeed += (this.activeTargetSpeed - this.activeSpeed) * 0.5;
-            if (this.activeSpeed < 0) {
-                this.activeSpeed = 0;
-            }
-            if (this.activeSpeed > 100) {
-                this.activeSpeed = 100;
-            }
 
-            this.gPosX -= this.activeSpeed * 8 * pIntervalStatic / 100;
-            if (this.gPosX < -5000) {
-                this.gPosX = 0;
-            }
-
-            for (var i = 0; i < this.arrTextCategories.length; i++) {
-                var s: TextCategory = this.arrTextCategories[i];
-                s.posX -= this.activeSpeed * 8 * pIntervalStatic / 100;
+            for (var i = 0; i < items.length; i++) {
+                var s: TextCategory = items[i];
+                s.pos -= delta;
                 if (s.svgSel != null) {
-                    s.svgSel.attr("x", s.posX);
+                    this.positionTextCategory(s, lane);
                 }
             }
 
-            // Remove elements outside of the left of the viewport
-            for (var i = 0; i < this.arrTextCategories.length; i++) {
-                var s: TextCategory = this.arrTextCategories[i];
+            // Remove elements outside of the start of the lane
+            for (var i = 0; i < items.length; i++) {
+                var s: TextCategory = items[i];
 
-                if ((s.posX + s.actualWidth) < 0) {
+                if ((s.pos + this.getExtent(s)) < 0) {
                     // Hela elementet är utanför, ta bort det (börja om)
-                    var r1: TextCategory = this.arrTextCategories.splice(i, 1)[0];
+                    var r1: TextCategory = items.splice(i, 1)[0];
                     if (r1.svgSel != null) {
                         r1.svgSel.remove();
                     }
                     r1.svgSel = null;
                     r1.actualWidth = 0;
 
-                    r1.posX = 0;
-                    if (this.arrTextCategories.length > 0) {
-                        var sLast: TextCategory = this.arrTextCategories[this.arrTextCategories.length - 1];
-                        r1.posX = sLast.posX + 10;
+                    r1.pos = 0;
+                    if (items.length > 0) {
+                        var sLast: TextCategory = items[items.length - 1];
+                        r1.pos = sLast.pos + 10;
                     }
                     else {
-                        r1.posX = this.viewportWidth;
+                        r1.pos = laneLength;
                     }
-                    if (r1.posX < this.viewportWidth) {
-                        r1.posX = this.viewportWidth;
+                    if (r1.pos < laneLength) {
+                        r1.pos = laneLength;
                     }
 
-                    this.arrTextCategories.push(r1);
+                    items.push(r1);
 
                     break;
                 }
@@ -519,7 +834,7 @@ module powerbi.visuals {
                     	
                         */
 
-            this.activeTargetSpeed = this.pSpeed_get(this.dataView);
+            this.updateTargetSpeed();
 
             var width = options.viewport.width;
             var height = options.viewport.height;
@@ -532,8 +847,15 @@ module powerbi.visuals {
             this.viewportWidth = width;
             this.viewportHeight = height;
 
+            var viewModel = ScrollingTextVisual.converter(dataViews[0], this.colorPalette, this);
+
+            this.isVertical = this.pMode_get(this.dataView) === ScrollerMode.VERTICAL;
+            this.laneCount = this.getLaneCount(viewModel);
+
             if (this.pShouldAutoSizeFont_get(this.dataView)) {
-                this.activeFontSize = height * 0.5;
+                this.activeFontSize = this.isVertical
+                    ? height / (ScrollingTextVisual.VerticalAutoSizeRows * ScrollingTextVisual.VerticalLineSpacing)
+                    : height / this.laneCount * 0.5;
             }
             else {
                 this.activeFontSize = this.pFontSize_get(this.dataView);
@@ -544,8 +866,7 @@ module powerbi.visuals {
             else if (this.activeFontSize > 10000) {
                 this.activeFontSize = 10000;
             }
-
-            var viewModel = ScrollingTextVisual.converter(dataViews[0], this.colorPalette, this);
+            this.lineHeight = this.activeFontSize * ScrollingTextVisual.VerticalLineSpacing;
 
             this.svg
                 .attr("width", width)
@@ -561,13 +882,7 @@ module powerbi.visuals {
             ;
 
             this.sText.remove();
-            this.sText = this.svg.append("text")
-                .on("mouseover", function () {
-                    that.activeTargetSpeed = 0;
-                })
-                .on("mouseout", function () {
-                    that.activeTargetSpeed = that.pSpeed_get(that.dataView);
-                });
+            this.sText = this.svg.append("text");
 
             this.sText
                 .attr("y", height * 0.5 + this.activeFontSize * 0.30)
@@ -590,24 +905,67 @@ module powerbi.visuals {
             }
         }
 
-        private arrTextCategories: TextCategory[];
+        private lanes: TextLane[] = [];
+
+        private getLaneCount(viewModel: ViewModel): number {
+            if (this.pCustomText_get(this.dataView).length > 0 || !viewModel) {
+                return 1;
+            }
+
+            var laneCount = Math.floor(this.pLaneCount_get(this.dataView));
+            laneCount = Math.min(laneCount, ScrollingTextVisual.MaxLaneCount, viewModel.categories.length);
+            return Math.max(laneCount, 1);
+        }
+
+        /** Splits the viewport into lanes and deals the categories out across them in turn */
+        private createLanes(categories: TextCategory[]) {
+            var laneSpeedRatio = this.pLaneSpeedRatio_get(this.dataView);
+            if (!(laneSpeedRatio > 0)) {
+                laneSpeedRatio = 1;
+            }
+
+            for (var l = 0; l < this.laneCount; l++) {
+                var width = this.isVertical ? this.viewportWidth / this.laneCount : this.viewportWidth;
+                var height = this.isVertical ? this.viewportHeight : this.viewportHeight / this.laneCount;
+
+                // Nested svg elements clip their content, which keeps each lane's text inside its own area
+                var container = this.svg.append("svg")
+                    .classed("lane", true)
+                    .attr("x", this.isVertical ? l * width : 0)
+                    .attr("y", this.isVertical ? 0 : l * height)
+                    .attr("width", width)
+                    .attr("height", height);
+
+                this.lanes.push({
+                    categories: [],
+                    container: container,
+                    width: width,
+                    height: height,
+                    speedFactor: Math.pow(laneSpeedRatio, l)
+                });
+            }
+
+            for (var i = 0; i < categories.length; i++) {
+                var lane = this.lanes[i % this.laneCount];
+                var category = categories[i];
+                category.pos = lane.categories.length === 0 ? this.gPos : this.getLaneLength(lane);
+                lane.categories.push(category);
+            }
+        }
 
         private CreateTextFromData(viewModel: ViewModel, dataView: DataView) {
-            if (this.gPosX === 0) {
-                this.gPosX = this.viewportWidth;
+            if (this.gPos === 0) {
+                this.gPos = this.isVertical ? this.viewportHeight : this.viewportWidth;
             }
 
-            if (this.arrTextCategories != null && this.arrTextCategories.length > 0) {
-                for (var i = 0; i < this.arrTextCategories.length; i++) {
-                    if (this.arrTextCategories[i].svgSel != null) {
-                        this.arrTextCategories[i].svgSel.remove();
-                        this.arrTextCategories[i].svgSel = null;
-                    }
-                }
-                this.arrTextCategories.splice(0, this.arrTextCategories.length);
+            for (var l = 0; l < this.lanes.length; l++) {
+                this.lanes[l].container.remove();
             }
+            this.lanes = [];
 
-            this.arrTextCategories = [];
+            var categories: TextCategory[] = [];
+            var deviationRule = this.pShowRules_get(this.dataView) ? this.getDeviationRule() : null;
+            var deviationGlyphs = [this.pBelowGlyph_get(this.dataView), this.pBetweenGlyph_get(this.dataView), this.pAboveGlyph_get(this.dataView)];
 
             var sText = this.pCustomText_get(this.dataView);
             if (sText.length > 0) {
@@ -620,17 +978,18 @@ module powerbi.visuals {
                     txtSplitChar: "",
                     colStatus: this.pBgColor_get(this.dataView).solid.color,
                     colText: this.pForeColor_get(this.dataView).solid.color,
-                    posX: this.viewportWidth + 10,
+                    pos: 0,
                     svgSel: null,
                     sCategory: null,
                     sDataAbsoluteFormatted: null,
                     sDataRelativeFormatted: null,
                     sSeparator: null,
                     sSplitChar: null,
-                    actualWidth: 0
+                    actualWidth: 0,
+                    selectionId: null
                 };
-                newCat.posX = this.gPosX;
-                this.arrTextCategories.push(newCat);
+                categories.push(newCat);
+                this.createLanes(categories);
                 return;
             }
 
@@ -656,24 +1015,14 @@ module powerbi.visuals {
                 var colorText = this.pForeColor_get(this.dataView).solid.color;
                 var splitChar = " ";
                 if (bShouldRenderRelative && this.pShouldIndicatePosNeg_get(this.dataView)) {
-                    if (dataRelative >= 0) {
-                        if (this.pShouldUsePosNegColoring_get(this.dataView)) {
-                            colorStatus = "#96C401";
-                        }
-                        if (this.pShouldUseTextColoring_get(this.dataView)) {
-                            colorText = "#96C401";
-                        }
-                        splitChar = " ▲ ";
+                    var status = ScrollingTextVisual.getDeviationStatus(dataRelative, deviationRule, deviationGlyphs);
+                    if (this.pShouldUsePosNegColoring_get(this.dataView)) {
+                        colorStatus = status.color;
                     }
-                    else {
-                        if (this.pShouldUsePosNegColoring_get(this.dataView)) {
-                            colorStatus = "#DC0002";
-                        }
-                        if (this.pShouldUseTextColoring_get(this.dataView)) {
-                            colorText = "#DC0002";
-                        }
-                        splitChar = " ▼ ";
+                    if (this.pShouldUseTextColoring_get(this.dataView)) {
+                        colorText = status.color;
                     }
+                    splitChar = " " + status.glyph + " ";
                 }
 
                 var newCat: TextCategory = {
@@ -684,20 +1033,67 @@ module powerbi.visuals {
                     txtSplitChar: splitChar,
                     colStatus: colorStatus,
                     colText: colorText,
-                    posX: this.viewportWidth,
+                    pos: 0,
                     svgSel: null,
                     sCategory: null,
                     sDataAbsoluteFormatted: null,
                     sDataRelativeFormatted: null,
                     sSeparator: null,
                     sSplitChar: null,
-                    actualWidth: 0
+                    actualWidth: 0,
+                    selectionId: viewModel.categories[i].selectionId
                 };
-                if (i === 0) {
-                    newCat.posX = this.gPosX;
-                }
-                this.arrTextCategories.push(newCat);
+                categories.push(newCat);
+            }
+
+            this.createLanes(categories);
+        }
+
+        private getDeviationThresholds(): number[] {
+            var lower = this.pLowerThreshold_get(this.dataView);
+            var upper = this.pUpperThreshold_get(this.dataView);
+            return lower <= upper ? [lower, upper] : [upper, lower];
+        }
+
+        /** The status color rule set by the host, otherwise the bands configured by the thresholds and colors of the deviation card */
+        private getDeviationRule(): Stepped {
+            var fillRule = this.pStatusFillRule_get(this.dataView);
+            if (fillRule && fillRule.stepped && !_.isEmpty(fillRule.stepped.stops))
+                return fillRule.stepped;
+
+            var thresholds = this.getDeviationThresholds();
+            return {
+                stops: [
+                    { color: this.pBelowColor_get(this.dataView).solid.color },
+                    { color: this.pBetweenColor_get(this.dataView).solid.color, value: thresholds[0] },
+                    { color: this.pAboveColor_get(this.dataView).solid.color, value: thresholds[1] },
+                ]
+            };
+        }
+
+        /**
+         * Evaluates the stepped rule once and reads both the glyph and the color from the stop it picks, so that they always describe the same band.
+         * The first stop gets the below glyph, the last one the above glyph and the stops in between the between glyph.
+         * Without a rule the status only tells positive from negative values.
+         * Note: Public for testability.
+         */
+        public static getDeviationStatus(value: number, rule: Stepped, glyphs: string[]): DeviationStatus {
+            if (!rule) {
+                return value >= 0
+                    ? { color: "#96C401", glyph: "▲" }
+                    : { color: "#DC0002", glyph: "▼" };
             }
+
+            // The stops are sorted the way the stepped allocator sorts them, and the rule is evaluated on their positions
+            var stops = _.sortBy(rule.stops, (stop: RuleColorStop) => stop.value != null ? stop.value : -Infinity);
+            var positionRule = new data.ColorRuleEvaluation('Measure Deviation', createColorAllocatorFactory().stepped({
+                stops: stops.map((stop: RuleColorStop, i: number) => ({ color: i.toString(), value: stop.value }))
+            }));
+            positionRule.setContext(null, value);
+            var position = parseInt(positionRule.evaluate(), 10);
+
+            var glyph = position === 0 ? glyphs[0] : position === stops.length - 1 ? glyphs[2] : glyphs[1];
+            return { color: stops[position].color, glyph: glyph };
         }
 
         public static getFormattedValueByFormatString(dataView: DataView, theValue: number, formatString: string, thisRef: ScrollingTextVisual): string {
@@ -780,6 +1176,9 @@ module powerbi.visuals {
                             pShouldUseTextColoring: this.pShouldUseTextColoring_get(dataView),
                             pFontSize: this.pFontSize_get(dataView),
                             pSpeed: this.pSpeed_get(dataView),
+                            pMode: this.pMode_get(dataView),
+                            pLaneCount: this.pLaneCount_get(dataView),
+                            pLaneSpeedRatio: this.pLaneSpeedRatio_get(dataView),
                             pCustomText: this.pCustomText_get(dataView),
                             pForeColor: this.pForeColor_get(dataView),
                             pBgColor: this.pBgColor_get(dataView),
@@ -788,10 +1187,33 @@ module powerbi.visuals {
                     };
                     instances.push(general);
                     break;
+                case 'deviation':
+                    instances.push({
+                        objectName: 'deviation',
+                        displayName: 'Deviation rules',
+                        selector: null,
+                        properties: {
+                            pShowRules: this.pShowRules_get(dataView),
+                            pLowerThreshold: this.pLowerThreshold_get(dataView),
+                            pUpperThreshold: this.pUpperThreshold_get(dataView),
+                            pBelowColor: this.pBelowColor_get(dataView),
+                            pBetweenColor: this.pBetweenColor_get(dataView),
+                            pAboveColor: this.pAboveColor_get(dataView),
+                            pBelowGlyph: this.pBelowGlyph_get(dataView),
+                            pBetweenGlyph: this.pBetweenGlyph_get(dataView),
+                            pAboveGlyph: this.pAboveGlyph_get(dataView),
+                            pStatusFillRule: this.pStatusFillRule_get(dataView),
+                        }
+                    });
+                    break;
             }
             return instances;
         }
 
+        public onClearSelection(): void {
+            this.clearSelection();
+        }
+
         public destroy(): void {
             window["cancelAnimFrame"](this.animationId);//removes animation callback.
         }
@@ -54,6 +54,20 @@ module powerbi.visuals {
     var itemWidthDistanceMin = 150;
     var itemWidthDistanceMax = 200;
     var itemWidth = 120;
+    // Tree layout: distance between the rows of the vertical layout and between the siblings in it
+    var treeLevelHeightDistance = 85;
+    var treeItemWidthDistance = 130;
+
+    module BreakdownTreeLayoutMode {
+        export var BARS: string = 'BARS';
+        export var HORIZONTAL: string = 'HORIZONTAL';
+        export var VERTICAL: string = 'VERTICAL';
+        export var type: IEnumType = createEnumType([
+            { value: BARS, displayName: resources => resources.get('Visual_BreakdownTree_Mode_Bars') },
+            { value: HORIZONTAL, displayName: resources => resources.get('Visual_BreakdownTree_Mode_TreeHorizontal') },
+            { value: VERTICAL, displayName: resources => resources.get('Visual_BreakdownTree_Mode_TreeVertical') },
+        ]);
+    }
 
     export interface BreakdownTreePercent {
         value: number;
@@ -75,18 +89,32 @@ module powerbi.visuals {
         measureCalc: number;
         sumOfMeasureCalc: number;
         percentOfTotal: number;
+        highlightPercentOfTotal?: number;
         maxPercentOfTotal: number;
         yAdj: number;
         isSelectedForDrill: boolean;
+        collapsedSiblings?: number;
         currentLevelIndex: number;
         totalLevels: number;
         formattedValue: string;
         dimensionAttributeQueryName: string;
         dimensionAttributeFriendlyName: string;
+        isOthers?: boolean;
+        // The slices aggregated into an "Others" slice
+        othersSlices?: BreakdownTreeSlice[];
+        // Rebuilt from the persisted drill path without an identity, so it can not be selected
+        isRestored?: boolean;
+    }
+
+    export interface BreakdownTreeTopNSettings {
+        show: boolean;
+        count: number;
     }
 
     export interface BreakdownTreeData {
         slices: BreakdownTreeSlice[];
+        // The Top N count the level was trimmed with, undefined when all its members are shown
+        topNCount?: number;
         categoryLabels: string[];
         valuesMetadata: DataViewMetadataColumn[];
         hasHighlights: boolean;
@@ -126,6 +154,26 @@ module powerbi.visuals {
         };
     }
 
+    export interface BreakdownTreeDrillStateSlice {
+        label: string;
+        value: number;
+        formattedValue: string;
+    }
+
+    /** One level of the persisted drill path, see BreakdownTree.getDrillState. */
+    export interface BreakdownTreeDrillStateLevel {
+        queryName: string;
+        displayName: string;
+        selectedLabel: string;
+        // Snapshot of the level, only kept for the ancestors of the current level since the host no longer provides their data.
+        slices?: BreakdownTreeDrillStateSlice[];
+    }
+
+    export interface BreakdownTreeLink {
+        source: BreakdownTreeSlice;
+        target: BreakdownTreeSlice;
+    }
+
     export interface BreakdownTreeLevel {
         data: BreakdownTreeData;
         mainSelection: D3.Selection;
@@ -220,8 +268,37 @@ module powerbi.visuals {
                         },
                     }
                 },
+                topN: {
+                    displayName: data.createDisplayNameGetter('Visual_TopN'),
+                    properties: {
+                        show: {
+                            displayName: data.createDisplayNameGetter('Visual_Show'),
+                            type: { bool: true }
+                        },
+                        count: {
+                            displayName: data.createDisplayNameGetter('Visual_TopN_Count'),
+                            type: { numeric: true }
+                        },
+                    }
+                },
+                layout: {
+                    displayName: data.createDisplayNameGetter('Visual_BreakdownTree_Layout'),
+                    properties: {
+                        mode: {
+                            displayName: data.createDisplayNameGetter('Visual_BreakdownTree_Mode'),
+                            type: { enumeration: BreakdownTreeLayoutMode.type }
+                        },
+                    }
+                },
+                drillState: {
+                    properties: {
+                        path: {
+                            type: { text: true }
+                        },
+                    }
+                },
             },
-            supportsHighlight: false,
+            supportsHighlight: true,
             sorting: {
                 default: {},
             },
@@ -236,6 +313,9 @@ module powerbi.visuals {
         public static TickPadding = 0;
         public static InnerTickSize = 0;
         public static InnerTextClassName = 'labelSeries';
+        public static DefaultTopNCount = 10;
+        private static othersLabelKey = 'BreakdownTree_Others';
+        private static collapsedMembersKey = 'BreakdownTree_CollapsedMembers';
         public static CreateSelector = function (className) {
             return {
                 class: className,
@@ -267,8 +347,18 @@ module powerbi.visuals {
         private dataViews: DataView[];
 
         private svgLevels: BreakdownTreeLevel[];
+        private treeContainer: D3.Selection;
+        private layoutMode: string;
+        // The Top N settings of each level (by query name), persisted on the column of the level
+        private levelTopNSettings: { [queryName: string]: BreakdownTreeTopNSettings };
+        // The Top N count of each level (by query name) where the user expanded the "Others" slice
+        private expandedOthers: { [queryName: string]: number };
+        // The persisted drill path is only applied to the first data of a new visual instance
+        private drillStateRestorePending: boolean;
 
         private selectionManager: utility.SelectionManager;
+        private interactivityService: IInteractivityService;
+        private behavior: BreakdownTreeWebBehavior;
 
         public static getFormattedValue(dataView: DataView, theValue: number, thisRef: BreakdownTree): string {
             thisRef.getMetaDataColumn(dataView);
@@ -362,7 +452,14 @@ module powerbi.visuals {
                     var value = d3.sum(values.map(d => d.values[i]));
                     var formattedCategoryValue = valueFormatter.format(categoryValues[i], categorySourceFormatString);
 
-                    var tooltipInfo: TooltipDataItem[] = TooltipBuilder.createTooltipInfo(formatStringProp, dataView.categorical, formattedCategoryValue, value, null, null, 0, i);
+                    var highlightValue: number = undefined;
+                    if (hasHighlights) {
+                        highlightValue = d3.sum(values.map(d => d.highlights[i]));
+                        if (highlightValue > value)
+                            highlightsOverflow = true;
+                    }
+
+                    var tooltipInfo: TooltipDataItem[] = TooltipBuilder.createTooltipInfo(formatStringProp, dataView.categorical, formattedCategoryValue, value, null, null, 0, i, highlightValue !== 0 ? highlightValue : undefined);
 
                     var formVal = BreakdownTree.getFormattedValue(dataView, value, thisRef);
 
@@ -373,6 +470,7 @@ module powerbi.visuals {
                         identity: identity,
                         selected: false,
                         key: identity.getKey(),
+                        highlightValue: highlightValue,
                         tooltipInfo: tooltipInfo,
                         color: "#abcdef",
                         labelFill: dataLabelsSettings.labelColor,
@@ -397,7 +495,7 @@ module powerbi.visuals {
             }
 
             var categoryLabels = [];
-            for (var i = 0; i < slices.length; i += hasHighlights ? 2 : 1) {
+            for (var i = 0; i < slices.length; i++) {
                 var slice = slices[i];
                 categoryLabels.push(slice.label);
             }
@@ -428,9 +526,41 @@ module powerbi.visuals {
                         return this.enumerateDataPoints();
                     }
                     break;
+                case 'topN':
+                    return this.enumerateTopN();
+                case 'layout':
+                    return [{
+                        objectName: 'layout',
+                        selector: null,
+                        properties: {
+                            mode: this.layoutMode
+                        },
+                    }];
             }
         }
 
+        private enumerateTopN(): VisualObjectInstance[] {
+            var instances: VisualObjectInstance[] = [];
+            for (var l = 0; l < this.svgLevels.length; l++) {
+                var slices = this.svgLevels[l].data.slices;
+                if (slices.length === 0)
+                    continue;
+
+                var queryName = slices[0].dimensionAttributeQueryName;
+                var topNSettings = this.levelTopNSettings[queryName] || BreakdownTree.getTopNSettings(null);
+                instances.push({
+                    objectName: 'topN',
+                    displayName: slices[0].dimensionAttributeFriendlyName,
+                    selector: { metadata: queryName },
+                    properties: {
+                        show: topNSettings.show,
+                        count: topNSettings.count,
+                    },
+                });
+            }
+            return instances;
+        }
+
         private enumerateDataPoints(): VisualObjectInstance[] {
             var data = this.data;
             if (!data)
@@ -449,7 +579,7 @@ module powerbi.visuals {
 
             for (var i = 0; i < slices.length; i++) {
                 var slice = slices[i];
-                if (slice.highlight)
+                if (slice.highlight || slice.isOthers)
                     continue;
 
                 var color = slice.color;
@@ -481,14 +611,23 @@ module powerbi.visuals {
             this.cardFormatSetting = this.getDefaultFormatSettings();
 
             this.selectionManager = new utility.SelectionManager({ hostServices: options.host });
+            this.interactivityService = createInteractivityService(options.host);
+            this.behavior = new BreakdownTreeWebBehavior();
 
             this.svg = d3.select("#DivContainer").append("svg")
                 .classed(BreakdownTree.VisualClassName, true)
             ;
 
             this.clearCatcher = appendClearCatcher(this.svg);
+            this.treeContainer = this.svg.append("g").classed("TreeLayout", true);
+            this.treeContainer.append("g").classed("TreeLinks", true);
+            this.treeContainer.append("g").classed("TreeNodes", true);
+            this.layoutMode = BreakdownTreeLayoutMode.BARS;
+            this.levelTopNSettings = {};
+            this.expandedOthers = {};
 
             this.svgLevels = [];
+            this.drillStateRestorePending = true;
 
             this.currentViewport = options.viewport;
             this.margin = {
@@ -513,6 +652,16 @@ module powerbi.visuals {
             var h = maxNoLevel * itemHeightDistance - (itemHeightDistance - itemHeight);
             var w = this.svgLevels.length * itemWidthDistance;
 
+            // In the tree layouts only the last level is expanded, the ancestors are collapsed to the drilled node
+            var lastLevelCount = this.svgLevels.length > 0 ? this.svgLevels[this.svgLevels.length - 1].data.slices.length : 0;
+            if (this.layoutMode === BreakdownTreeLayoutMode.HORIZONTAL) {
+                h = lastLevelCount * itemHeightDistance - (itemHeightDistance - itemHeight);
+            }
+            else if (this.layoutMode === BreakdownTreeLayoutMode.VERTICAL) {
+                w = lastLevelCount * treeItemWidthDistance - (treeItemWidthDistance - itemWidth);
+                h = this.svgLevels.length * treeLevelHeightDistance - (treeLevelHeightDistance - itemHeight);
+            }
+
             return { w: w, h: h };
         }
 
@@ -625,6 +774,248 @@ module powerbi.visuals {
             }
         }
 
+        public static getTopNSettings(objects: DataViewObjects): BreakdownTreeTopNSettings {
+            var count = DataViewObjects.getValue<number>(objects, breakdownTreeChartProps.topN.count, BreakdownTree.DefaultTopNCount);
+            return {
+                show: DataViewObjects.getValue<boolean>(objects, breakdownTreeChartProps.topN.show, false),
+                count: Math.max(1, Math.floor(count)),
+            };
+        }
+
+        /** Aggregates the slices after the first topNCount ones of the (sorted) level into an "Others" slice. */
+        public static applyTopN(levelData: BreakdownTreeData, topNCount: number, formatValue: (value: number) => string, othersLabel: string, collapsedMembersDisplayName: string): void {
+            var slices = levelData.slices;
+            // An "Others" slice hiding a single member would not save any space
+            if (slices.length <= topNCount + 1)
+                return;
+
+            var hiddenSlices = slices.slice(topNCount);
+            var firstSlice = slices[0];
+            var value = d3.sum(hiddenSlices, (d: BreakdownTreeSlice) => d.value);
+            var formattedValue = formatValue(value);
+            var measureDisplayName = levelData.valuesMetadata.length > 0 ? levelData.valuesMetadata[0].displayName : '';
+
+            var othersSlice: BreakdownTreeSlice = {
+                label: othersLabel,
+                value: value,
+                categoryOrMeasureIndex: -1,
+                // The "Others" slice is never sent to the host
+                identity: SelectionId.createNull(),
+                selected: false,
+                key: firstSlice.dimensionAttributeQueryName + '|' + othersLabel,
+                highlightValue: levelData.hasHighlights ? d3.sum(hiddenSlices, (d: BreakdownTreeSlice) => d.highlightValue) : undefined,
+                tooltipInfo: [
+                    { displayName: firstSlice.dimensionAttributeFriendlyName, value: othersLabel },
+                    { displayName: measureDisplayName, value: formattedValue },
+                    { displayName: collapsedMembersDisplayName, value: hiddenSlices.length.toString() },
+                ],
+                color: firstSlice.color,
+                labelFill: firstSlice.labelFill,
+                x: 50,
+                y: 50 * topNCount,
+                width: itemWidth,
+                height: itemHeight,
+                cssPrefix: "_Last",
+                measureCalc: 0,
+                sumOfMeasureCalc: 0,
+                percentOfTotal: 0.5,
+                maxPercentOfTotal: 1,
+                yAdj: 0,
+                isSelectedForDrill: false,
+                currentLevelIndex: firstSlice.currentLevelIndex,
+                totalLevels: 0,
+                formattedValue: formattedValue,
+                dimensionAttributeQueryName: firstSlice.dimensionAttributeQueryName,
+                dimensionAttributeFriendlyName: firstSlice.dimensionAttributeFriendlyName,
+                isOthers: true,
+                othersSlices: hiddenSlices,
+            };
+
+            levelData.slices = slices.slice(0, topNCount).concat([othersSlice]);
+            levelData.categoryLabels = levelData.slices.map(d => d.label);
+            levelData.topNCount = topNCount;
+        }
+
+        /** Replaces the "Others" slice of a level with the slices it aggregates. */
+        public static expandOthers(levelData: BreakdownTreeData, othersSlice: BreakdownTreeSlice): void {
+            var index = levelData.slices.indexOf(othersSlice);
+            if (index < 0)
+                return;
+
+            var hiddenSlices = othersSlice.othersSlices;
+            for (var i = 0; i < hiddenSlices.length; i++) {
+                hiddenSlices[i].currentLevelIndex = othersSlice.currentLevelIndex;
+            }
+
+            levelData.slices = levelData.slices.slice(0, index).concat(hiddenSlices);
+            levelData.categoryLabels = levelData.slices.map(d => d.label);
+            levelData.topNCount = undefined;
+        }
+
+        public static getDrillState(levels: BreakdownTreeLevel[]): BreakdownTreeDrillStateLevel[] {
+            var drillState: BreakdownTreeDrillStateLevel[] = [];
+            for (var l = 0; l < levels.length; l++) {
+                var slices = levels[l].data.slices;
+                if (slices.length === 0)
+                    break;
+
+                var selectedLabel: string = null;
+                for (var i = 0; i < slices.length; i++) {
+                    if (slices[i].isSelectedForDrill) {
+                        selectedLabel = slices[i].label;
+                        break;
+                    }
+                }
+
+                var stateLevel: BreakdownTreeDrillStateLevel = {
+                    queryName: slices[0].dimensionAttributeQueryName,
+                    displayName: slices[0].dimensionAttributeFriendlyName,
+                    selectedLabel: selectedLabel,
+                };
+                if (l < levels.length - 1) {
+                    stateLevel.slices = slices.map(d => <BreakdownTreeDrillStateSlice>{ label: d.label, value: d.value, formattedValue: d.formattedValue });
+                }
+                drillState.push(stateLevel);
+            }
+            return drillState;
+        }
+
+        public static parseDrillState(objects: DataViewObjects): BreakdownTreeDrillStateLevel[] {
+            var path = DataViewObjects.getValue<string>(objects, breakdownTreeChartProps.drillState.path);
+            if (!path)
+                return [];
+
+            try {
+                var drillState = JSON.parse(path);
+                return Array.isArray(drillState) ? drillState : [];
+            }
+            catch (e) {
+                debug.assertFail('Invalid breakdown tree drill state: ' + path);
+                return [];
+            }
+        }
+
+        /** Creates the data of an ancestor level from its persisted snapshot, returns null if the snapshot can not be used. */
+        private static createLevelDataFromDrillState(stateLevel: BreakdownTreeDrillStateLevel, currentData: BreakdownTreeData): BreakdownTreeData {
+            if (!stateLevel.slices || stateLevel.slices.length === 0)
+                return null;
+
+            var measureDisplayName = currentData.valuesMetadata.length > 0 ? currentData.valuesMetadata[0].displayName : '';
+            var hasSelectedSlice = false;
+            var slices: BreakdownTreeSlice[] = [];
+            for (var i = 0, ilen = stateLevel.slices.length; i < ilen; i++) {
+                var stateSlice = stateLevel.slices[i];
+                var isSelectedForDrill = stateSlice.label === stateLevel.selectedLabel;
+                hasSelectedSlice = hasSelectedSlice || isSelectedForDrill;
+
+                slices.push({
+                    label: stateSlice.label,
+                    value: stateSlice.value,
+                    categoryOrMeasureIndex: i,
+                    identity: SelectionId.createNull(),
+                    selected: false,
+                    key: stateLevel.queryName + '|' + stateSlice.label,
+                    tooltipInfo: [
+                        { displayName: stateLevel.displayName, value: stateSlice.label },
+                        { displayName: measureDisplayName, value: stateSlice.formattedValue },
+                    ],
+                    color: "#abcdef",
+                    labelFill: currentData.dataLabelsSettings.labelColor,
+                    x: 50,
+                    y: 50 * i,
+                    width: itemWidth,
+                    height: itemHeight,
+                    cssPrefix: "_Last",
+                    measureCalc: 0,
+                    sumOfMeasureCalc: 0,
+                    percentOfTotal: 0.5,
+                    maxPercentOfTotal: 1,
+                    yAdj: 0,
+                    isSelectedForDrill: isSelectedForDrill,
+                    currentLevelIndex: 0,
+                    totalLevels: 0,
+                    formattedValue: stateSlice.formattedValue,
+                    dimensionAttributeQueryName: stateLevel.queryName,
+                    dimensionAttributeFriendlyName: stateLevel.displayName,
+                    isRestored: true,
+                });
+            }
+
+            // Without a selected slice the path down to the current level is broken
+            if (!hasSelectedSlice)
+                return null;
+
+            return {
+                slices: slices,
+                categoryLabels: slices.map(d => d.label),
+                valuesMetadata: currentData.valuesMetadata,
+                hasHighlights: false,
+                highlightsOverflow: false,
+                canShowDataLabels: true,
+                dataLabelsSettings: currentData.dataLabelsSettings,
+            };
+        }
+
+        /**
+         * Rebuilds the levels above the current data from the persisted drill path.
+         * Persisted levels that do not match the current data are pruned.
+         */
+        private restoreDrillState(dataView: DataView, newData: BreakdownTreeData): void {
+            if (this.svgLevels.length > 0 || newData.slices.length === 0 || !dataView.metadata)
+                return;
+
+            var drillState = BreakdownTree.parseDrillState(dataView.metadata.objects);
+            var queryName = newData.slices[0].dimensionAttributeQueryName;
+            var currentLevelIndex = -1;
+            for (var l = 0; l < drillState.length; l++) {
+                if (drillState[l].queryName === queryName) {
+                    currentLevelIndex = l;
+                    break;
+                }
+            }
+
+            // The current data is not part of the persisted path (e.g. the fields changed), start over from here
+            if (currentLevelIndex < 0)
+                return;
+
+            var ancestors: BreakdownTreeData[] = [];
+            for (var l = 0; l < currentLevelIndex; l++) {
+                var ancestor = BreakdownTree.createLevelDataFromDrillState(drillState[l], newData);
+                if (!ancestor)
+                    return;
+                ancestors.push(ancestor);
+            }
+
+            for (var l = 0; l < ancestors.length; l++) {
+                this.AddDataLevel(ancestors[l]);
+            }
+
+            // A persisted category that no longer exists in the data is simply not selected
+            var selectedLabel = drillState[currentLevelIndex].selectedLabel;
+            for (var i = 0; i < newData.slices.length; i++) {
+                newData.slices[i].isSelectedForDrill = selectedLabel != null && newData.slices[i].label === selectedLabel;
+            }
+        }
+
+        private persistDrillState(dataView: DataView): void {
+            var path = JSON.stringify(BreakdownTree.getDrillState(this.svgLevels));
+            var objects = dataView.metadata ? dataView.metadata.objects : undefined;
+
+            // Persisting properties causes a new update, so only persist when the path changed
+            if (path === DataViewObjects.getValue<string>(objects, breakdownTreeChartProps.drillState.path))
+                return;
+
+            this.hostServices.persistProperties({
+                merge: [{
+                    objectName: 'drillState',
+                    selector: null,
+                    properties: {
+                        path: data.SQExprBuilder.text(path)
+                    }
+                }]
+            });
+        }
+
         public update(options: VisualUpdateOptions): void {
             debug.assertValue(options, 'options');
             this.data = {
@@ -637,6 +1028,7 @@ module powerbi.visuals {
                 dataLabelsSettings: dataLabelUtils.getDefaultFunnelLabelSettings(),
             };
 
+            var previousDataView = this.dataViews && this.dataViews.length > 0 ? this.dataViews[0] : null;
             var dataViews = this.dataViews = options.dataViews;
             this.currentViewport = options.viewport;
 
@@ -655,23 +1047,53 @@ module powerbi.visuals {
                     // New data, no drill up or drill down
                     // We have new data - reset current visual drilldowns. (Alternativelly: reset allt levels)
                     this.removeLastLevelSVG();
+                    // New data or settings collapse the expanded "Others" slices again
+                    if (dataViews[0] !== previousDataView)
+                        this.expandedOthers = {};
                 }
+
+                // A selection made on a level does not apply to the level drilled into
+                if (barItemClicked || drillUpClicked)
+                    this.interactivityService.clearSelection();
+
                 barItemClicked = false;
                 drillUpClicked = false;
 
                 var dataView = dataViews[0];
 
+                this.layoutMode = BreakdownTreeLayoutMode.BARS;
                 if (dataView.metadata && dataView.metadata.objects) {
                     var defaultColor = DataViewObjects.getFillColor(dataView.metadata.objects, breakdownTreeChartProps.dataPoint.defaultColor);
                     if (defaultColor)
                         this.defaultDataPointColor = defaultColor;
+                    this.layoutMode = DataViewObjects.getValue<string>(dataView.metadata.objects, breakdownTreeChartProps.layout.mode, BreakdownTreeLayoutMode.BARS);
                 }
 
                 if (dataView.categorical) {
                     var newData = BreakdownTree.converter(dataView, this.colors, this, this.defaultDataPointColor);
+                    var categories = dataView.categorical.categories;
+                    if (categories && categories.length > 0 && newData.slices.length > 0) {
+                        // Each level is trimmed with its own Top N settings
+                        var queryName = newData.slices[0].dimensionAttributeQueryName;
+                        var topNSettings = this.levelTopNSettings[queryName] = BreakdownTree.getTopNSettings(categories[0].source.objects);
+                        if (topNSettings.show && this.expandedOthers[queryName] !== topNSettings.count) {
+                            BreakdownTree.applyTopN(
+                                newData,
+                                topNSettings.count,
+                                (value: number) => BreakdownTree.getFormattedValue(dataView, value, this),
+                                this.hostServices.getLocalizedString(BreakdownTree.othersLabelKey),
+                                this.hostServices.getLocalizedString(BreakdownTree.collapsedMembersKey));
+                        }
+                    }
+                    if (this.drillStateRestorePending) {
+                        this.restoreDrillState(dataView, newData);
+                        this.drillStateRestorePending = false;
+                    }
+                    this.interactivityService.applySelectionStateToData(newData.slices);
                     // TODO: Check if we really have a new level or not.
                     this.AddDataLevel(newData);
                     this.data = newData;
+                    this.persistDrillState(dataView);
                 }
 
                 var warnings = getInvalidValueWarnings(
@@ -776,18 +1198,52 @@ module powerbi.visuals {
                 for (var i = 0; i < curLev.data.slices.length; i++) {
                     var curVal = curLev.data.slices[i];
                     curVal.percentOfTotal = curVal.percentOfTotal / maxPercentOfTotal;
+                    if (curLev.data.hasHighlights) {
+                        var highlightPercentOfTotal = curVal.highlightValue && sumMeasureCalc ? (curVal.highlightValue - minValue) / sumMeasureCalc / maxPercentOfTotal : 0;
+                        curVal.highlightPercentOfTotal = Math.max(0, Math.min(1, highlightPercentOfTotal));
+                    }
                 }
 
             }
         }
 
+        /** Positions the nodes of the tree layouts, the drilled path is kept on the center line of the visual. */
+        private prepareTreeLayoutData(cv: IViewport) {
+            var isVertical = this.layoutMode === BreakdownTreeLayoutMode.VERTICAL;
+            var neededSize = this.GetNeededSizePixels();
+            var center = isVertical ? d3.max([neededSize.w, cv.width]) / 2 : d3.max([neededSize.h, cv.height]) / 2;
+            var siblingDistance = isVertical ? treeItemWidthDistance : itemHeightDistance;
+            var siblingSize = isVertical ? itemWidth : itemHeight;
+            var lastLevelIndex = this.svgLevels.length - 1;
+
+            for (var l = 0; l <= lastLevelIndex; l++) {
+                var level = this.svgLevels[l];
+                var isLastLevel = l === lastLevelIndex;
+                var slices = BreakdownTree.getTreeLevelSlices(level, isLastLevel);
+                var start = center - (slices.length * siblingDistance - (siblingDistance - siblingSize)) / 2;
+
+                for (var i = 0; i < slices.length; i++) {
+                    var slice = slices[i];
+                    slice.collapsedSiblings = isLastLevel ? 0 : level.data.slices.length - slices.length;
+                    if (isVertical) {
+                        slice.x = start + i * siblingDistance;
+                        slice.y = l * treeLevelHeightDistance;
+                    }
+                    else {
+                        slice.x = l * itemWidthDistance;
+                        slice.y = start + i * siblingDistance;
+                    }
+                }
+            }
+        }
+
         private updateInternal(suppressAnimations: boolean) {
             if (this.data == null)
                 return;
 
             var duration = suppressAnimations ? 0 : AnimatorCommon.MinervaAnimationDuration;
 
-            var shapes: D3.UpdateSelection;
+            var shapes: D3.Selection;
 
             itemWidthDistance = this.currentViewport.width * 0.70 / this.svgLevels.length;
             if (itemWidthDistance < itemWidthDistanceMin)
@@ -797,13 +1253,11 @@ module powerbi.visuals {
 
             this.prepareAllLevelData(this.currentViewport);
 
-            var oPrevLevel = null;
-            for (var l = 0; l < this.svgLevels.length - 1; l++) {
-                var oLevel = this.svgLevels[l];
-                l === 0 ? oPrevLevel = null : oPrevLevel = this.svgLevels[l - 1];
-                BreakdownTree.drawDefaultShapes(oLevel.data, oLevel.data.slices, oLevel.mainSelection, duration);
-                BreakdownTree.drawOtherShapes(oLevel, oPrevLevel, oLevel.data.slices, oLevel.otherSelection, duration);
+            var isTreeLayout = this.layoutMode !== BreakdownTreeLayoutMode.BARS;
+            for (var l = 0; l < this.svgLevels.length; l++) {
+                BreakdownTree.setLevelVisibility(this.svgLevels[l], !isTreeLayout);
             }
+            this.treeContainer.style('display', isTreeLayout ? null : 'none');
 
             var oLevel = this.svgLevels[this.svgLevels.length - 1];
 
@@ -811,10 +1265,34 @@ module powerbi.visuals {
                 return;
             }
 
-            this.svgLevels.length <= 1 ? oPrevLevel = null : oPrevLevel = this.svgLevels[this.svgLevels.length - 2];
-            shapes = BreakdownTree.drawDefaultShapes(oLevel.data, oLevel.data.slices, oLevel.mainSelection, duration);
-            BreakdownTree.drawOtherShapes(oLevel, oPrevLevel, oLevel.data.slices, oLevel.otherSelection, duration);
-            var shapesClick = BreakdownTree.drawClickShapes(oLevel.data, oLevel.data.slices, oLevel.clickSelection, duration);
+            var shapesClick: D3.Selection;
+            var percentBars: D3.Selection;
+            var labels: D3.Selection;
+            if (isTreeLayout) {
+                this.prepareTreeLayoutData(this.currentViewport);
+                var treeNodes = BreakdownTree.drawTreeLayout(this.svgLevels, this.treeContainer, this.layoutMode === BreakdownTreeLayoutMode.VERTICAL, duration);
+                shapes = treeNodes.select('.TreeNodeBox');
+                // The tree draws the ancestors too, the restored ones have no identity to select
+                shapesClick = shapes.filter((d: BreakdownTreeSlice) => !d.isRestored);
+                percentBars = treeNodes.select('.TreeNodePercBarBar');
+                labels = treeNodes.select('.TreeNodeLabel');
+            }
+            else {
+                var oPrevLevel = null;
+                for (var l = 0; l < this.svgLevels.length - 1; l++) {
+                    var oAncestorLevel = this.svgLevels[l];
+                    l === 0 ? oPrevLevel = null : oPrevLevel = this.svgLevels[l - 1];
+                    BreakdownTree.drawDefaultShapes(oAncestorLevel.data, oAncestorLevel.data.slices, oAncestorLevel.mainSelection, duration);
+                    BreakdownTree.drawOtherShapes(oAncestorLevel, oPrevLevel, oAncestorLevel.data.slices, oAncestorLevel.otherSelection, duration);
+                }
+
+                this.svgLevels.length <= 1 ? oPrevLevel = null : oPrevLevel = this.svgLevels[this.svgLevels.length - 2];
+                shapes = BreakdownTree.drawDefaultShapes(oLevel.data, oLevel.data.slices, oLevel.mainSelection, duration);
+                BreakdownTree.drawOtherShapes(oLevel, oPrevLevel, oLevel.data.slices, oLevel.otherSelection, duration);
+                shapesClick = BreakdownTree.drawClickShapes(oLevel.data, oLevel.data.slices, oLevel.clickSelection, duration);
+                percentBars = oLevel.otherSelection.selectAll('.PercBarBar');
+                labels = oLevel.otherSelection.selectAll('.BarLabel');
+            }
 
             // Hook up to drillup event
             var btnDrillUp = $("#" + this.svgContainer.id).closest("div.visualContainer").find("button[ng-click='drillUp()']");
@@ -824,18 +1302,33 @@ module powerbi.visuals {
             var btnToggleDrillDown = $("#" + this.svgContainer.id).closest("div.visualContainer").find("button[ng-click='toggleDrillMode()']");
             btnToggleDrillDown.click(function (a) { DrillModeEnabled = ($(a.target).attr("class").indexOf("drillModeEnabled") > -1); });
 
-            // Custom click
+            // Clicks either drill down, cross-filter the other visuals or expand the "Others" slice
             var sm = this.selectionManager;
-            shapesClick.each(function (d, i) {
-                d3.select(this).on("click", function (a, b) {
-                    if (DrillModeEnabled) {
-                        a.isSelectedForDrill = true;
-                        barItemClicked = true;
-                        sm.select(a.identity);
-                        // If we want crossfiltering to work move this outside the IF
-                    }
-                });
-            });
+            var selectableSlices = oLevel.data.slices.filter(d => !d.isOthers);
+            var behaviorOptions: BreakdownTreeBehaviorOptions = {
+                datapoints: selectableSlices,
+                bars: shapes,
+                percentBars: percentBars,
+                labels: labels,
+                interactors: shapesClick,
+                clearCatcher: this.clearCatcher,
+                hasHighlights: oLevel.data.hasHighlights,
+                isDrillModeEnabled: () => DrillModeEnabled,
+                drill: (d: BreakdownTreeSlice) => {
+                    d.isSelectedForDrill = true;
+                    barItemClicked = true;
+                    sm.select(d.identity);
+                },
+                expandOthers: (d: BreakdownTreeSlice) => {
+                    this.expandedOthers[d.dimensionAttributeQueryName] = oLevel.data.topNCount;
+                    BreakdownTree.expandOthers(oLevel.data, d);
+                    this.updateViewportProperties();
+                    this.updateInternal(suppressAnimations);
+                },
+            };
+            this.interactivityService.bind(selectableSlices, this.behavior, behaviorOptions);
+            // Binding does not render, the percent bars must be dimmed behind the highlights before any click
+            this.behavior.renderSelection(this.interactivityService.hasSelection());
 
             TooltipManager.addTooltip(shapesClick, (tooltipEvent: TooltipEvent) => tooltipEvent.data.tooltipInfo);
 
@@ -843,6 +1336,8 @@ module powerbi.visuals {
         }
 
         public onClearSelection(): void {
+            if (this.interactivityService)
+                this.interactivityService.clearSelection();
         }
 
         public static drawDefaultAxis(graphicsContext: D3.Selection, axisOptions: BreakdownTreeAxisOptions, isHidingPercentBars: boolean): void {
@@ -904,6 +1399,19 @@ module powerbi.visuals {
                 .attr("class", "PercBarBar")
             ;
             s.exit().remove();
+
+            // Highlighted part of the % bar, only the current level is affected by the selection in other visuals
+            s = graphicsContext.selectAll('.PercBarHighlight').data(isLastLevel && data.hasHighlights ? slices : []);
+            s.enter().append("rect")
+                .attr("class", "PercBarHighlight");
+            s
+                .attr("x", function (d) { return d.x + itemWidth * 0.05; })
+                .attr("y", function (d) { return d.y + itemHeight * 0.1; })
+                .attr("width", function (d) { return d.highlightPercentOfTotal * (d.width - (itemWidth * 0.05 * 2)); })
+                .attr("height", function (d) { return 10; })
+                .attr("fill", colorBlue)
+            ;
+            s.exit().remove();
             
             // Text
             s = graphicsContext.selectAll('.BarLabel').data(slices);
@@ -1031,20 +1539,198 @@ module powerbi.visuals {
 
             return s;
         }
+
+        private static setLevelVisibility(level: BreakdownTreeLevel, visible: boolean): void {
+            var display = visible ? null : 'none';
+            level.mainSelection.style('display', display);
+            level.otherSelection.style('display', display);
+            level.clickSelection.style('display', display);
+            level.connectorSelection.style('display', display);
+        }
+
+        /** The last level shows all its slices, the levels above it are collapsed to the slice that was drilled into. */
+        public static getTreeLevelSlices(level: BreakdownTreeLevel, isLastLevel: boolean): BreakdownTreeSlice[] {
+            if (isLastLevel)
+                return level.data.slices;
+
+            return level.data.slices.filter(d => d.isSelectedForDrill);
+        }
+
+        public static getTreeLinkPath(source: IPoint, target: IPoint, isVertical: boolean): string {
+            if (isVertical) {
+                var midY = (source.y + target.y) / 2;
+                return 'M' + source.x + ',' + source.y + 'C' + source.x + ',' + midY + ' ' + target.x + ',' + midY + ' ' + target.x + ',' + target.y;
+            }
+
+            var midX = (source.x + target.x) / 2;
+            return 'M' + source.x + ',' + source.y + 'C' + midX + ',' + source.y + ' ' + midX + ',' + target.y + ' ' + target.x + ',' + target.y;
+        }
+
+        /** Where the links leave a parent node: its right side when horizontal, its bottom when vertical. */
+        private static getTreeOutAnchor(d: BreakdownTreeSlice, isVertical: boolean): IPoint {
+            return isVertical
+                ? { x: d.x + itemWidth / 2, y: d.y + itemHeight }
+                : { x: d.x + itemWidth, y: d.y + itemHeight / 2 };
+        }
+
+        private static getTreeInAnchor(d: BreakdownTreeSlice, isVertical: boolean): IPoint {
+            return isVertical
+                ? { x: d.x + itemWidth / 2, y: d.y }
+                : { x: d.x, y: d.y + itemHeight / 2 };
+        }
+
+        /** Draws the node-link layout and returns the nodes of the last level, which are the interactive ones. */
+        public static drawTreeLayout(levels: BreakdownTreeLevel[], graphicsContext: D3.Selection, isVertical: boolean, transitionDuration: number): D3.Selection {
+            var lastLevelIndex = levels.length - 1;
+            var hasHighlights = levels[lastLevelIndex].data.hasHighlights;
+            var nodes: BreakdownTreeSlice[] = [];
+            var links: BreakdownTreeLink[] = [];
+            var parents: { [key: string]: BreakdownTreeSlice } = {};
+
+            var parent: BreakdownTreeSlice = null;
+            for (var l = 0; l <= lastLevelIndex; l++) {
+                var levelSlices = BreakdownTree.getTreeLevelSlices(levels[l], l === lastLevelIndex);
+                for (var i = 0; i < levelSlices.length; i++) {
+                    nodes.push(levelSlices[i]);
+                    if (parent) {
+                        links.push({ source: parent, target: levelSlices[i] });
+                        parents[levelSlices[i].key] = parent;
+                    }
+                }
+                parent = levelSlices.length > 0 ? levelSlices[0] : null;
+            }
+
+            var outAnchor = (d: BreakdownTreeSlice) => BreakdownTree.getTreeOutAnchor(d, isVertical);
+            var inAnchor = (d: BreakdownTreeSlice) => BreakdownTree.getTreeInAnchor(d, isVertical);
+            // New nodes and links grow out of the node that was drilled into
+            var enterAnchor = (d: BreakdownTreeSlice) => parents[d.key] ? outAnchor(parents[d.key]) : { x: d.x, y: d.y };
+
+            // Links
+            var s = graphicsContext.select('.TreeLinks').selectAll('.TreeLink').data(links, (d: BreakdownTreeLink) => d.target.key);
+            s.enter().append("path")
+                .classed("TreeLink", true)
+                .attr("d", function (d) { var p = outAnchor(d.source); return BreakdownTree.getTreeLinkPath(p, p, isVertical); });
+            s
+                .attr("fill", "none")
+                .attr("stroke-width", 2)
+                .attr("stroke", function (d) { return d.target.isSelectedForDrill ? colYellow : "#cccccc"; })
+                .transition().duration(transitionDuration)
+                .attr("d", function (d) { return BreakdownTree.getTreeLinkPath(outAnchor(d.source), inAnchor(d.target), isVertical); });
+            s.exit().remove();
+
+            // Nodes
+            var nodeSelection = graphicsContext.select('.TreeNodes').selectAll('.TreeNode').data(nodes, (d: BreakdownTreeSlice) => d.key);
+            var nodeEnter = nodeSelection.enter().append("g")
+                .classed("TreeNode", true)
+                .attr("transform", function (d) { var p = enterAnchor(d); return SVGUtil.translate(p.x, p.y); })
+                .style("opacity", 0);
+            nodeEnter.append("rect").classed("TreeNodeBox", true);
+            nodeEnter.append("rect").classed("TreeNodePercBar", true);
+            nodeEnter.append("rect").classed("TreeNodePercBarBar", true);
+            nodeEnter.append("rect").classed("TreeNodeHighlight", true);
+            nodeEnter.append("text").classed("TreeNodeLabel", true);
+            nodeEnter.append("text").classed("TreeNodeCollapsed", true);
+
+            nodeSelection
+                .transition().duration(transitionDuration)
+                .attr("transform", function (d) { return SVGUtil.translate(d.x, d.y); })
+                .style("opacity", 1);
+
+            nodeSelection.select(".TreeNodeBox")
+                .attr("width", itemWidth)
+                .attr("height", itemHeight)
+                .attr("fill", function (d) { return d.isSelectedForDrill ? colYellow : colGray; });
+
+            var percBarWidth = itemWidth - itemWidth * 0.05 * 2;
+            nodeSelection.selectAll(".TreeNodePercBar, .TreeNodePercBarBar, .TreeNodeHighlight")
+                .attr("x", itemWidth * 0.05)
+                .attr("y", itemHeight * 0.1)
+                .attr("height", 10)
+                .style("pointer-events", "none");
+            nodeSelection.select(".TreeNodePercBar")
+                .attr("width", percBarWidth)
+                .attr("fill", "#cccccc");
+            nodeSelection.select(".TreeNodePercBarBar")
+                .attr("width", function (d) { return d.percentOfTotal * percBarWidth; })
+                .attr("fill", colBlue);
+            // Only the current level is affected by the selection in other visuals
+            nodeSelection.select(".TreeNodeHighlight")
+                .attr("width", function (d) { return hasHighlights && d.currentLevelIndex === lastLevelIndex ? d.highlightPercentOfTotal * percBarWidth : 0; })
+                .attr("fill", colBlue);
+
+            nodeSelection.select(".TreeNodeLabel")
+                .attr("x", itemWidth * 0.05)
+                .attr("y", itemHeightDistance * 0.7)
+                .attr("font-size", "12px")
+                .style("pointer-events", "none")
+                .text(function (d) { return d.formattedValue + " " + d.label; })
+                .each(function () { TextMeasurementService.svgEllipsis(this, percBarWidth); });
+
+            nodeSelection.select(".TreeNodeCollapsed")
+                .attr("x", isVertical ? itemWidth + 4 : 0)
+                .attr("y", isVertical ? itemHeight / 2 : itemHeight + 12)
+                .attr("font-size", "10px")
+                .attr("fill", "#999999")
+                .style("pointer-events", "none")
+                .text(function (d) { return d.collapsedSiblings > 0 ? "+" + d.collapsedSiblings : ""; });
+
+            nodeSelection.exit()
+                .transition().duration(transitionDuration)
+                .style("opacity", 0)
+                .remove();
+
+            return nodeSelection.filter(function (d) { return d.currentLevelIndex === lastLevelIndex; });
+        }
     }
 
     /* Behaviours */
     export interface BreakdownTreeBehaviorOptions {
         datapoints: SelectableDataPoint[];
         bars: D3.Selection;
+        percentBars: D3.Selection;
         labels: D3.Selection;
+        interactors: D3.Selection;
         clearCatcher: D3.Selection;
         hasHighlights: boolean;
+        isDrillModeEnabled: () => boolean;
+        drill: (slice: BreakdownTreeSlice) => void;
+        expandOthers: (othersSlice: BreakdownTreeSlice) => void;
     }
 
-    export class BreakdownTreeWebBehavior {
-        public select(hasSelection: boolean, selection: D3.Selection, hasHighlights: boolean) {
-            selection.style("fill-opacity", (d: BreakdownTreeSlice) => ColumnUtil.getFillOpacity(d.selected, d.highlight, !d.highlight && hasSelection, !d.selected && hasHighlights));
+    export class BreakdownTreeWebBehavior implements IInteractiveBehavior {
+        private bars: D3.Selection;
+        private percentBars: D3.Selection;
+        private labels: D3.Selection;
+        private hasHighlights: boolean;
+
+        public bindEvents(options: BreakdownTreeBehaviorOptions, selectionHandler: ISelectionHandler): void {
+            this.bars = options.bars;
+            this.percentBars = options.percentBars;
+            this.labels = options.labels;
+            this.hasHighlights = options.hasHighlights;
+
+            options.interactors.on('click', (d: BreakdownTreeSlice) => {
+                if (d.isOthers)
+                    options.expandOthers(d);
+                else if (options.isDrillModeEnabled())
+                    options.drill(d);
+                else
+                    selectionHandler.handleSelection(d, d3.event.ctrlKey);
+            });
+
+            options.clearCatcher.on('click', () => {
+                selectionHandler.handleClearSelection();
+            });
+        }
+
+        public renderSelection(hasSelection: boolean): void {
+            var hasHighlights = this.hasHighlights;
+            var getOpacity = (d: BreakdownTreeSlice) => hasSelection && !d.selected ? BreakdownTree.DimmedBarOpacity : BreakdownTree.DefaultBarOpacity;
+
+            this.bars.style("fill-opacity", getOpacity);
+            this.labels.style("fill-opacity", getOpacity);
+            // With highlights the full bar is dimmed and the highlighted part is drawn on top of it
+            this.percentBars.style("fill-opacity", (d: BreakdownTreeSlice) => hasHighlights ? BreakdownTree.DimmedBarOpacity : getOpacity(d));
         }
     }
 
@@ -1107,5 +1793,15 @@ module powerbi.visuals {
             defaultColor: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'defaultColor' },
             fill: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'fill' },
         },
+        topN: {
+            show: <DataViewObjectPropertyIdentifier>{ objectName: 'topN', propertyName: 'show' },
+            count: <DataViewObjectPropertyIdentifier>{ objectName: 'topN', propertyName: 'count' },
+        },
+        layout: {
+            mode: <DataViewObjectPropertyIdentifier>{ objectName: 'layout', propertyName: 'mode' },
+        },
+        drillState: {
+            path: <DataViewObjectPropertyIdentifier>{ objectName: 'drillState', propertyName: 'path' },
+        },
     };
 }
@@ -0,0 +1,477 @@
+﻿/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved. 
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *   
+ *  The above copyright notice and this permission notice shall be included in 
+ *  all copies or substantial portions of the Software.
+ *   
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR 
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, 
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE 
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER 
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+/// <reference path="../_references.ts"/>
+
+module powerbi.visuals {
+    import SelectionManager = utility.SelectionManager;
+
+    /** One KPI of the chart, the min/max/target semantics are the ones of the gauge */
+    export interface BulletChartDataPoint extends GaugeTargetData, SelectableDataPoint, TooltipEnabledDataPoint {
+        category: string;
+        /** Upper bounds of the qualitative ranges, in ascending order */
+        bands: number[];
+    }
+
+    export interface BulletChartData {
+        dataPoints: BulletChartDataPoint[];
+        valueColumn: DataViewMetadataColumn;
+        orientation: string;
+        barColor: string;
+        targetColor: string;
+    }
+
+    interface BulletChartLayout {
+        isVertical: boolean;
+        /** Size of the bullet perpendicular to the value axis */
+        thickness: number;
+        /** Size of the value axis, in pixels */
+        length: number;
+        slotSize: number;
+        categoryLabelSize: number;
+    }
+
+    /**
+     * Stephen Few's bullet graph: the actual value is a bar drawn over qualitative ranges, with a tick for the target.
+     * Each category gets its own bullet and value axis.
+     */
+    export class BulletChart implements IVisual {
+        private static VisualClassName = 'bulletChart';
+        private static DefaultBandRatios = [0.5, 0.75, 1];
+        private static DarkestBandColor = '#A6A6A6';
+        private static LightestBandColor = '#EAEAEA';
+        private static DefaultTargetColor = '#333333';
+        private static MinThickness = 16;
+        private static MaxThickness = 40;
+        private static SlotPadding = 8;
+        private static HorizontalAxisSize = 18;
+        private static VerticalAxisSize = 40;
+        private static ValueBarRatio = 1 / 3;
+        private static TargetRatio = 2 / 3;
+        private static TargetThickness = 2;
+        private static MaxCategoryLabelRatio = 0.3;
+        private static CategoryLabelPadding = 6;
+        private static EdgeMargin = 10;
+        private static DimmedOpacity = 0.4;
+
+        private static CategoryLabelTextProperties: TextProperties = {
+            fontFamily: 'wf_segoe-ui_normal',
+            fontSize: '12px',
+        };
+
+        private static Bullet: ClassAndSelector = {
+            class: 'bullet',
+            selector: '.bullet'
+        };
+
+        private static Band: ClassAndSelector = {
+            class: 'band',
+            selector: '.band'
+        };
+
+        private static ValueBar: ClassAndSelector = {
+            class: 'valueBar',
+            selector: '.valueBar'
+        };
+
+        private static Target: ClassAndSelector = {
+            class: 'target',
+            selector: '.target'
+        };
+
+        private static Axis: ClassAndSelector = {
+            class: 'axis',
+            selector: '.axis'
+        };
+
+        private static CategoryLabel: ClassAndSelector = {
+            class: 'categoryLabel',
+            selector: '.categoryLabel'
+        };
+
+        private root: JQuery;
+        private svg: D3.Selection;
+        private colors: IDataColorPalette;
+        private selectionManager: SelectionManager;
+        private dataView: DataView;
+        private data: BulletChartData;
+
+        public static converter(dataView: DataView, colors: IDataColorPalette): BulletChartData {
+            let objects = dataView && dataView.metadata ? dataView.metadata.objects : null;
+            let data: BulletChartData = {
+                dataPoints: [],
+                valueColumn: null,
+                orientation: DataViewObjects.getValue(objects, bulletChartProps.general.orientation, bulletChartOrientation.horizontal),
+                barColor: DataViewObjects.getFillColor(objects, bulletChartProps.dataPoint.fill, colors.getColorByIndex(0).value),
+                targetColor: DataViewObjects.getFillColor(objects, bulletChartProps.dataPoint.targetFill, BulletChart.DefaultTargetColor),
+            };
+
+            let categorical = dataView ? dataView.categorical : null;
+            if (!categorical || _.isEmpty(categorical.categories) || _.isEmpty(categorical.values))
+                return data;
+
+            let category = categorical.categories[0];
+            let axisProperties = Gauge.getGaugeObjectsProperties(dataView);
+
+            for (let column of categorical.values) {
+                if (column.source.roles && column.source.roles[bulletChartRoleNames.y])
+                    data.valueColumn = column.source;
+            }
+
+            for (let i = 0, len = category.values.length; i < len; i++) {
+                let dataPoint = BulletChart.getDataPoint(categorical.values, i);
+
+                // Same override rules as the gauge, the pane values only apply to the roles that are not bound
+                Gauge.overrideGaugeSettings(dataPoint, axisProperties);
+                BulletChart.fillDefaults(dataPoint);
+
+                dataPoint.category = valueFormatter.format(category.values[i], valueFormatter.getFormatString(category.source, bulletChartProps.general.formatString));
+                dataPoint.identity = SelectionIdBuilder.builder()
+                    .withCategory(category, i)
+                    .createSelectionId();
+                dataPoint.tooltipInfo = TooltipBuilder.createTooltipInfo(bulletChartProps.general.formatString, null, category.values[i], null, categorical.categories, dataPoint.tooltipItems);
+
+                data.dataPoints.push(dataPoint);
+            }
+
+            return data;
+        }
+
+        private static getDataPoint(values: DataViewValueColumns, index: number): BulletChartDataPoint {
+            let dataPoint: BulletChartDataPoint = {
+                min: undefined,
+                max: undefined,
+                target: undefined,
+                total: 0,
+                tooltipItems: [],
+                bands: [],
+                category: null,
+                identity: null,
+                selected: false,
+                tooltipInfo: null,
+            };
+
+            for (let column of values) {
+                let roles = column.source.roles;
+                let value = column.values[index];
+                if (!roles)
+                    continue;
+
+                if (roles[bulletChartRoleNames.y]) {
+                    dataPoint.total = value || 0;
+                } else if (roles[bulletChartRoleNames.minValue]) {
+                    dataPoint.min = value;
+                } else if (roles[bulletChartRoleNames.maxValue]) {
+                    dataPoint.max = value;
+                } else if (roles[bulletChartRoleNames.targetValue]) {
+                    dataPoint.target = value;
+                } else if (roles[bulletChartRoleNames.bands]) {
+                    if ($.isNumeric(value))
+                        dataPoint.bands.push(value);
+                } else {
+                    continue;
+                }
+
+                if (value != null && !roles[bulletChartRoleNames.minValue] && !roles[bulletChartRoleNames.maxValue])
+                    dataPoint.tooltipItems.push({ value: value, metadata: column });
+            }
+
+            return dataPoint;
+        }
+
+        /** The range starts at zero and covers the value, the target and the bands unless min and max are given */
+        private static fillDefaults(dataPoint: BulletChartDataPoint): void {
+            if (!$.isNumeric(dataPoint.min))
+                dataPoint.min = Math.min(0, dataPoint.total);
+
+            if (!$.isNumeric(dataPoint.max)) {
+                let max = d3.max([dataPoint.total, dataPoint.target].concat(dataPoint.bands));
+                dataPoint.max = max > dataPoint.min ? max : dataPoint.min + 1;
+            }
+
+            let min = dataPoint.min;
+            let max = dataPoint.max;
+            let bands = _.isEmpty(dataPoint.bands)
+                ? BulletChart.DefaultBandRatios.map((ratio) => min + (max - min) * ratio)
+                : dataPoint.bands;
+
+            dataPoint.bands = _.uniq(bands
+                .map((bound) => Math.min(Math.max(bound, min), max))
+                .filter((bound) => bound > min)
+                .sort((a, b) => a - b));
+        }
+
+        public init(options: VisualInitOptions): void {
+            this.root = $('<div>')
+                .addClass(BulletChart.VisualClassName)
+                .css('overflow', 'auto')
+                .appendTo(options.element);
+
+            this.svg = d3.select(this.root.get(0)).append('svg');
+            this.colors = options.style.colorPalette.dataColors;
+            this.selectionManager = new SelectionManager({ hostServices: options.host });
+
+            this.svg.on('click', () => {
+                this.selectionManager.clear().then(() => this.renderSelection());
+            });
+        }
+
+        public update(options: VisualUpdateOptions): void {
+            debug.assertValue(options, 'options');
+
+            let viewport = options.viewport;
+            this.root.css({ width: viewport.width, height: viewport.height });
+
+            let dataView = this.dataView = options.dataViews && options.dataViews[0];
+            if (!dataView) {
+                this.data = null;
+                this.svg.selectAll(BulletChart.Bullet.selector).remove();
+                return;
+            }
+
+            let data = this.data = BulletChart.converter(dataView, this.colors);
+            let layout = BulletChart.getLayout(data, viewport);
+            let count = data.dataPoints.length;
+
+            this.svg.attr({
+                width: layout.isVertical ? count * layout.slotSize : viewport.width,
+                height: layout.isVertical ? viewport.height : count * layout.slotSize,
+            });
+
+            let bullets = this.svg
+                .selectAll(BulletChart.Bullet.selector)
+                .data(data.dataPoints, (d: BulletChartDataPoint) => d.identity.getKey());
+
+            bullets.enter()
+                .append('g')
+                .classed(BulletChart.Bullet.class, true);
+
+            bullets
+                .attr('transform', (d: BulletChartDataPoint, i: number) => layout.isVertical
+                    ? SVGUtil.translate(i * layout.slotSize + BulletChart.VerticalAxisSize, BulletChart.EdgeMargin)
+                    : SVGUtil.translate(layout.categoryLabelSize, i * layout.slotSize + BulletChart.SlotPadding / 2))
+                .each(function (d: BulletChartDataPoint) {
+                    BulletChart.renderBullet(d3.select(this), d, data, layout);
+                })
+                .on('click', (d: BulletChartDataPoint) => {
+                    this.selectionManager.select(d.identity, d3.event.ctrlKey).then(() => this.renderSelection());
+                    d3.event.stopPropagation();
+                });
+
+            bullets.exit().remove();
+
+            TooltipManager.addTooltip(bullets, (tooltipEvent: TooltipEvent) => tooltipEvent.data.tooltipInfo);
+
+            this.renderSelection();
+        }
+
+        private static getLayout(data: BulletChartData, viewport: IViewport): BulletChartLayout {
+            let isVertical = data.orientation === bulletChartOrientation.vertical;
+            let count = Math.max(data.dataPoints.length, 1);
+            let axisSize = isVertical ? BulletChart.VerticalAxisSize : BulletChart.HorizontalAxisSize;
+            let crossSpan = isVertical ? viewport.width : viewport.height;
+
+            // Shrink the bullets to fit the viewport, past the minimum thickness the chart scrolls
+            let thickness = crossSpan / count - axisSize - BulletChart.SlotPadding;
+            thickness = Math.max(BulletChart.MinThickness, Math.min(BulletChart.MaxThickness, thickness));
+            let slotSize = thickness + axisSize + BulletChart.SlotPadding;
+
+            let categoryLabelSize: number;
+            if (isVertical) {
+                categoryLabelSize = BulletChart.HorizontalAxisSize + BulletChart.CategoryLabelPadding;
+            }
+            else {
+                let maxLabelWidth = d3.max(data.dataPoints, (d: BulletChartDataPoint) => TextMeasurementService.measureSvgTextWidth({
+                    text: d.category,
+                    fontFamily: BulletChart.CategoryLabelTextProperties.fontFamily,
+                    fontSize: BulletChart.CategoryLabelTextProperties.fontSize,
+                })) || 0;
+                categoryLabelSize = Math.min(maxLabelWidth, viewport.width * BulletChart.MaxCategoryLabelRatio) + BulletChart.CategoryLabelPadding;
+            }
+
+            let length = isVertical
+                ? viewport.height - categoryLabelSize - axisSize - BulletChart.EdgeMargin
+                : viewport.width - categoryLabelSize - BulletChart.EdgeMargin * 2;
+
+            return {
+                isVertical: isVertical,
+                thickness: thickness,
+                length: Math.max(length, 0),
+                slotSize: slotSize,
+                categoryLabelSize: categoryLabelSize,
+            };
+        }
+
+        private static renderBullet(bullet: D3.Selection, dataPoint: BulletChartDataPoint, data: BulletChartData, layout: BulletChartLayout): void {
+            let isVertical = layout.isVertical;
+            let thickness = layout.thickness;
+            let axisProperties = AxisHelper.createAxis({
+                pixelSpan: layout.length,
+                dataDomain: [dataPoint.min, dataPoint.max],
+                metaDataColumn: data.valueColumn,
+                formatStringProp: bulletChartProps.general.formatString,
+                outerPadding: 0,
+                isScalar: true,
+                isVertical: isVertical,
+            });
+            let scale = <D3.Scale.LinearScale>axisProperties.scale;
+
+            // Rectangle between two values of the axis, offset and size are taken perpendicular to the axis
+            let getRect = (start: number, end: number, offset: number, size: number) => {
+                let from = Math.min(scale(start), scale(end));
+                let span = Math.abs(scale(end) - scale(start));
+                return isVertical
+                    ? { x: offset, y: from, width: size, height: span }
+                    : { x: from, y: offset, width: span, height: size };
+            };
+
+            let bandStarts = [dataPoint.min].concat(dataPoint.bands);
+            let bandColor = d3.interpolateRgb(BulletChart.DarkestBandColor, BulletChart.LightestBandColor);
+            let bandCount = dataPoint.bands.length;
+
+            let bands = bullet
+                .selectAll(BulletChart.Band.selector)
+                .data(dataPoint.bands);
+
+            bands.enter()
+                .append('rect')
+                .classed(BulletChart.Band.class, true);
+
+            bands
+                .attr({
+                    x: (d: number, i: number) => getRect(bandStarts[i], d, 0, thickness).x,
+                    y: (d: number, i: number) => getRect(bandStarts[i], d, 0, thickness).y,
+                    width: (d: number, i: number) => getRect(bandStarts[i], d, 0, thickness).width,
+                    height: (d: number, i: number) => getRect(bandStarts[i], d, 0, thickness).height,
+                })
+                .style('fill', (d: number, i: number) => bandColor(bandCount > 1 ? i / (bandCount - 1) : 0));
+
+            bands.exit().remove();
+
+            let barSize = thickness * BulletChart.ValueBarRatio;
+            let barValue = Math.min(Math.max(dataPoint.total, dataPoint.min), dataPoint.max);
+            let barStart = Math.min(Math.max(0, dataPoint.min), dataPoint.max);
+            let valueBar = bullet.select(BulletChart.ValueBar.selector);
+            if (valueBar.empty())
+                valueBar = bullet.append('rect').classed(BulletChart.ValueBar.class, true);
+
+            valueBar
+                .attr(getRect(barStart, barValue, (thickness - barSize) / 2, barSize))
+                .style('fill', data.barColor);
+
+            let hasTarget = $.isNumeric(dataPoint.target) && dataPoint.target >= dataPoint.min && dataPoint.target <= dataPoint.max;
+            let targetSize = thickness * BulletChart.TargetRatio;
+            let targetOffset = (thickness - targetSize) / 2;
+            let target = bullet.select(BulletChart.Target.selector);
+            if (target.empty())
+                target = bullet.append('line').classed(BulletChart.Target.class, true);
+
+            if (hasTarget) {
+                let position = scale(dataPoint.target);
+                target
+                    .attr(isVertical
+                        ? { x1: targetOffset, x2: targetOffset + targetSize, y1: position, y2: position }
+                        : { x1: position, x2: position, y1: targetOffset, y2: targetOffset + targetSize })
+                    .style({
+                        'stroke': data.targetColor,
+                        'stroke-width': BulletChart.TargetThickness,
+                        'display': null,
+                    });
+            }
+            else {
+                target.style('display', 'none');
+            }
+
+            let axis = bullet.select(BulletChart.Axis.selector);
+            if (axis.empty())
+                axis = bullet.append('g').classed(BulletChart.Axis.class, true);
+
+            axis
+                .attr('transform', isVertical ? SVGUtil.translate(0, 0) : SVGUtil.translate(0, thickness))
+                .call(axisProperties.axis.tickSize(4, 0));
+
+            let label = bullet.select(BulletChart.CategoryLabel.selector);
+            if (label.empty())
+                label = bullet.append('text').classed(BulletChart.CategoryLabel.class, true);
+
+            label
+                .attr(isVertical
+                    ? { x: thickness / 2, y: layout.length + BulletChart.HorizontalAxisSize + BulletChart.CategoryLabelPadding, dy: '0.71em' }
+                    : { x: -BulletChart.CategoryLabelPadding, y: thickness / 2, dy: '0.35em' })
+                .style({
+                    'text-anchor': isVertical ? 'middle' : 'end',
+                    'font-size': BulletChart.CategoryLabelTextProperties.fontSize,
+                })
+                .text(dataPoint.category)
+                .call(AxisHelper.LabelLayoutStrategy.clip,
+                    isVertical ? layout.slotSize : layout.categoryLabelSize - BulletChart.CategoryLabelPadding,
+                    TextMeasurementService.svgEllipsis);
+        }
+
+        private renderSelection(): void {
+            let selectedIds = this.selectionManager.getSelectionIds();
+            let hasSelection = selectedIds.length > 0;
+
+            this.svg
+                .selectAll(BulletChart.Bullet.selector)
+                .style('opacity', (d: BulletChartDataPoint) => !hasSelection || SelectionManager.containsSelection(selectedIds, d.identity)
+                    ? 1
+                    : BulletChart.DimmedOpacity);
+        }
+
+        public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] {
+            let data = this.data;
+            if (!data || !this.dataView.metadata)
+                return;
+
+            switch (options.objectName) {
+                case 'general':
+                    return [{
+                        selector: null,
+                        objectName: 'general',
+                        properties: {
+                            orientation: data.orientation,
+                        },
+                    }];
+                case 'axis':
+                    return [{
+                        selector: null,
+                        objectName: 'axis',
+                        properties: <any>Gauge.getGaugeObjectsProperties(this.dataView),
+                    }];
+                case 'dataPoint':
+                    return [{
+                        selector: null,
+                        objectName: 'dataPoint',
+                        properties: {
+                            fill: data.barColor,
+                            targetFill: data.targetColor,
+                        },
+                    }];
+            }
+        }
+    }
+}
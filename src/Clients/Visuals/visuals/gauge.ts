@@ -33,6 +33,31 @@ module powerbi.visuals {
         total: number;
         metadataColumn: DataViewMetadataColumn;
         targetSettings: GaugeTargetSettings;
+        bands: GaugeBand[];
+        targetMarkers: GaugeTargetMarker[];
+    }
+
+    /** A colored range drawn along the arc, e.g. poor, ok and good */
+    export interface GaugeBand extends TooltipEnabledDataPoint {
+        name: string;
+        start: number;
+        end: number;
+        color: string;
+        /** Identity of the measure the band is bound to, null for the bands defined by constants */
+        identity: SelectionId;
+    }
+
+    /** Localized names of the bands defined by the poor and ok thresholds */
+    export interface GaugeBandNames {
+        poor: string;
+        ok: string;
+        good: string;
+    }
+
+    /** A labelled benchmark drawn on the arc in addition to the main target */
+    export interface GaugeTargetMarker {
+        name: string;
+        value: number;
     }
 
     interface KpiArcAttributes {
@@ -50,6 +75,8 @@ module powerbi.visuals {
     export interface GaugeTargetData extends GaugeTargetSettings {
         total: number;
         tooltipItems: TooltipSeriesDataItem[];
+        targetMarkers?: GaugeTargetMarker[];
+        bandColumns?: DataViewValueColumn[];
     }
 
     interface GaugeStyle {
@@ -107,6 +134,7 @@ module powerbi.visuals {
 
     export interface GaugeDataViewObjects extends DataViewObjects {
         axis: GaugeDataViewObject;
+        bands: GaugeBandsDataViewObject;
     }
 
     export interface GaugeDataViewObject extends DataViewObject {
@@ -115,6 +143,15 @@ module powerbi.visuals {
         target?: number;
     }
 
+    export interface GaugeBandsDataViewObject extends DataViewObject {
+        show?: boolean;
+        poorMax?: number;
+        okMax?: number;
+        poorFill?: Fill;
+        okFill?: Fill;
+        goodFill?: Fill;
+    }
+
     /** 
      * Renders a number that can be animate change in value.
      */
@@ -152,6 +189,7 @@ module powerbi.visuals {
                 thickness: 5
             },
         };
+        private static DefaultBandColors = ['#C0433A', '#E8D62E', '#79C75B'];
         private static DefaultTargetSettings: GaugeTargetSettings = {
             min: 0,
             max: 1,
@@ -177,12 +215,36 @@ module powerbi.visuals {
             selector: '.targetText'
         };
 
+        private static Band: ClassAndSelector = {
+            class: 'gaugeBand',
+            selector: '.gaugeBand'
+        };
+
+        private static TargetMarker: ClassAndSelector = {
+            class: 'targetMarker',
+            selector: '.targetMarker'
+        };
+
+        private static TargetMarkerText: ClassAndSelector = {
+            class: 'targetMarkerText',
+            selector: '.targetMarkerText'
+        };
+
         /** Note: Public for testability */
         public static formatStringProp: DataViewObjectPropertyIdentifier = {
             objectName: 'general',
             propertyName: 'formatString',
         };
 
+        private static bandsProps = {
+            show: <DataViewObjectPropertyIdentifier>{ objectName: 'bands', propertyName: 'show' },
+            fill: <DataViewObjectPropertyIdentifier>{ objectName: 'bands', propertyName: 'fill' },
+        };
+
+        private static poorBandKey = 'Visual_Gauge_Bands_Poor';
+        private static okBandKey = 'Visual_Gauge_Bands_OK';
+        private static goodBandKey = 'Visual_Gauge_Bands_Good';
+
         private svg: D3.Selection;
         private mainGraphicsContext: D3.Selection;
         private currentViewport: IViewport;
@@ -233,10 +295,62 @@ module powerbi.visuals {
             switch (options.objectName) {
                 case 'axis':
                     return this.enumerateAxis();
+                case 'bands':
+                    return this.enumerateBands();
             }
             return null;
         }
 
+        private enumerateBands(): VisualObjectInstance[] {
+            let dataView: DataView = this.dataViews[0];
+
+            if (!dataView || !dataView.metadata)
+                return null;
+
+            let objects = <GaugeDataViewObjects>dataView.metadata.objects;
+            let bandsObject: GaugeBandsDataViewObject = objects && objects.bands ? objects.bands : {};
+            let show = DataViewObjects.getValue(objects, Gauge.bandsProps.show, true);
+            let bands = this.data ? this.data.bands : [];
+
+            if (DataRoleHelper.hasRoleInDataView(dataView, gaugeRoleNames.bands)) {
+                let instances: VisualObjectInstance[] = [{
+                    selector: null,
+                    objectName: 'bands',
+                    properties: {
+                        show: show,
+                    },
+                }];
+
+                for (let band of bands) {
+                    instances.push({
+                        selector: band.identity.getSelector(),
+                        objectName: 'bands',
+                        displayName: band.name,
+                        properties: {
+                            fill: { solid: { color: band.color } },
+                        },
+                    });
+                }
+
+                return instances;
+            }
+
+            // Constant bands are always enumerated so that they can be defined in the first place
+            let colors = Gauge.DefaultBandColors;
+            return [{
+                selector: null,
+                objectName: 'bands',
+                properties: {
+                    show: show,
+                    poorMax: bandsObject.poorMax,
+                    okMax: bandsObject.okMax,
+                    poorFill: DataViewObjects.getFillColor(objects, { objectName: 'bands', propertyName: 'poorFill' }, colors[0]),
+                    okFill: DataViewObjects.getFillColor(objects, { objectName: 'bands', propertyName: 'okFill' }, colors[1]),
+                    goodFill: DataViewObjects.getFillColor(objects, { objectName: 'bands', propertyName: 'goodFill' }, colors[2]),
+                },
+            }];
+        }
+
         private enumerateAxis(): VisualObjectInstance[] {
             let dataView: DataView = this.dataViews[0];
 
@@ -252,7 +366,8 @@ module powerbi.visuals {
             return null;
         }
         
-        private static getGaugeObjectsProperties(dataView: DataView): GaugeTargetSettings {
+        /** Note: public for reuse by the bullet chart */
+        public static getGaugeObjectsProperties(dataView: DataView): GaugeTargetSettings {
             let properties: any = {};
             let objects: GaugeDataViewObjects = <GaugeDataViewObjects>dataView.metadata.objects;
             let hasAxisObject: boolean = !!objects && !!objects.axis;
@@ -337,7 +452,7 @@ module powerbi.visuals {
                 return;
             }
 
-            this.data = Gauge.converter(dataViews[0]);
+            this.data = Gauge.converter(dataViews[0], Gauge.getBandNames(this.hostService));
             this.targetSettings = this.data.targetSettings;
 
             if (dataViews[0])
@@ -425,8 +540,11 @@ module powerbi.visuals {
                 min: Gauge.MIN_VALUE,
                 target: undefined,
                 total: 0,
-                tooltipItems: []
+                tooltipItems: [],
+                targetMarkers: [],
+                bandColumns: []
             };
+            let hasTarget = false;
 
             if (dataView && dataView.categorical && dataView.categorical.values && dataView.metadata && dataView.metadata.columns) {
                 let values = dataView.categorical.values;
@@ -447,9 +565,16 @@ module powerbi.visuals {
                         } else if (col.roles[gaugeRoleNames.maxValue]) {
                             settings.max = value;
                         } else if (col.roles[gaugeRoleNames.targetValue]) {
-                            settings.target = value;
+                            // The first target is the main one, the others are drawn as labelled markers
+                            if (hasTarget)
+                                settings.targetMarkers.push({ name: col.displayName, value: value });
+                            else
+                                settings.target = value;
+                            hasTarget = true;
                             if (value)
                                 settings.tooltipItems.push({ value: value, metadata: values[i] });
+                        } else if (col.roles[gaugeRoleNames.bands]) {
+                            settings.bandColumns.push(values[i]);
                         }
                     }
                 }
@@ -463,7 +588,8 @@ module powerbi.visuals {
             return settings;
         }
         
-        private static overrideGaugeSettings(settings: GaugeTargetData, gaugeObjectsSettings: GaugeTargetSettings) {
+        /** Note: public for reuse by the bullet chart */
+        public static overrideGaugeSettings(settings: GaugeTargetData, gaugeObjectsSettings: GaugeTargetSettings) {
             if ($.isNumeric(gaugeObjectsSettings.min))
                 settings.min = gaugeObjectsSettings.min;
 
@@ -475,7 +601,7 @@ module powerbi.visuals {
         }
         
         /** Note: Made public for testability */
-        public static converter(dataView: DataView): GaugeData {
+        public static converter(dataView: DataView, bandNames: GaugeBandNames = Gauge.getBandNames(defaultVisualHostServices)): GaugeData {
             let gaugeData = Gauge.getGaugeData(dataView);
             let total = gaugeData.total;
             if (total > 0 && gaugeData.max === Gauge.MAX_VALUE) {
@@ -517,16 +643,117 @@ module powerbi.visuals {
                 }
             }
 
+            let metadataColumn = Gauge.getMetaDataColumn(dataView);
+            let bands = Gauge.getBands(dataView, gaugeData, settings, metadataColumn, bandNames);
+            if (bands.length > 0) {
+                tooltipInfo = tooltipInfo || [];
+                for (let band of bands)
+                    tooltipInfo = tooltipInfo.concat(band.tooltipInfo);
+            }
+
             return {
                 percent: percent,
                 adjustedTotal: adjustedTotal,
                 total: total,
-                metadataColumn: Gauge.getMetaDataColumn(dataView),
+                metadataColumn: metadataColumn,
                 targetSettings: settings,
                 tooltipInfo: tooltipInfo,
+                bands: bands,
+                targetMarkers: gaugeData.targetMarkers || [],
+            };
+        }
+
+        /**
+         * Each measure bound to the Bands role is the upper bound of a band starting where the previous one ends,
+         * without bound measures the poor and ok thresholds of the formatting pane split the arc in three bands.
+         */
+        private static getBands(dataView: DataView, gaugeData: GaugeTargetData, settings: GaugeTargetSettings, metadataColumn: DataViewMetadataColumn, bandNames: GaugeBandNames): GaugeBand[] {
+            let objects = dataView && dataView.metadata ? <GaugeDataViewObjects>dataView.metadata.objects : null;
+            if (!DataViewObjects.getValue(objects, Gauge.bandsProps.show, true))
+                return [];
+
+            let bounds: { name: string; value: number; color: string; identity: SelectionId }[] = [];
+            let bandColumns = gaugeData.bandColumns;
+
+            if (!_.isEmpty(bandColumns)) {
+                let colorScale = Gauge.getBandColorScale(bandColumns.length);
+                for (let i = 0, len = bandColumns.length; i < len; i++) {
+                    let column = bandColumns[i];
+                    let value = column.values[0];
+                    if (!$.isNumeric(value))
+                        continue;
+
+                    bounds.push({
+                        name: column.source.displayName,
+                        value: value,
+                        color: DataViewObjects.getFillColor(column.source.objects, Gauge.bandsProps.fill, colorScale(i)),
+                        identity: SelectionId.createWithMeasure(column.source.queryName),
+                    });
+                }
+                bounds.sort((a, b) => a.value - b.value);
+            }
+            else if (objects && objects.bands) {
+                let bandsObject = objects.bands;
+                let colors = Gauge.DefaultBandColors;
+                if (!$.isNumeric(bandsObject.poorMax) && !$.isNumeric(bandsObject.okMax))
+                    return [];
+
+                if ($.isNumeric(bandsObject.poorMax))
+                    bounds.push({ name: bandNames.poor, value: bandsObject.poorMax, color: DataViewObjects.getFillColor(objects, { objectName: 'bands', propertyName: 'poorFill' }, colors[0]), identity: null });
+                if ($.isNumeric(bandsObject.okMax))
+                    bounds.push({ name: bandNames.ok, value: bandsObject.okMax, color: DataViewObjects.getFillColor(objects, { objectName: 'bands', propertyName: 'okFill' }, colors[1]), identity: null });
+                bounds.push({ name: bandNames.good, value: settings.max, color: DataViewObjects.getFillColor(objects, { objectName: 'bands', propertyName: 'goodFill' }, colors[2]), identity: null });
+            }
+
+            let formatter = valueFormatter.create({
+                format: valueFormatter.getFormatString(metadataColumn, Gauge.formatStringProp),
+                value: settings.min,
+                value2: settings.max,
+                formatSingleValues: true,
+                allowFormatBeautification: true,
+            });
+
+            let bands: GaugeBand[] = [];
+            let start = settings.min;
+            for (let bound of bounds) {
+                let end = Math.min(Math.max(bound.value, settings.min), settings.max);
+                if (end <= start)
+                    continue;
+
+                bands.push({
+                    name: bound.name,
+                    start: start,
+                    end: end,
+                    color: bound.color,
+                    identity: bound.identity,
+                    tooltipInfo: [{
+                        displayName: bound.name,
+                        value: formatter.format(start) + ' - ' + formatter.format(end),
+                    }],
+                });
+                start = end;
+            }
+
+            return bands;
+        }
+
+        private static getBandNames(hostServices: IVisualHostServices): GaugeBandNames {
+            return {
+                poor: hostServices.getLocalizedString(Gauge.poorBandKey),
+                ok: hostServices.getLocalizedString(Gauge.okBandKey),
+                good: hostServices.getLocalizedString(Gauge.goodBandKey),
             };
         }
 
+        /** Goes from red to green through yellow whatever the number of bands */
+        private static getBandColorScale(count: number): (index: number) => string {
+            let last = Math.max(count - 1, 1);
+            let scale = d3.scale.linear()
+                .domain([0, last / 2, last])
+                .range(Gauge.DefaultBandColors);
+            return (index: number) => <string><any>scale(index);
+        }
+
         public static getMetaDataColumn(dataView: DataView) {
             if (dataView && dataView.metadata && dataView.metadata.columns) {
                 for (let i = 0, ilen = dataView.metadata.columns.length; i < ilen; i++) {
@@ -580,6 +807,92 @@ module powerbi.visuals {
             }
         }
 
+        private updateBands(radius: number, innerRadiusFactor: number, transformString: string) {
+            let targetSettings = this.targetSettings;
+            let range = targetSettings.max - targetSettings.min;
+            let bands = this.data && range > 0 ? this.data.bands : [];
+            let thickness = this.settings.kpiBands.thickness;
+            let outerRadius = radius * innerRadiusFactor - Gauge.KpiBandDistanceFromMainArc;
+
+            let arc = d3.svg.arc()
+                .innerRadius(outerRadius - thickness)
+                .outerRadius(outerRadius)
+                .startAngle((d: GaugeBand) => -Math.PI / 2 + Math.PI * (d.start - targetSettings.min) / range)
+                .endAngle((d: GaugeBand) => -Math.PI / 2 + Math.PI * (d.end - targetSettings.min) / range);
+
+            let bandPaths = this.mainGraphicsContext
+                .selectAll(Gauge.Band.selector)
+                .data(bands);
+
+            bandPaths.enter()
+                .append('path')
+                .classed(Gauge.Band.class, true);
+
+            bandPaths
+                .attr('d', arc)
+                .attr('transform', transformString)
+                .style('fill', (d: GaugeBand) => d.color);
+
+            bandPaths.exit().remove();
+
+            TooltipManager.addTooltip(bandPaths, (tooltipEvent: TooltipEvent) => tooltipEvent.data.tooltipInfo);
+        }
+
+        private updateTargetMarkers(radius: number, innerRadius: number, left: number, top: number) {
+            let targetSettings = this.targetSettings;
+            let range = targetSettings.max - targetSettings.min;
+            let markers = this.data && range > 0
+                ? _.filter(this.data.targetMarkers, (marker) => marker.value >= targetSettings.min && marker.value <= targetSettings.max)
+                : [];
+            let padding = this.settings.labels.padding;
+            let getAngle = (marker: GaugeTargetMarker) => (marker.value - targetSettings.min) / range * Math.PI;
+
+            let lines = this.mainGraphicsContext
+                .selectAll(Gauge.TargetMarker.selector)
+                .data(markers);
+
+            lines.enter()
+                .append('line')
+                .classed(Gauge.TargetMarker.class, true);
+
+            lines
+                .attr({
+                    x1: (d: GaugeTargetMarker) => left - innerRadius * Math.cos(getAngle(d)),
+                    y1: (d: GaugeTargetMarker) => top - innerRadius * Math.sin(getAngle(d)),
+                    x2: (d: GaugeTargetMarker) => left - radius * Math.cos(getAngle(d)),
+                    y2: (d: GaugeTargetMarker) => top - radius * Math.sin(getAngle(d)),
+                })
+                .style({
+                    'stroke': this.settings.targetLine.color,
+                    'stroke-width': this.settings.targetLine.thickness,
+                    'stroke-dasharray': '3,2',
+                });
+
+            lines.exit().remove();
+
+            let labels = this.mainGraphicsContext
+                .selectAll(Gauge.TargetMarkerText.selector)
+                .data(markers);
+
+            labels.enter()
+                .append('text')
+                .classed(Gauge.TargetMarkerText.class, true);
+
+            labels
+                .attr({
+                    x: (d: GaugeTargetMarker) => left - (radius + padding) * Math.cos(getAngle(d)),
+                    y: (d: GaugeTargetMarker) => top - (radius + padding) * Math.sin(getAngle(d)),
+                })
+                .style({
+                    'text-anchor': (d: GaugeTargetMarker) => getAngle(d) > Math.PI / 2 ? 'start' : 'end',
+                    'display': this.showSideNumbersLabelText() ? '' : 'none',
+                    'font-size': this.style.labelText.fontSize,
+                })
+                .text((d: GaugeTargetMarker) => d.name);
+
+            labels.exit().remove();
+        }
+
         private removeTargetElements() {
             if (this.targetLine) {
                 this.targetLine.remove();
@@ -619,7 +932,7 @@ module powerbi.visuals {
             let boxAngle = Math.PI / 4;
             let scale = 1;
             let innerRadiusOfArc = radius * innerRadiusFactor;
-            let innerRadiusForTextBoundingBox = innerRadiusOfArc - (this.settings.kpiBands.show
+            let innerRadiusForTextBoundingBox = innerRadiusOfArc - (this.settings.kpiBands.show || this.hasBands()
                 ? (Gauge.KpiBandDistanceFromMainArc + this.settings.kpiBands.thickness)
                 : 0);
             let innerRCos = innerRadiusForTextBoundingBox * Math.cos(boxAngle);
@@ -722,6 +1035,8 @@ module powerbi.visuals {
             let margin = drawOptions.margin;
             let height = drawOptions.height;
             let targetSettings = this.targetSettings;
+            this.updateBands(radius, innerRadiusFactor, transformString);
+            this.updateTargetMarkers(radius, innerRadiusOfArc, left, top);
             if (!this.settings.targetLine.show || targetSettings.target == null) {
                 this.removeTargetElements();
             } else {
@@ -795,12 +1110,12 @@ module powerbi.visuals {
         private updateVisualConfigurations() {
             let configOptions = this.settings;
 
-            this.mainGraphicsContext
-                .select('line')
-                .attr({
+            if (this.targetLine) {
+                this.targetLine.attr({
                     stroke: configOptions.targetLine.color,
                     'stroke-width': configOptions.targetLine.thickness
                 });
+            }
 
             this.backgroundArcPath.style('fill', configOptions.arcColors.background);
             this.foregroundArcPath.style('fill', configOptions.arcColors.foreground);
@@ -998,6 +1313,10 @@ module powerbi.visuals {
             }
         }
 
+        private hasBands(): boolean {
+            return !!this.data && !_.isEmpty(this.data.bands);
+        }
+
         private showSideNumbersLabelText(): boolean {
             if (this.gaugeSmallViewPortProperties) {
                 if (this.gaugeSmallViewPortProperties.hideGaugeSideNumbersOnSmallViewPort) {
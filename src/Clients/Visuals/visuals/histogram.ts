@@ -30,6 +30,9 @@ module powerbi.visuals {
     import VisualDataRoleKind = powerbi.VisualDataRoleKind;
     import SelectionManager = utility.SelectionManager;
     import ValueFormatter = powerbi.visuals.valueFormatter;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
 
     type D3Element = 
         D3.UpdateSelection |
@@ -43,16 +46,117 @@ module powerbi.visuals {
         margin?: IMargin;
     }
 
+    module HistogramBinningRule {
+        export const BinCount: string = "binCount";
+        export const Sturges: string = "sturges";
+        export const Scott: string = "scott";
+        export const FreedmanDiaconis: string = "freedmanDiaconis";
+        export const FixedWidth: string = "fixedWidth";
+        export const type: IEnumType = createEnumType([
+            { value: BinCount, displayName: "Bin count" },
+            { value: Sturges, displayName: "Sturges" },
+            { value: Scott, displayName: "Scott" },
+            { value: FreedmanDiaconis, displayName: "Freedman-Diaconis" },
+            { value: FixedWidth, displayName: "Fixed width" },
+        ]);
+    }
+
+    module HistogramSeriesLayout {
+        export const Overlaid: string = "overlaid";
+        export const Stacked: string = "stacked";
+        export const SideBySide: string = "sideBySide";
+        export const type: IEnumType = createEnumType([
+            { value: Overlaid, displayName: "Overlaid" },
+            { value: Stacked, displayName: "Stacked" },
+            { value: SideBySide, displayName: "Side by side" },
+        ]);
+    }
+
     export interface HistogramSettings {
         displayName?: string;
         fillColor?: string;
         frequency: boolean;
         bins?: number;
+        binningRule?: string;
+        binWidth?: number;
         precision: number;
+        overlays?: HistogramOverlaySettings;
+        seriesLayout?: string;
+    }
+
+    export interface HistogramOverlaySettings {
+        showKde: boolean;
+        /** Kernel bandwidth; when not set it is estimated with Silverman's rule of thumb. */
+        kdeBandwidth: number;
+        kdeColor: string;
+        showNormal: boolean;
+        normalColor: string;
+        showMean: boolean;
+        meanColor: string;
+        showMedian: boolean;
+        medianColor: string;
+    }
+
+    interface HistogramOverlayProperties {
+        showKde: DataViewObjectPropertyIdentifier;
+        kdeBandwidth: DataViewObjectPropertyIdentifier;
+        kdeColor: DataViewObjectPropertyIdentifier;
+        showNormal: DataViewObjectPropertyIdentifier;
+        normalColor: DataViewObjectPropertyIdentifier;
+        showMean: DataViewObjectPropertyIdentifier;
+        meanColor: DataViewObjectPropertyIdentifier;
+        showMedian: DataViewObjectPropertyIdentifier;
+        medianColor: DataViewObjectPropertyIdentifier;
+    }
+
+    interface HistogramLegendProperties {
+        show: DataViewObjectPropertyIdentifier;
+        position: DataViewObjectPropertyIdentifier;
+        showTitle: DataViewObjectPropertyIdentifier;
+        titleText: DataViewObjectPropertyIdentifier;
+    }
+
+    export interface HistogramStatistics {
+        count: number;
+        mean: number;
+        median: number;
+        standardDeviation: number;
+        interquartileRange: number;
+    }
+
+    export interface HistogramCurve {
+        name: string;
+        color: string;
+        /** [x, y] pairs in the units of the histogram axes */
+        points: number[][];
+    }
+
+    export interface HistogramMarker extends TooltipEnabledDataPoint {
+        name: string;
+        color: string;
+        value: number;
     }
 
     export interface HistogramData extends D3.Layout.Bin, TooltipEnabledDataPoint {
         range: number[];
+        selected?: boolean;
+        /** Index of the bin in the overall histogram; the bin edges are shared by all series */
+        binIndex?: number;
+        seriesIndex?: number;
+        /** Baseline of the column, above zero only for stacked series */
+        y0?: number;
+    }
+
+    export interface HistogramSeries {
+        name: string;
+        color: string;
+        data: HistogramData[];
+    }
+
+    export interface HistogramSeriesGroup {
+        name: string;
+        color: string;
+        values: number[];
     }
 
     export interface HistogramDataView {
@@ -61,6 +165,12 @@ module powerbi.visuals {
         yScale?: D3.Scale.LinearScale;
         settings: HistogramSettings;
         formatter: IValueFormatter;
+        curves?: HistogramCurve[];
+        markers?: HistogramMarker[];
+        /** The source column, used as the target of the range filter */
+        identityField?: SQExpr;
+        /** One entry per value of the Series role, or a single entry holding the overall bins */
+        series: HistogramSeries[];
     }
 
     interface Legend {
@@ -79,6 +189,8 @@ module powerbi.visuals {
         private static ClassName: string = "histogram";
         private static FrequencyText: string = "Frequency";
         private static DensityText: string = "Density";
+        private static ValuesRoleName: string = "Y";
+        private static SeriesRoleName: string = "Series";
 
         private static Properties: any = {
             general: {
@@ -90,9 +202,25 @@ module powerbi.visuals {
                     objectName: "general",
                     propertyName: "frequency"
                 },
+                binningRule: <DataViewObjectPropertyIdentifier> {
+                    objectName: "general",
+                    propertyName: "binningRule"
+                },
+                binWidth: <DataViewObjectPropertyIdentifier> {
+                    objectName: "general",
+                    propertyName: "binWidth"
+                },
+                seriesLayout: <DataViewObjectPropertyIdentifier> {
+                    objectName: "general",
+                    propertyName: "seriesLayout"
+                },
                 formatString: <DataViewObjectPropertyIdentifier>{
                     objectName: "general",
                     propertyName: "formatString"
+                },
+                filter: <DataViewObjectPropertyIdentifier>{
+                    objectName: "general",
+                    propertyName: "filter"
                 }
             },
             dataPoint: {
@@ -106,6 +234,62 @@ module powerbi.visuals {
                     objectName: "labels",
                     propertyName: "labelPrecision"
                 }
+            },
+            overlays: {
+                showKde: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "showKde"
+                },
+                kdeBandwidth: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "kdeBandwidth"
+                },
+                kdeColor: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "kdeColor"
+                },
+                showNormal: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "showNormal"
+                },
+                normalColor: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "normalColor"
+                },
+                showMean: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "showMean"
+                },
+                meanColor: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "meanColor"
+                },
+                showMedian: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "showMedian"
+                },
+                medianColor: <DataViewObjectPropertyIdentifier> {
+                    objectName: "overlays",
+                    propertyName: "medianColor"
+                }
+            },
+            legend: {
+                show: <DataViewObjectPropertyIdentifier> {
+                    objectName: "legend",
+                    propertyName: "show"
+                },
+                position: <DataViewObjectPropertyIdentifier> {
+                    objectName: "legend",
+                    propertyName: "position"
+                },
+                showTitle: <DataViewObjectPropertyIdentifier> {
+                    objectName: "legend",
+                    propertyName: "showTitle"
+                },
+                titleText: <DataViewObjectPropertyIdentifier> {
+                    objectName: "legend",
+                    propertyName: "titleText"
+                }
             }
         };
 
@@ -113,8 +297,22 @@ module powerbi.visuals {
             frequency: true,
             displayName: "Histogram",
             bins: null,
+            binningRule: HistogramBinningRule.BinCount,
+            binWidth: null,
             fillColor: "teal",
-            precision: 2
+            precision: 2,
+            overlays: {
+                showKde: false,
+                kdeBandwidth: null,
+                kdeColor: "#E66C37",
+                showNormal: false,
+                normalColor: "#5F6B6D",
+                showMean: false,
+                meanColor: "#D9B300",
+                showMedian: false,
+                medianColor: "#A66999"
+            },
+            seriesLayout: HistogramSeriesLayout.Overlaid
         };
 
         private static Axes: ClassAndSelector = {
@@ -147,17 +345,39 @@ module powerbi.visuals {
             selector: ".legend"
         };
 
+        private static Overlays: ClassAndSelector = {
+            "class": "overlays",
+            selector: ".overlays"
+        };
+
+        private static OverlayCurve: ClassAndSelector = {
+            "class": "overlayCurve",
+            selector: ".overlayCurve"
+        };
+
+        private static OverlayMarker: ClassAndSelector = {
+            "class": "overlayMarker",
+            selector: ".overlayMarker"
+        };
+
         public static capabilities: VisualCapabilities = {
             dataRoles: [{
                 name: "Y",
                 kind: VisualDataRoleKind.Grouping,
                 displayName: data.createDisplayNameGetter("Role_DisplayName_Value")
+            }, {
+                name: "Series",
+                kind: VisualDataRoleKind.Grouping,
+                displayName: data.createDisplayNameGetter("Role_DisplayName_Legend")
             }],
             dataViewMappings: [{
                 conditions: [{
                     "Y": {
                         min: 1,
                         max: 1
+                    },
+                    "Series": {
+                        max: 1
                     }
                 }],
                 categorical: {
@@ -166,6 +386,16 @@ module powerbi.visuals {
                             to: "Y"
                         }
                     }
+                },
+                // The categorical view keeps the identity of the value column for the range filter,
+                // the table pairs every value with its series
+                table: {
+                    rows: {
+                        select: [
+                            { bind: { to: "Y" } },
+                            { bind: { to: "Series" } }
+                        ]
+                    }
                 }
             }],
             objects: {
@@ -186,6 +416,21 @@ module powerbi.visuals {
                         frequency: {
                             displayName: "Frequency",
                             type: { bool: true }
+                        },
+                        binningRule: {
+                            displayName: "Binning rule",
+                            type: { enumeration: HistogramBinningRule.type }
+                        },
+                        binWidth: {
+                            displayName: "Bin width",
+                            type: { numeric: true }
+                        },
+                        seriesLayout: {
+                            displayName: "Series layout",
+                            type: { enumeration: HistogramSeriesLayout.type }
+                        },
+                        filter: {
+                            type: { filter: {} }
                         }
                     },
                 },
@@ -206,6 +451,68 @@ module powerbi.visuals {
                             type: { numeric: true }
                         }
                     }
+                },
+                overlays: {
+                    displayName: "Distribution overlays",
+                    properties: {
+                        showKde: {
+                            displayName: "Density curve",
+                            type: { bool: true }
+                        },
+                        kdeBandwidth: {
+                            displayName: "Density bandwidth",
+                            type: { numeric: true }
+                        },
+                        kdeColor: {
+                            displayName: "Density curve color",
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        showNormal: {
+                            displayName: "Normal curve",
+                            type: { bool: true }
+                        },
+                        normalColor: {
+                            displayName: "Normal curve color",
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        showMean: {
+                            displayName: "Mean line",
+                            type: { bool: true }
+                        },
+                        meanColor: {
+                            displayName: "Mean line color",
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        showMedian: {
+                            displayName: "Median line",
+                            type: { bool: true }
+                        },
+                        medianColor: {
+                            displayName: "Median line color",
+                            type: { fill: { solid: { color: true } } }
+                        }
+                    }
+                },
+                legend: {
+                    displayName: data.createDisplayNameGetter("Visual_Legend"),
+                    properties: {
+                        show: {
+                            displayName: data.createDisplayNameGetter("Visual_Show"),
+                            type: { bool: true }
+                        },
+                        position: {
+                            displayName: data.createDisplayNameGetter("Visual_LegendPosition"),
+                            type: { formatting: { legendPosition: true } }
+                        },
+                        showTitle: {
+                            displayName: data.createDisplayNameGetter("Visual_LegendShowTitle"),
+                            type: { bool: true }
+                        },
+                        titleText: {
+                            displayName: data.createDisplayNameGetter("Visual_LegendTitleText"),
+                            type: { text: true }
+                        }
+                    }
                 }
             }
         };
@@ -214,8 +521,15 @@ module powerbi.visuals {
         private MinColumnHeight: number = 1;
         private MinOpacity: number = 0.3;
         private MaxOpacity: number = 1;
+        private OverlaidOpacity: number = 0.5;
         private QuantityLabelsOnAxisY: number = 5;
         private MinQuantityBins: number = 0;
+        private MaxQuantityBins: number = 500;
+        private OverlaySamples: number = 100;
+        private MeanText: string = "Mean";
+        private MedianText: string = "Median";
+        private KdeName: string = "kde";
+        private NormalName: string = "normal";
         private MinPrecision: number = 0;
         private TooltipDisplayName: string = "Range";
         private SeparatorNumbers: string = ", ";
@@ -245,6 +559,7 @@ module powerbi.visuals {
         private viewport: IViewport;
         private dataView: DataView;
         private selectionManager: SelectionManager;
+        private hostServices: IVisualHostServices;
         private colors: IDataColorPalette;
 
         private root: D3.Selection;
@@ -255,9 +570,16 @@ module powerbi.visuals {
         private axisY: D3.Selection;
         private legend: D3.Selection;
         private columns: D3.Selection;
+        private overlays: D3.Selection;
+        private seriesLegend: ILegend;
 
         private histogramDataView: HistogramDataView;
 
+        private dragStartIndex: number = null;
+        private dragBaseSelection: boolean[];
+        private dragDeselects: boolean = false;
+        private ignoreNextClick: boolean = false;
+
         constructor(histogramConstructorOptions?: HistogramConstructorOptions) {
             if (histogramConstructorOptions) {
                 if (histogramConstructorOptions.svg) {
@@ -310,19 +632,51 @@ module powerbi.visuals {
                 .append("g")
                 .classed(Histogram.Columns["class"], true);
 
+            this.overlays = this.main
+                .append("g")
+                .classed(Histogram.Overlays["class"], true);
+
             this.selectionManager = new SelectionManager({
                 hostServices: visualsOptions.host
             });
+
+            this.hostServices = visualsOptions.host;
+
+            this.seriesLegend = createLegend(visualsOptions.element, false, null);
+
+            this.root
+                .on("mouseup", () => {
+                    if (this.dragStartIndex !== null) {
+                        this.ignoreNextClick = true;
+                        this.endDrag();
+                    }
+                })
+                .on("mouseleave", () => this.endDrag())
+                .on("click", () => {
+                    if (this.ignoreNextClick) {
+                        this.ignoreNextClick = false;
+                        return;
+                    }
+
+                    this.clearSelection();
+                });
         }
 
-        public converter(dataView: DataView): HistogramDataView {
+        public converter(dataView: DataView, seriesGroups: HistogramSeriesGroup[] = this.getSeriesGroups(dataView)): HistogramDataView {
             let histogramSettings: HistogramSettings,
                 histogramLayout: D3.Layout.HistogramLayout,
                 values: number[],
                 data: D3.Layout.Bin[],
                 xScale: D3.Scale.LinearScale,
                 yScale: D3.Scale.LinearScale,
-                valueFormatter: IValueFormatter;
+                valueFormatter: IValueFormatter,
+                binning: number | number[],
+                statistics: HistogramStatistics,
+                curves: HistogramCurve[],
+                markers: HistogramMarker[],
+                histogramData: HistogramData[],
+                series: HistogramSeries[],
+                identityFields: SQExpr[];
 
             if (!dataView ||
                 !dataView.categorical ||
@@ -339,44 +693,467 @@ module powerbi.visuals {
                 return null;
             }
 
-            values = dataView.categorical.categories[0].values;
+            values = this.getValues(dataView);
+
+            if (values.length === 0) {
+                return null;
+            }
 
             histogramLayout = d3.layout.histogram();
 
-            if (histogramSettings.bins && histogramSettings.bins > this.MinQuantityBins) {
-                histogramLayout = histogramLayout.bins(histogramSettings.bins);
+            statistics = this.getStatistics(values);
+            binning = this.getBinning(values, statistics, histogramSettings);
+
+            // The typings have no overload for the union of a bin count and thresholds
+            if (binning) {
+                histogramLayout = histogramLayout.bins(<any>binning);
             }
 
             data = histogramLayout
                 .frequency(histogramSettings.frequency)
                 (values);
 
+            valueFormatter = ValueFormatter.create({
+                format: ValueFormatter.getFormatString(dataView.categorical.categories[0].source, Histogram.Properties.general.formatString),
+                value: values[0],
+                precision: histogramSettings.precision
+            });
+
+            histogramData = this.getData(values, data, histogramSettings, valueFormatter);
+
+            series = this.getSeries(dataView, seriesGroups, histogramData, histogramSettings, valueFormatter);
+
+            // The bin edges rather than the data extent, so that fixed width bins line up with the axis
             xScale = d3.scale.linear()
                 .domain([
-                    d3.min(data, (item: D3.Layout.Bin) => d3.min(item)),
-                    d3.max(data, (item: D3.Layout.Bin) => d3.max(item))
+                    data[0].x,
+                    data[data.length - 1].x + data[data.length - 1].dx
                 ])
                 .range([0, this.viewport.width - this.LegendSize - this.AxisSize]);
 
+            curves = this.getCurves(statistics, values, data, xScale.domain(), histogramSettings);
+
             yScale = d3.scale.linear()
                 .domain([
                     0,
-                    d3.max(data, (item: D3.Layout.Bin) => item.y)
+                    d3.max([
+                        d3.max(series, (item: HistogramSeries) => d3.max(item.data, (bin: HistogramData) => bin.y0 + bin.y)),
+                        d3.max(curves, (curve: HistogramCurve) => d3.max(curve.points, (point: number[]) => point[1]))
+                    ])
                 ])
                 .range([this.viewport.height - this.LegendSize, 0]);
 
-            valueFormatter = ValueFormatter.create({
-                format: ValueFormatter.getFormatString(dataView.categorical.categories[0].source, Histogram.Properties.general.formatString),
-                value: values[0],
-                precision: histogramSettings.precision
-            });
+            markers = this.getMarkers(statistics, histogramSettings, valueFormatter);
+
+            this.setSelectionFromFilter(histogramData, this.getFilter(dataView));
+
+            identityFields = dataView.categorical.categories[0].identityFields;
 
             return {
                 xScale: xScale,
                 yScale: yScale,
                 settings: histogramSettings,
-                data: this.getData(values, data, histogramSettings, valueFormatter),
-                formatter: valueFormatter
+                data: histogramData,
+                formatter: valueFormatter,
+                curves: curves,
+                markers: markers,
+                identityField: identityFields && identityFields[0],
+                series: series
+            };
+        }
+
+        private getSeriesColumnIndex(dataView: DataView, roleName: string): number {
+            if (!dataView ||
+                !dataView.table ||
+                !dataView.table.columns) {
+                return -1;
+            }
+
+            return _.findIndex(dataView.table.columns, (column: DataViewMetadataColumn) => {
+                return Boolean(column.roles && column.roles[roleName]);
+            });
+        }
+
+        private getSeriesColumn(dataView: DataView): DataViewMetadataColumn {
+            let seriesIndex: number = this.getSeriesColumnIndex(dataView, Histogram.SeriesRoleName);
+
+            return seriesIndex >= 0
+                ? dataView.table.columns[seriesIndex]
+                : null;
+        }
+
+        private static isNumericValue(value: any): boolean {
+            return typeof value === "number" && isFinite(value);
+        }
+
+        /**
+         * Takes the values from the rows of the table view, the same rows the series are split from, so that the series add up to the overall bins.
+         * Falls back to the category values without a table view. Nulls and non-numeric values are left out.
+         */
+        private getValues(dataView: DataView): number[] {
+            let valueIndex: number = this.getSeriesColumnIndex(dataView, Histogram.ValuesRoleName),
+                values: any[] = valueIndex >= 0 && dataView.table.rows
+                    ? dataView.table.rows.map((row: any[]) => row[valueIndex])
+                    : dataView.categorical.categories[0].values;
+
+            return values.filter(Histogram.isNumericValue);
+        }
+
+        /** Splits the values of the table view by the value of the Series role, in the order the series first appear. */
+        private getSeriesGroups(dataView: DataView): HistogramSeriesGroup[] {
+            let seriesIndex: number = this.getSeriesColumnIndex(dataView, Histogram.SeriesRoleName),
+                valueIndex: number = this.getSeriesColumnIndex(dataView, Histogram.ValuesRoleName),
+                groups: HistogramSeriesGroup[] = [],
+                groupsByName: { [name: string]: HistogramSeriesGroup } = {},
+                seriesColumn: DataViewMetadataColumn,
+                colorHelper: ColorHelper;
+
+            if (seriesIndex < 0 || valueIndex < 0 || !dataView.table.rows) {
+                return groups;
+            }
+
+            seriesColumn = dataView.table.columns[seriesIndex];
+            colorHelper = new ColorHelper(this.colors, null);
+
+            dataView.table.rows.forEach((row: any[]) => {
+                if (!Histogram.isNumericValue(row[valueIndex])) {
+                    return;
+                }
+
+                let name: string = ValueFormatter.format(row[seriesIndex], seriesColumn.format),
+                    group: HistogramSeriesGroup = groupsByName[name];
+
+                if (!group) {
+                    group = groupsByName[name] = {
+                        name: name,
+                        color: colorHelper.getColorForSeriesValue(null, null, name),
+                        values: []
+                    };
+
+                    groups.push(group);
+                }
+
+                group.values.push(row[valueIndex]);
+            });
+
+            return groups;
+        }
+
+        /**
+         * Bins every series on the edges of the overall histogram so that the columns of all series line up.
+         * Without a Series role the overall bins make up the only series.
+         */
+        private getSeries(dataView: DataView, groups: HistogramSeriesGroup[], data: HistogramData[], settings: HistogramSettings, valueFormatter: IValueFormatter): HistogramSeries[] {
+            let seriesColumn: DataViewMetadataColumn,
+                thresholds: number[],
+                series: HistogramSeries[];
+
+            if (_.isEmpty(groups)) {
+                return [{
+                    name: settings.displayName,
+                    color: settings.fillColor,
+                    data: data
+                }];
+            }
+
+            seriesColumn = this.getSeriesColumn(dataView);
+
+            thresholds = data
+                .map((bin: HistogramData) => bin.x)
+                .concat(data[data.length - 1].x + data[data.length - 1].dx);
+
+            series = groups.map((group: HistogramSeriesGroup, seriesIndex: number) => {
+                let bins: HistogramData[] = <HistogramData[]> d3.layout.histogram()
+                    .bins(thresholds)
+                    .frequency(settings.frequency)
+                    (group.values);
+
+                bins.forEach((bin: HistogramData, index: number) => {
+                    bin.range = data[index].range;
+                    bin.binIndex = index;
+                    bin.seriesIndex = seriesIndex;
+                    bin.y0 = 0;
+
+                    bin.tooltipInfo = [{
+                        displayName: seriesColumn.displayName,
+                        value: group.name
+                    }].concat(this.getTooltipData(bin.y, bin.range, settings, index === 0, valueFormatter));
+                });
+
+                return {
+                    name: group.name,
+                    color: group.color,
+                    data: bins
+                };
+            });
+
+            if (settings.seriesLayout === HistogramSeriesLayout.Stacked) {
+                series.reduce((seriesBelow: HistogramSeries, currentSeries: HistogramSeries) => {
+                    currentSeries.data.forEach((bin: HistogramData, index: number) => {
+                        let binBelow: HistogramData = seriesBelow.data[index];
+
+                        bin.y0 = binBelow.y0 + binBelow.y;
+                    });
+
+                    return currentSeries;
+                });
+            }
+
+            return series;
+        }
+
+        private getFilter(dataView: DataView): SemanticFilter {
+            let objects: DataViewObjects = this.getObjectsFromDataView(dataView);
+
+            if (!objects) {
+                return null;
+            }
+
+            return DataViewObjects.getValue<SemanticFilter>(objects, Histogram.Properties.general.filter, null);
+        }
+
+        /** Marks the bins that fall inside the ranges of a previously persisted filter as selected. */
+        private setSelectionFromFilter(data: HistogramData[], filter: SemanticFilter): void {
+            let ranges: number[][] = [];
+
+            if (filter) {
+                filter.conditions().forEach((condition: SQExpr) => this.collectFilterRanges(condition, ranges));
+            }
+
+            data.forEach((bin: HistogramData) => {
+                bin.selected = ranges.some((range: number[]) => bin.range[0] >= range[0] && bin.range[1] <= range[1]);
+            });
+        }
+
+        private collectFilterRanges(expr: SQExpr, ranges: number[][]): void {
+            if (expr instanceof data.SQOrExpr) {
+                this.collectFilterRanges(expr.left, ranges);
+                this.collectFilterRanges(expr.right, ranges);
+            }
+            else if (expr instanceof data.SQBetweenExpr &&
+                expr.lower instanceof data.SQConstantExpr &&
+                expr.upper instanceof data.SQConstantExpr) {
+                ranges.push([
+                    (<data.SQConstantExpr>expr.lower).value,
+                    (<data.SQConstantExpr>expr.upper).value
+                ]);
+            }
+        }
+
+        /** Builds an OR of SQBetweenExpr over the source column, one for each run of adjacent selected bins. */
+        private getSelectionFilter(): SemanticFilter {
+            let identityField: SQExpr = this.histogramDataView.identityField,
+                data: HistogramData[] = this.histogramDataView.data,
+                expr: SQExpr,
+                rangeStart: number = null;
+
+            if (!identityField) {
+                return undefined;
+            }
+
+            for (let i = 0; i < data.length; i++) {
+                if (data[i].selected && rangeStart === null) {
+                    rangeStart = i;
+                }
+
+                if (rangeStart !== null && (!data[i].selected || i === data.length - 1)) {
+                    let rangeEnd: number = data[i].selected ? i : i - 1;
+
+                    expr = SQExprBuilder.or(expr, SQExprBuilder.between(
+                        identityField,
+                        SQExprBuilder.double(data[rangeStart].range[0]),
+                        SQExprBuilder.double(data[rangeEnd].range[1])));
+
+                    rangeStart = null;
+                }
+            }
+
+            return expr
+                ? SemanticFilter.fromSQExpr(expr)
+                : undefined;
+        }
+
+        private persistSelectionFilter(): void {
+            let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+
+            properties[Histogram.Properties.general.filter.propertyName] = this.getSelectionFilter();
+
+            this.hostServices.persistProperties({
+                merge: [<VisualObjectInstance> {
+                    objectName: Histogram.Properties.general.filter.objectName,
+                    selector: undefined,
+                    properties: properties
+                }]
+            });
+        }
+
+        private getStatistics(values: number[]): HistogramStatistics {
+            let sortedValues: number[] = values.slice().sort(d3.ascending),
+                count: number = sortedValues.length,
+                mean: number = d3.mean(sortedValues),
+                sumOfSquares: number = d3.sum(sortedValues, (value: number) => (value - mean) * (value - mean));
+
+            return {
+                count: count,
+                mean: mean,
+                median: d3.quantile(sortedValues, 0.5),
+                standardDeviation: count > 1
+                    ? Math.sqrt(sumOfSquares / (count - 1))
+                    : 0,
+                interquartileRange: d3.quantile(sortedValues, 0.75) - d3.quantile(sortedValues, 0.25)
+            };
+        }
+
+        /**
+         * Returns either a number of bins or an array of bin thresholds for the d3 histogram layout,
+         * or null to let the layout pick its default.
+         */
+        private getBinning(values: number[], statistics: HistogramStatistics, settings: HistogramSettings): number | number[] {
+            let cubeRootOfCount: number = Math.pow(statistics.count, 1 / 3);
+
+            switch (settings.binningRule) {
+                case HistogramBinningRule.Sturges:
+                    return this.getSturgesBinCount(statistics.count);
+                case HistogramBinningRule.Scott:
+                    return this.getBinCountForWidth(values, statistics, 3.49 * statistics.standardDeviation / cubeRootOfCount);
+                case HistogramBinningRule.FreedmanDiaconis:
+                    return this.getBinCountForWidth(values, statistics, 2 * statistics.interquartileRange / cubeRootOfCount);
+                case HistogramBinningRule.FixedWidth:
+                    return this.getFixedWidthThresholds(values, settings.binWidth);
+            }
+
+            if (settings.bins && settings.bins > this.MinQuantityBins) {
+                return settings.bins;
+            }
+
+            return null;
+        }
+
+        private getSturgesBinCount(count: number): number {
+            return Math.ceil(Math.log(count) / Math.LN2 + 1);
+        }
+
+        private getBinCountForWidth(values: number[], statistics: HistogramStatistics, binWidth: number): number {
+            let extent: number = d3.max(values) - d3.min(values);
+
+            // A zero spread (e.g. all values in the middle quartiles being equal) gives no usable width
+            if (!(binWidth > 0) || !(extent > 0)) {
+                return this.getSturgesBinCount(statistics.count);
+            }
+
+            return Math.min(Math.max(Math.ceil(extent / binWidth), 1), this.MaxQuantityBins);
+        }
+
+        private getFixedWidthThresholds(values: number[], binWidth: number): number | number[] {
+            let minValue: number = d3.min(values),
+                maxValue: number = d3.max(values),
+                thresholds: number[] = [minValue];
+
+            if (!(binWidth > 0)) {
+                return null;
+            }
+
+            if ((maxValue - minValue) / binWidth > this.MaxQuantityBins) {
+                return this.MaxQuantityBins;
+            }
+
+            do {
+                thresholds.push(thresholds[thresholds.length - 1] + binWidth);
+            } while (thresholds[thresholds.length - 1] < maxValue);
+
+            return thresholds;
+        }
+
+        private getCurves(
+            statistics: HistogramStatistics,
+            values: number[],
+            data: D3.Layout.Bin[],
+            domain: number[],
+            settings: HistogramSettings): HistogramCurve[] {
+
+            let overlays: HistogramOverlaySettings = settings.overlays,
+                curves: HistogramCurve[] = [],
+                // Densities are scaled by the bin width (and the count for frequencies) to share the y axis with the columns
+                scale: number = data[0].dx * (settings.frequency ? statistics.count : 1),
+                bandwidth: number;
+
+            if (overlays.showKde) {
+                bandwidth = overlays.kdeBandwidth > 0
+                    ? overlays.kdeBandwidth
+                    : this.getSilvermanBandwidth(statistics);
+
+                if (bandwidth > 0) {
+                    curves.push({
+                        name: this.KdeName,
+                        color: overlays.kdeColor,
+                        points: this.sampleCurve(domain, (x: number) => {
+                            return scale * d3.mean(values, (value: number) => this.getNormalDensity(x, value, bandwidth));
+                        })
+                    });
+                }
+            }
+
+            if (overlays.showNormal && statistics.standardDeviation > 0) {
+                curves.push({
+                    name: this.NormalName,
+                    color: overlays.normalColor,
+                    points: this.sampleCurve(domain, (x: number) => {
+                        return scale * this.getNormalDensity(x, statistics.mean, statistics.standardDeviation);
+                    })
+                });
+            }
+
+            return curves;
+        }
+
+        private getSilvermanBandwidth(statistics: HistogramStatistics): number {
+            let spread: number = statistics.interquartileRange > 0
+                ? Math.min(statistics.standardDeviation, statistics.interquartileRange / 1.34)
+                : statistics.standardDeviation;
+
+            return 0.9 * spread * Math.pow(statistics.count, -0.2);
+        }
+
+        private getNormalDensity(x: number, mean: number, standardDeviation: number): number {
+            let z: number = (x - mean) / standardDeviation;
+
+            return Math.exp(-0.5 * z * z) / (standardDeviation * Math.sqrt(2 * Math.PI));
+        }
+
+        private sampleCurve(domain: number[], getY: (x: number) => number): number[][] {
+            let step: number = (domain[1] - domain[0]) / this.OverlaySamples;
+
+            return d3.range(this.OverlaySamples + 1).map((index: number) => {
+                let x: number = domain[0] + index * step;
+
+                return [x, getY(x)];
+            });
+        }
+
+        private getMarkers(statistics: HistogramStatistics, settings: HistogramSettings, valueFormatter: IValueFormatter): HistogramMarker[] {
+            let overlays: HistogramOverlaySettings = settings.overlays,
+                markers: HistogramMarker[] = [];
+
+            if (overlays.showMean) {
+                markers.push(this.getMarker(this.MeanText, overlays.meanColor, statistics.mean, valueFormatter));
+            }
+
+            if (overlays.showMedian) {
+                markers.push(this.getMarker(this.MedianText, overlays.medianColor, statistics.median, valueFormatter));
+            }
+
+            return markers;
+        }
+
+        private getMarker(name: string, color: string, value: number, valueFormatter: IValueFormatter): HistogramMarker {
+            return {
+                name: name,
+                color: color,
+                value: value,
+                tooltipInfo: [{
+                    displayName: name,
+                    value: valueFormatter.format(value)
+                }]
             };
         }
 
@@ -386,6 +1163,9 @@ module powerbi.visuals {
 
             return data.map((bin: HistogramData, index: number) => {
                 bin.range = this.getRange(minValue, maxValue, bin.dx, index);
+                bin.binIndex = index;
+                bin.seriesIndex = 0;
+                bin.y0 = 0;
 
                 bin.tooltipInfo = this.getTooltipData(bin.y, bin.range, settings, index === 0, valueFormatter);
                 return bin;
@@ -430,6 +1210,10 @@ module powerbi.visuals {
             histogramSettings.fillColor = Histogram.DefaultHistogramSettings.fillColor;
             histogramSettings.bins = Histogram.DefaultHistogramSettings.bins;
             histogramSettings.frequency = Histogram.DefaultHistogramSettings.frequency;
+            histogramSettings.binningRule = Histogram.DefaultHistogramSettings.binningRule;
+            histogramSettings.binWidth = Histogram.DefaultHistogramSettings.binWidth;
+            histogramSettings.overlays = Histogram.DefaultHistogramSettings.overlays;
+            histogramSettings.seriesLayout = Histogram.DefaultHistogramSettings.seriesLayout;
             histogramSettings.displayName = dataView.metadata.columns[0].displayName || Histogram.DefaultHistogramSettings.displayName;
 
             objects = this.getObjectsFromDataView(dataView);
@@ -439,11 +1223,60 @@ module powerbi.visuals {
                 histogramSettings.bins = this.getBins(objects);
                 histogramSettings.frequency = this.getFrequency(objects);
                 histogramSettings.precision = this.getPrecision(objects);
+                histogramSettings.binningRule = this.getBinningRule(objects);
+                histogramSettings.binWidth = this.getBinWidth(objects);
+                histogramSettings.overlays = this.getOverlaySettings(objects);
+                histogramSettings.seriesLayout = this.getSeriesLayout(objects);
             }
 
             return histogramSettings;
         }
 
+        private getBinningRule(objects: DataViewObjects): string {
+            return DataViewObjects.getValue<string>(
+                objects,
+                Histogram.Properties.general.binningRule,
+                Histogram.DefaultHistogramSettings.binningRule);
+        }
+
+        private getSeriesLayout(objects: DataViewObjects): string {
+            return DataViewObjects.getValue<string>(
+                objects,
+                Histogram.Properties.general.seriesLayout,
+                Histogram.DefaultHistogramSettings.seriesLayout);
+        }
+
+        private getBinWidth(objects: DataViewObjects): number {
+            let binWidth: number = Number(DataViewObjects.getValue<number>(
+                objects,
+                Histogram.Properties.general.binWidth,
+                Histogram.DefaultHistogramSettings.binWidth));
+
+            if (!binWidth || isNaN(binWidth) || binWidth <= 0) {
+                return Histogram.DefaultHistogramSettings.binWidth;
+            }
+
+            return binWidth;
+        }
+
+        private getOverlaySettings(objects: DataViewObjects): HistogramOverlaySettings {
+            let properties: HistogramOverlayProperties = Histogram.Properties.overlays,
+                defaults: HistogramOverlaySettings = Histogram.DefaultHistogramSettings.overlays,
+                kdeBandwidth: number = Number(DataViewObjects.getValue<number>(objects, properties.kdeBandwidth, defaults.kdeBandwidth));
+
+            return {
+                showKde: DataViewObjects.getValue<boolean>(objects, properties.showKde, defaults.showKde),
+                kdeBandwidth: kdeBandwidth > 0 ? kdeBandwidth : defaults.kdeBandwidth,
+                kdeColor: DataViewObjects.getFillColor(objects, properties.kdeColor, defaults.kdeColor),
+                showNormal: DataViewObjects.getValue<boolean>(objects, properties.showNormal, defaults.showNormal),
+                normalColor: DataViewObjects.getFillColor(objects, properties.normalColor, defaults.normalColor),
+                showMean: DataViewObjects.getValue<boolean>(objects, properties.showMean, defaults.showMean),
+                meanColor: DataViewObjects.getFillColor(objects, properties.meanColor, defaults.meanColor),
+                showMedian: DataViewObjects.getValue<boolean>(objects, properties.showMedian, defaults.showMedian),
+                medianColor: DataViewObjects.getFillColor(objects, properties.medianColor, defaults.medianColor)
+            };
+        }
+
         private getBins(objects: DataViewObjects): number {
             let binsNumber: number;
 
@@ -486,19 +1319,65 @@ module powerbi.visuals {
                 return;
             }
 
-            let dataView: DataView;
+            let dataView: DataView,
+                seriesGroups: HistogramSeriesGroup[];
 
             dataView = this.dataView = visualUpdateOptions.dataViews[0];
 
             this.suppressAnimations = Boolean(visualUpdateOptions.suppressAnimations);
 
-            this.setSize(visualUpdateOptions.viewport);
+            seriesGroups = this.getSeriesGroups(dataView);
+
+            this.renderSeriesLegend(dataView, seriesGroups, visualUpdateOptions.viewport);
+
+            this.setSize(this.getChartViewport(visualUpdateOptions.viewport));
 
-            this.histogramDataView = this.converter(dataView);
+            this.histogramDataView = this.converter(dataView, seriesGroups);
 
             this.render();
         }
 
+        /** The series legend is drawn first as its size depends on the labels and takes space from the chart. */
+        private renderSeriesLegend(dataView: DataView, seriesGroups: HistogramSeriesGroup[], viewport: IViewport): void {
+            let objects: DataViewObjects = this.getObjectsFromDataView(dataView),
+                seriesColumn: DataViewMetadataColumn = this.getSeriesColumn(dataView),
+                legendObject: DataViewObject = <DataViewObject> _.clone(objects && objects["legend"]) || {},
+                legendData: LegendData,
+                position: string;
+
+            legendData = {
+                title: seriesColumn ? seriesColumn.displayName : "",
+                dataPoints: seriesGroups.map((group: HistogramSeriesGroup) => {
+                    return <LegendDataPoint> {
+                        label: group.name,
+                        color: group.color,
+                        icon: LegendIcon.Box,
+                        identity: SelectionId.createNull(),
+                        selected: false
+                    };
+                })
+            };
+
+            LegendData.update(legendData, legendObject);
+
+            position = <string> legendObject[legendProps.position];
+
+            this.seriesLegend.changeOrientation(position
+                ? LegendPosition[position]
+                : LegendPosition.Top);
+
+            this.seriesLegend.drawLegend(legendData, viewport);
+        }
+
+        private getChartViewport(viewport: IViewport): IViewport {
+            let legendMargins: IViewport = this.seriesLegend.getMargins();
+
+            return {
+                height: viewport.height - legendMargins.height,
+                width: viewport.width - legendMargins.width
+            };
+        }
+
         private setSize(viewport: IViewport): void {
             let height: number,
                 width: number;
@@ -535,6 +1414,8 @@ module powerbi.visuals {
 
             this.columns.attr("transform", SVGUtil.translate(shiftToRight, 0));
 
+            this.overlays.attr("transform", SVGUtil.translate(shiftToRight, 0));
+
             this.axes.attr("transform", SVGUtil.translate(shiftToRight, 0));
 
             this.axisX.attr(
@@ -549,15 +1430,82 @@ module powerbi.visuals {
 
             this.renderAxes();
             this.renderColumns();
+            this.renderOverlays();
             this.renderLegend();
         }
 
+        private renderOverlays(): void {
+            let xScale: D3.Scale.LinearScale = this.histogramDataView.xScale,
+                yScale: D3.Scale.LinearScale = this.histogramDataView.yScale,
+                yRange: number[] = yScale.range(),
+                line: D3.Svg.Line,
+                curvesSelection: D3.UpdateSelection,
+                markersSelection: D3.UpdateSelection;
+
+            line = d3.svg.line()
+                .x((point: number[]) => xScale(point[0]))
+                .y((point: number[]) => yScale(point[1]));
+
+            curvesSelection = this.overlays
+                .selectAll(Histogram.OverlayCurve.selector)
+                .data(this.histogramDataView.curves, (curve: HistogramCurve) => curve.name);
+
+            curvesSelection
+                .enter()
+                .append("svg:path")
+                .classed(Histogram.OverlayCurve["class"], true);
+
+            curvesSelection
+                .attr("d", (curve: HistogramCurve) => line(curve.points))
+                .style({
+                    "fill": "none",
+                    "stroke": (curve: HistogramCurve) => curve.color,
+                    "stroke-width": 2
+                });
+
+            curvesSelection
+                .exit()
+                .remove();
+
+            markersSelection = this.overlays
+                .selectAll(Histogram.OverlayMarker.selector)
+                .data(this.histogramDataView.markers, (marker: HistogramMarker) => marker.name);
+
+            markersSelection
+                .enter()
+                .append("svg:line")
+                .classed(Histogram.OverlayMarker["class"], true);
+
+            markersSelection
+                .attr({
+                    "x1": (marker: HistogramMarker) => xScale(marker.value),
+                    "x2": (marker: HistogramMarker) => xScale(marker.value),
+                    "y1": yRange[0],
+                    "y2": yRange[1]
+                })
+                .style({
+                    "stroke": (marker: HistogramMarker) => marker.color,
+                    "stroke-width": 2,
+                    "stroke-dasharray": "4,4"
+                });
+
+            markersSelection
+                .exit()
+                .remove();
+
+            TooltipManager.addTooltip(markersSelection, (tooltipEvent: TooltipEvent) => {
+                return (<HistogramMarker> tooltipEvent.data).tooltipInfo;
+            });
+        }
+
         private renderColumns(): void {
-            let self: Histogram = this,
-                data: HistogramData[] = this.histogramDataView.data,
+            let series: HistogramSeries[] = this.histogramDataView.series,
+                data: HistogramData[] = d3.merge(series.map((item: HistogramSeries) => item.data)),
                 yScale: D3.Scale.LinearScale = this.histogramDataView.yScale,
-                countOfValues: number = data.length,
+                countOfValues: number = this.histogramDataView.data.length,
+                isSideBySide: boolean = series.length > 1 && this.histogramDataView.settings.seriesLayout === HistogramSeriesLayout.SideBySide,
                 widthOfColumn: number,
+                widthOfSeriesColumn: number,
                 columnsSelection: D3.UpdateSelection,
                 columnElements: D3.Selection = this.main
                     .select(Histogram.Columns.selector)
@@ -565,6 +1513,10 @@ module powerbi.visuals {
 
             widthOfColumn = (this.viewport.width - this.AxisSize - this.LegendSize) / countOfValues - this.ColumnPadding;
 
+            widthOfSeriesColumn = isSideBySide
+                ? widthOfColumn / series.length
+                : widthOfColumn;
+
             columnsSelection = columnElements.data(data);
 
             columnsSelection
@@ -573,22 +1525,31 @@ module powerbi.visuals {
 
             columnsSelection
                 .attr("x", this.ColumnPadding / 2)
-                .attr("width", widthOfColumn)
+                .attr("width", widthOfSeriesColumn)
                 .attr("height", (item: HistogramData) => {
                     return this.getColumnHeight(item, yScale);
                 })
-                .attr("fill", this.histogramDataView.settings.fillColor)
+                .attr("fill", (item: HistogramData) => series[item.seriesIndex].color)
                 .attr("class", Histogram.Column["class"])
-                .attr("transform", (item: HistogramData, index: number) => {
+                .attr("transform", (item: HistogramData) => {
+                    let seriesOffset: number = isSideBySide
+                        ? widthOfSeriesColumn * item.seriesIndex
+                        : 0;
+
                     return SVGUtil.translate(
-                        widthOfColumn * index + this.ColumnPadding * index,
-                        yScale(item.y) - this.ColumnPadding / 2.5);
+                        widthOfColumn * item.binIndex + this.ColumnPadding * item.binIndex + seriesOffset,
+                        yScale(item.y0 + item.y) - this.ColumnPadding / 2.5);
                 })
                 .attr("value", (item: HistogramData) => item.y)
                 .attr("values", (item: HistogramData) => item)
-                .on("click", function () {
-                    self.setOpacity(columnsSelection, true);
-                    self.setOpacity(d3.select(this), false);
+                .on("mousedown", (item: HistogramData) => {
+                    this.startDrag(item.binIndex, d3.event.ctrlKey);
+                })
+                .on("mouseover", (item: HistogramData) => {
+                    this.continueDrag(item.binIndex);
+                })
+                .on("click", () => {
+                    this.ignoreNextClick = false;
 
                     d3.event.stopPropagation();
                 })
@@ -600,25 +1561,97 @@ module powerbi.visuals {
 
             this.renderTooltip(columnsSelection);
 
-            d3.selection().on("click", () => {
-                this.setOpacity(columnsSelection);
+            this.renderSelection(false);
+        }
+
+        /** Starts a selection on a bin; dragging across other bins extends it to the whole range. */
+        private startDrag(index: number, multiSelect: boolean): void {
+            let data: HistogramData[] = this.histogramDataView.data,
+                countOfSelected: number = data.filter((bin: HistogramData) => bin.selected).length;
+
+            this.dragStartIndex = index;
+            this.dragBaseSelection = data.map((bin: HistogramData) => multiSelect && bin.selected);
+
+            // Clicking the only selected bin again (or any selected bin with Ctrl) deselects it
+            this.dragDeselects = data[index].selected && (multiSelect || countOfSelected === 1);
+
+            this.selectBinRange(index, index);
+        }
+
+        private continueDrag(index: number): void {
+            if (this.dragStartIndex === null) {
+                return;
+            }
+
+            this.selectBinRange(this.dragStartIndex, index);
+        }
+
+        private endDrag(): void {
+            if (this.dragStartIndex === null) {
+                return;
+            }
+
+            this.dragStartIndex = null;
+            this.persistSelectionFilter();
+        }
+
+        private selectBinRange(fromIndex: number, toIndex: number): void {
+            let lower: number = Math.min(fromIndex, toIndex),
+                upper: number = Math.max(fromIndex, toIndex);
+
+            this.histogramDataView.data.forEach((bin: HistogramData, index: number) => {
+                bin.selected = index >= lower && index <= upper
+                    ? !this.dragDeselects
+                    : this.dragBaseSelection[index];
             });
+
+            this.renderSelection();
         }
 
-        private renderTooltip(selection: D3.UpdateSelection): void {
-            TooltipManager.addTooltip(selection, (tooltipEvent: TooltipEvent) => {
-               return (<HistogramData> tooltipEvent.data).tooltipInfo;
+        private clearSelection(): void {
+            // A click on the background without a selection has no filter to clear
+            if (!this.histogramDataView ||
+                !this.histogramDataView.data.some((bin: HistogramData) => bin.selected)) {
+                return;
+            }
+
+            this.histogramDataView.data.forEach((bin: HistogramData) => {
+                bin.selected = false;
             });
+
+            this.renderSelection();
+            this.persistSelectionFilter();
         }
 
-        private setOpacity(element: D3Element, isHide: boolean = false): void {
-            let elementAnimation: D3.Selection = <D3.Selection> this.animation(element);
+        private renderSelection(animate: boolean = true): void {
+            let data: HistogramData[] = this.histogramDataView.data,
+                hasSelection: boolean = data.some((bin: HistogramData) => bin.selected),
+                baseOpacity: number = this.getColumnOpacity(),
+                columnsSelection: D3.Selection = this.columns.selectAll(Histogram.Column.selector),
+                columnsAnimation: D3.Selection = animate
+                    ? <D3.Selection> this.animation(columnsSelection)
+                    : columnsSelection;
+
+            // Columns of every series follow the selection of the overall bin they belong to
+            columnsAnimation.style("fill-opacity", (item: HistogramData) => {
+                return baseOpacity * (!hasSelection || data[item.binIndex].selected
+                    ? this.MaxOpacity
+                    : this.MinOpacity);
+            });
+        }
 
-            elementAnimation.style(
-                "fill-opacity",
-                isHide
-                    ? this.MinOpacity
-                    : this.MaxOpacity);
+        /** Overlaid series are semi-transparent so that the columns behind stay visible. */
+        private getColumnOpacity(): number {
+            return this.histogramDataView.series.length > 1 &&
+                this.histogramDataView.settings.seriesLayout === HistogramSeriesLayout.Overlaid
+                ? this.OverlaidOpacity
+                : this.MaxOpacity;
+        }
+
+        private renderTooltip(selection: D3.UpdateSelection): void {
+            TooltipManager.addTooltip(selection, (tooltipEvent: TooltipEvent) => {
+               return (<HistogramData> tooltipEvent.data).tooltipInfo;
+            });
         }
 
         private animation(element: D3Element): D3Element {
@@ -631,9 +1664,9 @@ module powerbi.visuals {
                 .duration(this.durationAnimations);
         }
 
-        private getColumnHeight(column: D3.Layout.Bin, y: D3.Scale.LinearScale): number {
+        private getColumnHeight(column: HistogramData, y: D3.Scale.LinearScale): number {
             let height: number =
-                this.viewport.height - this.LegendSize - y(column.y);
+                y(column.y0) - y(column.y0 + column.y);
 
             return height > 0
                 ? height
@@ -767,10 +1800,16 @@ module powerbi.visuals {
                         selector: null,
                         properties: {
                             bins: settings.bins,
-                            frequency: settings.frequency
+                            frequency: settings.frequency,
+                            binningRule: settings.binningRule,
+                            binWidth: settings.binWidth
                         }
                     };
 
+                    if (this.getSeriesColumn(this.dataView)) {
+                        general.properties["seriesLayout"] = settings.seriesLayout;
+                    }
+
                     instances.push(general);
                     break;
 
@@ -799,6 +1838,51 @@ module powerbi.visuals {
 
                     instances.push(labels);
                     break;
+
+                case "overlays":
+                    let overlays: VisualObjectInstance = {
+                        objectName: "overlays",
+                        displayName: "overlays",
+                        selector: null,
+                        properties: {
+                            showKde: settings.overlays.showKde,
+                            kdeBandwidth: settings.overlays.kdeBandwidth,
+                            kdeColor: settings.overlays.kdeColor,
+                            showNormal: settings.overlays.showNormal,
+                            normalColor: settings.overlays.normalColor,
+                            showMean: settings.overlays.showMean,
+                            meanColor: settings.overlays.meanColor,
+                            showMedian: settings.overlays.showMedian,
+                            medianColor: settings.overlays.medianColor
+                        }
+                    };
+
+                    instances.push(overlays);
+                    break;
+
+                case "legend":
+                    let seriesColumn: DataViewMetadataColumn = this.getSeriesColumn(this.dataView),
+                        objects: DataViewObjects = this.getObjectsFromDataView(this.dataView),
+                        properties: HistogramLegendProperties = Histogram.Properties.legend;
+
+                    if (!seriesColumn) {
+                        break;
+                    }
+
+                    let legend: VisualObjectInstance = {
+                        objectName: "legend",
+                        displayName: "legend",
+                        selector: null,
+                        properties: {
+                            show: DataViewObjects.getValue<boolean>(objects, properties.show, this.seriesLegend.isVisible()),
+                            position: LegendPosition[this.seriesLegend.getOrientation()],
+                            showTitle: DataViewObjects.getValue<boolean>(objects, properties.showTitle, true),
+                            titleText: DataViewObjects.getValue<string>(objects, properties.titleText, seriesColumn.displayName)
+                        }
+                    };
+
+                    instances.push(legend);
+                    break;
             }
 
             return instances;
@@ -812,7 +1896,7 @@ module powerbi.visuals {
                     return null;
                 }
 
-            return this.dataView.metadata.objects;
+            return dataView.metadata.objects;
         }
 
         public destroy(): void {
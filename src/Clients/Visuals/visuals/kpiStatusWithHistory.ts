@@ -42,6 +42,67 @@ module powerbi.visuals {
         GoalOrg: number;
         selector: data.Selector;
         tooltipInfo: TooltipDataItem[];
+        statusColor?: string;
+    }
+
+    export interface KPIStatusWithHistoryGroup {
+        name: string;
+        values: DataViewValueColumn[];
+        selectionId: SelectionId;
+    }
+
+    export interface KPIStatusWithHistoryTileData {
+        name: string;
+        kpiText: string;
+        selectionId: SelectionId;
+        dataPoints: KPIStatusWithHistoryDataPoint[];
+        forecastPoints: KPIStatusWithHistoryForecastPoint[];
+        targetExists: boolean;
+        actual: number;
+        goal: number;
+    }
+
+    export interface KPIStatusWithHistoryTile {
+        sTileElement: D3.Selection;
+        sMainGroupElement: D3.Selection;
+        sMainGroupElement2: D3.Selection;
+        sMainRect: D3.Selection;
+        sKPIText: D3.Selection;
+        sKPIActualText: D3.Selection;
+        sKPIActualDiffText: D3.Selection;
+        sKPIStatusIconText: D3.Selection;
+        sLinePath: D3.Selection;
+        sForecastArea: D3.Selection;
+        sForecastPath: D3.Selection;
+        sKPIProjectionText: D3.Selection;
+    }
+
+    export interface KPIStatusWithHistoryStatus {
+        color: string;
+        icon: string;
+        /** Position from the worst status, used to sort the tiles */
+        rank: number;
+    }
+
+    export interface KPIStatusWithHistoryForecast {
+        value: number;
+        lower: number;
+        upper: number;
+    }
+
+    export interface KPIStatusWithHistoryForecastPoint extends KPIStatusWithHistoryForecast {
+        x: number;
+        y: number;
+        yLower: number;
+        yUpper: number;
+    }
+
+    export interface KPIStatusBand {
+        threshold: number;
+        color: string;
+        icon: string;
+        /** KPIIndicatorBandingCompareType of the threshold */
+        compareType: string;
     }
 
     module KPIIndicatorChartType {
@@ -71,6 +132,96 @@ module powerbi.visuals {
         ]);
     }
 
+    module KPISplitSortType {
+        export var STATUS: string = 'STATUS';
+        export var DEVIATION: string = 'DEVIATION';
+        export var ALPHA: string = 'ALPHA';
+        export var type: IEnumType = createEnumType([
+            { value: STATUS, displayName: "Status" },
+            { value: DEVIATION, displayName: "Deviation" },
+            { value: ALPHA, displayName: "Alphabetical" },
+        ]);
+    }
+
+    module KPIForecastType {
+        export var NONE: string = 'NONE';
+        export var LINEAR: string = 'LINEAR';
+        export var SEASONAL: string = 'SEASONAL';
+        export var type: IEnumType = createEnumType([
+            { value: NONE, displayName: "None" },
+            { value: LINEAR, displayName: "Linear" },
+            { value: SEASONAL, displayName: "Seasonal naive" },
+        ]);
+    }
+
+    /*
+    User defined status bands replace the fixed banding types when pStatusBandCount is above 0.
+    The thresholds are the deviation from the target from where a band applies, each band compares
+    with its own compare type (in percent for relative compare), which defaults to pBandingCompareType.
+    The bands are evaluated from the lowest to the highest threshold, whatever order they are entered in.
+    */
+    export module KPIStatusBands {
+        export var MaxCount: number = 5;
+        export var Defaults: KPIStatusBand[] = [
+            { threshold: -10, color: "#DC0002", icon: "\u25BC", compareType: KPIIndicatorBandingCompareType.REL },
+            { threshold: -5, color: "#F6C000", icon: "\u25BA", compareType: KPIIndicatorBandingCompareType.REL },
+            { threshold: 0, color: "#96C401", icon: "\u25B2", compareType: KPIIndicatorBandingCompareType.REL },
+            { threshold: 10, color: "#01B8AA", icon: "\u2605", compareType: KPIIndicatorBandingCompareType.REL },
+            { threshold: 20, color: "#5F6B6D", icon: "\u25CF", compareType: KPIIndicatorBandingCompareType.REL },
+        ];
+
+        export function getPropertyName(index: number, name: string): string {
+            return 'pStatusBand' + (index + 1) + name;
+        }
+
+        export function addCapabilities(properties: any): any {
+            for (var i = 0; i < MaxCount; i++) {
+                properties[getPropertyName(i, 'Threshold')] = {
+                    displayName: 'Band ' + (i + 1) + ' threshold',
+                    type: { numeric: true }
+                };
+                properties[getPropertyName(i, 'CompareType')] = {
+                    displayName: 'Band ' + (i + 1) + ' comparison',
+                    type: { enumeration: KPIIndicatorBandingCompareType.type }
+                };
+                properties[getPropertyName(i, 'Color')] = {
+                    displayName: 'Band ' + (i + 1) + ' color',
+                    type: { fill: { solid: { color: true } } }
+                };
+                properties[getPropertyName(i, 'Icon')] = {
+                    displayName: 'Band ' + (i + 1) + ' icon',
+                    type: { text: true }
+                };
+            }
+            return properties;
+        }
+
+        // From the worst to the best status, bands with the same threshold keep their order
+        export function sortByThreshold(statusBands: KPIStatusBand[]): KPIStatusBand[] {
+            return _.sortBy(statusBands, (statusBand: KPIStatusBand) => statusBand.threshold);
+        }
+
+        // The bands must be sorted by threshold, the last band whose threshold the deviation reaches applies
+        export function getStatusBand(dActual: number, dGoal: number, statusBands: KPIStatusBand[]): KPIStatusBand {
+            var deviations: { [compareType: string]: number } = {};
+            var getDeviation = (compareType: string) => {
+                if (!(compareType in deviations)) {
+                    deviations[compareType] = GetDeviationFromGoal(dActual, dGoal, compareType);
+                }
+                return deviations[compareType];
+            };
+
+            // Values below every threshold fall in the first (worst) band
+            var statusBand = statusBands[0];
+            for (var i = 1; i < statusBands.length; i++) {
+                if (getDeviation(statusBands[i].compareType) >= statusBands[i].threshold) {
+                    statusBand = statusBands[i];
+                }
+            }
+            return statusBand;
+        }
+    }
+
     export class KPIStatusWithHistory implements IVisual {
         // Put all new properties here instead...
         private static properties = {
@@ -95,10 +246,14 @@ module powerbi.visuals {
                     kind: VisualDataRoleKind.Grouping,
                     //displayName: data.createDisplayNameGetter('Role_DisplayName_Axis'),
                     displayName: 'Trend axis',
+                }, {
+                    name: 'SplitBy',
+                    kind: VisualDataRoleKind.Grouping,
+                    displayName: 'Split by',
                 }],
             dataViewMappings: [{
                 conditions: [
-                    { 'Values': { max: 1 }, 'Categories': { max: 1 }, 'Targets': { max: 1 } },
+                    { 'Values': { max: 1 }, 'Categories': { max: 1 }, 'Targets': { max: 1 }, 'SplitBy': { max: 1 } },
                 ],
                 categorical: {
                     categories: {
@@ -107,7 +262,7 @@ module powerbi.visuals {
                     },
                     values: {
                         group: {
-                            by: 'Series',
+                            by: 'SplitBy',
                             select: [{ bind: { to: 'Values' } }, { bind: { to: 'Targets' } }],
                             dataReductionAlgorithm: { top: {} }
                         }                        
@@ -125,7 +280,7 @@ module powerbi.visuals {
             objects: {
                 kpi: {
                     displayName: "KPI",
-                    properties: {
+                    properties: KPIStatusBands.addCapabilities({
                         pKPIName: {
                             type: { text: true },
                             displayName: 'KPI name'
@@ -153,8 +308,28 @@ module powerbi.visuals {
                         pForceThousandSeparator: {
                             displayName: 'Thousands separator',
                             type: { bool: true }
+                        },
+                        pStatusBandCount: {
+                            displayName: 'Status bands',
+                            type: { numeric: true }
+                        },
+                        pForecastType: {
+                            displayName: 'Forecast',
+                            type: { enumeration: KPIForecastType.type }
+                        },
+                        pForecastHorizon: {
+                            displayName: 'Forecast periods',
+                            type: { numeric: true }
+                        },
+                        pForecastSeasonLength: {
+                            displayName: 'Season length',
+                            type: { numeric: true }
+                        },
+                        pSplitSort: {
+                            displayName: 'Sort tiles by',
+                            type: { enumeration: KPISplitSortType.type }
                         }
-                    },
+                    }),
                 },
 
                 general: {
@@ -169,21 +344,16 @@ module powerbi.visuals {
             },
         };
 
+        private static TileAspectRatio = 1.5;
+        private static TileGap = 4;
+        private static DimmedTileOpacity = 0.4;
+
         private svg: D3.Selection;
         private dataView: DataView;
         private selectiionManager: utility.SelectionManager;
         public metaDataColumn: DataViewMetadataColumn;
 
-        private sMainGroupElement: D3.Selection;
-        private sMainGroupElement2: D3.Selection;
-        private sMainRect: D3.Selection;
-        private sKPIText: D3.Selection;
-        private sKPIActualText: D3.Selection;
-        private sKPIActualDiffText: D3.Selection;
-        private sLinePath: D3.Selection;
-        private kpiText: string;
-        private kpiGoal: number;
-        private kpiActual: number;
+        private tiles: KPIStatusWithHistoryTile[] = [];
         private kpiBandingPercent: number;
 
         private kpiChartType: any;
@@ -193,6 +363,7 @@ module powerbi.visuals {
         public kpiTargetExists: boolean;
         public kpiActualExists: boolean;
         public kpiHistoryExists: boolean;
+        public forecastPoints: KPIStatusWithHistoryForecastPoint[] = [];
 
         private kpiDisplayDifferenceAsPercent: boolean;
         private kpiForceThansandsSeparator: boolean;
@@ -224,7 +395,7 @@ module powerbi.visuals {
             return formatter.format(theValue);
         }
 
-        public static converter(dataView: DataView, viewPort: powerbi.IViewport, thisRef: KPIStatusWithHistory): KPIStatusWithHistoryDataPoint[] {
+        public static converter(dataView: DataView, viewPort: powerbi.IViewport, thisRef: KPIStatusWithHistory, valueColumns?: DataViewValueColumn[], yDomain?: number[]): KPIStatusWithHistoryDataPoint[] {
             var dataPoints: KPIStatusWithHistoryDataPoint[] = [];
             var sW = viewPort.width;
             var sH = viewPort.height;
@@ -256,7 +427,8 @@ module powerbi.visuals {
                     thisRef.measureTargetIndex = 1;
             }
 
-            var values = catDv.values;
+            // With a split the columns of one group are passed in
+            var values = valueColumns || catDv.values;
 
             var historyActualData = [];
             var historyGoalData = [];
@@ -279,11 +451,48 @@ module powerbi.visuals {
                 }
             }
 
+            var forecast = [];
+            if (thisRef.kpiHistoryExists && thisRef.kpiActualExists) {
+                forecast = KPIStatusWithHistory.getForecast(
+                    historyActualData,
+                    KPIStatusWithHistory.getProp_ForecastType(dataView),
+                    KPIStatusWithHistory.getProp_ForecastHorizon(dataView),
+                    KPIStatusWithHistory.getProp_ForecastSeasonLength(dataView));
+            }
+
+            // The projection takes extra slots on the trend axis and its confidence band is part of the y range
+            var nSlots = historyActualData.length + forecast.length;
             var nW = sW * 0.9;
-            var nMax = Math.max.apply(Math, historyActualData);
-            var nMin = Math.min.apply(Math, historyActualData);
+            var nMax = Math.max.apply(Math, historyActualData.concat(forecast.map(function (f) { return f.upper; })));
+            var nMin = Math.min.apply(Math, historyActualData.concat(forecast.map(function (f) { return f.lower; })));
             var nH = sH * 0.32;
 
+            // Tiles of a split share the y range
+            if (yDomain) {
+                nMin = yDomain[0];
+                nMax = yDomain[1];
+            }
+
+            var getX = function (index: number) {
+                return (index * nW / nSlots) + (nW / nSlots) * 0.5 + (sW - nW) / 2;
+            };
+            var getY = function (value: number) {
+                var yPos = nH * (value - nMin) / (nMax - nMin);
+                return sH - (isNaN(yPos) ? 0 : yPos) - sH * 0.1 - 2;
+            };
+
+            thisRef.forecastPoints = forecast.map(function (f, index) {
+                return {
+                    x: getX(historyActualData.length + index),
+                    y: getY(f.value),
+                    yLower: getY(f.lower),
+                    yUpper: getY(f.upper),
+                    value: f.value,
+                    lower: f.lower,
+                    upper: f.upper,
+                };
+            });
+
             for (var i = 0; i < historyActualData.length; i++) {
                 var yPos = nH * (historyActualData[i] - nMin) / (nMax - nMin);
                 var toolTipString = 'Actual ' + thisRef.getFormattedValue(dataView, historyActualData[i], thisRef.kpiForceThansandsSeparator);
@@ -302,11 +511,11 @@ module powerbi.visuals {
                 }
 
                 dataPoints.push({
-                    x: (i * nW / historyActualData.length) + (nW / historyActualData.length) * 0.5 + (sW - nW) / 2,
+                    x: getX(i),
                     y: sH - yPos - sH * 0.1 - 2,
                     h: yPos + 2,
-                    w: (sW / historyActualData.length) * 0.55,
-                    dataId: (i * nW / historyActualData.length) + (nW / historyActualData.length) * 0.5 + (sW - nW) / 2 + "_" + (sH - yPos - sH * 0.1 - 2), // This ID identifies the points
+                    w: (sW / nSlots) * 0.55,
+                    dataId: getX(i) + "_" + (sH - yPos - sH * 0.1 - 2), // This ID identifies the points
                     ActualOrg: historyActualData[i],
                     GoalOrg: historyGoalData[i],
                     selector: selectorId,
@@ -323,17 +532,32 @@ module powerbi.visuals {
             this.svg = d3.select(options.element.get(0))
                 .append('svg');
 
-            this.sMainGroupElement = this.svg.append('g');
-            this.sMainGroupElement2 = this.svg.append('g');
-            this.sMainRect = this.sMainGroupElement.append("rect");
-            this.sKPIText = this.sMainGroupElement.append("text");
-            this.sKPIActualText = this.sMainGroupElement.append("text");
-            this.sKPIActualDiffText = this.sMainGroupElement.append("text");
-            this.sLinePath = this.sMainGroupElement.append("path");
-
             this.selectiionManager = new utility.SelectionManager({ hostServices: options.host });
         }
 
+        private createTile(): KPIStatusWithHistoryTile {
+            // The tiles are reordered by the sort, so a click selects the data bound to the tile rather than a position
+            var sTileElement = this.svg.append('g')
+                .on("click", (tileData: KPIStatusWithHistoryTileData) => this.selectTile(tileData.selectionId));
+            var sMainGroupElement = sTileElement.append('g');
+            var sMainGroupElement2 = sTileElement.append('g');
+
+            return {
+                sTileElement: sTileElement,
+                sMainGroupElement: sMainGroupElement,
+                sMainGroupElement2: sMainGroupElement2,
+                sMainRect: sMainGroupElement.append("rect"),
+                sKPIText: sMainGroupElement.append("text"),
+                sKPIActualText: sMainGroupElement.append("text"),
+                sKPIActualDiffText: sMainGroupElement.append("text"),
+                sKPIStatusIconText: sMainGroupElement.append("text"),
+                sLinePath: sMainGroupElement.append("path"),
+                sForecastArea: sMainGroupElement.append("path"),
+                sForecastPath: sMainGroupElement.append("path"),
+                sKPIProjectionText: sMainGroupElement.append("text"),
+            };
+        }
+
         public update(options: VisualUpdateOptions) {
             if (!options.dataViews || !options.dataViews[0]) return;
             var dataView = this.dataView = options.dataViews[0];
@@ -351,25 +575,6 @@ module powerbi.visuals {
                 this.kpiHistoryExists = false;
             }
 
-            var dataPoints: KPIStatusWithHistoryDataPoint[] = KPIStatusWithHistory.converter(dataView, viewport, this);
-
-            if (dataPoints.length <= 0) {
-                var ke: KPIStatusWithHistoryDataPoint = {
-                    actual: NaN,
-                    ActualOrg: NaN,
-                    dataId: null,
-                    goal: NaN,
-                    GoalOrg: NaN,
-                    selector: null,
-                    tooltipInfo: null,
-                    w: 0,
-                    x: 0,
-                    y: 0
-                };
-                dataPoints.push(ke);
-            }
-
-            this.kpiText = KPIStatusWithHistory.getProp_KPIName(dataView);
             this.kpiChartType = KPIStatusWithHistory.getProp_ChartType(dataView);
             this.kpiBandingPercent = KPIStatusWithHistory.getProp_BandingPercentage(dataView) / 100;
             this.kpiBandingStatusType = KPIStatusWithHistory.getProp_BandingType(dataView);
@@ -377,21 +582,100 @@ module powerbi.visuals {
             this.kpiDisplayDifferenceAsPercent = this.getProp_DifferenceAsPercent(dataView);
             this.kpiForceThansandsSeparator = this.getProp_ForceThousandsSeparator(dataView);
 
-            this.kpiGoal = dataPoints[dataPoints.length - 1].GoalOrg;
-            this.kpiActual = dataPoints[dataPoints.length - 1].ActualOrg;
-
-            if (this.kpiText.length === 0 && this.kpiActualExists) {
-                this.kpiText = dataView.categorical.values[this.measureActualIndex].source.displayName;
-            }
-
             this.svg.attr({
                 'height': viewport.height,
                 'width': viewport.width
             });
 
+            var statusBands = KPIStatusBands.sortByThreshold(KPIStatusWithHistory.getStatusBands(dataView));
+            var isSplit = KPIStatusWithHistory.isSplit(dataView);
+            var groups = KPIStatusWithHistory.getGroups(dataView);
+            var layout = KPIStatusWithHistory.getGridLayout(groups.length, viewport);
+            var tileGap = isSplit ? KPIStatusWithHistory.TileGap : 0;
+            var tileViewport = {
+                width: Math.max(0, layout.width - tileGap),
+                height: Math.max(0, layout.height - tileGap)
+            };
+            var yDomain = isSplit ? KPIStatusWithHistory.getSharedYDomain(dataView, tileViewport, groups, this) : null;
+
+            var tileData: KPIStatusWithHistoryTileData[] = [];
+            for (var i = 0; i < groups.length; i++) {
+                var dataPoints: KPIStatusWithHistoryDataPoint[] = KPIStatusWithHistory.converter(dataView, tileViewport, this, groups[i].values, yDomain);
+
+                if (dataPoints.length <= 0) {
+                    var ke: KPIStatusWithHistoryDataPoint = {
+                        actual: NaN,
+                        ActualOrg: NaN,
+                        dataId: null,
+                        goal: NaN,
+                        GoalOrg: NaN,
+                        selector: null,
+                        tooltipInfo: null,
+                        w: 0,
+                        x: 0,
+                        y: 0
+                    };
+                    dataPoints.push(ke);
+                }
+
+                var kpiText = groups[i].name;
+                if (!isSplit) {
+                    kpiText = KPIStatusWithHistory.getProp_KPIName(dataView);
+                    if (kpiText.length === 0 && this.kpiActualExists) {
+                        kpiText = dataView.categorical.values[this.measureActualIndex].source.displayName;
+                    }
+                }
+
+                tileData.push({
+                    name: groups[i].name,
+                    kpiText: kpiText,
+                    selectionId: groups[i].selectionId,
+                    dataPoints: dataPoints,
+                    forecastPoints: this.forecastPoints,
+                    targetExists: this.kpiTargetExists,
+                    goal: dataPoints[dataPoints.length - 1].GoalOrg,
+                    actual: dataPoints[dataPoints.length - 1].ActualOrg,
+                });
+            }
+
+            if (isSplit) {
+                this.sortTiles(tileData, KPIStatusWithHistory.getProp_SplitSort(dataView), statusBands);
+            }
+
+            while (this.tiles.length < tileData.length) {
+                this.tiles.push(this.createTile());
+            }
+            while (this.tiles.length > tileData.length) {
+                this.tiles.pop().sTileElement.remove();
+            }
+
+            for (var i = 0; i < tileData.length; i++) {
+                this.tiles[i].sTileElement.attr("transform", SVGUtil.translate(
+                    (i % layout.columns) * layout.width,
+                    Math.floor(i / layout.columns) * layout.height));
+                this.renderTile(dataView, this.tiles[i], tileData[i], tileViewport, statusBands);
+            }
+            this.renderTileSelection();
+        }
+
+        private renderTile(dataView: DataView, tile: KPIStatusWithHistoryTile, tileData: KPIStatusWithHistoryTileData, viewport: IViewport, statusBands: KPIStatusBand[]) {
+            var dataPoints = tileData.dataPoints;
+            tile.sTileElement.datum(tileData);
+
             var statusColor = "#999999";
-            if (this.kpiTargetExists) {
-                statusColor = GetStatusColor(this.kpiActual, this.kpiGoal, this.kpiBandingStatusType, this.kpiBandingCompareType, this.kpiBandingPercent);
+            var statusIcon = "";
+            if (tileData.targetExists) {
+                var status = this.getStatus(tileData.actual, tileData.goal, statusBands);
+                statusColor = status.color;
+                statusIcon = status.icon;
+            }
+
+            // With status bands every point of the history gets the color of its own status
+            for (var i = 0; i < dataPoints.length; i++) {
+                dataPoints[i].statusColor = statusColor;
+                if (tileData.targetExists && statusBands.length > 0) {
+                    dataPoints[i].statusColor = KPIStatusBands.getStatusBand(dataPoints[i].ActualOrg, dataPoints[i].GoalOrg, statusBands).color;
+                }
             }
 
             var sW = viewport.width;
@@ -403,7 +687,7 @@ module powerbi.visuals {
             var iBox2H = sH * 0.25;
             var iBox3H = sH * 0.5;
 
-            this.sMainRect
+            tile.sMainRect
                 .attr("x", 0)
                 .attr("y", 0)
                 .attr("width", sW)
@@ -412,19 +696,19 @@ module powerbi.visuals {
 
             var iSize = iBox1H * 0.7;
 
-            this.sKPIText
+            tile.sKPIText
                 .attr("x", sW * 0.5)
                 .attr("y", iBox1H * 0.75)
                 .attr("fill", "white")
                 .attr("style", "font-family:calibri;font-size:" + iSize + "px")
                 .attr("text-anchor", "middle")
-                .text(this.kpiText);
+                .text(tileData.kpiText);
 
             // Fix text size
             for (var i = 0; i < 20; i++) {
-                if (this.sKPIText.node().getComputedTextLength() > sW * 0.8) {
+                if (tile.sKPIText.node().getComputedTextLength() > sW * 0.8) {
                     iSize -= iBox1H * 0.04;
-                    this.sKPIText.attr("style", "font-family:calibri;font-size:" + iSize + "px");
+                    tile.sKPIText.attr("style", "font-family:calibri;font-size:" + iSize + "px");
                 }
                 else {
                     break;
@@ -432,19 +716,19 @@ module powerbi.visuals {
             }
 
             var iSize2 = iBox2H * 0.75;
-            this.sKPIActualText
+            tile.sKPIActualText
                 .attr("x", sW * 0.5)
                 .attr("y", iBox1H + iBox2H * 0.8)
                 .attr("fill", "white")
                 .attr("style", "font-weight:bold;font-family:calibri;font-size:" + iSize2 + "px")
                 .attr("text-anchor", "middle")
-                .text(this.getFormattedValue(dataView, this.kpiActual, this.kpiForceThansandsSeparator));
+                .text(this.getFormattedValue(dataView, tileData.actual, this.kpiForceThansandsSeparator));
 
             // Fix text size
             for (var i = 0; i < 20; i++) {
-                if (this.sKPIActualText.node().getComputedTextLength() > sW * 0.5) {
+                if (tile.sKPIActualText.node().getComputedTextLength() > sW * 0.5) {
                     iSize2 -= iBox2H * 0.04;
-                    this.sKPIActualText.attr("style", "font-weight:bold;font-family:calibri;font-size:" + iSize2 + "px")
+                    tile.sKPIActualText.attr("style", "font-weight:bold;font-family:calibri;font-size:" + iSize2 + "px")
                 }
                 else {
                     break;
@@ -452,13 +736,13 @@ module powerbi.visuals {
             }
 
 
-            var KPIActualTextWidth = this.sKPIActualText.node().getComputedTextLength();
+            var KPIActualTextWidth = tile.sKPIActualText.node().getComputedTextLength();
 
             var diffText = "";
-            if (this.kpiTargetExists) {
-                diffText = "(" + GetKPIActualDiffFromGoal(this.kpiActual, this.kpiGoal, this.kpiBandingCompareType, this.kpiDisplayDifferenceAsPercent) + ")";
+            if (tileData.targetExists) {
+                diffText = "(" + GetKPIActualDiffFromGoal(tileData.actual, tileData.goal, this.kpiBandingCompareType, this.kpiDisplayDifferenceAsPercent) + ")";
             }
-            this.sKPIActualDiffText
+            tile.sKPIActualDiffText
             //.attr("x", sW * 0.95)
                 .attr("x", sW * 0.52 + KPIActualTextWidth * 0.5)
                 .attr("y", iBox1H + iBox2H * 0.8 - iSize2 * 0.03)
@@ -467,6 +751,16 @@ module powerbi.visuals {
                 .attr("text-anchor", "start")
                 .text(diffText);
 
+            tile.sKPIStatusIconText
+                .attr("x", sW * 0.48 - KPIActualTextWidth * 0.5)
+                .attr("y", iBox1H + iBox2H * 0.8 - iSize2 * 0.03)
+                .attr("fill", "white")
+                .attr("style", "font-family:calibri;font-size:" + iSize2 * 0.5 + "px")
+                .attr("text-anchor", "end")
+                .text(statusIcon);
+
+            this.renderForecast(dataView, tile, tileData, statusBands, sW, sH, iBox1H + iBox2H * 1.1, iBox2H * 0.25);
+
             if (this.kpiChartType === KPIIndicatorChartType.LINE) {
                 // Line chart
                 var lineFunction = d3.svg.line()
@@ -474,17 +768,17 @@ module powerbi.visuals {
                     .y(function (d) { return d.y; })
                     .interpolate("linear");
 
-                this.sLinePath
+                tile.sLinePath
                     .attr("stroke", "white")
                     .attr("stroke-width", sH * 0.015)
                     .attr("fill", "none")
                     .attr("stroke-linejoin", "round");
 
                 //if (dataPoints.length > 1) {
-                this.sLinePath.attr("d", lineFunction(dataPoints));
+                tile.sLinePath.attr("d", lineFunction(dataPoints));
                 //}
 
-                var selectionCircle = this.sMainGroupElement2.selectAll("circle").data(dataPoints, function (d) { return d.dataId; });
+                var selectionCircle = tile.sMainGroupElement2.selectAll("circle").data(dataPoints, function (d) { return d.dataId; });
 
                 //Handling new data
                 selectionCircle.enter()
@@ -493,17 +787,17 @@ module powerbi.visuals {
                     .attr("cx", function (d) { return d.x; })
                     .attr("cy", function (d) { return d.y; })
                     .attr("r", sH * 0.02)
-                    .attr("fill", statusColor)
+                    .attr("fill", function (d) { return d.statusColor; })
                     .attr("stroke", "white")
                     .attr("stroke-width", sH * 0.015);
 
                 selectionCircle.exit().remove();
 
                 //Handling change to Target only, with same data
-                selectionCircle.attr("fill", statusColor);
+                selectionCircle.attr("fill", function (d) { return d.statusColor; });
 
-                this.sLinePath.attr("visibility", "visible");
-                this.sMainGroupElement2.selectAll("rect").remove();
+                tile.sLinePath.attr("visibility", "visible");
+                tile.sMainGroupElement2.selectAll("rect").remove();
                 if (!this.kpiHistoryExists) {
                     selectionCircle.attr("visibility", "hidden");
                 }
@@ -512,7 +806,7 @@ module powerbi.visuals {
             }
             else if (this.kpiChartType === KPIIndicatorChartType.BAR) {
                 // Bar chart
-                var selectionBar = this.sMainGroupElement2.selectAll("rect").data(dataPoints, function (d) { return d.dataId; });
+                var selectionBar = tile.sMainGroupElement2.selectAll("rect").data(dataPoints, function (d) { return d.dataId; });
 
                 selectionBar.enter().append("rect")
                     .attr("x", function (d) { return d.x - d.w * 0.5; })
@@ -522,8 +816,21 @@ module powerbi.visuals {
                     .attr("fill", "white");
 
                 selectionBar.exit().remove();
-                this.sMainGroupElement2.selectAll("circle").remove();
-                this.sLinePath.attr("visibility", "hidden");
+
+                // Bars keep a white outline so that a bar in the headline status stays visible
+                if (statusBands.length > 0 && tileData.targetExists) {
+                    selectionBar
+                        .attr("fill", function (d) { return d.statusColor; })
+                        .attr("stroke", "white")
+                        .attr("stroke-width", sH * 0.01);
+                }
+                else {
+                    selectionBar
+                        .attr("fill", "white")
+                        .attr("stroke", "none");
+                }
+                tile.sMainGroupElement2.selectAll("circle").remove();
+                tile.sLinePath.attr("visibility", "hidden");
                 if (!this.kpiHistoryExists) {
                     selectionBar.attr("visibility", "hidden");
                 }
@@ -532,6 +839,178 @@ module powerbi.visuals {
             }
         }
 
+        private renderForecast(dataView: DataView, tile: KPIStatusWithHistoryTile, tileData: KPIStatusWithHistoryTileData, statusBands: KPIStatusBand[], sW: number, sH: number, textY: number, textSize: number) {
+            var dataPoints = tileData.dataPoints;
+            var forecastPoints = tileData.forecastPoints;
+            if (forecastPoints.length === 0 || dataPoints.length === 0) {
+                tile.sForecastArea.attr("visibility", "hidden");
+                tile.sForecastPath.attr("visibility", "hidden");
+                tile.sKPIProjectionText.attr("visibility", "hidden");
+                return;
+            }
+
+            // The projection starts at the last actual point, where the band has no width yet
+            var lastPoint = dataPoints[dataPoints.length - 1];
+            var projection = [{ x: lastPoint.x, y: lastPoint.y, yLower: lastPoint.y, yUpper: lastPoint.y }].concat(forecastPoints);
+
+            var areaFunction = d3.svg.area()
+                .x(function (d) { return d.x; })
+                .y0(function (d) { return d.yLower; })
+                .y1(function (d) { return d.yUpper; });
+
+            var lineFunction = d3.svg.line()
+                .x(function (d) { return d.x; })
+                .y(function (d) { return d.y; })
+                .interpolate("linear");
+
+            tile.sForecastArea
+                .attr("d", areaFunction(projection))
+                .attr("fill", "white")
+                .attr("fill-opacity", 0.25)
+                .attr("stroke", "none")
+                .attr("visibility", "visible");
+
+            tile.sForecastPath
+                .attr("d", lineFunction(projection))
+                .attr("stroke", "white")
+                .attr("stroke-width", sH * 0.01)
+                .attr("stroke-dasharray", "4,3")
+                .attr("fill", "none")
+                .attr("visibility", "visible");
+
+            var projectedValue = forecastPoints[forecastPoints.length - 1].value;
+            var projectedText = "Projected " + this.getFormattedValue(dataView, projectedValue, this.kpiForceThansandsSeparator);
+            if (tileData.targetExists) {
+                projectedText += " vs target " + this.getFormattedValue(dataView, tileData.goal, this.kpiForceThansandsSeparator) + " ";
+            }
+
+            tile.sKPIProjectionText
+                .attr("x", sW * 0.5)
+                .attr("y", textY)
+                .attr("fill", "white")
+                .attr("style", "font-family:calibri;font-size:" + textSize + "px")
+                .attr("text-anchor", "middle")
+                .attr("visibility", "visible")
+                .text(projectedText);
+
+            // Projected vs target status, so that a goal at risk shows before the period ends
+            if (tileData.targetExists) {
+                var projectedStatus = this.getStatus(projectedValue, tileData.goal, statusBands);
+
+                tile.sKPIProjectionText.append("tspan")
+                    .attr("fill", projectedStatus.color)
+                    .attr("stroke", "white")
+                    .attr("stroke-width", 0.5)
+                    .text(projectedStatus.icon || "\u25CF");
+            }
+        }
+
+        private getStatus(dActual: number, dGoal: number, statusBands: KPIStatusBand[]): KPIStatusWithHistoryStatus {
+            if (statusBands.length > 0) {
+                var statusBand = KPIStatusBands.getStatusBand(dActual, dGoal, statusBands);
+                return {
+                    color: statusBand.color,
+                    icon: statusBand.icon,
+                    rank: statusBands.indexOf(statusBand)
+                };
+            }
+
+            var statusColor = GetStatusColor(dActual, dGoal, this.kpiBandingStatusType, this.kpiBandingCompareType, this.kpiBandingPercent);
+            return {
+                color: statusColor,
+                icon: "",
+                rank: [StatusColor.RED, StatusColor.YELLOW, StatusColor.GREEN].indexOf(statusColor)
+            };
+        }
+
+        private static isSplit(dataView: DataView): boolean {
+            return !!(dataView && dataView.categorical && dataView.categorical.values && dataView.categorical.values.source);
+        }
+
+        private static getGroups(dataView: DataView): KPIStatusWithHistoryGroup[] {
+            var values = dataView.categorical.values;
+            if (!KPIStatusWithHistory.isSplit(dataView)) {
+                return [{ name: null, values: values, selectionId: null }];
+            }
+
+            return values.grouped().map(function (group) {
+                return {
+                    name: valueFormatter.format(group.name, values.source.format),
+                    values: group.values,
+                    selectionId: group.identity ? SelectionId.createWithId(group.identity) : null
+                };
+            });
+        }
+
+        // Picks the number of columns that gives the largest tiles for the preferred tile shape
+        public static getGridLayout(count: number, viewport: IViewport) {
+            var bestColumns = 1;
+            var bestSize = 0;
+            for (var columns = 1; columns <= count; columns++) {
+                var size = Math.min(viewport.width / columns / KPIStatusWithHistory.TileAspectRatio, viewport.height / Math.ceil(count / columns));
+                if (size > bestSize) {
+                    bestSize = size;
+                    bestColumns = columns;
+                }
+            }
+            return {
+                columns: bestColumns,
+                width: viewport.width / bestColumns,
+                height: viewport.height / Math.max(1, Math.ceil(count / bestColumns))
+            };
+        }
+
+        public static getSharedYDomain(dataView: DataView, viewport: IViewport, groups: KPIStatusWithHistoryGroup[], thisRef: KPIStatusWithHistory): number[] {
+            var aValues = [];
+            for (var i = 0; i < groups.length; i++) {
+                var dataPoints = KPIStatusWithHistory.converter(dataView, viewport, thisRef, groups[i].values);
+                for (var j = 0; j < dataPoints.length; j++) {
+                    aValues.push(dataPoints[j].ActualOrg);
+                }
+                for (var j = 0; j < thisRef.forecastPoints.length; j++) {
+                    aValues.push(thisRef.forecastPoints[j].lower, thisRef.forecastPoints[j].upper);
+                }
+            }
+            return [Math.min.apply(Math, aValues), Math.max.apply(Math, aValues)];
+        }
+
+        private sortTiles(tileData: KPIStatusWithHistoryTileData[], sortType: string, statusBands: KPIStatusBand[]) {
+            tileData.sort((a, b) => {
+                if (sortType !== KPISplitSortType.ALPHA && a.targetExists && b.targetExists) {
+                    // Worst first, so that the tiles at risk come to the top
+                    if (sortType === KPISplitSortType.STATUS) {
+                        var rankDiff = this.getStatus(a.actual, a.goal, statusBands).rank - this.getStatus(b.actual, b.goal, statusBands).rank;
+                        if (rankDiff !== 0) {
+                            return rankDiff;
+                        }
+                    }
+                    // The deviation is guarded against a zero target, the check still keeps missing values out of the comparison
+                    var deviationDiff = GetDeviationScore(a.actual, a.goal, this.kpiBandingStatusType, this.kpiBandingCompareType) - GetDeviationScore(b.actual, b.goal, this.kpiBandingStatusType, this.kpiBandingCompareType);
+                    if (deviationDiff !== 0 && isFinite(deviationDiff)) {
+                        return deviationDiff;
+                    }
+                }
+                return String(a.name).localeCompare(String(b.name));
+            });
+        }
+
+        private selectTile(selectionId: SelectionId) {
+            if (!selectionId) {
+                return;
+            }
+
+            this.selectiionManager.select(selectionId, d3.event.ctrlKey).then(() => this.renderTileSelection());
+        }
+
+        private renderTileSelection() {
+            var selectedIds = this.selectiionManager.getSelectionIds();
+            for (var i = 0; i < this.tiles.length; i++) {
+                var selectionId = (<KPIStatusWithHistoryTileData>this.tiles[i].sTileElement.datum()).selectionId;
+                var isSelected = selectedIds.length === 0 || !selectionId || utility.SelectionManager.containsSelection(selectedIds, selectionId);
+                this.tiles[i].sTileElement.style("opacity", isSelected ? 1 : KPIStatusWithHistory.DimmedTileOpacity);
+            }
+        }
+
         private getDefaultFormatSettings(): CardFormatSetting {
             return {
                 showTitle: true,
@@ -618,6 +1097,95 @@ module powerbi.visuals {
             return KPIStatusWithHistory.getPropAny(dataView, 'kpi', 'pBandingCompareType', KPIIndicatorBandingCompareType.REL);
         }
 
+        private static getProp_StatusBandCount(dataView: DataView) {
+            var count = KPIStatusWithHistory.getPropNumeric(dataView, 'kpi', 'pStatusBandCount', 0);
+            return Math.max(0, Math.min(Math.round(count), KPIStatusBands.MaxCount));
+        }
+
+        private static getStatusBands(dataView: DataView): KPIStatusBand[] {
+            var statusBands: KPIStatusBand[] = [];
+            var objects = dataView ? dataView.metadata.objects : null;
+            var compareType = KPIStatusWithHistory.getProp_BandingCompareType(dataView);
+            for (var i = 0, len = KPIStatusWithHistory.getProp_StatusBandCount(dataView); i < len; i++) {
+                var defaults = KPIStatusBands.Defaults[i];
+                statusBands.push({
+                    threshold: DataViewObjects.getValue(objects, { objectName: 'kpi', propertyName: KPIStatusBands.getPropertyName(i, 'Threshold') }, defaults.threshold),
+                    compareType: DataViewObjects.getValue(objects, { objectName: 'kpi', propertyName: KPIStatusBands.getPropertyName(i, 'CompareType') }, compareType),
+                    color: DataViewObjects.getFillColor(objects, { objectName: 'kpi', propertyName: KPIStatusBands.getPropertyName(i, 'Color') }, defaults.color),
+                    icon: DataViewObjects.getValue(objects, { objectName: 'kpi', propertyName: KPIStatusBands.getPropertyName(i, 'Icon') }, defaults.icon),
+                });
+            }
+            return statusBands;
+        }
+
+        private static getProp_ForecastType(dataView: DataView) {
+            return KPIStatusWithHistory.getPropAny(dataView, 'kpi', 'pForecastType', KPIForecastType.NONE);
+        }
+
+        private static getProp_ForecastHorizon(dataView: DataView) {
+            return Math.max(1, Math.round(KPIStatusWithHistory.getPropNumeric(dataView, 'kpi', 'pForecastHorizon', 3)));
+        }
+
+        private static getProp_ForecastSeasonLength(dataView: DataView) {
+            return Math.max(1, Math.round(KPIStatusWithHistory.getPropNumeric(dataView, 'kpi', 'pForecastSeasonLength', 12)));
+        }
+
+        /**
+         * Returns the projected value and its confidence interval for each of the next iHorizon periods,
+         * or no points when the history is too short for the forecast type.
+         *
+         * Note: Public for testability.
+         */
+        public static getForecast(aHistory: number[], oForecastType: string, iHorizon: number, iSeasonLength: number): KPIStatusWithHistoryForecast[] {
+            var aForecast: KPIStatusWithHistoryForecast[] = [];
+            var n = aHistory.length;
+            var k;
+            if (oForecastType === KPIForecastType.LINEAR && n >= 3) {
+                // Least squares trend, with the prediction interval of the regression
+                var dMeanX = (n - 1) / 2;
+                var dMeanY = d3.mean(aHistory);
+                var dSxx = 0, dSxy = 0;
+                for (var i = 0; i < n; i++) {
+                    dSxx += (i - dMeanX) * (i - dMeanX);
+                    dSxy += (i - dMeanX) * (aHistory[i] - dMeanY);
+                }
+                var dSlope = dSxy / dSxx;
+                var dIntercept = dMeanY - dSlope * dMeanX;
+                var dSse = 0;
+                for (var i = 0; i < n; i++) {
+                    var dResidual = aHistory[i] - (dIntercept + dSlope * i);
+                    dSse += dResidual * dResidual;
+                }
+                var dStdErr = Math.sqrt(dSse / (n - 2));
+                for (k = 0; k < iHorizon; k++) {
+                    var x = n + k;
+                    var dValue = dIntercept + dSlope * x;
+                    var dMargin = ForecastConfidenceZ * dStdErr * Math.sqrt(1 + 1 / n + (x - dMeanX) * (x - dMeanX) / dSxx);
+                    aForecast.push({ value: dValue, lower: dValue - dMargin, upper: dValue + dMargin });
+                }
+            }
+            else if (oForecastType === KPIForecastType.SEASONAL && n > iSeasonLength) {
+                // Each period repeats the same period of the last season, the error grows with every season ahead
+                var dSumSquares = 0;
+                for (var i = iSeasonLength; i < n; i++) {
+                    var dDiff = aHistory[i] - aHistory[i - iSeasonLength];
+                    dSumSquares += dDiff * dDiff;
+                }
+                var dSeasonStdErr = Math.sqrt(dSumSquares / (n - iSeasonLength));
+                for (k = 0; k < iHorizon; k++) {
+                    var iSeasonsAhead = Math.floor(k / iSeasonLength) + 1;
+                    var dSeasonalValue = aHistory[n - iSeasonLength + (k % iSeasonLength)];
+                    var dSeasonalMargin = ForecastConfidenceZ * dSeasonStdErr * Math.sqrt(iSeasonsAhead);
+                    aForecast.push({ value: dSeasonalValue, lower: dSeasonalValue - dSeasonalMargin, upper: dSeasonalValue + dSeasonalMargin });
+                }
+            }
+            return aForecast;
+        }
+
+        private static getProp_SplitSort(dataView: DataView) {
+            return KPIStatusWithHistory.getPropAny(dataView, 'kpi', 'pSplitSort', KPISplitSortType.STATUS);
+        }
+
         private static getProp_ChartType(dataView: DataView) {
             return KPIStatusWithHistory.getPropAny(dataView, 'kpi', 'pChartType', KPIIndicatorChartType.LINE);
         }
@@ -656,9 +1224,23 @@ module powerbi.visuals {
                             pBandingCompareType: KPIStatusWithHistory.getProp_BandingCompareType(dataView),
                             pChartType: KPIStatusWithHistory.getProp_ChartType(dataView),
                             pIndicateDifferenceAsPercent: this.getProp_DifferenceAsPercent(dataView),
-                            pForceThousandSeparator: this.getProp_ForceThousandsSeparator(dataView)
+                            pForceThousandSeparator: this.getProp_ForceThousandsSeparator(dataView),
+                            pStatusBandCount: KPIStatusWithHistory.getProp_StatusBandCount(dataView),
+                            pForecastType: KPIStatusWithHistory.getProp_ForecastType(dataView),
+                            pForecastHorizon: KPIStatusWithHistory.getProp_ForecastHorizon(dataView),
+                            pForecastSeasonLength: KPIStatusWithHistory.getProp_ForecastSeasonLength(dataView)
                         }
                     };
+                    if (KPIStatusWithHistory.isSplit(dataView)) {
+                        general.properties['pSplitSort'] = KPIStatusWithHistory.getProp_SplitSort(dataView);
+                    }
+                    var statusBands = KPIStatusWithHistory.getStatusBands(dataView);
+                    for (var i = 0; i < statusBands.length; i++) {
+                        general.properties[KPIStatusBands.getPropertyName(i, 'Threshold')] = statusBands[i].threshold;
+                        general.properties[KPIStatusBands.getPropertyName(i, 'CompareType')] = statusBands[i].compareType;
+                        general.properties[KPIStatusBands.getPropertyName(i, 'Color')] = statusBands[i].color;
+                        general.properties[KPIStatusBands.getPropertyName(i, 'Icon')] = statusBands[i].icon;
+                    }
                     instances.push(general);
                     break;
             }
@@ -703,6 +1285,30 @@ module powerbi.visuals {
         return retValue;
     }
 
+    // Two-sided 95% confidence
+    var ForecastConfidenceZ = 1.96;
+
+    function GetDeviationFromGoal(dActual, dGoal, oBandingCompareType) {
+        // A relative deviation from a zero target is not defined, the absolute deviation is used instead
+        if (oBandingCompareType === KPIIndicatorBandingCompareType.REL && dGoal !== 0) {
+            return 100 * (dActual - dGoal) / Math.abs(dGoal);
+        }
+        return dActual - dGoal;
+    }
+
+    // The deviation oriented by the banding type so that a lower score is worse
+    function GetDeviationScore(dActual, dGoal, oBandingType, oBandingCompareType) {
+        var dDeviation = GetDeviationFromGoal(dActual, dGoal, oBandingCompareType);
+        switch (oBandingType) {
+            case KPIIndicatorBandingType.DIB:
+                return -dDeviation;
+            case KPIIndicatorBandingType.CIB:
+                return -Math.abs(dDeviation);
+            default:
+                return dDeviation;
+        }
+    }
+
     function GetStatusColor(dActual, dGoal, oBandingType, oBandingCompareType, dPercentBanding) {
         var ReturnStatusColor = StatusColor.YELLOW;
         var dActualBandingGY, dActualBandingRY;
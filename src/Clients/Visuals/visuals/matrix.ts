@@ -68,6 +68,9 @@ module powerbi.visuals {
         textContent?: string;
         domContent?: JQuery;
         isSubtotal: boolean;
+        /** Leaf indices of the intersecting row and column, used to select ranges of body cells. */
+        rowIndex?: number;
+        columnIndex?: number;
     }
     
     /**
@@ -278,6 +281,14 @@ module powerbi.visuals {
         public getIntersection(rowItem: MatrixVisualNode, columnItem: MatrixVisualNode): MatrixVisualBodyItem {
             debug.assertValue(rowItem, 'rowItem');
             debug.assertValue(columnItem, 'columnItem');
+            let item = this.getIntersectionContent(rowItem, columnItem);
+            item.rowIndex = rowItem.leafIndex;
+            item.columnIndex = columnItem.leafIndex;
+
+            return item;
+        }
+
+        private getIntersectionContent(rowItem: MatrixVisualNode, columnItem: MatrixVisualNode): MatrixVisualBodyItem {
             var TablixUtils = controls.internal.TablixUtils;
             let isSubtotalItem = rowItem.isSubtotal === true || columnItem.isSubtotal === true;
 
@@ -468,6 +479,7 @@ module powerbi.visuals {
         onBindRowHeader?(item: MatrixVisualNode): void;
         totalLabel?: string;
         onColumnHeaderClick?(queryName: string): void;
+        rangeSelection?: controls.TablixCellRangeSelection;
     }
 
     export class MatrixBinder implements controls.ITablixBinder {
@@ -595,11 +607,17 @@ module powerbi.visuals {
                 cell.extension.contentHost.textContent = item.textContent;
             else if (!_.isEmpty(item.domContent))
                 $(cell.extension.contentHost).append(item.domContent);
+
+            if (this.options.rangeSelection && item.rowIndex != null && item.columnIndex != null)
+                this.options.rangeSelection.bindCell(cell, { row: item.rowIndex, column: item.columnIndex });
         }
 
         public unbindBodyCell(item: MatrixVisualBodyItem, cell: controls.ITablixCell): void {
             cell.extension.clearContainerStyle();
             cell.extension.contentHost.textContent = '';
+
+            if (this.options.rangeSelection)
+                this.options.rangeSelection.unbindCell(cell);
         }
 
         private registerColumnHeaderClickHandler(columnMetadata: DataViewMetadataColumn, cell: controls.ITablixCell) {
@@ -831,6 +849,7 @@ module powerbi.visuals {
         public static columnSubtotals: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'columnSubtotals' };
         public static autoSizeProp: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'autoSizeColumnWidth' };
         private static preferredLoadMoreThreshold: number = 0.8;
+        private static exportFileName = 'data.csv';
         
         /**
          * Note: Public only for testing.
@@ -850,6 +869,7 @@ module powerbi.visuals {
         private lastAllowHeaderResize: boolean;
         private waitingForSort: boolean;
         private columnWidthManager: controls.TablixColumnWidthManager;
+        private rangeSelection: controls.TablixCellRangeSelection;
 
         public static customizeQuery(options: CustomizeQueryOptions): void {
             let dataViewMapping = options.dataViewMappings[0];
@@ -979,10 +999,22 @@ module powerbi.visuals {
         private createControl(matrixNavigator: IMatrixHierarchyNavigator): controls.TablixControl {
             let layoutKind = this.getLayoutKind();
 
+            let tablixContainer = document.createElement('div');
+            tablixContainer.className = "tablixContainer";
+            this.element.append(tablixContainer);
+
+            if (this.isInteractive) {
+                this.rangeSelection = new controls.TablixCellRangeSelection(tablixContainer, (row: number, column: number) => this.getCellText(row, column));
+
+                let toolbar = controls.TablixDataExport.createToolbar(this.hostServices.getLocalizedString, (useRawValues: boolean) => this.downloadData(useRawValues));
+                controls.TablixDataExport.bindToolbar(tablixContainer, toolbar, this.hostServices);
+            }
+
             let matrixBinderOptions: MatrixBinderOptions = {
                 onBindRowHeader: (item: MatrixVisualNode) => { this.onBindRowHeader(item); },
                 totalLabel: this.hostServices.getLocalizedString(Matrix.TotalLabel),
                 onColumnHeaderClick: (queryName: string) => this.onColumnHeaderClick(queryName),
+                rangeSelection: this.rangeSelection,
             };
             let matrixBinder = new MatrixBinder(this.hierarchyNavigator, matrixBinderOptions);
             let columnWidthsCallback = () => this.columnWidthManager.getColumnWidths();
@@ -992,10 +1024,6 @@ module powerbi.visuals {
                 ? controls.internal.DashboardTablixLayoutManager.createLayoutManager(matrixBinder)
                 : controls.internal.CanvasTablixLayoutManager.createLayoutManager(matrixBinder, columnWidthsCallback, columnWidthChangedCallback);
 
-            let tablixContainer = document.createElement('div');
-            tablixContainer.className = "tablixContainer";
-            this.element.append(tablixContainer);
-
             let tablixOptions: controls.TablixOptions = {
                 interactive: this.isInteractive,
                 enableTouchSupport: false,
@@ -1011,6 +1039,10 @@ module powerbi.visuals {
 
             this.verifyHeaderResize();
 
+            // Cell positions refer to the previous leaves, so the range selection does not survive a data change.
+            if (this.rangeSelection)
+                this.rangeSelection.clear();
+
             // Update models before the viewport to make sure column widths are computed correctly
             this.tablixControl.updateModels(/*resetScrollOffsets*/true, dataView.matrix.rows.root.children, dataView.matrix.columns.root.children);
             this.tablixControl.viewport = this.currentViewport;
@@ -1089,6 +1121,76 @@ module powerbi.visuals {
             return controls.AutoSizeColumnWidthDefault;
         }
 
+        private getCellText(row: number, column: number): string {
+            let navigator = <MatrixHierarchyNavigator>this.hierarchyNavigator;
+            let rowItem = navigator.getMatrixRowHierarchy().leafNodes[row];
+            let columnItem = navigator.getMatrixColumnHierarchy().leafNodes[column];
+            if (!rowItem || !columnItem)
+                return '';
+
+            return navigator.getIntersection(rowItem, columnItem).textContent || '';
+        }
+
+        /**
+         * Serializes the loaded matrix as CSV, flattened to one line per row leaf with the values of its row groups repeated.
+         * Note: Public for testability.
+         */
+        public exportData(useRawValues?: boolean): string {
+            if (!this.dataView || !this.dataView.matrix || !this.hierarchyNavigator)
+                return '';
+
+            let navigator = <MatrixHierarchyNavigator>this.hierarchyNavigator;
+            let rowHierarchy = navigator.getMatrixRowHierarchy();
+            let columnLeafNodes = navigator.getMatrixColumnHierarchy().leafNodes;
+            let rowLevelCount = rowHierarchy.levels.length;
+
+            let header: string[] = _.map(rowHierarchy.levels, (level: DataViewHierarchyLevel) => _.map(level.sources, (source: DataViewMetadataColumn) => source.displayName).join(' '));
+            for (let j = 0, columnCount = columnLeafNodes.length; j < columnCount; j++)
+                header.push(this.getExportNodePath(columnLeafNodes[j], false).join(' '));
+
+            let rows: string[][] = [header];
+            let rowLeafNodes = rowHierarchy.leafNodes;
+            for (let i = 0, rowCount = rowLeafNodes.length; i < rowCount; i++) {
+                let rowLeafNode = rowLeafNodes[i];
+
+                // A matrix without row groups has a single unnamed leaf, which does not contribute any cells.
+                let cells = this.getExportNodePath(rowLeafNode, useRawValues).slice(0, rowLevelCount);
+                for (let j = 0, columnCount = columnLeafNodes.length; j < columnCount; j++) {
+                    if (useRawValues) {
+                        let intersection = rowLeafNode.values ? <DataViewMatrixNodeValue>rowLeafNode.values[columnLeafNodes[j].leafIndex] : undefined;
+                        cells.push(intersection ? controls.TablixDataExport.getRawText(intersection.value) : '');
+                    }
+                    else {
+                        cells.push(navigator.getIntersection(rowLeafNode, columnLeafNodes[j]).textContent || '');
+                    }
+                }
+                rows.push(cells);
+            }
+
+            return controls.TablixDataExport.toCsv(rows);
+        }
+
+        private getExportNodePath(node: MatrixVisualNode, useRawValues: boolean): string[] {
+            let path: string[] = [];
+            for (let current = node; current; current = current.parent) {
+                let label: string;
+                if (current.isSubtotal)
+                    label = this.hostServices.getLocalizedString(Matrix.TotalLabel);
+                else if (useRawValues && current.value !== undefined)
+                    label = controls.TablixDataExport.getRawText(current.value);
+                else
+                    label = current.name != null ? current.name : controls.TablixDataExport.getRawText(current.value);
+
+                path.unshift(label);
+            }
+
+            return path;
+        }
+
+        private downloadData(useRawValues: boolean): void {
+            controls.TablixDataExport.downloadCsv(Matrix.exportFileName, this.exportData(useRawValues));
+        }
+
         private getMatrixDataViewObjects(): MatrixDataViewObjects {
             if (this.dataView && this.dataView.metadata && this.dataView.metadata.objects)
                 return <MatrixDataViewObjects>this.dataView.metadata.objects;
@@ -27,12 +27,35 @@
 /// <reference path="../_references.ts"/>
 
 module powerbi.visuals {
-    enum OwlHappiness {
+    export enum OwlHappiness {
         Sad = 0,
         Meh = 1,
         Happy = 2
     }
 
+    export interface OwlGaugeSettings {
+        /** Colors of the background rays, the stylesheet colors are used when not set */
+        sadColor: string;
+        mehColor: string;
+        happyColor: string;
+        showTail: boolean;
+        showLabel: boolean;
+        labelColor: string;
+        labelDisplayUnits: number;
+        labelPrecision: number;
+    }
+
+    export interface OwlGaugeData {
+        /** Position of the value between min and max, from 0 to 1 */
+        percent: number;
+        total: number;
+        targetSettings: GaugeTargetSettings;
+        happiness: OwlHappiness;
+        label: string;
+        tooltipInfo: TooltipDataItem[];
+        settings: OwlGaugeSettings;
+    }
+
     export class OwlGauge implements IVisual {
         private static owlBodySvg = '<svg version="1.1" class="owlGaugeBody" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" x="0px" y="0px" viewBox="0 0 267.7 291.2" style="enable-background:new 0 0 267.7 291.2;" xml:space="preserve"> <style type="text/css"> .owlGaugeBody .st0{fill:#A87D50;} .owlGaugeBody .st1{fill:#C2B59B;} .owlGaugeBody .st2{fill:#EB2227;} .owlGaugeBody .st3{fill:#FFFFFF;} .owlGaugeBody .st4{fill:#F9D018;} .owlGaugeBody .st5{fill:none;} .owlGaugeBody .st6{fill:#83381B;} .owlGaugeBody .st7{fill:#231F20;} </style> <g id="XMLID_31_"> <g id="XMLID_34_"> <ellipse id="XMLID_21_" transform="matrix(0.9998 1.947640e-02 -1.947640e-02 0.9998 2.8614 -2.5802)" class="st0" cx="133.9" cy="145.6" rx="133.9" ry="145.6"/> <polygon id="XMLID_20_" class="st0" points="199.2,32.8 184,11.3 209,9.7 "/> <polygon id="XMLID_19_" class="st0" points="73.9,31.2 62.1,7.7 87.1,9.8 "/> <circle id="XMLID_18_" class="st1" cx="134.8" cy="189.2" r="89.8"/> <path id="XMLID_17_" class="st2" d="M140.1,88c-2.7,3.8-7.9,4.7-11.7,2c-2.7-1.9-3.9-5.1-3.4-8.1c0,0,9.6-41.8,9.6-41.8l6.9,40.8 C142,83.2,141.6,85.8,140.1,88z"/> <path id="XMLID_16_" class="st3" d="M164.6,16.2c-14.2,0-26.3,9.2-30.6,21.9c-4.1-13.1-16.3-22.6-30.8-22.6 C85.4,15.6,71,30,71,47.8s14.4,32.3,32.3,32.3c14.2,0,26.3-9.2,30.6-21.9c4.1,13.1,16.3,22.6,30.8,22.6 c17.8,0,32.3-14.4,32.3-32.3S182.4,16.2,164.6,16.2z"/> <path id="XMLID_15_" class="st4" d="M122,58.7l23.3-0.1c0,0-9,14.8-10.2,16.6c-1.2,1.9-2.2,0.1-2.2,0.1L122,58.7z"/> <rect id="XMLID_14_" x="-11.4" y="-68.8" class="st5" width="288.3" height="259.7"/> <g id="XMLID_37_"> <path id="XMLID_13_" class="st6" d="M121.6,125.5c0,3.7-3.5,6.6-7.7,6.6c-4.2,0-7.7-3-7.7-6.6"/> <path id="XMLID_12_" class="st6" d="M160.1,126.5c0,3.7-3.5,6.6-7.7,6.6s-7.7-3-7.7-6.6"/> <path id="XMLID_11_" class="st6" d="M142.4,148.1c0,3.7-3.5,6.6-7.7,6.6c-4.2,0-7.7-3-7.7-6.6"/> <path id="XMLID_10_" class="st6" d="M183.1,148.8c0,3.7-3.5,6.6-7.7,6.6c-4.2,0-7.7-3-7.7-6.6"/> <path id="XMLID_9_" class="st6" d="M160.9,177.4c0,3.7-3.5,6.6-7.7,6.6s-7.7-3-7.7-6.6"/> <path id="XMLID_8_" class="st6" d="M201.6,178c0,3.7-3.5,6.6-7.7,6.6s-7.7-3-7.7-6.6"/> <path id="XMLID_7_" class="st6" d="M76.4,177.4c0,3.7-3.5,6.6-7.7,6.6c-4.2,0-7.7-3-7.7-6.6"/> <path id="XMLID_6_" class="st6" d="M117,178c0,3.7-3.5,6.6-7.7,6.6s-7.7-3-7.7-6.6"/> <path id="XMLID_5_" class="st6" d="M98.6,148.1c0,3.7-3.5,6.6-7.7,6.6c-4.2,0-7.7-3-7.7-6.6"/> </g> <circle id="XMLID_4_" class="st7" cx="164.1" cy="49" r="6.4"/> <circle id="XMLID_3_" class="st7" cx="102.7" cy="47.7" r="6.4"/> </g> <path id="XMLID_2_" class="st0" d="M160.1,140.9c11.1-8.4,55.6-36,55.6-36l4.7,0.8l10.2,38.8c0,0-3,3-9.2,3.1 c-5.1,0.1-45.9-2.6-60.2-3.5C158.1,143.9,157.7,142.7,160.1,140.9z"/> <path id="XMLID_1_" class="st0" d="M110.6,140.8c-11.1-8.4-55.6-36-55.6-36l-4.7,0.8L40,144.4c0,0,3,3,9.2,3.1 c5.1,0.1,45.9-2.6,60.2-3.5C112.5,143.8,113,142.6,110.6,140.8z"/> </g> </svg>';
         private static owlTailSvg = '<svg version="1.1" class="owlGaugeTail" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" x="0px" y="0px" viewBox="0 0 587.8 295.5" style="enable-background:new 0 0 587.8 295.5;" xml:space="preserve"> <style type="text/css"> .owlGaugeTail .st0{fill:#3B2416;} .owlGaugeTail .st1{fill:#5B4B43;} .owlGaugeTail .st2{fill:#603A17;} .owlGaugeTail .st3{fill:#726659;} </style> <g id="XMLID_55_"> <path id="XMLID_29_" class="st0" d="M85.2,106.2c-27.1,0-49.2,22-49.2,49.2c0,19.1,10.9,35.7,26.9,43.8c0,0,231.2,95.9,231.2,95.9 l-171-171C114.1,113.2,100.5,106.2,85.2,106.2z"/> <g id="XMLID_56_"> <path id="XMLID_28_" class="st1" d="M482.5,86.4c0-27.1-22-49.2-49.2-49.2c-19.1,0-35.7,10.9-43.8,26.9c0,0-95.9,231.2-95.9,231.2 l171-171C475.5,115.3,482.5,101.7,482.5,86.4z"/> <path id="XMLID_27_" class="st2" d="M573.5,281.3c19.2-19.2,19.2-50.3,0-69.5c-13.5-13.5-33-17.5-50-12c0,0-231.3,95.7-231.3,95.7 l241.8,0C548,296.9,562.6,292.1,573.5,281.3z"/> <path id="XMLID_26_" class="st3" d="M279.9,14.4c-19.2-19.2-50.3-19.2-69.5,0c-13.5,13.5-17.5,33-12,50c0,0,95.7,231.3,95.7,231.3 L294,54C295.4,39.8,290.7,25.2,279.9,14.4z"/> <path id="XMLID_25_" class="st2" d="M105.3,86.4c0-27.1,22-49.2,49.2-49.2c19.1,0,35.7,10.9,43.8,26.9c0,0,95.9,231.2,95.9,231.2 l-171-171C112.3,115.3,105.3,101.7,105.3,86.4z"/> <path id="XMLID_24_" class="st2" d="M14.4,281.4c-19.2-19.2-19.2-50.3,0-69.5c13.5-13.5,33-17.5,50-12c0,0,231.3,95.7,231.3,95.7 l-241.8,0C39.8,297,25.2,292.3,14.4,281.4z"/> <path id="XMLID_23_" class="st2" d="M308.2,14c19.2-19.2,50.3-19.2,69.5,0c13.5,13.5,17.5,33,12,50c0,0-95.7,231.3-95.7,231.3 l0-241.8C292.6,39.4,297.4,24.8,308.2,14z"/> <path id="XMLID_22_" class="st0" d="M503.2,106c27.1,0,49.2,22,49.2,49.2c0,19.1-10.9,35.7-26.9,43.8c0,0-231.2,95.9-231.2,95.9 l171-171C474.2,113,487.8,106,503.2,106z"/> </g> </g> </svg>';
@@ -44,36 +67,243 @@ module powerbi.visuals {
 
         private static OwlDemoMode = false;
 
+        private static DefaultMin = 0;
+        private static DefaultMax = 100;
+        private static DefaultSadColor = '#EF4137';
+        private static DefaultMehColor = '#F18D05';
+        private static DefaultHappyColor = '#61AE24';
+        private static DefaultLabelColor = '#333333';
+        /** The background rays that the stylesheet paints with the default color of each happiness level */
+        private static HappinessRaySelectors = ['.st0', '.st0', '.st2'];
+
+        private static properties = {
+            formatString: <DataViewObjectPropertyIdentifier>{ objectName: 'general', propertyName: 'formatString' },
+            axis: {
+                min: <DataViewObjectPropertyIdentifier>{ objectName: 'axis', propertyName: 'min' },
+                max: <DataViewObjectPropertyIdentifier>{ objectName: 'axis', propertyName: 'max' },
+                target: <DataViewObjectPropertyIdentifier>{ objectName: 'axis', propertyName: 'target' },
+            },
+            dataPoint: {
+                sadColor: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'sadColor' },
+                mehColor: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'mehColor' },
+                happyColor: <DataViewObjectPropertyIdentifier>{ objectName: 'dataPoint', propertyName: 'happyColor' },
+            },
+            tail: {
+                show: <DataViewObjectPropertyIdentifier>{ objectName: 'tail', propertyName: 'show' },
+            },
+            labels: {
+                show: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'show' },
+                color: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'color' },
+                labelDisplayUnits: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'labelDisplayUnits' },
+                labelPrecision: <DataViewObjectPropertyIdentifier>{ objectName: 'labels', propertyName: 'labelPrecision' },
+            },
+        };
+
         public static capabilities: VisualCapabilities = {
             dataRoles: [
                 {
-                    name: 'Category',
-                    kind: powerbi.VisualDataRoleKind.Grouping,
+                    name: gaugeRoleNames.y,
+                    kind: VisualDataRoleKind.Measure,
+                    displayName: data.createDisplayNameGetter('Role_DisplayName_Value'),
+                }, {
+                    name: gaugeRoleNames.minValue,
+                    kind: VisualDataRoleKind.Measure,
+                    displayName: data.createDisplayNameGetter('Role_DisplayName_MinValue'),
+                }, {
+                    name: gaugeRoleNames.maxValue,
+                    kind: VisualDataRoleKind.Measure,
+                    displayName: data.createDisplayNameGetter('Role_DisplayName_MaxValue'),
+                }, {
+                    name: gaugeRoleNames.targetValue,
+                    kind: VisualDataRoleKind.Measure,
+                    displayName: data.createDisplayNameGetter('Role_DisplayName_TargetValue'),
+                }
+            ],
+            objects: {
+                general: {
+                    properties: {
+                        formatString: {
+                            type: { formatting: { formatString: true } },
+                        },
+                    },
                 },
-                {
-                    name: 'Y',
-                    kind: powerbi.VisualDataRoleKind.Measure,
+                axis: {
+                    displayName: data.createDisplayNameGetter('Visual_Gauge_Axis'),
+                    properties: {
+                        min: {
+                            displayName: data.createDisplayNameGetter('Visual_Gauge_Axis_Min'),
+                            type: { numeric: true }
+                        },
+                        max: {
+                            displayName: data.createDisplayNameGetter('Visual_Gauge_Axis_Max'),
+                            type: { numeric: true }
+                        },
+                        target: {
+                            displayName: data.createDisplayNameGetter('Visual_Gauge_Axis_Target'),
+                            type: { numeric: true }
+                        },
+                    },
                 },
-            ],
-            dataViewMappings: [{
-                categories: {
-                    for: { in: 'Category' },
-                    dataReductionAlgorithm: { top: {} }
+                dataPoint: {
+                    displayName: data.createDisplayNameGetter('Visual_DataPoint'),
+                    properties: {
+                        sadColor: {
+                            displayName: data.createDisplayNameGetter('Visual_OwlGauge_Sad'),
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        mehColor: {
+                            displayName: data.createDisplayNameGetter('Visual_OwlGauge_Meh'),
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        happyColor: {
+                            displayName: data.createDisplayNameGetter('Visual_OwlGauge_Happy'),
+                            type: { fill: { solid: { color: true } } }
+                        },
+                    },
                 },
-                values: {
-                    select: [{ bind: { to: 'Y' } }]
+                tail: {
+                    displayName: data.createDisplayNameGetter('Visual_OwlGauge_Tail'),
+                    properties: {
+                        show: {
+                            displayName: data.createDisplayNameGetter('Visual_Show'),
+                            type: { bool: true }
+                        },
+                    },
+                },
+                labels: {
+                    displayName: data.createDisplayNameGetter('Visual_DataPointLabel'),
+                    properties: {
+                        show: {
+                            displayName: data.createDisplayNameGetter('Visual_Show'),
+                            type: { bool: true }
+                        },
+                        color: {
+                            displayName: data.createDisplayNameGetter('Visual_LabelsFill'),
+                            type: { fill: { solid: { color: true } } }
+                        },
+                        labelDisplayUnits: {
+                            displayName: data.createDisplayNameGetter('Visual_DisplayUnits'),
+                            type: { formatting: { labelDisplayUnits: true } }
+                        },
+                        labelPrecision: {
+                            displayName: data.createDisplayNameGetter('Visual_Precision'),
+                            type: { numeric: true }
+                        },
+                    },
+                },
+            },
+            dataViewMappings: [{
+                conditions: [
+                    { 'Y': { max: 1 }, 'MinValue': { max: 1 }, 'MaxValue': { max: 1 }, 'TargetValue': { max: 1 } },
+                ],
+                categorical: {
+                    values: {
+                        select: [
+                            { bind: { to: 'Y' } },
+                            { bind: { to: 'MinValue' } },
+                            { bind: { to: 'MaxValue' } },
+                            { bind: { to: 'TargetValue' } },
+                        ]
+                    },
                 },
             }]
         };
 
-        public static converter(dataView: DataView): any {
-            return {};
+        public static converter(dataView: DataView): OwlGaugeData {
+            var gaugeData = OwlGauge.getGaugeData(dataView);
+            var settings = OwlGauge.getSettings(dataView);
+            var total = gaugeData.total;
+
+            // Keep the value inside the gauge boundaries
+            var adjustedTotal = Math.min(Math.max(total, gaugeData.min), gaugeData.max);
+            var percent = gaugeData.max !== gaugeData.min
+                ? (adjustedTotal - gaugeData.min) / (gaugeData.max - gaugeData.min)
+                : 0;
+
+            var tooltipInfo: TooltipDataItem[];
+            if (gaugeData.tooltipItems.length > 0) {
+                tooltipInfo = TooltipBuilder.createTooltipInfo(OwlGauge.properties.formatString, null, null, null, null, gaugeData.tooltipItems);
+            }
+
+            var metadataColumn = Gauge.getMetaDataColumn(dataView);
+            var formatter = valueFormatter.create({
+                format: valueFormatter.getFormatString(metadataColumn, OwlGauge.properties.formatString),
+                value: settings.labelDisplayUnits,
+                precision: settings.labelPrecision,
+                columnType: metadataColumn ? metadataColumn.type : undefined
+            });
+
+            return {
+                percent: percent,
+                total: total,
+                targetSettings: {
+                    min: gaugeData.min,
+                    max: gaugeData.max,
+                    target: gaugeData.target
+                },
+                happiness: OwlGauge.getHappiness(percent * 100, gaugeData),
+                label: formatter.format(total),
+                tooltipInfo: tooltipInfo,
+                settings: settings
+            };
+        }
+
+        /**
+         * With a target the owl is happy once the value reaches it and meh from halfway there,
+         * otherwise the thirds of the gauge range are used.
+         *
+         * Note: Public for testability.
+         */
+        public static getHappiness(percentage: number, targetSettings?: GaugeTargetData): OwlHappiness {
+            if (targetSettings && $.isNumeric(targetSettings.target) && targetSettings.target > targetSettings.min) {
+                var targetRatio = (targetSettings.total - targetSettings.min) / (targetSettings.target - targetSettings.min);
+                if (targetRatio >= 1)
+                    return OwlHappiness.Happy;
+                return targetRatio >= 0.5 ? OwlHappiness.Meh : OwlHappiness.Sad;
+            }
+
+            if (percentage >= 66)
+                return OwlHappiness.Happy;
+            return percentage >= 33 ? OwlHappiness.Meh : OwlHappiness.Sad;
+        }
+
+        private static getSettings(dataView: DataView): OwlGaugeSettings {
+            var objects = dataView && dataView.metadata ? dataView.metadata.objects : null;
+            var properties = OwlGauge.properties;
+
+            return {
+                sadColor: DataViewObjects.getFillColor(objects, properties.dataPoint.sadColor),
+                mehColor: DataViewObjects.getFillColor(objects, properties.dataPoint.mehColor),
+                happyColor: DataViewObjects.getFillColor(objects, properties.dataPoint.happyColor),
+                showTail: DataViewObjects.getValue(objects, properties.tail.show, true),
+                showLabel: DataViewObjects.getValue(objects, properties.labels.show, true),
+                labelColor: DataViewObjects.getFillColor(objects, properties.labels.color, OwlGauge.DefaultLabelColor),
+                labelDisplayUnits: DataViewObjects.getValue(objects, properties.labels.labelDisplayUnits, 0),
+                labelPrecision: DataViewObjects.getValue<number>(objects, properties.labels.labelPrecision, undefined),
+            };
+        }
+
+        /** Axis values from the formatting pane, for the roles that are not bound */
+        private static getAxisProperties(dataView: DataView): GaugeTargetSettings {
+            var objects = dataView && dataView.metadata ? dataView.metadata.objects : null;
+            var properties: any = {};
+
+            if (!DataRoleHelper.hasRoleInDataView(dataView, gaugeRoleNames.minValue))
+                properties.min = DataViewObjects.getValue<number>(objects, OwlGauge.properties.axis.min, undefined);
+
+            if (!DataRoleHelper.hasRoleInDataView(dataView, gaugeRoleNames.maxValue))
+                properties.max = DataViewObjects.getValue<number>(objects, OwlGauge.properties.axis.max, undefined);
+
+            if (!DataRoleHelper.hasRoleInDataView(dataView, gaugeRoleNames.targetValue))
+                properties.target = DataViewObjects.getValue<number>(objects, OwlGauge.properties.axis.target, undefined);
+
+            return properties;
         }
 
         private static getGaugeData(dataView: DataView): GaugeTargetData {
             var settings: GaugeTargetData = {
-                max: 100,
-                min: 0,
+                max: OwlGauge.DefaultMax,
+                min: OwlGauge.DefaultMin,
                 target: undefined,
                 total: 0,
                 tooltipItems: []
@@ -104,6 +334,15 @@ module powerbi.visuals {
                         }
                     }
                 }
+
+                // Override settings according to property pane axis values
+                var axisProperties = OwlGauge.getAxisProperties(dataView);
+                if ($.isNumeric(axisProperties.min))
+                    settings.min = axisProperties.min;
+                if ($.isNumeric(axisProperties.max))
+                    settings.max = axisProperties.max;
+                if ($.isNumeric(axisProperties.target))
+                    settings.target = axisProperties.target;
             }
 
             return settings;
@@ -113,6 +352,9 @@ module powerbi.visuals {
         private svgBgElem: JQuery;
         private svgBodyElem: JQuery;
         private svgTailElem: JQuery;
+        private labelElem: JQuery;
+        private dataView: DataView;
+        private data: OwlGaugeData;
 
         public init(options: VisualInitOptions): void {
             this.rootElem = options.element;
@@ -121,8 +363,11 @@ module powerbi.visuals {
             this.svgTailElem = $(OwlGauge.owlTailSvg);
             this.svgBgElem = $(OwlGauge.visualBgSvg);
             this.svgBodyElem = $(OwlGauge.owlBodySvg);
+            this.labelElem = $('<div class="owlGaugeLabel"></div>');
 
-            this.rootElem.append(this.svgBgElem).append(this.svgTailElem).append(this.svgBodyElem);
+            this.rootElem.append(this.svgBgElem).append(this.svgTailElem).append(this.svgBodyElem).append(this.labelElem);
+
+            TooltipManager.addTooltip(d3.select(this.rootElem.get(0)), (tooltipEvent: TooltipEvent) => this.data ? this.data.tooltipInfo : null);
 
             if (OwlGauge.OwlDemoMode) {
                 window.setInterval(() => {
@@ -137,31 +382,101 @@ module powerbi.visuals {
         public update(options: VisualUpdateOptions) {
             this.updateViewportSize(options.viewport.width, options.viewport.height);
 
-            var dataView = options.dataViews.length > 0 ? options.dataViews[0] : null;
+            var dataView = this.dataView = options.dataViews.length > 0 ? options.dataViews[0] : null;
 
             if (dataView) {
-                var gaugeData = OwlGauge.getGaugeData(options.dataViews[0]);
+                var data = this.data = OwlGauge.converter(dataView);
+
+                this.updateGauge(data.percent * 100 | 0, data.happiness);
+                this.updateFormatting(data);
+            }
+            else {
+                this.data = null;
+                this.updateGauge(0);
+                this.labelElem.text('');
+            }
+        }
+
+        private updateFormatting(data: OwlGaugeData) {
+            var settings = data.settings;
+            var color: string;
+
+            switch (data.happiness) {
+                case OwlHappiness.Sad:
+                    color = settings.sadColor;
+                    break;
+                case OwlHappiness.Meh:
+                    color = settings.mehColor;
+                    break;
+                case OwlHappiness.Happy:
+                    color = settings.happyColor;
+                    break;
+            }
+
+            // The other rays keep the colors of the stylesheet, as does an empty value
+            this.svgBgElem.find('path').css('fill', '');
+            this.svgBgElem.find(OwlGauge.HappinessRaySelectors[data.happiness]).css('fill', color || '');
+            this.svgTailElem.toggle(settings.showTail);
 
-                var percentage = (gaugeData.total - gaugeData.min) / (gaugeData.max - gaugeData.min);
-                this.updateGauge(percentage * 100 | 0);
+            this.labelElem
+                .text(settings.showLabel ? data.label : '')
+                .css('color', settings.labelColor);
+        }
+
+        public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] {
+            var data = this.data;
+            if (!data)
+                return;
+
+            var settings = data.settings;
+
+            switch (options.objectName) {
+                case 'axis':
+                    return [{
+                        selector: null,
+                        objectName: 'axis',
+                        properties: <any>OwlGauge.getAxisProperties(this.dataView),
+                    }];
+                case 'dataPoint':
+                    return [{
+                        selector: null,
+                        objectName: 'dataPoint',
+                        properties: {
+                            sadColor: settings.sadColor || OwlGauge.DefaultSadColor,
+                            mehColor: settings.mehColor || OwlGauge.DefaultMehColor,
+                            happyColor: settings.happyColor || OwlGauge.DefaultHappyColor,
+                        },
+                    }];
+                case 'tail':
+                    return [{
+                        selector: null,
+                        objectName: 'tail',
+                        properties: {
+                            show: settings.showTail,
+                        },
+                    }];
+                case 'labels':
+                    return [{
+                        selector: null,
+                        objectName: 'labels',
+                        properties: {
+                            show: settings.showLabel,
+                            color: settings.labelColor,
+                            labelDisplayUnits: settings.labelDisplayUnits,
+                            labelPrecision: settings.labelPrecision,
+                        },
+                    }];
             }
-            else this.updateGauge(0);
         }
 
-        private updateGauge(percentage: number) {
+        private updateGauge(percentage: number, happiness?: OwlHappiness) {
             if (percentage >= 0 && percentage <= 100) {
                 var rotationDeg = -180 + (180 * percentage/100);
                 this.svgBgElem.css({ transform: 'rotate(' + rotationDeg + 'deg)' });
 
-                if (percentage >= 66) {
-                    this.happinessLevel = OwlHappiness.Happy;
-                }
-                else if (percentage >= 33) {
-                    this.happinessLevel = OwlHappiness.Meh;
-                }
-                else {
-                    this.happinessLevel = OwlHappiness.Sad;
-                }
+                this.happinessLevel = happiness !== undefined
+                    ? happiness
+                    : OwlGauge.getHappiness(percentage);
             }
         }
 
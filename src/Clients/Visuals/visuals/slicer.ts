@@ -28,6 +28,11 @@
 
 module powerbi.visuals {
     import PixelConverter = jsCommon.PixelConverter;
+    import QueryComparisonKind = powerbi.data.QueryComparisonKind;
+    import DataViewObjectDescriptors = powerbi.data.DataViewObjectDescriptors;
+    import SemanticFilter = powerbi.data.SemanticFilter;
+    import SQExpr = powerbi.data.SQExpr;
+    import SQExprBuilder = powerbi.data.SQExprBuilder;
 
     export interface SlicerConstructorOptions {
         behavior?: SlicerWebBehavior;
@@ -39,6 +44,40 @@ module powerbi.visuals {
         slicerDataPoints: SlicerDataPoint[];
         slicerSettings: SlicerSettings;
         hasSelectionOverride?: boolean;
+        /** The search text restored from a persisted self filter, if any. */
+        searchText?: string;
+        /** Present when the slicer is in range mode and the column is numeric or a date. */
+        range?: SlicerRange;
+        /** Present when several grouping fields or the levels of a hierarchy are bound. */
+        treeNodes?: SlicerTreeNode[];
+    }
+
+    export interface SlicerTreeNode {
+        value: any;
+        level: number;
+        /** Identifies the node together with its ancestors, i.e. the SQAndExpr of the identities along its path. */
+        identity: DataViewScopeIdentity;
+        children: SlicerTreeNode[];
+        selected: boolean;
+        partiallySelected: boolean;
+    }
+
+    export interface SlicerRange {
+        /** Distinct values of the column in ascending order, with dates as milliseconds. */
+        values: number[];
+        min: number;
+        max: number;
+        start: number;
+        end: number;
+        isDate: boolean;
+        isInteger: boolean;
+        /** More rows are pending, min and max then only cover the rows loaded so far. */
+        isPartial: boolean;
+    }
+
+    export interface SlicerRangeBounds {
+        lower?: number;
+        upper?: number;
     }
 
     export interface SlicerDataPoint extends SelectableDataPoint {
@@ -46,12 +85,19 @@ module powerbi.visuals {
         mouseOver: boolean;
         mouseOut: boolean;
         isSelectAllDataPoint?: boolean;
+        imageUrl?: string;
     }
 
     export interface SlicerSettings {
         general: {
             outlineColor: string;
             outlineWeight: number;
+            layout: string;
+            /** Only one item can be selected at a time, and there is no Select All item. */
+            singleSelect: boolean;
+        };
+        data: {
+            mode: string;
         };
         header: {
             borderBottomWidth: number;
@@ -60,6 +106,8 @@ module powerbi.visuals {
             fontColor: string;
             background: string;
             textSize: number;
+            search: boolean;
+            searchMode: string;
         };
         slicerText: {
             color: string;
@@ -83,6 +131,10 @@ module powerbi.visuals {
         private dataView: DataView;
         private slicerHeader: D3.Selection;
         private slicerBody: D3.Selection;
+        private slicerRange: D3.Selection;
+        private slicerTree: D3.Selection;
+        private slicerTiles: D3.Selection;
+        private expandedTreeNodes: { [key: string]: boolean } = {};
         private listView: IListView;
         private slicerData: SlicerData;
         private settings: SlicerSettings;
@@ -91,7 +143,13 @@ module powerbi.visuals {
         private hostServices: IVisualHostServices;
         private static clearTextKey = 'Slicer_Clear';
         private static selectAllTextKey = 'Slicer_SelectAll';
+        private static searchTextKey = 'Slicer_Search';
         private waitingForData: boolean;
+        private searchText: string;
+        private isSelfFilterApplied: boolean;
+        private isSelfFilterCleared: boolean;
+        private isRangeHandleMoved: boolean;
+        private searchThrottler: jsCommon.ThrottleUtility;
         private textProperties: TextProperties = {
             'fontFamily': 'wf_segoe-ui_normal, helvetica, arial, sans-serif',
             'fontSize': '14px',
@@ -134,12 +192,91 @@ module powerbi.visuals {
             class: 'clear',
             selector: '.clear'
         };
+        private static SearchHeader: ClassAndSelector = {
+            class: 'searchHeader',
+            selector: '.searchHeader'
+        };
+        private static SearchInput: ClassAndSelector = {
+            class: 'searchInput',
+            selector: '.searchInput'
+        };
+
+        // Height of the search box row in the header, including its margins
+        private static SearchHeaderHeight: number = 26;
+        private static SearchThrottleDelay: number = 300;
+
+        private static Range: ClassAndSelector = {
+            class: 'slicerRange',
+            selector: '.slicerRange'
+        };
+        private static RangeInput: ClassAndSelector = {
+            class: 'rangeInput',
+            selector: '.rangeInput'
+        };
+        private static RangeSlider: ClassAndSelector = {
+            class: 'rangeSlider',
+            selector: '.rangeSlider'
+        };
+        private static RangeTrack: ClassAndSelector = {
+            class: 'rangeTrack',
+            selector: '.rangeTrack'
+        };
+        private static RangeSelection: ClassAndSelector = {
+            class: 'rangeSelection',
+            selector: '.rangeSelection'
+        };
+        private static RangeHandle: ClassAndSelector = {
+            class: 'rangeHandle',
+            selector: '.rangeHandle'
+        };
+        private static RangeLabel: ClassAndSelector = {
+            class: 'rangeLabel',
+            selector: '.rangeLabel'
+        };
+
+        private static Tree: ClassAndSelector = {
+            class: 'slicerTree',
+            selector: '.slicerTree'
+        };
+        private static TreeItem: ClassAndSelector = {
+            class: 'slicerTreeItem',
+            selector: '.slicerTreeItem'
+        };
+        private static TreeExpander: ClassAndSelector = {
+            class: 'expander',
+            selector: '.expander'
+        };
+
+        private static Tiles: ClassAndSelector = {
+            class: 'slicerTiles',
+            selector: '.slicerTiles'
+        };
+        private static Tile: ClassAndSelector = {
+            class: 'slicerTile',
+            selector: '.slicerTile'
+        };
+        private static TileImage: ClassAndSelector = {
+            class: 'slicerTileImage',
+            selector: '.slicerTileImage'
+        };
+
+        // Distance from the bottom of the tiles at which more data is requested
+        private static TilesLoadMoreThreshold: number = 20;
+        private static TreeIndent: number = 16;
+        private static RangeHandleRadius: number = 7;
+        private static RangeSliderHeight: number = 44;
+        private static RangeMargin: number = 8;
 
         public static DefaultStyleProperties(): SlicerSettings {
             return {
                 general: {
                     outlineColor: '#808080',
-                    outlineWeight: 1
+                    outlineWeight: 1,
+                    layout: slicerLayout.vertical,
+                    singleSelect: false,
+                },
+                data: {
+                    mode: slicerMode.list,
                 },
                 header: {
                     borderBottomWidth: 1,
@@ -148,6 +285,8 @@ module powerbi.visuals {
                     fontColor: '#000000',
                     background: '#ffffff',
                     textSize: 10,
+                    search: false,
+                    searchMode: slicerSearchMode.contains,
                 },
                 slicerText: {
                     color: '#666666',
@@ -208,6 +347,7 @@ module powerbi.visuals {
 
             let categoryValuesLen = categories && categories.values ? categories.values.length : 0;
             let slicerDataPoints: SlicerDataPoint[] = [];
+            let imageColumn = Slicer.getImageColumn(dataViewCategorical);
 
             slicerDataPoints.push({
                 value: localizedSelectAllText,
@@ -257,13 +397,19 @@ module powerbi.visuals {
                 if (categoryIsSelected)
                     numberOfCategoriesSelectedInData++;
 
-                slicerDataPoints.push({
+                let dataPoint: SlicerDataPoint = {
                     value: categories.values[idx],
                     mouseOver: false,
                     mouseOut: true,
                     identity: SelectionId.createWithId(categoryIdentity),
                     selected: categoryIsSelected
-                });
+                };
+
+                let imageUrl = imageColumn && imageColumn.values ? imageColumn.values[idx] : undefined;
+                if (imageUrl && jsCommon.Utility.isValidUrl(imageUrl))
+                    dataPoint.imageUrl = imageUrl;
+
+                slicerDataPoints.push(dataPoint);
             }
 
             let defaultSettings = this.DefaultStyleProperties();
@@ -271,12 +417,18 @@ module powerbi.visuals {
             if (objects) {
                 defaultSettings.general.outlineColor = DataViewObjects.getFillColor(objects, slicerProps.general.outlineColor, defaultSettings.general.outlineColor);
                 defaultSettings.general.outlineWeight = DataViewObjects.getValue<number>(objects, slicerProps.general.outlineWeight, defaultSettings.general.outlineWeight);
+                defaultSettings.general.layout = DataViewObjects.getValue<string>(objects, slicerProps.general.layout, defaultSettings.general.layout);
+                defaultSettings.general.singleSelect = DataViewObjects.getValue<boolean>(objects, slicerProps.general.singleSelect, defaultSettings.general.singleSelect);
+
+                defaultSettings.data.mode = DataViewObjects.getValue<string>(objects, slicerProps.data.mode, defaultSettings.data.mode);
 
                 defaultSettings.header.show = DataViewObjects.getValue<boolean>(objects, slicerProps.header.show, defaultSettings.header.show);
                 defaultSettings.header.fontColor = DataViewObjects.getFillColor(objects, slicerProps.header.fontColor, defaultSettings.header.fontColor);
                 defaultSettings.header.background = DataViewObjects.getFillColor(objects, slicerProps.header.background, defaultSettings.header.background);
                 defaultSettings.header.outline = DataViewObjects.getValue<string>(objects, slicerProps.header.outline, defaultSettings.header.outline);
                 defaultSettings.header.textSize = DataViewObjects.getValue<number>(objects, slicerProps.header.textSize, defaultSettings.header.textSize);
+                defaultSettings.header.search = DataViewObjects.getValue<boolean>(objects, slicerProps.header.search, defaultSettings.header.search);
+                defaultSettings.header.searchMode = DataViewObjects.getValue<string>(objects, slicerProps.header.searchMode, defaultSettings.header.searchMode);
 
                 defaultSettings.slicerText.color = DataViewObjects.getFillColor(objects, slicerProps.Rows.fontColor, defaultSettings.slicerText.color);
                 defaultSettings.slicerText.background = DataViewObjects.getFillColor(objects, slicerProps.Rows.background, defaultSettings.slicerText.background);
@@ -284,6 +436,9 @@ module powerbi.visuals {
                 defaultSettings.slicerText.textSize = DataViewObjects.getValue<number>(objects, slicerProps.Rows.textSize, defaultSettings.slicerText.textSize);
             }
 
+            if (defaultSettings.general.singleSelect)
+                slicerDataPoints = _.filter(slicerDataPoints, (d: SlicerDataPoint) => !d.isSelectAllDataPoint);
+
             slicerData = {
                 categorySourceName: categories.source.displayName,
                 formatString: valueFormatter.getFormatString(categories.source, slicerProps.formatString),
@@ -296,9 +451,364 @@ module powerbi.visuals {
                 slicerData.hasSelectionOverride = true;
             }
 
+            let selfFilterPropertyId = DataViewObjectDescriptors.findSelfFilter(slicerCapabilities.objects);
+            let searchText = objects ? Slicer.getSearchText(DataViewObjects.getValue<SemanticFilter>(objects, selfFilterPropertyId)) : undefined;
+            if (searchText)
+                slicerData.searchText = searchText;
+
+            if (dataViewCategorical.categories.length > 1) {
+                slicerData.categorySourceName = _.map(dataViewCategorical.categories, (c: DataViewCategoryColumn) => c.source.displayName).join(' > ');
+                slicerData.treeNodes = Slicer.getTreeNodes(dataViewCategorical.categories);
+            }
+            else if (defaultSettings.data.mode === slicerMode.range) {
+                let filter = objects ? DataViewObjects.getValue<SemanticFilter>(objects, slicerProps.filterPropertyIdentifier) : undefined;
+                let range = Slicer.getRange(categories, Slicer.getRangeBounds(filter), !!dataView.metadata.segment);
+                if (range)
+                    slicerData.range = range;
+            }
+
             return slicerData;
         }
 
+        /** Builds the range of a numeric or date category column, or returns undefined when the column can't be shown as a range. */
+        public static getRange(categories: DataViewCategoryColumn, bounds: SlicerRangeBounds, isPartial: boolean = false): SlicerRange {
+            let type = categories.source.type;
+            if (!type || !(type.numeric || type.dateTime) || _.isEmpty(categories.values))
+                return;
+
+            let isDate = !!type.dateTime;
+            let values: number[] = [];
+            for (let i = 0, len = categories.values.length; i < len; i++) {
+                let value = categories.values[i];
+                if (value == null)
+                    continue;
+
+                let rangeValue = value instanceof Date ? (<Date>value).getTime() : value;
+                if (typeof rangeValue === 'number' && !isNaN(rangeValue))
+                    values.push(rangeValue);
+            }
+
+            if (_.isEmpty(values))
+                return;
+
+            values = _.uniq(values.sort(d3.ascending), true);
+            let min = values[0];
+            let max = values[values.length - 1];
+            let start = bounds && bounds.lower != null ? bounds.lower : min;
+            let end = bounds && bounds.upper != null ? bounds.upper : max;
+
+            return {
+                values: values,
+                min: min,
+                max: max,
+                start: Math.min(start, end),
+                end: Math.max(start, end),
+                isDate: isDate,
+                isInteger: !!type.integer,
+                isPartial: isPartial,
+            };
+        }
+
+        /** Reads the lower and upper bounds back out of a filter created by getRangeFilter. */
+        public static getRangeBounds(filter: SemanticFilter): SlicerRangeBounds {
+            if (!filter)
+                return;
+
+            let conditions = filter.conditions();
+            if (conditions.length !== 1)
+                return;
+
+            let condition = conditions[0];
+            if (condition instanceof powerbi.data.SQBetweenExpr) {
+                let between = <powerbi.data.SQBetweenExpr>condition;
+                return {
+                    lower: Slicer.getRangeBoundValue(between.lower),
+                    upper: Slicer.getRangeBoundValue(between.upper),
+                };
+            }
+
+            if (condition instanceof powerbi.data.SQCompareExpr) {
+                let compare = <powerbi.data.SQCompareExpr>condition;
+                switch (compare.kind) {
+                    case QueryComparisonKind.GreaterThan:
+                    case QueryComparisonKind.GreaterThanOrEqual:
+                        return { lower: Slicer.getRangeBoundValue(compare.right) };
+                    case QueryComparisonKind.LessThan:
+                    case QueryComparisonKind.LessThanOrEqual:
+                        return { upper: Slicer.getRangeBoundValue(compare.right) };
+                }
+            }
+        }
+
+        private static getRangeBoundValue(expr: SQExpr): number {
+            if (!(expr instanceof powerbi.data.SQConstantExpr))
+                return;
+
+            let value = (<powerbi.data.SQConstantExpr>expr).value;
+            return value instanceof Date ? (<Date>value).getTime() : value;
+        }
+
+        /**
+         * Creates the filter for the selected range.
+         * A handle left at the end of the data leaves that side of the range open, and no filter is returned when both are.
+         */
+        public static getRangeFilter(identityFields: SQExpr[], range: SlicerRange): SemanticFilter {
+            if (_.isEmpty(identityFields) || !range)
+                return;
+
+            let field = identityFields[0];
+            let isLowerOpen = range.start <= range.min;
+            let isUpperOpen = range.end >= range.max;
+            let expr: SQExpr;
+
+            if (isLowerOpen && isUpperOpen)
+                return;
+            else if (isLowerOpen)
+                expr = SQExprBuilder.compare(QueryComparisonKind.LessThanOrEqual, field, Slicer.getRangeConstant(range.end, range));
+            else if (isUpperOpen)
+                expr = SQExprBuilder.compare(QueryComparisonKind.GreaterThanOrEqual, field, Slicer.getRangeConstant(range.start, range));
+            else
+                expr = SQExprBuilder.between(field, Slicer.getRangeConstant(range.start, range), Slicer.getRangeConstant(range.end, range));
+
+            return SemanticFilter.fromSQExpr(expr);
+        }
+
+        private static getRangeConstant(value: number, range: SlicerRange): SQExpr {
+            if (range.isDate)
+                return SQExprBuilder.dateTime(new Date(value));
+
+            return range.isInteger ? SQExprBuilder.integer(value) : SQExprBuilder.double(value);
+        }
+
+        /**
+         * Parses the text typed into one of the range inputs with the separators, currency and percent symbols of the culture,
+         * returning NaN when it isn't a value.
+         */
+        public static parseRangeInput(text: string, isDate: boolean, formatString: string, cultureSelector: string = formattingService.getCulture().name): number {
+            if (isDate) {
+                let date = (formatString && Globalize.parseDate(text, [formatString], cultureSelector)) || Globalize.parseDate(text, undefined, cultureSelector);
+                return date ? date.getTime() : NaN;
+            }
+
+            let value = Globalize.parseFloat(text, cultureSelector);
+            // Percent formats show the values multiplied by 100
+            if (formatString && valueFormatter.getFormatMetadata(formatString).hasPercent)
+                value /= 100;
+
+            return value;
+        }
+
+        /**
+         * Builds the tree of a hierarchy from its level columns, where a row of the categorical holds one value per level.
+         * The selection read from the data applies to the leaves, and the parents are derived from them.
+         */
+        public static getTreeNodes(categories: DataViewCategoryColumn[]): SlicerTreeNode[] {
+            let roots: SlicerTreeNode[] = [];
+            let levelCount = categories.length;
+            let rowCount = categories[0].values ? categories[0].values.length : 0;
+            let nodesByKey: { [key: string]: SlicerTreeNode } = {};
+
+            for (let row = 0; row < rowCount; row++) {
+                let siblings = roots;
+                let parentExpr: SQExpr;
+
+                for (let level = 0; level < levelCount; level++) {
+                    let column = categories[level];
+                    if (!column.identity || !column.identity[row])
+                        break;
+
+                    let expr = SQExprBuilder.and(parentExpr, column.identity[row].expr);
+                    let identity = powerbi.data.createDataViewScopeIdentity(expr);
+                    let node = nodesByKey[identity.key];
+                    if (!node) {
+                        node = {
+                            value: column.values[row],
+                            level: level,
+                            identity: identity,
+                            children: [],
+                            selected: false,
+                            partiallySelected: false,
+                        };
+                        nodesByKey[identity.key] = node;
+                        siblings.push(node);
+                    }
+
+                    if (level === levelCount - 1 && Slicer.isTreeRowSelected(categories, row))
+                        node.selected = true;
+
+                    parentExpr = expr;
+                    siblings = node.children;
+                }
+            }
+
+            Slicer.updateTreeSelection(roots);
+            return roots;
+        }
+
+        private static isTreeRowSelected(categories: DataViewCategoryColumn[], row: number): boolean {
+            for (let i = 0, len = categories.length; i < len; i++) {
+                if (isCategoryColumnSelected(slicerProps.selectedPropertyIdentifier, categories[i], row))
+                    return true;
+            }
+            return false;
+        }
+
+        /** Derives the tri-state of the parents from the state of their leaves. */
+        public static updateTreeSelection(nodes: SlicerTreeNode[]): void {
+            for (let i = 0, len = nodes.length; i < len; i++) {
+                let node = nodes[i];
+                let children = node.children;
+                if (_.isEmpty(children)) {
+                    node.partiallySelected = false;
+                    continue;
+                }
+
+                Slicer.updateTreeSelection(children);
+                node.selected = _.every(children, (child: SlicerTreeNode) => child.selected);
+                node.partiallySelected = !node.selected && _.some(children, (child: SlicerTreeNode) => child.selected || child.partiallySelected);
+            }
+        }
+
+        /** Selects or deselects a node along with all of its descendants. */
+        public static setTreeNodeSelected(node: SlicerTreeNode, selected: boolean): void {
+            node.selected = selected;
+            node.partiallySelected = false;
+
+            let children = node.children;
+            for (let i = 0, len = children.length; i < len; i++)
+                Slicer.setTreeNodeSelected(children[i], selected);
+        }
+
+        /**
+         * Creates the filter for the selected nodes.
+         * A fully selected node is filtered by its own identity rather than by each of its descendants.
+         */
+        public static getTreeFilter(nodes: SlicerTreeNode[]): SemanticFilter {
+            let identities: DataViewScopeIdentity[] = [];
+            let collect = (nodes: SlicerTreeNode[]) => {
+                for (let i = 0, len = nodes.length; i < len; i++) {
+                    let node = nodes[i];
+                    if (node.selected)
+                        identities.push(node.identity);
+                    else if (node.partiallySelected)
+                        collect(node.children);
+                }
+            };
+            collect(nodes);
+
+            return DataViewScopeIdentity.filterFromIdentity(identities);
+        }
+
+        /** Returns the nodes of the deepest level, in display order. */
+        public static getTreeLeaves(nodes: SlicerTreeNode[]): SlicerTreeNode[] {
+            let leaves: SlicerTreeNode[] = [];
+            let collect = (nodes: SlicerTreeNode[]) => {
+                for (let i = 0, len = nodes.length; i < len; i++) {
+                    let node = nodes[i];
+                    if (_.isEmpty(node.children))
+                        leaves.push(node);
+                    else
+                        collect(node.children);
+                }
+            };
+            collect(nodes);
+
+            return leaves;
+        }
+
+        /** Flattens the nodes that are visible given the expanded ones, in display order. */
+        public static getVisibleTreeNodes(nodes: SlicerTreeNode[], expandedNodes: { [key: string]: boolean }): SlicerTreeNode[] {
+            let visibleNodes: SlicerTreeNode[] = [];
+            let collect = (nodes: SlicerTreeNode[]) => {
+                for (let i = 0, len = nodes.length; i < len; i++) {
+                    let node = nodes[i];
+                    visibleNodes.push(node);
+                    if (expandedNodes[node.identity.key])
+                        collect(node.children);
+                }
+            };
+            collect(nodes);
+
+            return visibleNodes;
+        }
+
+        /** Snaps a value to the nearest value that exists in the data. */
+        public static snapToRange(value: number, range: SlicerRange): number {
+            let values = range.values;
+            let index = d3.bisectLeft(values, value);
+            if (index <= 0)
+                return values[0];
+            if (index >= values.length)
+                return values[values.length - 1];
+
+            let lower = values[index - 1];
+            let upper = values[index];
+            return value - lower < upper - value ? lower : upper;
+        }
+
+        private static getImageColumn(dataViewCategorical: DataViewCategorical): DataViewValueColumn {
+            let values = dataViewCategorical.values;
+            if (!values)
+                return;
+
+            for (let i = 0, len = values.length; i < len; i++) {
+                let roles = values[i].source.roles;
+                if (roles && roles['Image'])
+                    return values[i];
+            }
+        }
+
+        /**
+         * Creates the self filter that pushes a search into the slicer's own query.
+         * Returns undefined when there is nothing to search for.
+         */
+        public static getSearchFilter(identityFields: SQExpr[], searchText: string, searchMode: string): SemanticFilter {
+            if (_.isEmpty(identityFields) || !searchText)
+                return;
+
+            let text = SQExprBuilder.text(searchText);
+            let expr = searchMode === slicerSearchMode.startsWith
+                ? SQExprBuilder.startsWith(identityFields[0], text)
+                : SQExprBuilder.contains(identityFields[0], text);
+
+            return SemanticFilter.fromSQExpr(expr);
+        }
+
+        /** Reads the search text back out of a self filter created by getSearchFilter. */
+        public static getSearchText(filter: SemanticFilter): string {
+            if (!filter)
+                return;
+
+            let conditions = filter.conditions();
+            if (conditions.length !== 1)
+                return;
+
+            let condition = conditions[0];
+            if (condition instanceof powerbi.data.SQContainsExpr || condition instanceof powerbi.data.SQStartsWithExpr) {
+                let right = (<powerbi.data.SQContainsExpr>condition).right;
+                if (right instanceof powerbi.data.SQConstantExpr)
+                    return (<powerbi.data.SQConstantExpr>right).value;
+            }
+        }
+
+        /**
+         * Narrows the loaded data points to the ones whose formatted value matches the search text.
+         * The Select All item is dropped while searching, since it would act on items that are not shown.
+         */
+        public static filterDataPoints(dataPoints: SlicerDataPoint[], searchText: string, searchMode: string, formatString: string): SlicerDataPoint[] {
+            if (!searchText)
+                return dataPoints;
+
+            let search = searchText.toLocaleLowerCase();
+            return _.filter(dataPoints, (d: SlicerDataPoint) => {
+                if (d.isSelectAllDataPoint)
+                    return false;
+
+                let index = valueFormatter.format(d.value, formatString).toLocaleLowerCase().indexOf(search);
+                return searchMode === slicerSearchMode.startsWith ? index === 0 : index >= 0;
+            });
+        }
+
         public init(options: VisualInitOptions): void {
             this.element = options.element;
             this.currentViewport = options.viewport;
@@ -307,6 +817,7 @@ module powerbi.visuals {
             }
             this.hostServices = options.host;
             this.settings = Slicer.DefaultStyleProperties();
+            this.searchThrottler = new jsCommon.ThrottleUtility(Slicer.SearchThrottleDelay);
 
             this.initContainer();
         }
@@ -329,6 +840,11 @@ module powerbi.visuals {
 
             this.updateInternal(resetScrollbarPosition);
             this.waitingForData = false;
+
+            // The range has no scrolling to load the remaining rows on demand, they are needed for its bounds though
+            let data = this.slicerData;
+            if (data && data.range && data.range.isPartial)
+                this.onLoadMoreData();
         }
 
         public onResizing(finalViewport: IViewport): void {
@@ -349,6 +865,14 @@ module powerbi.visuals {
                     return this.enumerateHeader(data);
                 case 'general':
                     return this.enumerateGeneral(data);
+                case 'data':
+                    return [{
+                        selector: null,
+                        objectName: 'data',
+                        properties: {
+                            mode: this.settings.data.mode,
+                        }
+                    }];
             }
         }
 
@@ -367,6 +891,8 @@ module powerbi.visuals {
                     background: background,
                     outline: slicerSettings.header.outline,
                     textSize: slicerSettings.header.textSize,
+                    search: slicerSettings.header.search,
+                    searchMode: slicerSettings.header.searchMode,
                 }
             }];
         }
@@ -401,7 +927,9 @@ module powerbi.visuals {
                 objectName: 'general',
                 properties: {
                     outlineColor: outlineColor,
-                    outlineWeight: outlineWeight
+                    outlineWeight: outlineWeight,
+                    layout: slicerSettings.general.layout,
+                    singleSelect: slicerSettings.general.singleSelect,
                 }
             }];
         }
@@ -413,6 +941,9 @@ module powerbi.visuals {
             let data = Slicer.converter(this.dataView, localizedSelectAllText, this.interactivityService);
             if (!data) {
                 this.listView.empty();
+                this.slicerRange.style('display', 'none');
+                this.slicerTree.style('display', 'none');
+                this.slicerTiles.style('display', 'none');
                 return;
             }
 
@@ -420,6 +951,53 @@ module powerbi.visuals {
             this.slicerData = data;
             this.settings = this.slicerData.slicerSettings;
 
+            this.isSelfFilterApplied = !!data.searchText;
+            if (!this.isSelfFilterApplied)
+                this.isSelfFilterCleared = false;
+
+            if (!this.isSearchVisible()) {
+                // Without the search box the persisted search could not be cleared anymore, so it is dropped from the query
+                this.searchText = undefined;
+                if (this.isSelfFilterApplied && !this.isSelfFilterCleared) {
+                    this.isSelfFilterCleared = true;
+                    this.persistSelfFilter();
+                }
+            }
+            else if (this.searchText === undefined && data.searchText) {
+                this.searchText = data.searchText;
+            }
+
+            this.updateSearchHeader();
+            this.updateSlicerBodyDimensions();
+
+            this.slicerRange.style('display', 'none');
+            this.slicerTree.style('display', 'none');
+            this.slicerTiles.style('display', 'none');
+
+            if (data.range || data.treeNodes) {
+                this.listView.empty();
+                this.slicerBody.style('display', 'none');
+                this.updateHeader();
+                if (data.range)
+                    this.renderRange();
+                else
+                    this.renderTree();
+                return;
+            }
+
+            if (this.isSearchVisible())
+                data.slicerDataPoints = Slicer.filterDataPoints(data.slicerDataPoints, this.searchText, data.slicerSettings.header.searchMode, data.formatString);
+
+            if (data.slicerSettings.general.layout === slicerLayout.tiles) {
+                this.listView.empty();
+                this.slicerBody.style('display', 'none');
+                this.updateHeader();
+                this.renderTiles(resetScrollbarPosition);
+                return;
+            }
+
+            this.slicerBody.style('display', null);
+
             this.listView
                 .viewport(this.getSlicerBodyViewport(this.currentViewport))
                 .rowHeight(this.getRowHeight())
@@ -449,12 +1027,38 @@ module powerbi.visuals {
                     'font-size': PixelConverter.fromPoint(settings.header.textSize),
                 });
 
+            this.slicerHeader.append('div')
+                .classed(Slicer.SearchHeader.class, true)
+                .style('display', 'none')
+                .append('input')
+                .classed(Slicer.SearchInput.class, true)
+                .attr({
+                    'type': 'text',
+                    'placeholder': this.hostServices.getLocalizedString(Slicer.searchTextKey),
+                })
+                .on('input', () => this.onSearchTextChanged((<HTMLInputElement>d3.event.target).value));
+
             this.slicerBody = slicerContainer.append('div').classed(Slicer.Body.class, true)
                 .style({
                     'height': PixelConverter.toString(slicerBodyViewport.height),
                     'width': PixelConverter.toString(slicerBodyViewport.width),
                 });
 
+            this.initRangeContainer(slicerContainer);
+
+            this.slicerTree = slicerContainer.append('div')
+                .classed(Slicer.Tree.class, true)
+                .style('display', 'none');
+
+            this.slicerTiles = slicerContainer.append('div')
+                .classed(Slicer.Tiles.class, true)
+                .style('display', 'none')
+                .on('scroll', () => {
+                    let node = <HTMLElement>this.slicerTiles.node();
+                    if (node.scrollTop + node.clientHeight >= node.scrollHeight - Slicer.TilesLoadMoreThreshold)
+                        this.onLoadMoreData();
+                });
+
             let rowEnter = (rowSelection: D3.Selection) => {
                 let settings = this.settings;
                 let listItemElement = rowSelection.append('li')
@@ -480,23 +1084,7 @@ module powerbi.visuals {
                 let settings = this.settings;
                 let data = this.slicerData;
                 if (data && settings) {
-
-                    if (settings.header.show) {
-                        this.slicerHeader.style('display', 'block');
-                        this.slicerHeader.select(Slicer.HeaderText.selector)
-                            .text(this.slicerData.categorySourceName)
-                            .style({
-                                'border-style': this.getBorderStyle(settings.header.outline),
-                                'border-color': settings.general.outlineColor,
-                                'border-width': this.getBorderWidth(settings.header.outline, settings.general.outlineWeight),
-                                'color': settings.header.fontColor,
-                                'background-color': settings.header.background,
-                                'font-size': PixelConverter.fromPoint(settings.header.textSize),
-                            });
-                    }
-                    else {
-                        this.slicerHeader.style('display', 'none');
-                    }
+                    this.updateHeader();
 
                     let slicerText = rowSelection.selectAll(Slicer.LabelText.selector);
                     let formatString = data.formatString;
@@ -515,22 +1103,7 @@ module powerbi.visuals {
 
                     if (this.interactivityService && this.slicerBody) {
                         let slicerBody = this.slicerBody.attr('width', this.currentViewport.width);
-                        let slicerItemContainers = slicerBody.selectAll(Slicer.ItemContainer.selector);
-                        let slicerItemLabels = slicerBody.selectAll(Slicer.LabelText.selector);
-                        let slicerItemInputs = slicerBody.selectAll(Slicer.Input.selector);
-                        let slicerClear = this.slicerHeader.select(Slicer.Clear.selector);
-
-                        let behaviorOptions: SlicerBehaviorOptions = {
-                            dataPoints: data.slicerDataPoints,
-                            slicerItemContainers: slicerItemContainers,
-                            slicerItemLabels: slicerItemLabels,
-                            slicerItemInputs: slicerItemInputs,
-                            slicerClear: slicerClear,
-                            interactivityService: this.interactivityService,
-                            slicerSettings: data.slicerSettings,
-                        };
-
-                        this.interactivityService.bind(data.slicerDataPoints, this.behavior, behaviorOptions, { overrideSelectionFromData: true, hasSelectionOverride: data.hasSelectionOverride });
+                        this.bindInteractivity(slicerBody, Slicer.ItemContainer);
                         SlicerWebBehavior.styleSlicerInputs(rowSelection.select(Slicer.Input.selector), this.interactivityService.hasSelection());
                     }
                     else {
@@ -557,6 +1130,435 @@ module powerbi.visuals {
             this.listView = ListViewFactory.createListView(listViewOptions);
         }
 
+        private bindInteractivity(container: D3.Selection, itemContainer: ClassAndSelector): void {
+            let data = this.slicerData;
+            let behaviorOptions: SlicerBehaviorOptions = {
+                dataPoints: data.slicerDataPoints,
+                slicerItemContainers: container.selectAll(itemContainer.selector),
+                slicerItemLabels: container.selectAll(Slicer.LabelText.selector),
+                slicerItemInputs: container.selectAll(Slicer.Input.selector),
+                slicerClear: this.slicerHeader.select(Slicer.Clear.selector),
+                interactivityService: this.interactivityService,
+                slicerSettings: data.slicerSettings,
+            };
+
+            this.interactivityService.bind(data.slicerDataPoints, this.behavior, behaviorOptions, { overrideSelectionFromData: true, hasSelectionOverride: data.hasSelectionOverride });
+        }
+
+        private renderTiles(resetScrollbarPosition: boolean): void {
+            let data = this.slicerData;
+            let settings = this.settings;
+            let viewport = this.getSlicerBodyViewport(this.currentViewport);
+
+            this.slicerTiles.style({
+                'display': 'block',
+                'height': PixelConverter.toString(viewport.height),
+                'width': PixelConverter.toString(viewport.width),
+            });
+
+            if (resetScrollbarPosition)
+                this.slicerTiles.property('scrollTop', 0);
+
+            let tiles = this.slicerTiles.selectAll(Slicer.Tile.selector)
+                .data(data.slicerDataPoints, (d: SlicerDataPoint) => d.identity.getKey());
+
+            let tilesEnter = tiles.enter()
+                .append('div')
+                .classed(Slicer.Tile.class, true);
+
+            tilesEnter.append('img')
+                .classed(Slicer.TileImage.class, true);
+
+            tilesEnter.append('span')
+                .classed(Slicer.LabelText.class, true);
+
+            tiles
+                .order()
+                .style({
+                    'border-color': settings.general.outlineColor,
+                    'border-width': PixelConverter.toString(settings.general.outlineWeight),
+                    'background-color': settings.slicerText.background,
+                    'font-size': PixelConverter.fromPoint(settings.slicerText.textSize),
+                })
+                .classed('selected', (d: SlicerDataPoint) => d.selected);
+
+            tiles.select(Slicer.TileImage.selector)
+                .attr('src', (d: SlicerDataPoint) => d.imageUrl || null)
+                .style('display', (d: SlicerDataPoint) => d.imageUrl ? null : 'none');
+
+            let formatString = data.formatString;
+            tiles.select(Slicer.LabelText.selector)
+                .text((d: SlicerDataPoint) => valueFormatter.format(d.value, formatString))
+                .style('color', (d: SlicerDataPoint) => d.selected ? settings.slicerText.selectionColor : settings.slicerText.color);
+
+            tiles.exit().remove();
+
+            if (this.interactivityService)
+                this.bindInteractivity(this.slicerTiles, Slicer.Tile);
+        }
+
+        private updateHeader(): void {
+            let settings = this.settings;
+            if (settings.header.show) {
+                this.slicerHeader.style('display', 'block');
+                this.slicerHeader.select(Slicer.HeaderText.selector)
+                    .text(this.slicerData.categorySourceName)
+                    .style({
+                        'border-style': this.getBorderStyle(settings.header.outline),
+                        'border-color': settings.general.outlineColor,
+                        'border-width': this.getBorderWidth(settings.header.outline, settings.general.outlineWeight),
+                        'color': settings.header.fontColor,
+                        'background-color': settings.header.background,
+                        'font-size': PixelConverter.fromPoint(settings.header.textSize),
+                    });
+            }
+            else {
+                this.slicerHeader.style('display', 'none');
+            }
+        }
+
+        private onSearchTextChanged(searchText: string): void {
+            this.searchText = searchText;
+            this.updateInternal(true /* resetScrollbarPosition */);
+
+            // When not all rows are loaded the client can only narrow what it has, so the search is pushed into the query as well.
+            // The self filter also has to be updated once applied, otherwise the query would stay narrowed to the old search.
+            let dataView = this.dataView;
+            if (dataView && dataView.metadata && (dataView.metadata.segment || this.isSelfFilterApplied))
+                this.searchThrottler.run(() => this.persistSelfFilter());
+        }
+
+        private persistSelfFilter(): void {
+            let dataView = this.dataView;
+            let settings = this.settings;
+            if (!dataView || !dataView.categorical || _.isEmpty(dataView.categorical.categories))
+                return;
+
+            let identityFields = dataView.categorical.categories[0].identityFields;
+            let selfFilterPropertyId = DataViewObjectDescriptors.findSelfFilter(slicerCapabilities.objects);
+            let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+            properties[selfFilterPropertyId.propertyName] = Slicer.getSearchFilter(identityFields, this.searchText, settings.header.searchMode);
+
+            this.hostServices.persistProperties({
+                merge: [<VisualObjectInstance> {
+                    objectName: selfFilterPropertyId.objectName,
+                    selector: undefined,
+                    properties: properties
+                }]
+            });
+        }
+
+        private updateSearchHeader(): void {
+            let showSearch = this.isSearchVisible();
+            let searchHeader = this.slicerHeader.select(Slicer.SearchHeader.selector)
+                .style('display', showSearch ? 'block' : 'none');
+
+            let searchInput = <HTMLInputElement>searchHeader.select(Slicer.SearchInput.selector).node();
+            let searchText = this.searchText || '';
+            if (searchInput.value !== searchText)
+                searchInput.value = searchText;
+        }
+
+        private isSearchVisible(): boolean {
+            let headerSettings = this.settings.header;
+            let data = this.slicerData;
+            let isListMode = !data || (!data.range && !data.treeNodes);
+            return headerSettings.show && headerSettings.search && isListMode;
+        }
+
+        private initRangeContainer(slicerContainer: D3.Selection): void {
+            this.slicerRange = slicerContainer.append('div')
+                .classed(Slicer.Range.class, true)
+                .style('display', 'none');
+
+            let inputs = this.slicerRange.append('div').classed('rangeInputs', true);
+            inputs.selectAll(Slicer.RangeInput.selector)
+                .data([0, 1])
+                .enter()
+                .append('input')
+                .classed(Slicer.RangeInput.class, true)
+                .attr('type', 'text')
+                .on('change', (handleIndex: number) => this.onRangeInputChanged(handleIndex, (<HTMLInputElement>d3.event.target).value));
+
+            let slider = this.slicerRange.append('svg').classed(Slicer.RangeSlider.class, true);
+            slider.append('line').classed(Slicer.RangeTrack.class, true);
+            slider.append('line').classed(Slicer.RangeSelection.class, true);
+
+            let drag = d3.behavior.drag()
+                .on('dragstart', () => this.isRangeHandleMoved = false)
+                .on('drag', (handleIndex: number) => this.onRangeHandleDragged(handleIndex, d3.event.x))
+                .on('dragend', () => {
+                    if (this.isRangeHandleMoved)
+                        this.persistRangeFilter();
+                });
+
+            slider.selectAll(Slicer.RangeHandle.selector)
+                .data([0, 1])
+                .enter()
+                .append('circle')
+                .classed(Slicer.RangeHandle.class, true)
+                .attr('r', Slicer.RangeHandleRadius)
+                .call(drag);
+
+            slider.selectAll(Slicer.RangeLabel.selector)
+                .data([0, 1])
+                .enter()
+                .append('text')
+                .classed(Slicer.RangeLabel.class, true)
+                .style('text-anchor', (handleIndex: number) => handleIndex === 0 ? 'start' : 'end');
+        }
+
+        private getRangeScale(): D3.Scale.LinearScale {
+            let range = this.slicerData.range;
+            let width = this.getSlicerBodyViewport(this.currentViewport).width - Slicer.RangeMargin * 2;
+            return d3.scale.linear()
+                .domain([range.min, range.max])
+                .range([Slicer.RangeHandleRadius, Math.max(Slicer.RangeHandleRadius, width - Slicer.RangeHandleRadius)])
+                .clamp(true);
+        }
+
+        private formatRangeValue(value: number): string {
+            let data = this.slicerData;
+            return valueFormatter.format(data.range.isDate ? new Date(value) : value, data.formatString);
+        }
+
+        private renderRange(): void {
+            let data = this.slicerData;
+            let range = data.range;
+            let viewport = this.getSlicerBodyViewport(this.currentViewport);
+            let scale = this.getRangeScale();
+            let settings = this.settings;
+
+            this.slicerRange.style({
+                'display': 'block',
+                'height': PixelConverter.toString(viewport.height),
+                'width': PixelConverter.toString(viewport.width),
+                'font-size': PixelConverter.fromPoint(settings.slicerText.textSize),
+                'color': settings.slicerText.color,
+            });
+
+            // Until all rows are loaded the bounds aren't known, so the range can't be changed yet
+            this.slicerRange.selectAll(Slicer.RangeInput.selector)
+                .property('value', (handleIndex: number) => this.formatRangeValue(handleIndex === 0 ? range.start : range.end))
+                .property('disabled', range.isPartial);
+
+            this.slicerHeader.select(Slicer.Clear.selector).on('click', () => {
+                range.start = range.min;
+                range.end = range.max;
+                this.persistRangeFilter();
+                this.renderRange();
+            });
+
+            let slider = this.slicerRange.select(Slicer.RangeSlider.selector)
+                .attr({
+                    'width': Math.max(0, viewport.width - Slicer.RangeMargin * 2),
+                    'height': Slicer.RangeSliderHeight,
+                });
+
+            let trackY = Slicer.RangeHandleRadius + 1;
+            slider.select(Slicer.RangeTrack.selector)
+                .attr({
+                    'x1': scale.range()[0],
+                    'x2': scale.range()[1],
+                    'y1': trackY,
+                    'y2': trackY,
+                });
+
+            slider.select(Slicer.RangeSelection.selector)
+                .attr({
+                    'x1': scale(range.start),
+                    'x2': scale(range.end),
+                    'y1': trackY,
+                    'y2': trackY,
+                })
+                .style('stroke', settings.slicerText.selectionColor);
+
+            slider.selectAll(Slicer.RangeHandle.selector)
+                .attr({
+                    'cx': (handleIndex: number) => scale(handleIndex === 0 ? range.start : range.end),
+                    'cy': trackY,
+                })
+                .style('stroke', settings.general.outlineColor);
+
+            let labelY = Slicer.RangeSliderHeight - 4;
+            slider.selectAll(Slicer.RangeLabel.selector)
+                .attr({
+                    'x': (handleIndex: number) => handleIndex === 0 ? 0 : scale.range()[1] + Slicer.RangeHandleRadius,
+                    'y': labelY,
+                })
+                .style('fill', settings.slicerText.color)
+                .text((handleIndex: number) => this.formatRangeValue(handleIndex === 0 ? range.min : range.max) + (range.isPartial ? '...' : ''));
+        }
+
+        private onRangeHandleDragged(handleIndex: number, x: number): void {
+            let range = this.slicerData.range;
+            if (range.isPartial)
+                return;
+
+            let value = Slicer.snapToRange(this.getRangeScale().invert(x), range);
+            let start = range.start;
+            let end = range.end;
+            this.setRangeValue(handleIndex, value);
+            if (range.start !== start || range.end !== end)
+                this.isRangeHandleMoved = true;
+
+            this.renderRange();
+        }
+
+        private onRangeInputChanged(handleIndex: number, text: string): void {
+            let range = this.slicerData.range;
+            let value = Slicer.parseRangeInput(text, range.isDate, this.slicerData.formatString);
+            if (!range.isPartial && !isNaN(value)) {
+                this.setRangeValue(handleIndex, Math.max(range.min, Math.min(range.max, value)));
+                this.persistRangeFilter();
+            }
+
+            this.renderRange();
+        }
+
+        private setRangeValue(handleIndex: number, value: number): void {
+            let range = this.slicerData.range;
+            if (handleIndex === 0)
+                range.start = Math.min(value, range.end);
+            else
+                range.end = Math.max(value, range.start);
+        }
+
+        private persistRangeFilter(): void {
+            let dataView = this.dataView;
+            let data = this.slicerData;
+            if (!data || !data.range || !dataView.categorical || _.isEmpty(dataView.categorical.categories))
+                return;
+
+            this.persistFilter(Slicer.getRangeFilter(dataView.categorical.categories[0].identityFields, data.range));
+        }
+
+        private renderTree(): void {
+            let data = this.slicerData;
+            let settings = this.settings;
+            let viewport = this.getSlicerBodyViewport(this.currentViewport);
+            let visibleNodes = Slicer.getVisibleTreeNodes(data.treeNodes, this.expandedTreeNodes);
+
+            this.slicerTree.style({
+                'display': 'block',
+                'height': PixelConverter.toString(viewport.height),
+                'width': PixelConverter.toString(viewport.width),
+            });
+
+            this.slicerHeader.select(Slicer.Clear.selector).on('click', () => {
+                for (let i = 0, len = data.treeNodes.length; i < len; i++)
+                    Slicer.setTreeNodeSelected(data.treeNodes[i], false);
+                this.persistTreeFilter();
+                this.renderTree();
+            });
+
+            let items = this.slicerTree.selectAll(Slicer.TreeItem.selector)
+                .data(visibleNodes, (node: SlicerTreeNode) => node.identity.key);
+
+            let itemsEnter = items.enter()
+                .append('div')
+                .classed(Slicer.TreeItem.class, true);
+
+            itemsEnter.append('span')
+                .classed(Slicer.TreeExpander.class, true)
+                .on('click', (node: SlicerTreeNode) => {
+                    let key = node.identity.key;
+                    this.expandedTreeNodes[key] = !this.expandedTreeNodes[key];
+                    this.renderTree();
+                });
+
+            let checkboxEnter = itemsEnter.append('div')
+                .classed(Slicer.Input.class, true);
+            checkboxEnter.append('input')
+                .attr('type', 'checkbox');
+            checkboxEnter.append('span');
+
+            itemsEnter.append('span')
+                .classed(Slicer.LabelText.class, true);
+
+            itemsEnter.selectAll(Slicer.Input.selector + ', ' + Slicer.LabelText.selector)
+                .on('click', (node: SlicerTreeNode) => {
+                    d3.event.preventDefault();
+                    Slicer.setTreeNodeSelected(node, !node.selected);
+                    Slicer.updateTreeSelection(data.treeNodes);
+                    this.persistTreeFilter();
+                    this.renderTree();
+                });
+
+            // The order of the visible nodes changes as nodes are expanded, so the items are re-sorted to match.
+            items
+                .order()
+                .style({
+                    'padding-left': (node: SlicerTreeNode) => PixelConverter.toString(node.level * Slicer.TreeIndent),
+                    'font-size': PixelConverter.fromPoint(settings.slicerText.textSize),
+                });
+
+            items.select(Slicer.TreeExpander.selector)
+                .classed({
+                    'expanded': (node: SlicerTreeNode) => !!this.expandedTreeNodes[node.identity.key],
+                    'leaf': (node: SlicerTreeNode) => _.isEmpty(node.children),
+                });
+
+            items.select(Slicer.Input.selector).select('span')
+                .style(this.buildCheckboxStyle());
+
+            items.select('input')
+                .property('checked', (node: SlicerTreeNode) => node.selected)
+                .classed('partiallySelected', (node: SlicerTreeNode) => node.partiallySelected);
+
+            let formatStrings = _.map(this.dataView.categorical.categories, (c: DataViewCategoryColumn) => valueFormatter.getFormatString(c.source, slicerProps.formatString));
+            items.select(Slicer.LabelText.selector)
+                .text((node: SlicerTreeNode) => valueFormatter.format(node.value, formatStrings[node.level]))
+                .style({
+                    'color': (node: SlicerTreeNode) => node.selected ? settings.slicerText.selectionColor : settings.slicerText.color,
+                    'background-color': settings.slicerText.background,
+                });
+
+            items.exit().remove();
+        }
+
+        /**
+         * Persists the filter of the selected nodes along with the selected state of every leaf.
+         * The host hands the latter back in the objects of the categories, which is where getTreeNodes reads the selection from.
+         */
+        private persistTreeFilter(): void {
+            let data = this.slicerData;
+            if (!data || !data.treeNodes)
+                return;
+
+            let selectedPropertyId = slicerProps.selectedPropertyIdentifier;
+            let instances = [Slicer.createFilterInstance(Slicer.getTreeFilter(data.treeNodes))];
+            for (let leaf of Slicer.getTreeLeaves(data.treeNodes)) {
+                let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+                properties[selectedPropertyId.propertyName] = leaf.selected;
+                instances.push({
+                    objectName: selectedPropertyId.objectName,
+                    selector: SelectionId.createWithId(leaf.identity).getSelector(),
+                    properties: properties
+                });
+            }
+
+            this.hostServices.persistProperties({ merge: instances });
+        }
+
+        private persistFilter(filter: SemanticFilter): void {
+            this.hostServices.persistProperties({
+                merge: [Slicer.createFilterInstance(filter)]
+            });
+        }
+
+        private static createFilterInstance(filter: SemanticFilter): VisualObjectInstance {
+            let filterPropertyId = slicerProps.filterPropertyIdentifier;
+            let properties: { [propertyName: string]: DataViewPropertyValue } = {};
+            properties[filterPropertyId.propertyName] = filter;
+
+            return {
+                objectName: filterPropertyId.objectName,
+                selector: undefined,
+                properties: properties
+            };
+        }
+
         private onLoadMoreData(): void {
             if (!this.waitingForData && this.dataView.metadata && this.dataView.metadata.segment) {
                 this.hostServices.loadMoreData();
@@ -567,6 +1569,8 @@ module powerbi.visuals {
         private getSlicerBodyViewport(currentViewport: IViewport): IViewport {
             let settings = this.settings;
             let headerHeight = (settings.header.show) ? this.getHeaderHeight() : 0;
+            if (this.isSearchVisible())
+                headerHeight += Slicer.SearchHeaderHeight;
             let slicerBodyHeight = currentViewport.height - (headerHeight + settings.header.borderBottomWidth);
             return {
                 height: slicerBodyHeight,
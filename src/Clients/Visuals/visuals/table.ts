@@ -30,6 +30,10 @@ module powerbi.visuals {
 
     export interface DataViewVisualTable extends DataViewTable {
         visualRows?: DataViewVisualTableRow[];
+        /** Columns in display order, i.e. the persisted column order followed by the columns it does not mention. */
+        visualColumns?: DataViewMetadataColumn[];
+        /** Conditional formatting of each column, indexed by the position of the column in the table. */
+        columnFormatting?: TableColumnFormatting[];
     }
 
     export interface DataViewVisualTableRow {
@@ -49,6 +53,40 @@ module powerbi.visuals {
         isBottomMost: boolean;
         showUrl: boolean;
         showImage?: boolean;
+        backgroundColor?: string;
+        fontColor?: string;
+        dataBar?: TableCellDataBar;
+        iconContent?: JQuery;
+        /** Position of a body cell that can be part of a range selection. Undefined for total cells. */
+        rowIndex?: number;
+        columnIndex?: number;
+    }
+
+    /** Position of an in-cell data bar, as percentages of the cell width. */
+    export interface TableCellDataBar {
+        offset: number;
+        width: number;
+        color: string;
+    }
+
+    export interface TableColumnFormatting {
+        backgroundColor?: IColorAllocator;
+        fontColor?: IColorAllocator;
+        dataBars?: TableDataBarsFormatting;
+        iconSet?: TableIconSetFormatting;
+    }
+
+    export interface TableDataBarsFormatting {
+        min: number;
+        max: number;
+        positiveColor: string;
+        negativeColor: string;
+    }
+
+    export interface TableIconSetFormatting {
+        statusGraphic: string;
+        lowerValue: number;
+        upperValue: number;
     }
 
     export interface TableTotal {
@@ -118,7 +156,14 @@ module powerbi.visuals {
         }
 
         private getColumnIndex(item: any): number {
-            return TableHierarchyNavigator.getIndex(this.tableDataView.columns, item);
+            return TableHierarchyNavigator.getIndex(this.getColumns(), item);
+        }
+
+        /**
+         * Returns the columns in display order.
+         */
+        public getColumns(): DataViewMetadataColumn[] {
+            return this.tableDataView.visualColumns || this.tableDataView.columns;
         }
         
         /**
@@ -200,7 +245,7 @@ module powerbi.visuals {
             else
                 textContent = formattedValue;
 
-            return {
+            let cell: TableCell = {
                 textContent: textContent,
                 domContent: domContent,
                 isMeasure: columnItem.isMeasure,
@@ -209,6 +254,48 @@ module powerbi.visuals {
                 showUrl: UrlHelper.isValidUrl(columnItem, formattedValue),
                 showImage: UrlHelper.isValidImage(columnItem, formattedValue),
               };
+
+            if (!isTotal) {
+                cell.rowIndex = (<DataViewVisualTableRow>rowItem).index;
+                cell.columnIndex = this.getColumnIndex(columnItem);
+            }
+
+            let columnFormatting = this.tableDataView.columnFormatting;
+            if (!isTotal && columnFormatting && columnFormatting[columnIndex] && typeof value === 'number')
+                TableHierarchyNavigator.applyColumnFormatting(cell, columnFormatting[columnIndex], value);
+
+            return cell;
+        }
+
+        private static applyColumnFormatting(cell: TableCell, formatting: TableColumnFormatting, value: number): void {
+            if (formatting.backgroundColor)
+                cell.backgroundColor = formatting.backgroundColor.color(value);
+
+            if (formatting.fontColor)
+                cell.fontColor = formatting.fontColor.color(value);
+
+            let dataBars = formatting.dataBars;
+            if (dataBars) {
+                // The bar grows from the zero axis so that negative values extend to the left of it.
+                let min = Math.min(dataBars.min, 0);
+                let max = Math.max(dataBars.max, 0);
+                let range = max - min;
+                if (range > 0) {
+                    let axis = (-min / range) * 100;
+                    let position = ((Math.max(min, Math.min(max, value)) - min) / range) * 100;
+                    cell.dataBar = {
+                        offset: Math.min(axis, position),
+                        width: Math.abs(position - axis),
+                        color: value < 0 ? dataBars.negativeColor : dataBars.positiveColor,
+                    };
+                }
+            }
+
+            let iconSet = formatting.iconSet;
+            if (iconSet) {
+                let status = value < iconSet.lowerValue ? -1 : value >= iconSet.upperValue ? 1 : 0;
+                cell.iconContent = controls.internal.TablixUtils.createKpiDom(iconSet.statusGraphic, status.toString());
+            }
         }
         
         /**
@@ -229,6 +316,11 @@ module powerbi.visuals {
             if (item1.displayName && item2.displayName) {
                 let column1 = <powerbi.DataViewMetadataColumn>item1;
                 let column2 = <powerbi.DataViewMetadataColumn>item2;
+
+                // Headers need to be bound again to update their sort indicators when only the sort changed.
+                if (column1.sort !== column2.sort || column1.sortOrder !== column2.sortOrder)
+                    return false;
+
                 return powerbi.DataViewAnalysis.areMetadataColumnsEquivalent(column1, column2);
             }
 
@@ -251,6 +343,27 @@ module powerbi.visuals {
             this.tableDataView = table;
         }
 
+        /**
+         * Orders the columns by the query names in columnOrder. Columns that are not listed keep their query order after the listed ones,
+         * so that newly added fields show up at the end.
+         */
+        public static getOrderedColumns(columns: DataViewMetadataColumn[], columnOrder: string[]): DataViewMetadataColumn[] {
+            if (_.isEmpty(columnOrder))
+                return columns;
+
+            return _.sortBy(columns, (column: DataViewMetadataColumn, index: number) => {
+                let position = _.indexOf(columnOrder, TableHierarchyNavigator.getColumnKey(column));
+                return position >= 0 ? position : columnOrder.length + index;
+            });
+        }
+
+        /**
+         * Returns the key that identifies a column in sort descriptors and in the persisted column order.
+         */
+        public static getColumnKey(column: DataViewMetadataColumn): string {
+            return column.queryName ? column.queryName : column.displayName;
+        }
+
         private static getIndex(items: any[], item: any): number {
             for (let index = 0, len = items.length; index < len; index++) {
 
@@ -272,7 +385,10 @@ module powerbi.visuals {
 
     export interface TableBinderOptions {
         onBindRowHeader?(item: any): void;
-        onColumnHeaderClick?(queryName: string): void;
+        onColumnHeaderClick?(queryName: string, isMultiSort?: boolean): void;
+        onColumnHeaderDrop?(queryName: string, targetQueryName: string): void;
+        getSortColumnCount?(): number;
+        rangeSelection?: controls.TablixCellRangeSelection;
     }
     
     /**
@@ -285,9 +401,14 @@ module powerbi.visuals {
         private static lastRowClassName = 'bi-table-last-row';
         private static footerClassName = 'bi-table-footer';
         private static numericCellClassName = 'bi-table-cell-numeric';
+        private static iconClassName = 'bi-table-cell-icon';
+        private static sortIndicatorClassName = 'bi-table-sort-indicator';
+        private static sortPriorityClassName = 'bi-table-sort-priority';
+        private static dropTargetClassName = 'bi-table-drop-target';
         private static nonBreakingSpace = '&nbsp;';
 
         private options: TableBinderOptions;
+        private draggedColumnKey: string;
 
         constructor(options: TableBinderOptions) {
             this.options = options;
@@ -324,12 +445,68 @@ module powerbi.visuals {
             cell.extension.disableDragResize();
             cell.extension.contentHost.textContent = item.displayName;
 
+            if (item.sort)
+                this.appendSortIndicator(item, cell);
+
             if (this.options.onColumnHeaderClick) {
                 let handler = (e: MouseEvent) => {
-                    this.options.onColumnHeaderClick(item.queryName ? item.queryName : item.displayName);
+                    this.options.onColumnHeaderClick(TableHierarchyNavigator.getColumnKey(item), e.shiftKey);
                 };
                 cell.extension.registerClickHandler(handler);
             }
+
+            if (this.options.onColumnHeaderDrop)
+                this.registerColumnHeaderDrag(item, cell);
+        }
+
+        /**
+         * Lets the header be dropped onto another column header to move its column there.
+         */
+        private registerColumnHeaderDrag(item: DataViewMetadataColumn, cell: controls.ITablixCell): void {
+            let columnKey = TableHierarchyNavigator.getColumnKey(item);
+            let tableCell = $(cell.extension.tableCell);
+
+            cell.extension.registerDragHandlers({
+                dragStart: (e: DragEvent) => {
+                    this.draggedColumnKey = columnKey;
+                    e.dataTransfer.effectAllowed = 'move';
+                    // Firefox does not start the drag without data
+                    e.dataTransfer.setData('text', columnKey);
+                },
+                dragOver: (e: DragEvent) => {
+                    if (this.draggedColumnKey == null || this.draggedColumnKey === columnKey)
+                        return;
+
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    tableCell.addClass(TableBinder.dropTargetClassName);
+                },
+                dragLeave: () => tableCell.removeClass(TableBinder.dropTargetClassName),
+                drop: (e: DragEvent) => {
+                    e.preventDefault();
+                    tableCell.removeClass(TableBinder.dropTargetClassName);
+
+                    let draggedColumnKey = this.draggedColumnKey;
+                    this.draggedColumnKey = null;
+                    if (draggedColumnKey != null && draggedColumnKey !== columnKey)
+                        this.options.onColumnHeaderDrop(draggedColumnKey, columnKey);
+                },
+                dragEnd: () => this.draggedColumnKey = null,
+            });
+        }
+
+        private appendSortIndicator(item: DataViewMetadataColumn, cell: controls.ITablixCell): void {
+            let contentHost = $(cell.extension.contentHost);
+            contentHost.append($('<span>')
+                .addClass(TableBinder.sortIndicatorClassName)
+                .addClass(item.sort === data.QuerySortDirection.Descending ? 'descending' : 'ascending'));
+
+            // The priority is only meaningful once more than one column takes part in the sort.
+            if (item.sortOrder != null && this.options.getSortColumnCount && this.options.getSortColumnCount() > 1) {
+                contentHost.append($('<span>')
+                    .addClass(TableBinder.sortPriorityClassName)
+                    .text(item.sortOrder + 1));
+            }
         }
 
         public unbindColumnHeader(item: any, cell: controls.ITablixCell): void {
@@ -339,6 +516,11 @@ module powerbi.visuals {
             if (this.options.onColumnHeaderClick) {
                 cell.extension.unregisterClickHandler();
             }
+
+            if (this.options.onColumnHeaderDrop) {
+                cell.extension.unregisterDragHandlers();
+                $(cell.extension.tableCell).removeClass(TableBinder.dropTargetClassName);
+            }
         }
         
         /**
@@ -354,6 +536,11 @@ module powerbi.visuals {
             else if (item.textContent)
                 cell.extension.contentHost.textContent = item.textContent;
 
+            if (item.iconContent)
+                $(cell.extension.contentHost).prepend(item.iconContent.addClass(TableBinder.iconClassName));
+
+            TableBinder.setConditionalFormattingStyle(item, cell);
+
             let classNames = item.isTotal ?
                 TableBinder.footerClassName :
                 item.isBottomMost ? TableBinder.lastRowClassName : TableBinder.rowClassName;
@@ -362,11 +549,44 @@ module powerbi.visuals {
                 classNames += ' ' + TableBinder.numericCellClassName;
 
             cell.extension.setContainerStyle(classNames);
+
+            if (this.options.rangeSelection && item.rowIndex != null)
+                this.options.rangeSelection.bindCell(cell, { row: item.rowIndex, column: item.columnIndex });
         }
 
         public unbindBodyCell(item: TableCell, cell: controls.ITablixCell): void {
             cell.extension.clearContainerStyle();
             cell.extension.contentHost.textContent = '';
+            TableBinder.clearConditionalFormattingStyle(cell);
+
+            if (this.options.rangeSelection)
+                this.options.rangeSelection.unbindCell(cell);
+        }
+
+        private static setConditionalFormattingStyle(item: TableCell, cell: controls.ITablixCell): void {
+            let tableCellStyle = (<HTMLElement>cell.extension.tableCell).style;
+            tableCellStyle.backgroundColor = item.backgroundColor || '';
+            tableCellStyle.backgroundImage = item.dataBar ? TableBinder.getDataBarGradient(item.dataBar) : '';
+            cell.extension.contentHost.style.color = item.fontColor || '';
+        }
+
+        private static clearConditionalFormattingStyle(cell: controls.ITablixCell): void {
+            let tableCellStyle = (<HTMLElement>cell.extension.tableCell).style;
+            tableCellStyle.backgroundColor = '';
+            tableCellStyle.backgroundImage = '';
+            cell.extension.contentHost.style.color = '';
+        }
+
+        /**
+         * Draws the data bar as a hard-stop gradient so that it sits behind the cell content and scales with the column width.
+         */
+        private static getDataBarGradient(dataBar: TableCellDataBar): string {
+            let start = dataBar.offset + '%';
+            let end = (dataBar.offset + dataBar.width) + '%';
+            return 'linear-gradient(to right, transparent ' + start + ', ' +
+                dataBar.color + ' ' + start + ', ' +
+                dataBar.color + ' ' + end + ', ' +
+                'transparent ' + end + ')';
         }
         
         /**
@@ -442,6 +662,10 @@ module powerbi.visuals {
         /** Property that drives whether columns should use automatically calculated (based on content) sizes for width or use persisted sizes.
         Default is true i.e. automatically calculate width based on column content */
         autoSizeColumnWidth: boolean;
+        /** Number of leading columns that stay in view while scrolling horizontally. */
+        frozenColumns?: number;
+        /** JSON array of the column query names in display order, persisted when a column header is dragged to another position. */
+        columnOrder?: string;
     }
 
     export interface ColumnWidthCallbackType {
@@ -453,7 +677,24 @@ module powerbi.visuals {
         public static formatStringProp: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'formatString' };
         public static totalsProp: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'totals' };
         public static autoSizeProp: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'autoSizeColumnWidth' };
+        public static frozenColumnsProp: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'frozenColumns' };
+        public static columnOrderProp: DataViewObjectPropertyIdentifier = { objectName: 'general', propertyName: 'columnOrder' };
+        public static colorScaleBackgroundProp: DataViewObjectPropertyIdentifier = { objectName: 'colorScale', propertyName: 'background' };
+        public static colorScaleFontColorProp: DataViewObjectPropertyIdentifier = { objectName: 'colorScale', propertyName: 'fontColor' };
+        public static dataBarsShowProp: DataViewObjectPropertyIdentifier = { objectName: 'dataBars', propertyName: 'show' };
+        public static dataBarsPositiveColorProp: DataViewObjectPropertyIdentifier = { objectName: 'dataBars', propertyName: 'positiveColor' };
+        public static dataBarsNegativeColorProp: DataViewObjectPropertyIdentifier = { objectName: 'dataBars', propertyName: 'negativeColor' };
+        public static iconSetShowProp: DataViewObjectPropertyIdentifier = { objectName: 'iconSet', propertyName: 'show' };
+        public static iconSetStyleProp: DataViewObjectPropertyIdentifier = { objectName: 'iconSet', propertyName: 'style' };
+        public static iconSetLowerThresholdProp: DataViewObjectPropertyIdentifier = { objectName: 'iconSet', propertyName: 'lowerThreshold' };
+        public static iconSetUpperThresholdProp: DataViewObjectPropertyIdentifier = { objectName: 'iconSet', propertyName: 'upperThreshold' };
+        private static DefaultDataBarPositiveColor = '#01B8AA';
+        private static DefaultDataBarNegativeColor = '#FD625E';
+        private static DefaultIconSetLowerThreshold = 33;
+        private static DefaultIconSetUpperThreshold = 67;
+        private static conditionalFormattingObjectNames = ['colorScale', 'dataBars', 'iconSet'];
         private static preferredLoadMoreThreshold: number = 0.8;
+        private static exportFileName = 'data.csv';
 
         private element: JQuery;
         private currentViewport: IViewport;
@@ -471,6 +712,7 @@ module powerbi.visuals {
         private waitingForSort: boolean;
         private visualTable: DataViewVisualTable;
         private columnWidthManager: controls.TablixColumnWidthManager;
+        private rangeSelection: controls.TablixCellRangeSelection;
 
         public static customizeQuery(options: CustomizeQueryOptions): void {
             let dataViewMapping = options.dataViewMappings[0];
@@ -504,12 +746,13 @@ module powerbi.visuals {
         /**
          * Note: Public for testability.
          */
-        public static converter(table: DataViewTable): DataViewVisualTable {
+        public static converter(table: DataViewTable, columnOrder?: string[]): DataViewVisualTable {
             debug.assertValue(table, 'table');
             debug.assertValue(table.rows, 'table.rows');
 
             let visualTable = Prototype.inherit<DataViewVisualTable>(table);
             visualTable.visualRows = [];
+            visualTable.visualColumns = TableHierarchyNavigator.getOrderedColumns(table.columns, columnOrder);
 
             for (let i: number = 0; i < table.rows.length; i++) {
                 let visualRow: DataViewVisualTableRow = {
@@ -519,9 +762,123 @@ module powerbi.visuals {
                 visualTable.visualRows.push(visualRow);
             }
 
+            visualTable.columnFormatting = Table.getColumnFormatting(table);
+
             return visualTable;
         }
 
+        /**
+         * Evaluates the color scale, data bar and icon set settings of each measure column against the range of its values.
+         * Note: Public for testability.
+         */
+        public static getColumnFormatting(table: DataViewTable): TableColumnFormatting[] {
+            let columnFormatting: TableColumnFormatting[] = [];
+            let columns = table.columns;
+            if (!columns)
+                return columnFormatting;
+
+            for (let i = 0, len = columns.length; i < len; i++) {
+                let column = columns[i];
+                if (!column.isMeasure || !column.objects)
+                    continue;
+
+                let min: number;
+                let max: number;
+                for (let j = 0, rowCount = table.rows.length; j < rowCount; j++) {
+                    let value = table.rows[j][i];
+                    if (typeof value !== 'number')
+                        continue;
+
+                    if (min === undefined || value < min)
+                        min = value;
+                    if (max === undefined || value > max)
+                        max = value;
+                }
+
+                if (min !== undefined)
+                    columnFormatting[i] = Table.createColumnFormatting(column.objects, min, max);
+            }
+
+            return columnFormatting;
+        }
+
+        private static createColumnFormatting(objects: DataViewObjects, min: number, max: number): TableColumnFormatting {
+            let formatting: TableColumnFormatting = {};
+            let hasFormatting = false;
+
+            let backgroundColor = Table.createColorAllocator(DataViewObjects.getValue<FillRule>(objects, Table.colorScaleBackgroundProp), min, max);
+            if (backgroundColor) {
+                formatting.backgroundColor = backgroundColor;
+                hasFormatting = true;
+            }
+
+            let fontColor = Table.createColorAllocator(DataViewObjects.getValue<FillRule>(objects, Table.colorScaleFontColorProp), min, max);
+            if (fontColor) {
+                formatting.fontColor = fontColor;
+                hasFormatting = true;
+            }
+
+            if (DataViewObjects.getValue<boolean>(objects, Table.dataBarsShowProp, false)) {
+                formatting.dataBars = {
+                    min: min,
+                    max: max,
+                    positiveColor: DataViewObjects.getFillColor(objects, Table.dataBarsPositiveColorProp, Table.DefaultDataBarPositiveColor),
+                    negativeColor: DataViewObjects.getFillColor(objects, Table.dataBarsNegativeColorProp, Table.DefaultDataBarNegativeColor),
+                };
+                hasFormatting = true;
+            }
+
+            if (DataViewObjects.getValue<boolean>(objects, Table.iconSetShowProp, false)) {
+                let lowerThreshold = DataViewObjects.getValue<number>(objects, Table.iconSetLowerThresholdProp, Table.DefaultIconSetLowerThreshold);
+                let upperThreshold = DataViewObjects.getValue<number>(objects, Table.iconSetUpperThresholdProp, Table.DefaultIconSetUpperThreshold);
+                formatting.iconSet = {
+                    statusGraphic: DataViewObjects.getValue<string>(objects, Table.iconSetStyleProp, tableIconSet.trafficLights),
+                    lowerValue: min + (max - min) * lowerThreshold / 100,
+                    upperValue: min + (max - min) * Math.max(lowerThreshold, upperThreshold) / 100,
+                };
+                hasFormatting = true;
+            }
+
+            if (hasFormatting)
+                return formatting;
+        }
+
+        /**
+         * Creates a color allocator for a color scale, taking the column minimum and maximum for stops without a value.
+         */
+        private static createColorAllocator(fillRule: FillRule, min: number, max: number): IColorAllocator {
+            if (!fillRule)
+                return;
+
+            let colorAllocatorFactory = createColorAllocatorFactory();
+            if (fillRule.linearGradient2) {
+                let gradient = fillRule.linearGradient2;
+                return colorAllocatorFactory.linearGradient2({
+                    min: Table.getColorStop(gradient.min, min),
+                    max: Table.getColorStop(gradient.max, max),
+                });
+            }
+
+            if (fillRule.linearGradient3) {
+                let gradient = fillRule.linearGradient3;
+                return colorAllocatorFactory.linearGradient3({
+                    min: Table.getColorStop(gradient.min, min),
+                    mid: Table.getColorStop(gradient.mid, (min + max) / 2),
+                    max: Table.getColorStop(gradient.max, max),
+                }, false);
+            }
+
+            if (fillRule.stepped)
+                return colorAllocatorFactory.stepped(fillRule.stepped);
+        }
+
+        private static getColorStop(stop: RuleColorStop, defaultValue: number): RuleColorStop {
+            return {
+                color: stop.color,
+                value: stop.value != null ? stop.value : defaultValue,
+            };
+        }
+
         public onResizing(finalViewport: IViewport): void {
             this.updateViewport(finalViewport);
         }
@@ -546,9 +903,9 @@ module powerbi.visuals {
             if (dataViews && dataViews.length > 0) {
                 this.dataView = dataViews[0];
                 if (options.operationKind === VisualDataChangeOperationKind.Append) {
-                    let visualTable = Table.converter(this.dataView.table);
-                    this.hierarchyNavigator.update(visualTable);
-                    this.tablixControl.updateModels(/*resetScrollOffsets*/false, visualTable.visualRows);
+                    this.visualTable = Table.converter(this.dataView.table, Table.getColumnOrder(this.getTableDataViewObjects()));
+                    this.hierarchyNavigator.update(this.visualTable);
+                    this.tablixControl.updateModels(/*resetScrollOffsets*/false, this.visualTable.visualRows);
                     this.refreshControl(false);
                 } else {
                     this.createOrUpdateHierarchyNavigatorAndControl();
@@ -563,9 +920,9 @@ module powerbi.visuals {
 
         private populateColumnWidths(): void {
             if (!this.columnWidthManager)
-                this.columnWidthManager = new controls.TablixColumnWidthManager(this.dataView, false /* isMatrix */);
+                this.columnWidthManager = new controls.TablixColumnWidthManager(this.dataView, false /* isMatrix */, undefined, this.visualTable.visualColumns);
             else
-                this.columnWidthManager.updateDataView(this.dataView);
+                this.columnWidthManager.updateDataView(this.dataView, undefined, this.visualTable.visualColumns);
 
             this.columnWidthManager.deserializeTablixColumnWidths();
             if (this.columnWidthManager.persistColumnWidthsOnHost())
@@ -604,7 +961,7 @@ module powerbi.visuals {
         }
 
         private createOrUpdateHierarchyNavigatorAndControl(): void {
-            this.visualTable = Table.converter(this.dataView.table);
+            this.visualTable = Table.converter(this.dataView.table, Table.getColumnOrder(this.getTableDataViewObjects()));
             if (!this.tablixControl) {
                 let dataNavigator = new TableHierarchyNavigator(this.visualTable, this.formatter);
                 this.hierarchyNavigator = dataNavigator;
@@ -620,10 +977,27 @@ module powerbi.visuals {
         private createControl(dataNavigator: TableHierarchyNavigator): controls.TablixControl {
             let layoutKind = this.getLayoutKind();
 
+            // Create Host element
+            let tablixContainer = document.createElement('div');
+            tablixContainer.className = "tablixContainer";
+            this.element.append(tablixContainer);
+
+            if (this.isInteractive) {
+                this.rangeSelection = new controls.TablixCellRangeSelection(tablixContainer, (row: number, column: number) => this.getCellText(row, column));
+
+                let toolbar = controls.TablixDataExport.createToolbar(this.getLocalizedString, (useRawValues: boolean) => this.downloadData(useRawValues));
+                controls.TablixDataExport.bindToolbar(tablixContainer, toolbar, this.hostServices);
+            }
+
             let tableBinderOptions: TableBinderOptions = {
                 onBindRowHeader: (item: any) => this.onBindRowHeader(item),
-                onColumnHeaderClick: (queryName: string) => this.onColumnHeaderClick(queryName),
+                onColumnHeaderClick: (queryName: string, isMultiSort: boolean) => this.onColumnHeaderClick(queryName, isMultiSort),
+                getSortColumnCount: () => this.getSortColumnCount(),
+                rangeSelection: this.rangeSelection,
             };
+            if (this.isInteractive)
+                tableBinderOptions.onColumnHeaderDrop = (queryName: string, targetQueryName: string) => this.onColumnHeaderDrop(queryName, targetQueryName);
+
             let tableBinder = new TableBinder(tableBinderOptions);
             let columnWidthsCallback = () => this.columnWidthManager.getColumnWidths();
             let columnWidthChangedCallback: ColumnWidthCallbackType = (i, w) => this.columnWidthChanged(i, w);
@@ -632,11 +1006,6 @@ module powerbi.visuals {
                 ? controls.internal.DashboardTablixLayoutManager.createLayoutManager(tableBinder)
                 : controls.internal.CanvasTablixLayoutManager.createLayoutManager(tableBinder, columnWidthsCallback, columnWidthChangedCallback);
 
-            // Create Host element
-            let tablixContainer = document.createElement('div');
-            tablixContainer.className = "tablixContainer";
-            this.element.append(tablixContainer);
-
             let tablixOptions: controls.TablixOptions = {
                 interactive: this.isInteractive,
                 enableTouchSupport: false,
@@ -653,8 +1022,14 @@ module powerbi.visuals {
 
             this.verifyHeaderResize();
 
+            // Cell positions refer to the previous rows, so the range selection does not survive a data change.
+            if (this.rangeSelection)
+                this.rangeSelection.clear();
+
+            this.tablixControl.frozenColumnCount = Table.getFrozenColumnCount(<TableDataViewObjects>dataView.metadata.objects);
+
             // Update models before the viewport to make sure column widths are computed correctly
-            this.tablixControl.updateModels(/*resetScrollOffsets*/true, this.visualTable.visualRows, this.visualTable.columns);
+            this.tablixControl.updateModels(/*resetScrollOffsets*/true, this.visualTable.visualRows, this.visualTable.visualColumns);
 
             let totals = this.createTotalsRow(dataView);
             this.tablixControl.rowDimension.setFooter(totals);
@@ -732,6 +1107,73 @@ module powerbi.visuals {
             return controls.AutoSizeColumnWidthDefault;
         }
 
+        private static getFrozenColumnCount(objects: TableDataViewObjects): number {
+            return Math.floor(DataViewObjects.getValue<number>(objects, Table.frozenColumnsProp, 0)) || 0;
+        }
+
+        /**
+         * Reads the persisted column order, ignoring a value that is not a JSON array of query names.
+         * Note: Public for testability.
+         */
+        public static getColumnOrder(objects: DataViewObjects): string[] {
+            let columnOrder = DataViewObjects.getValue<string>(objects, Table.columnOrderProp);
+            if (!columnOrder)
+                return;
+
+            try {
+                let queryNames = JSON.parse(columnOrder);
+                if (_.isArray(queryNames))
+                    return queryNames;
+            }
+            catch (e) {
+                // An unreadable order falls back to the query order
+            }
+        }
+
+        /**
+         * Moves the column to the position of the target column, shifting the columns in between towards the original position.
+         * Note: Public for testability.
+         */
+        public static moveColumn(queryNames: string[], queryName: string, targetQueryName: string): string[] {
+            let targetIndex = _.indexOf(queryNames, targetQueryName);
+            if (targetIndex < 0 || !_.contains(queryNames, queryName))
+                return queryNames;
+
+            let columnOrder = _.without(queryNames, queryName);
+            columnOrder.splice(targetIndex, 0, queryName);
+            return columnOrder;
+        }
+
+        /**
+         * Applies the new column order to the loaded data right away and persists it, so the order survives without querying again.
+         */
+        private onColumnHeaderDrop(queryName: string, targetQueryName: string): void {
+            let queryNames = _.map(this.visualTable.visualColumns, (column: DataViewMetadataColumn) => TableHierarchyNavigator.getColumnKey(column));
+            let columnOrder = Table.moveColumn(queryNames, queryName, targetQueryName);
+            if (_.isEqual(columnOrder, queryNames))
+                return;
+
+            this.visualTable = Table.converter(this.dataView.table, columnOrder);
+            this.hierarchyNavigator.update(this.visualTable);
+            this.populateColumnWidths();
+
+            if (this.rangeSelection)
+                this.rangeSelection.clear();
+
+            this.tablixControl.updateModels(/*resetScrollOffsets*/false, this.visualTable.visualRows, this.visualTable.visualColumns);
+            this.refreshControl(/*clear*/true);
+
+            this.hostServices.persistProperties({
+                merge: [{
+                    selector: null,
+                    objectName: Table.columnOrderProp.objectName,
+                    properties: {
+                        columnOrder: data.SQExprBuilder.text(JSON.stringify(columnOrder))
+                    }
+                }]
+            });
+        }
+
         private onBindRowHeader(item: any): void {
             if (this.needsMoreData(item)) {
                 this.hostServices.loadMoreData();
@@ -739,10 +1181,10 @@ module powerbi.visuals {
             }
         }
 
-        private onColumnHeaderClick(queryName: string) {
-            let sortDescriptors: SortableFieldDescriptor[] = [{
-                queryName: queryName,
-            }];
+        private onColumnHeaderClick(queryName: string, isMultiSort: boolean) {
+            let sortDescriptors: SortableFieldDescriptor[] = isMultiSort && this.dataView.table
+                ? Table.getMultiSortDescriptors(this.dataView.table.columns, queryName)
+                : [{ queryName: queryName }];
             let args: CustomSortEventArgs = {
                 sortDescriptors: sortDescriptors
             };
@@ -750,6 +1192,45 @@ module powerbi.visuals {
             this.hostServices.onCustomSort(args);
         }
         
+        /**
+         * Adds a column to the end of the current sort, or reverses its direction if the column is already sorted.
+         * Note: Public for testability.
+         */
+        public static getMultiSortDescriptors(columns: DataViewMetadataColumn[], queryName: string): SortableFieldDescriptor[] {
+            let sortedColumns = _.sortBy(
+                _.filter(columns, (column: DataViewMetadataColumn) => !!column.sort),
+                (column: DataViewMetadataColumn) => column.sortOrder);
+
+            let sortDescriptors: SortableFieldDescriptor[] = _.map(sortedColumns, (column: DataViewMetadataColumn) => {
+                return {
+                    queryName: TableHierarchyNavigator.getColumnKey(column),
+                    sortDirection: column.sort,
+                };
+            });
+
+            let sortDescriptor = _.find(sortDescriptors, (descriptor: SortableFieldDescriptor) => descriptor.queryName === queryName);
+            if (sortDescriptor) {
+                sortDescriptor.sortDirection = sortDescriptor.sortDirection === data.QuerySortDirection.Ascending
+                    ? data.QuerySortDirection.Descending
+                    : data.QuerySortDirection.Ascending;
+            }
+            else {
+                sortDescriptors.push({
+                    queryName: queryName,
+                    sortDirection: data.QuerySortDirection.Ascending,
+                });
+            }
+
+            return sortDescriptors;
+        }
+
+        private getSortColumnCount(): number {
+            if (!this.dataView || !this.dataView.table || !this.dataView.table.columns)
+                return 0;
+
+            return _.filter(this.dataView.table.columns, (column: DataViewMetadataColumn) => !!column.sort).length;
+        }
+
         /**
          * Note: Public for testability.
          */
@@ -763,6 +1244,49 @@ module powerbi.visuals {
             return this.hierarchyNavigator.getIndex(item) >= loadMoreThreshold;
         }
 
+        private getCellText(row: number, column: number): string {
+            let visualRow = this.visualTable.visualRows[row];
+            let columnItem = this.visualTable.visualColumns[column];
+            if (!visualRow || !columnItem)
+                return '';
+
+            return this.hierarchyNavigator.getIntersection(visualRow, columnItem).textContent || '';
+        }
+
+        /**
+         * Serializes all loaded rows, and the totals when they are shown, as CSV.
+         * Note: Public for testability.
+         */
+        public exportData(useRawValues?: boolean): string {
+            if (!this.dataView || !this.dataView.table)
+                return '';
+
+            let table = this.dataView.table;
+            // Columns are exported in display order, while the values of each row stay in query order
+            let columns = this.visualTable ? this.visualTable.visualColumns : table.columns;
+            let valueIndices = _.map(columns, (column: DataViewMetadataColumn) => _.indexOf(table.columns, column));
+            let rows: string[][] = [_.map(columns, (column: DataViewMetadataColumn) => column.displayName)];
+            let totals = this.createTotalsRow(this.dataView);
+            let values = totals ? table.rows.concat([totals.totalCells]) : table.rows;
+
+            for (let i = 0, len = values.length; i < len; i++) {
+                let cells: string[] = [];
+                for (let j = 0, columnCount = columns.length; j < columnCount; j++) {
+                    let value = values[i][valueIndices[j]];
+                    cells.push(useRawValues
+                        ? controls.TablixDataExport.getRawText(value)
+                        : this.formatter(value, valueFormatter.getFormatString(columns[j], Table.formatStringProp)));
+                }
+                rows.push(cells);
+            }
+
+            return controls.TablixDataExport.toCsv(rows);
+        }
+
+        private downloadData(useRawValues: boolean): void {
+            controls.TablixDataExport.downloadCsv(Table.exportFileName, this.exportData(useRawValues));
+        }
+
         private getTableDataViewObjects(): TableDataViewObjects {
             if (this.dataView && this.dataView.metadata && this.dataView.metadata.objects)
                 return <TableDataViewObjects>this.dataView.metadata.objects;
@@ -780,13 +1304,59 @@ module powerbi.visuals {
                     properties: {
                         totals: Table.shouldShowTotals(objects),
                         autoSizeColumnWidth: this.shouldAutoSizeColumnWidth(objects),
+                        frozenColumns: Table.getFrozenColumnCount(objects),
                     },
                     objectName: options.objectName
                 });
             }
+            else if (this.dataView && this.dataView.table && _.contains(Table.conditionalFormattingObjectNames, options.objectName)) {
+                this.enumerateConditionalFormatting(options.objectName, instances);
+            }
             return instances;
         }
 
+        private enumerateConditionalFormatting(objectName: string, instances: VisualObjectInstance[]): void {
+            let columns = this.dataView.table.columns;
+            for (let i = 0, len = columns.length; i < len; i++) {
+                let column = columns[i];
+                if (!column.isMeasure || !column.queryName)
+                    continue;
+
+                let objects = column.objects;
+                let properties: { [propertyName: string]: DataViewPropertyValue };
+                switch (objectName) {
+                    case 'colorScale':
+                        properties = {
+                            background: DataViewObjects.getValue<FillRule>(objects, Table.colorScaleBackgroundProp),
+                            fontColor: DataViewObjects.getValue<FillRule>(objects, Table.colorScaleFontColorProp),
+                        };
+                        break;
+                    case 'dataBars':
+                        properties = {
+                            show: DataViewObjects.getValue<boolean>(objects, Table.dataBarsShowProp, false),
+                            positiveColor: DataViewObjects.getFillColor(objects, Table.dataBarsPositiveColorProp, Table.DefaultDataBarPositiveColor),
+                            negativeColor: DataViewObjects.getFillColor(objects, Table.dataBarsNegativeColorProp, Table.DefaultDataBarNegativeColor),
+                        };
+                        break;
+                    case 'iconSet':
+                        properties = {
+                            show: DataViewObjects.getValue<boolean>(objects, Table.iconSetShowProp, false),
+                            style: DataViewObjects.getValue<string>(objects, Table.iconSetStyleProp, tableIconSet.trafficLights),
+                            lowerThreshold: DataViewObjects.getValue<number>(objects, Table.iconSetLowerThresholdProp, Table.DefaultIconSetLowerThreshold),
+                            upperThreshold: DataViewObjects.getValue<number>(objects, Table.iconSetUpperThresholdProp, Table.DefaultIconSetUpperThreshold),
+                        };
+                        break;
+                }
+
+                instances.push({
+                    selector: { metadata: column.queryName },
+                    displayName: column.displayName,
+                    properties: properties,
+                    objectName: objectName
+                });
+            }
+        }
+
         private shouldAllowHeaderResize(): boolean {
             return this.hostServices.getViewMode() === ViewMode.Edit;
         }
@@ -44,6 +44,8 @@ module jsCommon {
         export const rightArrowKeyCode = 39;
         export const homeKeyCode = 36;
         export const endKeyCode = 35;
+        export const pageUpKeyCode = 33;
+        export const pageDownKeyCode = 34;
         export const backSpaceKeyCode = 8;
         export const deleteKeyCode = 46;
         export const spaceKeyCode = 32;
@@ -38,5 +38,7 @@ module powerbi {
         linearGradient2(options: LinearGradient2): IColorAllocator;
         /** Creates a gradient that that transitions between three colors. */
         linearGradient3(options: LinearGradient3, splitScales: boolean): IColorAllocator;
+        /** Creates a set of solid color bands separated by threshold values. */
+        stepped(options: Stepped): IColorAllocator;
     }
 } 
\ No newline at end of file
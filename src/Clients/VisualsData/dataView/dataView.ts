@@ -77,6 +77,12 @@ module powerbi {
 
         /** The name of the statusGraphic to use to convert the numeric Kpi value into the visual representation.*/
         kpiStatusGraphic?: string;
+
+        /** The direction in which the query is sorted by this column, if it is sorted by this column. */
+        sort?: data.QuerySortDirection;
+
+        /** The priority of this column within a multi-column sort, starting at 0 for the primary sort column. */
+        sortOrder?: number;
     }
 
     export interface DataViewSegmentMetadata {
@@ -87,7 +87,17 @@ module powerbi.data {
                 descriptors,
                 (propDesc: DataViewObjectPropertyDescriptor) => {
                     let propType: StructuralTypeDescriptor = propDesc.type;
-                    return propType && !!propType.filter;
+                    return propType && !!propType.filter && !propType.filter.selfFilter;
+                });
+        }
+
+        /** Attempts to find the self filter property.  A self filter only restricts the query of the visual that defines it. */
+        export function findSelfFilter(descriptors: DataViewObjectDescriptors): DataViewObjectPropertyIdentifier {
+            return findProperty(
+                descriptors,
+                (propDesc: DataViewObjectPropertyDescriptor) => {
+                    let propType: StructuralTypeDescriptor = propDesc.type;
+                    return propType && !!propType.filter && !!propType.filter.selfFilter;
                 });
         }
 
@@ -123,6 +123,14 @@ module powerbi.data {
                     }
                 };
             }
+
+            if (fillRuleDefn.stepped) {
+                return {
+                    stepped: {
+                        stops: _.map(fillRuleDefn.stepped.stops, evaluateColorStop),
+                    }
+                };
+            }
         }
 
         function evaluateColorStop(colorStop: RuleColorStopDefinition): RuleColorStop {
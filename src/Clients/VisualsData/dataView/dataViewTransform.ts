@@ -804,6 +804,8 @@ module powerbi.data {
                 colorAllocator = createColorAllocatorLinearGradient2(dataView, colorAllocatorFactory, ruleDesc, propertyValue, propertyValue.linearGradient2);
             else if (propertyValue.linearGradient3)
                 colorAllocator = createColorAllocatorLinearGradient3(dataView, colorAllocatorFactory, ruleDesc, propertyValue, propertyValue.linearGradient3);
+            else if (propertyValue.stepped && !_.isEmpty(propertyValue.stepped.stops))
+                colorAllocator = colorAllocatorFactory.stepped(propertyValue.stepped);
 
             if (!colorAllocator)
                 return;
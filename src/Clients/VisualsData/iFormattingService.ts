@@ -64,5 +64,8 @@ module powerbi {
 
         /** Gets the format string to use for dates in particular units. */
         dateFormatString(unit: DateTimeUnit): string;
+
+        /** Gets the culture associated with the specified cultureSelector, or the current culture when it is undefined. */
+        getCulture(cultureSelector?: string): Culture;
     }
 }
\ No newline at end of file
@@ -41,12 +41,13 @@ module powerbi {
     export interface FillRuleGeneric<TColor, TValue> {
         linearGradient2?: LinearGradient2Generic<TColor, TValue>;
         linearGradient3?: LinearGradient3Generic<TColor, TValue>;
-        // stepped2?
+        stepped?: SteppedGeneric<TColor, TValue>;
         // ...
     }
 
     export type LinearGradient2 = LinearGradient2Generic<string, number>;
     export type LinearGradient3 = LinearGradient3Generic < string, number>;
+    export type Stepped = SteppedGeneric<string, number>;
 
     export interface LinearGradient2Generic<TColor, TValue> {
         max: RuleColorStopGeneric<TColor, TValue>;
@@ -59,6 +60,11 @@ module powerbi {
         min: RuleColorStopGeneric<TColor, TValue>;
     }
 
+    /** Assigns each value the color of the highest stop whose value it reaches; a stop without a value applies from negative infinity. */
+    export interface SteppedGeneric<TColor, TValue> {
+        stops: RuleColorStopGeneric<TColor, TValue>[];
+    }
+
     export type RuleColorStopDefinition = RuleColorStopGeneric<SQExpr, SQExpr>;
     export type RuleColorStop = RuleColorStopGeneric<string, number>;
 
@@ -26,5 +26,7 @@
 
 module powerbi {
     export interface FilterTypeDescriptor {
+        /** Indicates that the filter only applies to the visual that owns it, rather than being propagated to other visuals. */
+        selfFilter?: boolean;
     }
 }
\ No newline at end of file